@@ -1,23 +1,36 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.19;
 
+/**
+ * @dev Minimal ERC-20 surface used for stablecoin escrows.
+ */
+interface IERC20 {
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
 /**
  * @title EscrowXContract
  * @dev A fully decentralized freelancing marketplace escrow contract.
- *      Supports service listing (via IPFS hash), trustless payments, and basic dispute flags.
+ *      Supports service listing (via IPFS hash), trustless payments in native currency or
+ *      allow-listed ERC-20 stablecoins, and arbitrated disputes.
+ *      Build with the optimizer and viaIR enabled: the legacy pipeline produces runtime code
+ *      above the 24 KB deployment limit (EIP-170).
  */
 contract EscrowXContract {
     // Enum for Escrow State
-    enum EscrowState { AWAITING_PAYMENT, AWAITING_DELIVERY, COMPLETED, DISPUTED, REFUNDED }
+    enum EscrowState { AWAITING_PAYMENT, AWAITING_DELIVERY, COMPLETED, DISPUTED, REFUNDED, OFFERED }
 
     struct Service {
         uint256 id;
         address payable seller;
         string title;
         string description; // IPFS hash or short text
-        uint256 price;      // In wei (MATIC/ETH)
+        uint256 price;      // In wei (MATIC/ETH) or the token's smallest unit
         uint256 deliveryTime; // In seconds
         bool isActive;
+        address paymentToken; // address(0) for native MATIC/ETH, otherwise an ERC-20
+        uint256 maxRevisions; // Revisions a buyer may request after delivery
     }
 
     struct Escrow {
@@ -30,9 +43,54 @@ contract EscrowXContract {
         EscrowState state;
         bool buyerConfirmed;
         bool sellerDelivered;
+        address paymentToken; // Snapshot of the service token at purchase time
+        uint256 deliveryDeadline; // createdAt + service deliveryTime
+        uint256 deliveredAt;      // Set by markDelivered, starts the buyer's review window
+        uint256 feeBps;           // Platform fee snapshot at creation, charged on seller payouts
+        uint256 maxRevisions;     // Snapshot of the service's maxRevisions (0 for custom escrows)
+        uint256 revisionsUsed;    // Revisions the buyer has requested so far
+    }
+
+    struct Milestone {
+        uint256 amount;
+        string description; // IPFS hash of the milestone scope
+        uint256 deadline;   // Unix timestamp
+        EscrowState state;
+        bool sellerDelivered;
+        uint256 deliveredAt;
+    }
+
+    struct Rating {
+        uint256 total; // Sum of all 1-5 scores received
+        uint256 count;
+    }
+
+    struct Settlement {
+        address proposedBy; // address(0) when no proposal is pending
+        uint256 buyerBps;   // Share of the escrow returned to the buyer, in basis points
+    }
+
+    struct Evidence {
+        address submittedBy;
+        string cid;         // IPFS CID of the evidence bundle
+        uint256 submittedAt;
     }
 
+    uint256 public constant BPS_DENOMINATOR = 10000;
+    uint256 public constant REVIEW_WINDOW = 3 days; // Buyer silence after delivery before the seller may claim
+    uint256 public constant REVISION_EXTENSION = 3 days; // Added to the delivery deadline by each revision request
+    uint256 public constant MAX_FEE_BPS = 1000; // Platform fee cap (10%)
+
     // Storage
+    address public owner;
+    mapping(address => bool) public pausers;         // May pause and unpause new listings and escrows
+    mapping(address => bool) public arbiterManagers; // May grant and revoke the arbiter role
+    bool public paused;
+    address public treasury;  // Receives platform fees
+    uint256 public feeBps;    // Platform fee for new escrows; 0 runs the marketplace fee-exempt
+    mapping(address => bool) public arbiters;
+    mapping(address => bool) public supportedTokens; // ERC-20s services may be priced in
+
     uint256 public serviceCounter;
     uint256 public escrowCounter;
 
@@ -40,45 +98,294 @@ contract EscrowXContract {
     mapping(uint256 => Escrow) public escrows;
     mapping(address => uint256[]) public userServices; // Services created by a user
     mapping(address => uint256[]) public userEscrows;  // Escrows a user is part of (buyer or seller)
+    mapping(uint256 => Evidence[]) public disputeEvidence; // Evidence submitted for a disputed escrow
+    mapping(uint256 => Milestone[]) public escrowMilestones; // Phases of a milestone-based escrow (empty for single-payment escrows)
+    mapping(uint256 => string) public escrowTerms; // IPFS hash of the negotiated terms of a custom escrow
+    mapping(uint256 => bool) public offerCancelled; // Custom offer declined or withdrawn before acceptance, so there is no work to review
+    mapping(uint256 => string) public deliverables; // IPFS CID of the deliverable bundle the seller attached to markDelivered
+    mapping(uint256 => Settlement) public settlements; // Pending mutual settlement proposal per escrow
+    mapping(address => Rating) public ratings; // Reviews received by a user, as buyer or seller
+    mapping(uint256 => mapping(address => bool)) public hasReviewed; // One review per participant per escrow
+    mapping(address => uint256) public accruedFees; // Platform fees per payment token awaiting withdrawal by the treasury
+    mapping(address => mapping(address => uint256)) public balances; // Released and refunded funds per account and payment token, awaiting withdraw
+
+    uint256 private locked = 1; // Reentrancy guard for functions that send funds out
 
     // Events
-    event ServiceCreated(uint256 indexed id, address indexed seller, string title, uint256 price);
+    event ServiceCreated(uint256 indexed id, address indexed seller, string title, uint256 price, address paymentToken);
+    event ServiceUpdated(uint256 indexed id, string title, uint256 price, uint256 deliveryTime, address paymentToken);
+    event ServiceActiveChanged(uint256 indexed id, bool isActive);
     event EscrowCreated(uint256 indexed id, uint256 indexed serviceId, address indexed buyer, address seller, uint256 amount);
-    event DeliveryConfirmed(uint256 indexed id, address indexed seller);
+    event DeliveryConfirmed(uint256 indexed id, address indexed seller, string deliverableCid);
     event FundsReleased(uint256 indexed id, address indexed seller, uint256 amount);
     event DisputeRaised(uint256 indexed id, address indexed raisedBy);
+    event RevisionRequested(uint256 indexed id, address indexed buyer, string noteCid, uint256 deliveryDeadline);
     event Refunded(uint256 indexed id, address indexed buyer, uint256 amount);
+    event EvidenceSubmitted(uint256 indexed id, address indexed submittedBy, string cid);
+    event DisputeResolved(uint256 indexed id, address indexed arbiter, uint256 buyerAmount, uint256 sellerAmount);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event PauserUpdated(address indexed pauser, bool enabled);
+    event ArbiterManagerUpdated(address indexed manager, bool enabled);
+    event Paused(address indexed by);
+    event Unpaused(address indexed by);
+    event ArbiterUpdated(address indexed arbiter, bool enabled);
+    event SupportedTokenUpdated(address indexed token, bool supported);
+    event CustomOfferCreated(uint256 indexed id, address indexed buyer, address indexed seller, string termsCid);
+    event OfferAccepted(uint256 indexed id, address indexed seller);
+    event OfferDeclined(uint256 indexed id, address indexed seller);
+    event MilestoneFunded(uint256 indexed id, uint256 indexed index, uint256 amount);
+    event MilestoneDelivered(uint256 indexed id, uint256 indexed index);
+    event MilestoneReleased(uint256 indexed id, uint256 indexed index, uint256 amount);
+    event MilestoneDisputed(uint256 indexed id, uint256 indexed index, address indexed raisedBy);
+    event MilestoneRefunded(uint256 indexed id, uint256 indexed index, uint256 amount);
+    event MilestoneDisputeResolved(uint256 indexed id, uint256 indexed index, uint256 buyerAmount, uint256 sellerAmount);
+    event PlatformFeeUpdated(uint256 feeBps);
+    event TreasuryUpdated(address indexed treasury);
+    event FeeCharged(uint256 indexed id, address indexed token, uint256 amount);
+    event FeesWithdrawn(address indexed token, address indexed treasury, uint256 amount);
+    event Withdrawn(address indexed account, address indexed token, uint256 amount);
+    event SettlementProposed(uint256 indexed id, address indexed proposedBy, uint256 buyerBps);
+    event SettlementAccepted(uint256 indexed id, address indexed acceptedBy, uint256 buyerAmount, uint256 sellerAmount);
+    event SettlementDeclined(uint256 indexed id, address indexed declinedBy);
+    event ReviewSubmitted(uint256 indexed id, address indexed reviewer, address indexed reviewee, uint8 rating, string commentCid);
 
     // Modifiers
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner can call this.");
+        _;
+    }
+
+    // The owner holds every role implicitly
+    modifier onlyPauser() {
+        require(msg.sender == owner || pausers[msg.sender], "Only pauser can call this.");
+        _;
+    }
+
+    modifier onlyArbiterManager() {
+        require(msg.sender == owner || arbiterManagers[msg.sender], "Only arbiter manager can call this.");
+        _;
+    }
+
+    modifier whenNotPaused() {
+        require(!paused, "Contract is paused.");
+        _;
+    }
+
+    modifier nonReentrant() {
+        require(locked == 1, "Reentrant call.");
+        locked = 2;
+        _;
+        locked = 1;
+    }
+
+    // The escrow checks below run through internal functions so each is compiled once rather
+    // than inlined into every function that uses it, keeping the contract under the size limit
+
+    modifier onlyParticipant(uint256 _escrowId) {
+        _checkParticipant(_escrowId);
+        _;
+    }
+
     modifier onlyBuyer(uint256 _escrowId) {
-        require(msg.sender == escrows[_escrowId].buyer, "Only buyer can call this.");
+        _checkBuyer(_escrowId);
         _;
     }
 
     modifier onlySeller(uint256 _escrowId) {
-        require(msg.sender == escrows[_escrowId].seller, "Only seller can call this.");
+        _checkSeller(_escrowId);
         _;
     }
 
     modifier inState(uint256 _escrowId, EscrowState _state) {
-        require(escrows[_escrowId].state == _state, "Invalid state.");
+        _checkState(_escrowId, _state);
+        _;
+    }
+
+    modifier withoutMilestones(uint256 _escrowId) {
+        _checkWithoutMilestones(_escrowId);
+        _;
+    }
+
+    modifier milestoneInState(uint256 _escrowId, uint256 _index, EscrowState _state) {
+        _checkMilestoneState(_escrowId, _index, _state);
         _;
     }
 
+    // Arbiters may not rule on escrows they are a party to
+    modifier onlyArbiter(uint256 _escrowId) {
+        _checkArbiter(_escrowId);
+        _;
+    }
+
+    function _checkParticipant(uint256 _escrowId) internal view {
+        require(msg.sender == escrows[_escrowId].buyer || msg.sender == escrows[_escrowId].seller, "Only participants can call this.");
+    }
+
+    function _checkBuyer(uint256 _escrowId) internal view {
+        require(msg.sender == escrows[_escrowId].buyer, "Only buyer can call this.");
+    }
+
+    function _checkSeller(uint256 _escrowId) internal view {
+        require(msg.sender == escrows[_escrowId].seller, "Only seller can call this.");
+    }
+
+    function _checkState(uint256 _escrowId, EscrowState _state) internal view {
+        require(escrows[_escrowId].state == _state, "Invalid state.");
+    }
+
+    function _checkWithoutMilestones(uint256 _escrowId) internal view {
+        require(escrowMilestones[_escrowId].length == 0, "Use milestone functions.");
+    }
+
+    function _checkMilestoneState(uint256 _escrowId, uint256 _index, EscrowState _state) internal view {
+        require(_index < escrowMilestones[_escrowId].length, "Invalid milestone.");
+        require(escrowMilestones[_escrowId][_index].state == _state, "Invalid milestone state.");
+    }
+
+    function _checkArbiter(uint256 _escrowId) internal view {
+        require(arbiters[msg.sender], "Only arbiter can call this.");
+        require(msg.sender != escrows[_escrowId].buyer && msg.sender != escrows[_escrowId].seller, "Arbiter is a party to this escrow.");
+    }
+
+    constructor() {
+        owner = msg.sender;
+        treasury = msg.sender;
+        arbiters[msg.sender] = true;
+        emit ArbiterUpdated(msg.sender, true);
+    }
+
+    /**
+     * @dev Hands the owner role, and with it every other role, to a new address. The arbiter
+     * flag the deployer starts with moves too, unless it was revoked from the owner earlier.
+     * @param _newOwner Address of the new owner.
+     */
+    function transferOwnership(address _newOwner) external onlyOwner {
+        require(_newOwner != address(0), "Invalid owner");
+        emit OwnershipTransferred(owner, _newOwner);
+        if (arbiters[owner]) {
+            arbiters[owner] = false;
+            arbiters[_newOwner] = true;
+            emit ArbiterUpdated(owner, false);
+            emit ArbiterUpdated(_newOwner, true);
+        }
+        owner = _newOwner;
+    }
+
+    /**
+     * @dev Grants or revokes the pauser role.
+     * @param _pauser Address of the pauser.
+     * @param _enabled Whether the address may pause the contract.
+     */
+    function setPauser(address _pauser, bool _enabled) external onlyOwner {
+        require(_pauser != address(0), "Invalid pauser");
+        pausers[_pauser] = _enabled;
+        emit PauserUpdated(_pauser, _enabled);
+    }
+
+    /**
+     * @dev Grants or revokes the arbiter manager role.
+     * @param _manager Address of the arbiter manager.
+     * @param _enabled Whether the address may manage arbiters.
+     */
+    function setArbiterManager(address _manager, bool _enabled) external onlyOwner {
+        require(_manager != address(0), "Invalid manager");
+        arbiterManagers[_manager] = _enabled;
+        emit ArbiterManagerUpdated(_manager, _enabled);
+    }
+
+    /**
+     * @dev Emergency stop: no new services or escrows can be created while paused. Existing
+     *      escrows keep working so they can still be delivered, settled, refunded and withdrawn.
+     */
+    function pause() external onlyPauser {
+        require(!paused, "Already paused.");
+        paused = true;
+        emit Paused(msg.sender);
+    }
+
+    function unpause() external onlyPauser {
+        require(paused, "Not paused.");
+        paused = false;
+        emit Unpaused(msg.sender);
+    }
+
+    /**
+     * @dev Sets the platform fee for escrows created from now on. Existing escrows keep the fee
+     *      they were created with.
+     * @param _feeBps Fee in basis points, at most MAX_FEE_BPS. 0 disables the fee.
+     */
+    function setPlatformFee(uint256 _feeBps) external onlyOwner {
+        require(_feeBps <= MAX_FEE_BPS, "Fee above cap");
+        feeBps = _feeBps;
+        emit PlatformFeeUpdated(_feeBps);
+    }
+
+    /**
+     * @dev Changes the address allowed to withdraw accrued platform fees.
+     * @param _treasury Address of the treasury.
+     */
+    function setTreasury(address _treasury) external onlyOwner {
+        require(_treasury != address(0), "Invalid treasury");
+        treasury = _treasury;
+        emit TreasuryUpdated(_treasury);
+    }
+
+    /**
+     * @dev Treasury pulls the platform fees accrued in one currency.
+     * @param _token ERC-20 to withdraw, or address(0) for native currency.
+     */
+    function withdrawFees(address _token) external nonReentrant {
+        require(msg.sender == treasury, "Only treasury can call this.");
+        uint256 amount = accruedFees[_token];
+        require(amount > 0, "Nothing to withdraw");
+
+        accruedFees[_token] = 0;
+        _transferOut(_token, payable(msg.sender), amount);
+        emit FeesWithdrawn(_token, msg.sender, amount);
+    }
+
+    /**
+     * @dev Grants or revokes the arbiter role used to resolve disputes.
+     * @param _arbiter Address of the arbiter.
+     * @param _enabled Whether the address may resolve disputes.
+     */
+    function setArbiter(address _arbiter, bool _enabled) external onlyArbiterManager {
+        require(_arbiter != address(0), "Invalid arbiter");
+        arbiters[_arbiter] = _enabled;
+        emit ArbiterUpdated(_arbiter, _enabled);
+    }
+
+    /**
+     * @dev Allows or disallows an ERC-20 token (e.g. USDC/USDT) as a service payment currency.
+     * @param _token Address of the ERC-20 token.
+     * @param _supported Whether new services may be priced in the token.
+     */
+    function setSupportedToken(address _token, bool _supported) external onlyOwner {
+        require(_token != address(0), "Invalid token");
+        supportedTokens[_token] = _supported;
+        emit SupportedTokenUpdated(_token, _supported);
+    }
+
     /**
      * @dev Create a new service listing.
      * @param _title Title of the service.
      * @param _description Description or IPFS hash.
-     * @param _price Price in wei.
+     * @param _price Price in wei, or in the token's smallest unit.
      * @param _deliveryTime Time to deliver in seconds.
+     * @param _paymentToken ERC-20 the service is paid in, or address(0) for native currency.
+     * @param _maxRevisions Revisions a buyer may request after each purchase is delivered.
      */
     function createService(
         string memory _title,
         string memory _description,
         uint256 _price,
-        uint256 _deliveryTime
-    ) external {
+        uint256 _deliveryTime,
+        address _paymentToken,
+        uint256 _maxRevisions
+    ) external whenNotPaused {
         require(_price > 0, "Price must be greater than 0");
+        require(_deliveryTime > 0, "Delivery time must be greater than 0");
+        require(_paymentToken == address(0) || supportedTokens[_paymentToken], "Unsupported payment token");
         
         serviceCounter++;
         services[serviceCounter] = Service({
@@ -88,94 +395,736 @@ contract EscrowXContract {
             description: _description,
             price: _price,
             deliveryTime: _deliveryTime,
-            isActive: true
+            isActive: true,
+            paymentToken: _paymentToken,
+            maxRevisions: _maxRevisions
         });
 
         userServices[msg.sender].push(serviceCounter);
-        emit ServiceCreated(serviceCounter, msg.sender, _title, _price);
+        emit ServiceCreated(serviceCounter, msg.sender, _title, _price, _paymentToken);
+    }
+
+    /**
+     * @dev Seller edits a listing. Escrows already opened keep the price, token, delivery
+     *      time and revisions they were created with; only new purchases use the updated terms.
+     * @param _serviceId The ID of the service.
+     * @param _title Title of the service.
+     * @param _description Description or IPFS hash.
+     * @param _price Price in wei, or in the token's smallest unit.
+     * @param _deliveryTime Time to deliver in seconds.
+     * @param _paymentToken ERC-20 the service is paid in, or address(0) for native currency.
+     * @param _maxRevisions Revisions a buyer may request after each purchase is delivered.
+     */
+    function updateService(
+        uint256 _serviceId,
+        string memory _title,
+        string memory _description,
+        uint256 _price,
+        uint256 _deliveryTime,
+        address _paymentToken,
+        uint256 _maxRevisions
+    ) external {
+        Service storage service = services[_serviceId];
+        require(msg.sender == service.seller, "Only seller can call this.");
+        require(_price > 0, "Price must be greater than 0");
+        require(_deliveryTime > 0, "Delivery time must be greater than 0");
+        require(_paymentToken == address(0) || supportedTokens[_paymentToken], "Unsupported payment token");
+
+        service.title = _title;
+        service.description = _description;
+        service.price = _price;
+        service.deliveryTime = _deliveryTime;
+        service.paymentToken = _paymentToken;
+        service.maxRevisions = _maxRevisions;
+
+        emit ServiceUpdated(_serviceId, _title, _price, _deliveryTime, _paymentToken);
+    }
+
+    /**
+     * @dev Seller pauses or resumes a listing. Inactive services cannot be purchased.
+     * @param _serviceId The ID of the service.
+     * @param _active Whether the service can be purchased.
+     */
+    function setServiceActive(uint256 _serviceId, bool _active) external {
+        require(msg.sender == services[_serviceId].seller, "Only seller can call this.");
+        services[_serviceId].isActive = _active;
+        emit ServiceActiveChanged(_serviceId, _active);
     }
 
     /**
      * @dev Buyer initiates an escrow transaction for a service.
+     *      Token-priced services pull the price via transferFrom, so the buyer must approve it first.
      * @param _serviceId The ID of the service to purchase.
      */
-    function createEscrow(uint256 _serviceId) external payable {
-        Service memory service = services[_serviceId];
-        require(service.isActive, "Service is not active");
-        require(msg.value == service.price, "Incorrect payment amount");
-        require(msg.sender != service.seller, "Seller cannot buy own service");
+    function createEscrow(uint256 _serviceId) external payable whenNotPaused {
+        uint256 escrowId = _openEscrow(_serviceId);
+        _collectPayment(escrows[escrowId].paymentToken, escrows[escrowId].amount);
+    }
 
-        escrowCounter++;
-        escrows[escrowCounter] = Escrow({
-            id: escrowCounter,
-            serviceId: _serviceId,
-            buyer: payable(msg.sender),
-            seller: service.seller,
-            amount: msg.value,
-            createdAt: block.timestamp,
-            state: EscrowState.AWAITING_DELIVERY,
-            buyerConfirmed: false,
-            sellerDelivered: false
-        });
+    /**
+     * @dev Buyer initiates an escrow paid in phases. The milestone amounts must add up to the
+     *      service price; the first milestone is funded with this call, the rest via fundMilestone.
+     * @param _serviceId The ID of the service to purchase.
+     * @param _amounts Amount of each milestone in wei.
+     * @param _descriptions IPFS hash describing each milestone.
+     * @param _deadlines Delivery deadline (unix timestamp) of each milestone.
+     */
+    function createMilestoneEscrow(
+        uint256 _serviceId,
+        uint256[] memory _amounts,
+        string[] memory _descriptions,
+        uint256[] memory _deadlines
+    ) external payable whenNotPaused {
+        _checkMilestoneLengths(_amounts, _descriptions, _deadlines);
+        _addMilestones(_openEscrow(_serviceId), _amounts, _descriptions, _deadlines);
+    }
 
-        userEscrows[msg.sender].push(escrowCounter);
-        userEscrows[service.seller].push(escrowCounter);
+    /**
+     * @dev Buyer accepts a freelancer's proposal that is paid in phases. The freelancer proposed
+     *      these milestones, so unlike a custom offer there is no acceptance step: the first
+     *      milestone is funded and starts at once, the rest via fundMilestone.
+     * @param _seller The freelancer whose proposal is accepted.
+     * @param _amounts Amount of each milestone in wei, or in the token's smallest unit.
+     * @param _descriptions IPFS hash describing each milestone.
+     * @param _deadlines Delivery deadline (unix timestamp) of each milestone.
+     * @param _termsCid IPFS hash of the agreed terms.
+     * @param _paymentToken ERC-20 the escrow is paid in, or address(0) for native currency.
+     */
+    function createCustomMilestoneEscrow(
+        address payable _seller,
+        uint256[] memory _amounts,
+        string[] memory _descriptions,
+        uint256[] memory _deadlines,
+        string memory _termsCid,
+        address _paymentToken
+    ) external payable whenNotPaused {
+        require(_seller != address(0) && _seller != msg.sender, "Invalid seller");
+        require(_paymentToken == address(0) || supportedTokens[_paymentToken], "Unsupported payment token");
+        _checkMilestoneLengths(_amounts, _descriptions, _deadlines);
+
+        // The escrow's own deadline is the last milestone's, as delivery time from now
+        uint256 total;
+        uint256 lastDeadline;
+        for (uint256 i = 0; i < _amounts.length; i++) {
+            total += _amounts[i];
+            if (_deadlines[i] > lastDeadline) lastDeadline = _deadlines[i];
+        }
+        require(lastDeadline > block.timestamp, "Milestone deadline must be in the future");
+        uint256 escrowId = _recordEscrow(0, _seller, total, _paymentToken, lastDeadline - block.timestamp, EscrowState.AWAITING_DELIVERY);
+        escrowTerms[escrowId] = _termsCid;
+        _addMilestones(escrowId, _amounts, _descriptions, _deadlines);
+    }
+
+    /**
+     * @dev Buyer funds a one-off escrow for terms negotiated off-chain, without a public service
+     *      listing. Work starts only once the named seller accepts the offer.
+     * @param _seller The freelancer the offer is made to.
+     * @param _price Agreed price in wei, or in the token's smallest unit.
+     * @param _deliveryTime Agreed time to deliver in seconds, counted from acceptance.
+     * @param _termsCid IPFS hash of the negotiated terms.
+     * @param _paymentToken ERC-20 the offer is paid in, or address(0) for native currency.
+     */
+    function createCustomEscrow(
+        address payable _seller,
+        uint256 _price,
+        uint256 _deliveryTime,
+        string memory _termsCid,
+        address _paymentToken
+    ) external payable whenNotPaused {
+        require(_seller != address(0) && _seller != msg.sender, "Invalid seller");
+        require(_price > 0, "Price must be greater than 0");
+        require(_deliveryTime > 0, "Delivery time must be greater than 0");
+        require(_paymentToken == address(0) || supportedTokens[_paymentToken], "Unsupported payment token");
+
+        uint256 escrowId = _recordEscrow(0, _seller, _price, _paymentToken, _deliveryTime, EscrowState.OFFERED);
+        escrowTerms[escrowId] = _termsCid;
+        _collectPayment(_paymentToken, _price);
 
-        emit EscrowCreated(escrowCounter, _serviceId, msg.sender, service.seller, msg.value);
+        emit CustomOfferCreated(escrowId, msg.sender, _seller, _termsCid);
     }
 
     /**
-     * @dev Buyer confirms delivery and releases funds to the seller.
-     *      No platform fee is taken (0% commission).
+     * @dev Seller accepts a custom offer; the delivery deadline starts counting now.
      * @param _escrowId The ID of the escrow.
      */
-    function confirmDelivery(uint256 _escrowId) external onlyBuyer(_escrowId) inState(_escrowId, EscrowState.AWAITING_DELIVERY) {
+    function acceptOffer(uint256 _escrowId) external onlySeller(_escrowId) inState(_escrowId, EscrowState.OFFERED) {
         Escrow storage escrow = escrows[_escrowId];
-        
-        escrow.buyerConfirmed = true;
-        escrow.state = EscrowState.COMPLETED;
+        escrow.deliveryDeadline += block.timestamp - escrow.createdAt;
+        escrow.state = EscrowState.AWAITING_DELIVERY;
+        emit OfferAccepted(_escrowId, msg.sender);
+    }
 
-        // Transfer funds to seller
-        (bool success, ) = escrow.seller.call{value: escrow.amount}("");
-        require(success, "Transfer failed.");
+    /**
+     * @dev Seller declines a custom offer, returning the locked funds to the buyer.
+     * @param _escrowId The ID of the escrow.
+     */
+    function declineOffer(uint256 _escrowId) external onlySeller(_escrowId) inState(_escrowId, EscrowState.OFFERED) {
+        emit OfferDeclined(_escrowId, msg.sender);
+        offerCancelled[_escrowId] = true;
+        _refund(_escrowId);
+    }
 
-        emit FundsReleased(_escrowId, escrow.seller, escrow.amount);
+    /**
+     * @dev Buyer withdraws a custom offer the seller has not answered yet.
+     * @param _escrowId The ID of the escrow.
+     */
+    function withdrawOffer(uint256 _escrowId) external onlyBuyer(_escrowId) inState(_escrowId, EscrowState.OFFERED) {
+        offerCancelled[_escrowId] = true;
+        _refund(_escrowId);
     }
 
     /**
-     * @dev Freelancer marks work as delivered (optional, for tracking).
+     * @dev Buyer confirms delivery and credits the funds to the seller, less the platform fee
+     *      snapshotted when the escrow was created. The seller collects them with withdraw.
      * @param _escrowId The ID of the escrow.
      */
-    function markDelivered(uint256 _escrowId) external onlySeller(_escrowId) inState(_escrowId, EscrowState.AWAITING_DELIVERY) {
+    function confirmDelivery(uint256 _escrowId) external onlyBuyer(_escrowId) withoutMilestones(_escrowId) inState(_escrowId, EscrowState.AWAITING_DELIVERY) {
+        escrows[_escrowId].buyerConfirmed = true;
+        _release(_escrowId);
+    }
+
+    /**
+     * @dev Freelancer marks work as delivered. Must happen before the delivery deadline and
+     *      starts the buyer's review window. The deliverable CID is the seller's signed record
+     *      of what was handed over, for the buyer's review and any later dispute.
+     * @param _escrowId The ID of the escrow.
+     * @param _deliverableCid IPFS CID of the deliverable bundle (files and notes).
+     */
+    function markDelivered(uint256 _escrowId, string memory _deliverableCid) external onlySeller(_escrowId) withoutMilestones(_escrowId) inState(_escrowId, EscrowState.AWAITING_DELIVERY) {
         Escrow storage escrow = escrows[_escrowId];
+        require(block.timestamp <= escrow.deliveryDeadline, "Delivery deadline passed");
+        require(bytes(_deliverableCid).length > 0, "Deliverable CID required");
+
         escrow.sellerDelivered = true;
-        emit DeliveryConfirmed(_escrowId, msg.sender);
+        escrow.deliveredAt = block.timestamp;
+        deliverables[_escrowId] = _deliverableCid;
+        emit DeliveryConfirmed(_escrowId, msg.sender, _deliverableCid);
+    }
+
+    /**
+     * @dev Buyer sends delivered work back for changes during the review window. The seller
+     *      gets REVISION_EXTENSION more time, counted from now if the deadline already passed,
+     *      and delivers again with markDelivered. Limited to the service's maxRevisions. The
+     *      rejected deliverable is cleared; its CID stays in the DeliveryConfirmed log.
+     * @param _escrowId The ID of the escrow.
+     * @param _noteCid IPFS CID of the buyer's note describing the changes.
+     */
+    function requestRevision(uint256 _escrowId, string memory _noteCid) external onlyBuyer(_escrowId) withoutMilestones(_escrowId) inState(_escrowId, EscrowState.AWAITING_DELIVERY) {
+        Escrow storage escrow = escrows[_escrowId];
+        require(escrow.sellerDelivered, "Work not delivered");
+        require(block.timestamp <= escrow.deliveredAt + REVIEW_WINDOW, "Review window closed");
+        require(escrow.revisionsUsed < escrow.maxRevisions, "No revisions left");
+        require(bytes(_noteCid).length > 0, "Revision note required");
+
+        escrow.revisionsUsed++;
+        escrow.sellerDelivered = false;
+        escrow.deliveredAt = 0;
+        delete deliverables[_escrowId];
+        escrow.deliveryDeadline = (escrow.deliveryDeadline > block.timestamp ? escrow.deliveryDeadline : block.timestamp) + REVISION_EXTENSION;
+        emit RevisionRequested(_escrowId, msg.sender, _noteCid, escrow.deliveryDeadline);
     }
 
     /**
-     * @dev Raises a dispute. Freezes funds until resolved (DAO/Admin needed for resolution logic).
+     * @dev Buyer reclaims the funds when the seller missed the delivery deadline.
      * @param _escrowId The ID of the escrow.
      */
-    function raiseDispute(uint256 _escrowId) external inState(_escrowId, EscrowState.AWAITING_DELIVERY) {
+    function claimRefund(uint256 _escrowId) external onlyBuyer(_escrowId) withoutMilestones(_escrowId) inState(_escrowId, EscrowState.AWAITING_DELIVERY) {
+        Escrow storage escrow = escrows[_escrowId];
+        require(!escrow.sellerDelivered, "Work was delivered");
+        require(block.timestamp > escrow.deliveryDeadline, "Delivery deadline not reached");
+
+        _refund(_escrowId);
+    }
+
+    /**
+     * @dev Seller claims payment when the buyer neither confirmed nor disputed within the review window.
+     * @param _escrowId The ID of the escrow.
+     */
+    function claimPayment(uint256 _escrowId) external onlySeller(_escrowId) withoutMilestones(_escrowId) inState(_escrowId, EscrowState.AWAITING_DELIVERY) {
+        Escrow storage escrow = escrows[_escrowId];
+        require(escrow.sellerDelivered, "Work not delivered");
+        require(block.timestamp > escrow.deliveredAt + REVIEW_WINDOW, "Review window still open");
+
+        _release(_escrowId);
+    }
+
+    /**
+     * @dev Raises a dispute. Freezes funds until an arbiter resolves it.
+     * @param _escrowId The ID of the escrow.
+     */
+    function raiseDispute(uint256 _escrowId) external withoutMilestones(_escrowId) inState(_escrowId, EscrowState.AWAITING_DELIVERY) {
         require(msg.sender == escrows[_escrowId].buyer || msg.sender == escrows[_escrowId].seller, "Only participants can dispute.");
         
         escrows[_escrowId].state = EscrowState.DISPUTED;
         emit DisputeRaised(_escrowId, msg.sender);
     }
 
+    /**
+     * @dev Attaches evidence (IPFS CID) to a disputed escrow for the arbiter to review.
+     * @param _escrowId The ID of the escrow.
+     * @param _cid IPFS CID of the uploaded evidence.
+     */
+    function submitEvidence(uint256 _escrowId, string memory _cid) external onlyParticipant(_escrowId) inState(_escrowId, EscrowState.DISPUTED) {
+        require(bytes(_cid).length > 0, "Evidence CID required");
+
+        disputeEvidence[_escrowId].push(Evidence({
+            submittedBy: msg.sender,
+            cid: _cid,
+            submittedAt: block.timestamp
+        }));
+
+        emit EvidenceSubmitted(_escrowId, msg.sender, _cid);
+    }
+
+    /**
+     * @dev Arbiter settles a dispute by splitting the escrowed funds between buyer and seller.
+     *      A full refund ends in REFUNDED, any payout to the seller ends in COMPLETED.
+     * @param _escrowId The ID of the escrow.
+     * @param _buyerBps Share of the funds returned to the buyer, in basis points (0-10000).
+     */
+    function resolveDispute(uint256 _escrowId, uint256 _buyerBps) external onlyArbiter(_escrowId) withoutMilestones(_escrowId) inState(_escrowId, EscrowState.DISPUTED) {
+        (uint256 buyerAmount, uint256 sellerAmount) = _split(_escrowId, _buyerBps);
+        emit DisputeResolved(_escrowId, msg.sender, buyerAmount, sellerAmount);
+    }
+
+    // Mutual settlement
+
+    /**
+     * @dev Either participant proposes to end the escrow before delivery with a split of the
+     *      funds. Replaces any pending proposal; the other participant accepts or declines it.
+     * @param _escrowId The ID of the escrow.
+     * @param _buyerBps Share of the funds returned to the buyer, in basis points (0-10000).
+     */
+    function proposeSettlement(uint256 _escrowId, uint256 _buyerBps) external onlyParticipant(_escrowId) withoutMilestones(_escrowId) inState(_escrowId, EscrowState.AWAITING_DELIVERY) {
+        require(_buyerBps <= BPS_DENOMINATOR, "Invalid split");
+        settlements[_escrowId] = Settlement({ proposedBy: msg.sender, buyerBps: _buyerBps });
+        emit SettlementProposed(_escrowId, msg.sender, _buyerBps);
+    }
+
+    /**
+     * @dev The other participant accepts the pending proposal and the escrow settles at once.
+     *      The split is passed again so a proposal replaced in the meantime is not accepted.
+     * @param _escrowId The ID of the escrow.
+     * @param _buyerBps The buyer share of the proposal being accepted.
+     */
+    function acceptSettlement(uint256 _escrowId, uint256 _buyerBps) external onlyParticipant(_escrowId) withoutMilestones(_escrowId) inState(_escrowId, EscrowState.AWAITING_DELIVERY) {
+        Settlement memory settlement = settlements[_escrowId];
+        require(settlement.proposedBy != address(0) && settlement.proposedBy != msg.sender, "No proposal to accept.");
+        require(settlement.buyerBps == _buyerBps, "Proposal changed.");
+
+        delete settlements[_escrowId];
+        (uint256 buyerAmount, uint256 sellerAmount) = _split(_escrowId, _buyerBps);
+        emit SettlementAccepted(_escrowId, msg.sender, buyerAmount, sellerAmount);
+    }
+
+    /**
+     * @dev Declines the pending proposal, or withdraws it when called by the proposer.
+     * @param _escrowId The ID of the escrow.
+     */
+    function declineSettlement(uint256 _escrowId) external onlyParticipant(_escrowId) {
+        require(settlements[_escrowId].proposedBy != address(0), "No pending proposal.");
+        delete settlements[_escrowId];
+        emit SettlementDeclined(_escrowId, msg.sender);
+    }
+
     /**
      * @dev Refunds the buyer. Can be called by seller (voluntary refund) or via dispute resolution (simplified here).
      * @param _escrowId The ID of the escrow.
      */
-    function refundBuyer(uint256 _escrowId) external onlySeller(_escrowId) inState(_escrowId, EscrowState.AWAITING_DELIVERY) {
-         Escrow storage escrow = escrows[_escrowId];
-         
-         escrow.state = EscrowState.REFUNDED;
-         
-         (bool success, ) = escrow.buyer.call{value: escrow.amount}("");
-         require(success, "Refund failed.");
+    function refundBuyer(uint256 _escrowId) external onlySeller(_escrowId) withoutMilestones(_escrowId) inState(_escrowId, EscrowState.AWAITING_DELIVERY) {
+        _refund(_escrowId);
+    }
+
+    // Withdrawals
+
+    /**
+     * @dev Withdraws everything credited to the caller in one currency: seller payouts,
+     *      refunds and dispute settlements.
+     * @param _token ERC-20 to withdraw, or address(0) for native currency.
+     */
+    function withdraw(address _token) external nonReentrant {
+        uint256 amount = balances[msg.sender][_token];
+        require(amount > 0, "Nothing to withdraw");
+
+        balances[msg.sender][_token] = 0;
+        _transferOut(_token, payable(msg.sender), amount);
+        emit Withdrawn(msg.sender, _token, amount);
+    }
+
+    // Reviews
+
+    /**
+     * @dev Rates the other participant of a finished escrow. Each participant may review once.
+     * @param _escrowId The ID of the escrow.
+     * @param _rating Score from 1 to 5.
+     * @param _commentCid IPFS CID of the review comment (may be empty).
+     */
+    function submitReview(uint256 _escrowId, uint8 _rating, string memory _commentCid) external onlyParticipant(_escrowId) {
+        Escrow storage escrow = escrows[_escrowId];
+        require(escrow.state == EscrowState.COMPLETED || escrow.state == EscrowState.REFUNDED, "Escrow not finished.");
+        require(!offerCancelled[_escrowId], "Offer was never accepted.");
+        require(_rating >= 1 && _rating <= 5, "Rating must be 1-5");
+        require(!hasReviewed[_escrowId][msg.sender], "Already reviewed.");
+
+        hasReviewed[_escrowId][msg.sender] = true;
+        address reviewee = msg.sender == escrow.buyer ? escrow.seller : escrow.buyer;
+        ratings[reviewee].total += _rating;
+        ratings[reviewee].count += 1;
+
+        emit ReviewSubmitted(_escrowId, msg.sender, reviewee, _rating, _commentCid);
+    }
+
+    // Milestones
+
+    /**
+     * @dev Buyer funds the next phase of a milestone escrow.
+     * @param _escrowId The ID of the escrow.
+     * @param _index Index of the milestone.
+     */
+    function fundMilestone(uint256 _escrowId, uint256 _index) external payable onlyBuyer(_escrowId) milestoneInState(_escrowId, _index, EscrowState.AWAITING_PAYMENT) {
+        Milestone storage milestone = escrowMilestones[_escrowId][_index];
+
+        milestone.state = EscrowState.AWAITING_DELIVERY;
+        _syncMilestoneEscrow(_escrowId);
+
+        _collectPayment(escrows[_escrowId].paymentToken, milestone.amount);
+        emit MilestoneFunded(_escrowId, _index, milestone.amount);
+    }
+
+    /**
+     * @dev Freelancer marks a funded milestone as delivered.
+     * @param _escrowId The ID of the escrow.
+     * @param _index Index of the milestone.
+     */
+    function markMilestoneDelivered(uint256 _escrowId, uint256 _index) external onlySeller(_escrowId) milestoneInState(_escrowId, _index, EscrowState.AWAITING_DELIVERY) {
+        Milestone storage milestone = escrowMilestones[_escrowId][_index];
+        require(block.timestamp <= milestone.deadline, "Delivery deadline passed");
+
+        milestone.sellerDelivered = true;
+        milestone.deliveredAt = block.timestamp;
+        emit MilestoneDelivered(_escrowId, _index);
+    }
+
+    /**
+     * @dev Buyer confirms a milestone and releases its funds to the seller.
+     * @param _escrowId The ID of the escrow.
+     * @param _index Index of the milestone.
+     */
+    function confirmMilestone(uint256 _escrowId, uint256 _index) external onlyBuyer(_escrowId) milestoneInState(_escrowId, _index, EscrowState.AWAITING_DELIVERY) {
+        _releaseMilestone(_escrowId, _index);
+    }
+
+    /**
+     * @dev Buyer reclaims a funded milestone whose deadline passed without delivery.
+     * @param _escrowId The ID of the escrow.
+     * @param _index Index of the milestone.
+     */
+    function claimMilestoneRefund(uint256 _escrowId, uint256 _index) external onlyBuyer(_escrowId) milestoneInState(_escrowId, _index, EscrowState.AWAITING_DELIVERY) {
+        Milestone storage milestone = escrowMilestones[_escrowId][_index];
+        require(!milestone.sellerDelivered, "Work was delivered");
+        require(block.timestamp > milestone.deadline, "Delivery deadline not reached");
+
+        milestone.state = EscrowState.REFUNDED;
+        _syncMilestoneEscrow(_escrowId);
+
+        _credit(escrows[_escrowId].buyer, escrows[_escrowId].paymentToken, milestone.amount);
+        emit MilestoneRefunded(_escrowId, _index, milestone.amount);
+    }
+
+    /**
+     * @dev Seller claims a delivered milestone once the buyer's review window has lapsed.
+     * @param _escrowId The ID of the escrow.
+     * @param _index Index of the milestone.
+     */
+    function claimMilestonePayment(uint256 _escrowId, uint256 _index) external onlySeller(_escrowId) milestoneInState(_escrowId, _index, EscrowState.AWAITING_DELIVERY) {
+        Milestone storage milestone = escrowMilestones[_escrowId][_index];
+        require(milestone.sellerDelivered, "Work not delivered");
+        require(block.timestamp > milestone.deliveredAt + REVIEW_WINDOW, "Review window still open");
+
+        _releaseMilestone(_escrowId, _index);
+    }
+
+    /**
+     * @dev Raises a dispute on a single milestone. Other milestones keep running.
+     * @param _escrowId The ID of the escrow.
+     * @param _index Index of the milestone.
+     */
+    function disputeMilestone(uint256 _escrowId, uint256 _index) external onlyParticipant(_escrowId) milestoneInState(_escrowId, _index, EscrowState.AWAITING_DELIVERY) {
+        escrowMilestones[_escrowId][_index].state = EscrowState.DISPUTED;
+        _syncMilestoneEscrow(_escrowId);
+        emit MilestoneDisputed(_escrowId, _index, msg.sender);
+    }
+
+    /**
+     * @dev Seller refunds a funded milestone, or cancels one that has not been funded yet.
+     * @param _escrowId The ID of the escrow.
+     * @param _index Index of the milestone.
+     */
+    function refundMilestone(uint256 _escrowId, uint256 _index) external onlySeller(_escrowId) {
+        require(_index < escrowMilestones[_escrowId].length, "Invalid milestone.");
+        Milestone storage milestone = escrowMilestones[_escrowId][_index];
+        require(
+            milestone.state == EscrowState.AWAITING_DELIVERY || milestone.state == EscrowState.AWAITING_PAYMENT,
+            "Invalid milestone state."
+        );
+
+        uint256 refund = milestone.state == EscrowState.AWAITING_DELIVERY ? milestone.amount : 0;
+        milestone.state = EscrowState.REFUNDED;
+        _syncMilestoneEscrow(_escrowId);
+
+        if (refund > 0) {
+            _credit(escrows[_escrowId].buyer, escrows[_escrowId].paymentToken, refund);
+        }
+        emit MilestoneRefunded(_escrowId, _index, refund);
+    }
+
+    /**
+     * @dev Arbiter settles a disputed milestone by splitting its funds between buyer and seller.
+     * @param _escrowId The ID of the escrow.
+     * @param _index Index of the milestone.
+     * @param _buyerBps Share of the milestone returned to the buyer, in basis points (0-10000).
+     */
+    function resolveMilestoneDispute(uint256 _escrowId, uint256 _index, uint256 _buyerBps) external onlyArbiter(_escrowId) milestoneInState(_escrowId, _index, EscrowState.DISPUTED) {
+        require(_buyerBps <= BPS_DENOMINATOR, "Invalid split");
+        Escrow storage escrow = escrows[_escrowId];
+        Milestone storage milestone = escrowMilestones[_escrowId][_index];
+
+        uint256 buyerAmount = (milestone.amount * _buyerBps) / BPS_DENOMINATOR;
+        uint256 sellerAmount = milestone.amount - buyerAmount;
+
+        milestone.state = sellerAmount == 0 ? EscrowState.REFUNDED : EscrowState.COMPLETED;
+        _syncMilestoneEscrow(_escrowId);
+
+        if (buyerAmount > 0) {
+            _credit(escrow.buyer, escrow.paymentToken, buyerAmount);
+        }
+        if (sellerAmount > 0) {
+            _paySeller(_escrowId, sellerAmount);
+        }
+
+        emit MilestoneDisputeResolved(_escrowId, _index, buyerAmount, sellerAmount);
+    }
+
+    // Internal Functions
+
+    function _release(uint256 _escrowId) internal {
+        Escrow storage escrow = escrows[_escrowId];
+        escrow.state = EscrowState.COMPLETED;
+
+        // Credit funds to seller
+        _paySeller(_escrowId, escrow.amount);
+
+        emit FundsReleased(_escrowId, escrow.seller, escrow.amount);
+    }
+
+    /**
+     * @dev Ends a single-payment escrow by splitting its funds: the buyer's share is credited
+     *      as a refund, the rest is paid to the seller. A full refund ends in REFUNDED, any
+     *      payout to the seller in COMPLETED.
+     */
+    function _split(uint256 _escrowId, uint256 _buyerBps) internal returns (uint256 buyerAmount, uint256 sellerAmount) {
+        require(_buyerBps <= BPS_DENOMINATOR, "Invalid split");
+        Escrow storage escrow = escrows[_escrowId];
+
+        buyerAmount = (escrow.amount * _buyerBps) / BPS_DENOMINATOR;
+        sellerAmount = escrow.amount - buyerAmount;
+
+        escrow.state = sellerAmount == 0 ? EscrowState.REFUNDED : EscrowState.COMPLETED;
+
+        if (buyerAmount > 0) {
+            _credit(escrow.buyer, escrow.paymentToken, buyerAmount);
+        }
+        if (sellerAmount > 0) {
+            _paySeller(_escrowId, sellerAmount);
+        }
+    }
+
+    function _refund(uint256 _escrowId) internal {
+        Escrow storage escrow = escrows[_escrowId];
+        escrow.state = EscrowState.REFUNDED;
+
+        _credit(escrow.buyer, escrow.paymentToken, escrow.amount);
+
+        emit Refunded(_escrowId, escrow.buyer, escrow.amount);
+    }
+
+    function _releaseMilestone(uint256 _escrowId, uint256 _index) internal {
+        Milestone storage milestone = escrowMilestones[_escrowId][_index];
+        milestone.state = EscrowState.COMPLETED;
+        _syncMilestoneEscrow(_escrowId);
+
+        _paySeller(_escrowId, milestone.amount);
+        emit MilestoneReleased(_escrowId, _index, milestone.amount);
+    }
+
+    /**
+     * @dev Validates a purchase and records a new escrow for the full service price.
+     */
+    function _openEscrow(uint256 _serviceId) internal returns (uint256) {
+        Service memory service = services[_serviceId];
+        require(service.isActive, "Service is not active");
+        require(msg.sender != service.seller, "Seller cannot buy own service");
+
+        uint256 escrowId = _recordEscrow(_serviceId, service.seller, service.price, service.paymentToken, service.deliveryTime, EscrowState.AWAITING_DELIVERY);
+        escrows[escrowId].maxRevisions = service.maxRevisions;
+        return escrowId;
+    }
+
+    function _checkMilestoneLengths(uint256[] memory _amounts, string[] memory _descriptions, uint256[] memory _deadlines) internal pure {
+        require(_amounts.length > 0, "At least one milestone required");
+        require(_amounts.length == _descriptions.length && _amounts.length == _deadlines.length, "Milestone length mismatch");
+    }
+
+    /**
+     * @dev Stores the milestones of a new escrow and collects payment for the first one.
+     *      The milestone amounts must add up to the escrow amount.
+     */
+    function _addMilestones(
+        uint256 _escrowId,
+        uint256[] memory _amounts,
+        string[] memory _descriptions,
+        uint256[] memory _deadlines
+    ) internal {
+        _collectPayment(escrows[_escrowId].paymentToken, _amounts[0]);
+        uint256 total;
+        for (uint256 i = 0; i < _amounts.length; i++) {
+            require(_amounts[i] > 0, "Milestone amount must be greater than 0");
+            require(_deadlines[i] > block.timestamp, "Milestone deadline must be in the future");
+            total += _amounts[i];
+
+            escrowMilestones[_escrowId].push(Milestone({
+                amount: _amounts[i],
+                description: _descriptions[i],
+                deadline: _deadlines[i],
+                state: i == 0 ? EscrowState.AWAITING_DELIVERY : EscrowState.AWAITING_PAYMENT,
+                sellerDelivered: false,
+                deliveredAt: 0
+            }));
+        }
+        require(total == escrows[_escrowId].amount, "Milestones must add up to the price");
+
+        emit MilestoneFunded(_escrowId, 0, _amounts[0]);
+    }
+
+    /**
+     * @dev Stores a new escrow with msg.sender as buyer. Custom escrows use service ID 0.
+     */
+    function _recordEscrow(
+        uint256 _serviceId,
+        address payable _seller,
+        uint256 _amount,
+        address _paymentToken,
+        uint256 _deliveryTime,
+        EscrowState _state
+    ) internal returns (uint256) {
+        escrowCounter++;
+        escrows[escrowCounter] = Escrow({
+            id: escrowCounter,
+            serviceId: _serviceId,
+            buyer: payable(msg.sender),
+            seller: _seller,
+            amount: _amount,
+            createdAt: block.timestamp,
+            state: _state,
+            buyerConfirmed: false,
+            sellerDelivered: false,
+            paymentToken: _paymentToken,
+            deliveryDeadline: block.timestamp + _deliveryTime,
+            deliveredAt: 0,
+            feeBps: feeBps,
+            maxRevisions: 0,
+            revisionsUsed: 0
+        });
+
+        userEscrows[msg.sender].push(escrowCounter);
+        userEscrows[_seller].push(escrowCounter);
+
+        emit EscrowCreated(escrowCounter, _serviceId, msg.sender, _seller, _amount);
+        return escrowCounter;
+    }
+
+    /**
+     * @dev Derives the overall escrow state from its milestones: DISPUTED while any milestone is
+     *      disputed, AWAITING_DELIVERY while any is open, otherwise COMPLETED (or REFUNDED if
+     *      every milestone was refunded).
+     */
+    function _syncMilestoneEscrow(uint256 _escrowId) internal {
+        Milestone[] storage milestones = escrowMilestones[_escrowId];
+        bool open;
+        bool released;
+        for (uint256 i = 0; i < milestones.length; i++) {
+            EscrowState state = milestones[i].state;
+            if (state == EscrowState.DISPUTED) {
+                escrows[_escrowId].state = EscrowState.DISPUTED;
+                return;
+            }
+            if (state == EscrowState.AWAITING_PAYMENT || state == EscrowState.AWAITING_DELIVERY) open = true;
+            if (state == EscrowState.COMPLETED) released = true;
+        }
 
-         emit Refunded(_escrowId, escrow.buyer, escrow.amount);
+        if (open) {
+            escrows[_escrowId].state = EscrowState.AWAITING_DELIVERY;
+        } else {
+            escrows[_escrowId].state = released ? EscrowState.COMPLETED : EscrowState.REFUNDED;
+            escrows[_escrowId].buyerConfirmed = released;
+        }
+    }
+
+    /**
+     * @dev Pays the seller their share of an escrow, withholding the escrow's platform fee
+     *      for the treasury.
+     */
+    function _paySeller(uint256 _escrowId, uint256 _amount) internal {
+        Escrow storage escrow = escrows[_escrowId];
+        uint256 fee = (_amount * escrow.feeBps) / BPS_DENOMINATOR;
+        if (fee > 0) {
+            accruedFees[escrow.paymentToken] += fee;
+            emit FeeCharged(_escrowId, escrow.paymentToken, fee);
+        }
+        _credit(escrow.seller, escrow.paymentToken, _amount - fee);
+    }
+
+    /**
+     * @dev Takes a payment from the buyer: exact msg.value for native escrows, or a
+     *      transferFrom of the approved amount for token escrows.
+     */
+    function _collectPayment(address _token, uint256 _amount) internal {
+        if (_token == address(0)) {
+            require(msg.value == _amount, "Incorrect payment amount");
+            return;
+        }
+        require(msg.value == 0, "Native payment not accepted");
+        _callToken(_token, abi.encodeWithSelector(IERC20.transferFrom.selector, msg.sender, address(this), _amount), "Token transfer failed.");
+    }
+
+    /**
+     * @dev Adds to the amount an account may withdraw. Payouts are credited rather than pushed,
+     *      so a recipient that cannot receive funds only blocks its own withdrawal.
+     */
+    function _credit(address _account, address _token, uint256 _amount) internal {
+        balances[_account][_token] += _amount;
+    }
+
+    /**
+     * @dev Sends funds out of the contract in the given currency.
+     */
+    function _transferOut(address _token, address payable _to, uint256 _amount) internal {
+        if (_token == address(0)) {
+            (bool success, ) = _to.call{value: _amount}("");
+            require(success, "Transfer failed.");
+            return;
+        }
+        _callToken(_token, abi.encodeWithSelector(IERC20.transfer.selector, _to, _amount), "Transfer failed.");
+    }
+
+    /**
+     * @dev SafeERC20-style call: reverts unless the token call succeeds and returns either
+     *      nothing (USDT-style) or true.
+     */
+    function _callToken(address _token, bytes memory _data, string memory _error) internal {
+        require(_token.code.length > 0, "Token is not a contract");
+        (bool success, bytes memory returndata) = _token.call(_data);
+        require(success && (returndata.length == 0 || abi.decode(returndata, (bool))), _error);
     }
     
     // View Functions
@@ -187,4 +1136,20 @@ contract EscrowXContract {
     function getEscrow(uint256 _id) external view returns (Escrow memory) {
         return escrows[_id];
     }
+
+    function getUserEscrows(address _user) external view returns (uint256[] memory) {
+        return userEscrows[_user];
+    }
+
+    function getEvidence(uint256 _escrowId) external view returns (Evidence[] memory) {
+        return disputeEvidence[_escrowId];
+    }
+
+    function getMilestones(uint256 _escrowId) external view returns (Milestone[] memory) {
+        return escrowMilestones[_escrowId];
+    }
+
+    function getRating(address _user) external view returns (Rating memory) {
+        return ratings[_user];
+    }
 }
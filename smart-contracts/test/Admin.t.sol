@@ -0,0 +1,290 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import {EscrowXTestBase} from "./EscrowXTestBase.sol";
+import {EscrowXContract} from "../EscrowXContract.sol";
+
+contract AdminTest is EscrowXTestBase {
+    address internal pauser = makeAddr("pauser");
+    address internal manager = makeAddr("manager");
+    address internal arbiter = makeAddr("arbiter");
+
+    function test_ConstructorAssignsDeployerRoles() public view {
+        assertEq(escrowX.owner(), owner);
+        assertEq(escrowX.treasury(), owner);
+        assertTrue(escrowX.arbiters(owner));
+        assertEq(escrowX.feeBps(), 0);
+        assertFalse(escrowX.paused());
+    }
+
+    // Ownership
+
+    function test_TransferOwnership() public {
+        address newOwner = makeAddr("newOwner");
+        vm.expectEmit(true, true, false, false, address(escrowX));
+        emit EscrowXContract.OwnershipTransferred(owner, newOwner);
+        vm.prank(owner);
+        escrowX.transferOwnership(newOwner);
+        assertEq(escrowX.owner(), newOwner);
+
+        vm.prank(owner);
+        vm.expectRevert(bytes("Only owner can call this."));
+        escrowX.setPlatformFee(100);
+    }
+
+    function test_TransferOwnership_MovesArbiterRole() public {
+        address newOwner = makeAddr("newOwner");
+        uint256 first = _openEscrow();
+        uint256 second = _openEscrow();
+        _dispute(first);
+        _dispute(second);
+
+        vm.expectEmit(true, false, false, true, address(escrowX));
+        emit EscrowXContract.ArbiterUpdated(owner, false);
+        vm.expectEmit(true, false, false, true, address(escrowX));
+        emit EscrowXContract.ArbiterUpdated(newOwner, true);
+        vm.prank(owner);
+        escrowX.transferOwnership(newOwner);
+        assertFalse(escrowX.arbiters(owner));
+        assertTrue(escrowX.arbiters(newOwner));
+
+        vm.prank(owner);
+        vm.expectRevert(bytes("Only arbiter can call this."));
+        escrowX.resolveDispute(first, 10000);
+
+        vm.prank(newOwner);
+        escrowX.resolveDispute(first, 10000);
+        _assertState(first, EscrowXContract.EscrowState.REFUNDED);
+
+        // Handing ownership back returns the role too
+        vm.prank(newOwner);
+        escrowX.transferOwnership(owner);
+        assertTrue(escrowX.arbiters(owner));
+        assertFalse(escrowX.arbiters(newOwner));
+
+        vm.prank(newOwner);
+        vm.expectRevert(bytes("Only arbiter can call this."));
+        escrowX.resolveDispute(second, 0);
+
+        vm.prank(owner);
+        escrowX.resolveDispute(second, 0);
+        _assertState(second, EscrowXContract.EscrowState.COMPLETED);
+    }
+
+    function test_TransferOwnership_KeepsRevokedArbiterRoleRevoked() public {
+        address newOwner = makeAddr("newOwner");
+        vm.startPrank(owner);
+        escrowX.setArbiter(owner, false);
+        escrowX.transferOwnership(newOwner);
+        vm.stopPrank();
+
+        assertFalse(escrowX.arbiters(owner));
+        assertFalse(escrowX.arbiters(newOwner));
+    }
+
+    function test_TransferOwnership_RevertsForNonOwner() public {
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only owner can call this."));
+        escrowX.transferOwnership(stranger);
+    }
+
+    function test_TransferOwnership_RevertsForZeroAddress() public {
+        vm.prank(owner);
+        vm.expectRevert(bytes("Invalid owner"));
+        escrowX.transferOwnership(address(0));
+    }
+
+    // Pausing
+
+    function test_SetPauser() public {
+        vm.expectEmit(true, false, false, true, address(escrowX));
+        emit EscrowXContract.PauserUpdated(pauser, true);
+        vm.prank(owner);
+        escrowX.setPauser(pauser, true);
+        assertTrue(escrowX.pausers(pauser));
+    }
+
+    function test_SetPauser_Reverts() public {
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only owner can call this."));
+        escrowX.setPauser(pauser, true);
+
+        vm.prank(owner);
+        vm.expectRevert(bytes("Invalid pauser"));
+        escrowX.setPauser(address(0), true);
+    }
+
+    function test_PauseBlocksNewListingsAndEscrows() public {
+        uint256 serviceId = _createService();
+        vm.prank(owner);
+        escrowX.setPauser(pauser, true);
+
+        vm.expectEmit(true, false, false, false, address(escrowX));
+        emit EscrowXContract.Paused(pauser);
+        vm.prank(pauser);
+        escrowX.pause();
+        assertTrue(escrowX.paused());
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Contract is paused."));
+        escrowX.createService("Audit", DESCRIPTION_CID, PRICE, DELIVERY, address(0), MAX_REVISIONS);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Contract is paused."));
+        escrowX.createEscrow{value: PRICE}(serviceId);
+
+        uint256[] memory amounts = new uint256[](1);
+        amounts[0] = PRICE;
+        string[] memory descriptions = new string[](1);
+        uint256[] memory deadlines = new uint256[](1);
+        deadlines[0] = block.timestamp + 1 days;
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Contract is paused."));
+        escrowX.createMilestoneEscrow{value: PRICE}(serviceId, amounts, descriptions, deadlines);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Contract is paused."));
+        escrowX.createCustomEscrow{value: PRICE}(payable(seller), PRICE, DELIVERY, "QmTerms", address(0));
+
+        vm.expectEmit(true, false, false, false, address(escrowX));
+        emit EscrowXContract.Unpaused(owner);
+        vm.prank(owner);
+        escrowX.unpause();
+
+        vm.prank(buyer);
+        escrowX.createEscrow{value: PRICE}(serviceId);
+    }
+
+    function test_PauseLetsOpenEscrowsSettle() public {
+        uint256 escrowId = _openEscrow();
+        vm.prank(owner);
+        escrowX.pause();
+
+        _deliver(escrowId);
+        vm.prank(buyer);
+        escrowX.confirmDelivery(escrowId);
+        _assertState(escrowId, EscrowXContract.EscrowState.COMPLETED);
+
+        vm.prank(seller);
+        escrowX.withdraw(address(0));
+    }
+
+    function test_Pause_Reverts() public {
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only pauser can call this."));
+        escrowX.pause();
+
+        vm.prank(owner);
+        vm.expectRevert(bytes("Not paused."));
+        escrowX.unpause();
+
+        vm.prank(owner);
+        escrowX.pause();
+        vm.prank(owner);
+        vm.expectRevert(bytes("Already paused."));
+        escrowX.pause();
+
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only pauser can call this."));
+        escrowX.unpause();
+    }
+
+    // Arbiters
+
+    function test_ArbiterManagerGrantsArbiters() public {
+        vm.expectEmit(true, false, false, true, address(escrowX));
+        emit EscrowXContract.ArbiterManagerUpdated(manager, true);
+        vm.prank(owner);
+        escrowX.setArbiterManager(manager, true);
+
+        vm.expectEmit(true, false, false, true, address(escrowX));
+        emit EscrowXContract.ArbiterUpdated(arbiter, true);
+        vm.prank(manager);
+        escrowX.setArbiter(arbiter, true);
+        assertTrue(escrowX.arbiters(arbiter));
+
+        vm.prank(manager);
+        escrowX.setArbiter(arbiter, false);
+        assertFalse(escrowX.arbiters(arbiter));
+    }
+
+    function test_SetArbiterManager_Reverts() public {
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only owner can call this."));
+        escrowX.setArbiterManager(manager, true);
+
+        vm.prank(owner);
+        vm.expectRevert(bytes("Invalid manager"));
+        escrowX.setArbiterManager(address(0), true);
+    }
+
+    function test_SetArbiter_Reverts() public {
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only arbiter manager can call this."));
+        escrowX.setArbiter(arbiter, true);
+
+        vm.prank(owner);
+        vm.expectRevert(bytes("Invalid arbiter"));
+        escrowX.setArbiter(address(0), true);
+    }
+
+    // Payment tokens
+
+    function test_SetSupportedToken() public {
+        address token = makeAddr("token");
+        vm.expectEmit(true, false, false, true, address(escrowX));
+        emit EscrowXContract.SupportedTokenUpdated(token, true);
+        vm.prank(owner);
+        escrowX.setSupportedToken(token, true);
+        assertTrue(escrowX.supportedTokens(token));
+    }
+
+    function test_SetSupportedToken_Reverts() public {
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only owner can call this."));
+        escrowX.setSupportedToken(address(usdc), false);
+
+        vm.prank(owner);
+        vm.expectRevert(bytes("Invalid token"));
+        escrowX.setSupportedToken(address(0), true);
+    }
+
+    // Fees
+
+    function test_SetPlatformFeeAndTreasury() public {
+        address newTreasury = makeAddr("treasury");
+
+        vm.expectEmit(false, false, false, true, address(escrowX));
+        emit EscrowXContract.PlatformFeeUpdated(250);
+        vm.prank(owner);
+        escrowX.setPlatformFee(250);
+        assertEq(escrowX.feeBps(), 250);
+
+        vm.expectEmit(true, false, false, false, address(escrowX));
+        emit EscrowXContract.TreasuryUpdated(newTreasury);
+        vm.prank(owner);
+        escrowX.setTreasury(newTreasury);
+        assertEq(escrowX.treasury(), newTreasury);
+    }
+
+    function test_SetPlatformFee_Reverts() public {
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only owner can call this."));
+        escrowX.setPlatformFee(100);
+
+        uint256 cap = escrowX.MAX_FEE_BPS();
+        vm.prank(owner);
+        vm.expectRevert(bytes("Fee above cap"));
+        escrowX.setPlatformFee(cap + 1);
+    }
+
+    function test_SetTreasury_Reverts() public {
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only owner can call this."));
+        escrowX.setTreasury(stranger);
+
+        vm.prank(owner);
+        vm.expectRevert(bytes("Invalid treasury"));
+        escrowX.setTreasury(address(0));
+    }
+}
@@ -0,0 +1,112 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import {EscrowXTestBase} from "./EscrowXTestBase.sol";
+import {EscrowXContract} from "../EscrowXContract.sol";
+
+contract CustomOfferTest is EscrowXTestBase {
+    function test_CreateCustomEscrow() public {
+        vm.expectEmit(true, true, true, true, address(escrowX));
+        emit EscrowXContract.CustomOfferCreated(1, buyer, seller, "QmTerms");
+        uint256 escrowId = _openOffer();
+
+        EscrowXContract.Escrow memory escrow = escrowX.getEscrow(escrowId);
+        assertEq(escrow.serviceId, 0);
+        assertEq(escrow.amount, PRICE);
+        assertEq(escrowX.escrowTerms(escrowId), "QmTerms");
+        assertEq(address(escrowX).balance, PRICE);
+        _assertState(escrowId, EscrowXContract.EscrowState.OFFERED);
+    }
+
+    function test_CreateCustomEscrow_Reverts() public {
+        vm.startPrank(buyer);
+        vm.expectRevert(bytes("Invalid seller"));
+        escrowX.createCustomEscrow{value: PRICE}(payable(address(0)), PRICE, DELIVERY, "QmTerms", address(0));
+
+        vm.expectRevert(bytes("Invalid seller"));
+        escrowX.createCustomEscrow{value: PRICE}(payable(buyer), PRICE, DELIVERY, "QmTerms", address(0));
+
+        vm.expectRevert(bytes("Price must be greater than 0"));
+        escrowX.createCustomEscrow(payable(seller), 0, DELIVERY, "QmTerms", address(0));
+
+        vm.expectRevert(bytes("Delivery time must be greater than 0"));
+        escrowX.createCustomEscrow{value: PRICE}(payable(seller), PRICE, 0, "QmTerms", address(0));
+
+        vm.expectRevert(bytes("Unsupported payment token"));
+        escrowX.createCustomEscrow(payable(seller), PRICE, DELIVERY, "QmTerms", makeAddr("token"));
+
+        vm.expectRevert(bytes("Incorrect payment amount"));
+        escrowX.createCustomEscrow{value: PRICE / 2}(payable(seller), PRICE, DELIVERY, "QmTerms", address(0));
+        vm.stopPrank();
+    }
+
+    function test_AcceptOfferStartsDeadline() public {
+        uint256 escrowId = _openOffer();
+        vm.warp(block.timestamp + 2 days);
+
+        vm.expectEmit(true, true, false, false, address(escrowX));
+        emit EscrowXContract.OfferAccepted(escrowId, seller);
+        vm.prank(seller);
+        escrowX.acceptOffer(escrowId);
+
+        _assertState(escrowId, EscrowXContract.EscrowState.AWAITING_DELIVERY);
+        assertEq(escrowX.getEscrow(escrowId).deliveryDeadline, block.timestamp + DELIVERY);
+    }
+
+    function test_AcceptOffer_Reverts() public {
+        uint256 escrowId = _openOffer();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Only seller can call this."));
+        escrowX.acceptOffer(escrowId);
+
+        vm.prank(seller);
+        escrowX.acceptOffer(escrowId);
+        vm.prank(seller);
+        vm.expectRevert(bytes("Invalid state."));
+        escrowX.acceptOffer(escrowId);
+    }
+
+    function test_OfferedEscrowCannotBeDelivered() public {
+        uint256 escrowId = _openOffer();
+        vm.prank(seller);
+        vm.expectRevert(bytes("Invalid state."));
+        escrowX.markDelivered(escrowId, DELIVERABLE);
+    }
+
+    function test_DeclineOfferRefundsBuyer() public {
+        uint256 escrowId = _openOffer();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Only seller can call this."));
+        escrowX.declineOffer(escrowId);
+
+        vm.expectEmit(true, true, false, false, address(escrowX));
+        emit EscrowXContract.OfferDeclined(escrowId, seller);
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.Refunded(escrowId, buyer, PRICE);
+        vm.prank(seller);
+        escrowX.declineOffer(escrowId);
+
+        _assertState(escrowId, EscrowXContract.EscrowState.REFUNDED);
+        assertEq(_balance(buyer), PRICE);
+    }
+
+    function test_WithdrawOffer() public {
+        uint256 escrowId = _openOffer();
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Only buyer can call this."));
+        escrowX.withdrawOffer(escrowId);
+
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.Refunded(escrowId, buyer, PRICE);
+        vm.prank(buyer);
+        escrowX.withdrawOffer(escrowId);
+        _assertState(escrowId, EscrowXContract.EscrowState.REFUNDED);
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Invalid state."));
+        escrowX.acceptOffer(escrowId);
+    }
+}
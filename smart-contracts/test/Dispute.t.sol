@@ -0,0 +1,150 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import {EscrowXTestBase} from "./EscrowXTestBase.sol";
+import {EscrowXContract} from "../EscrowXContract.sol";
+
+contract DisputeTest is EscrowXTestBase {
+    function test_RaiseDispute() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.expectEmit(true, true, false, false, address(escrowX));
+        emit EscrowXContract.DisputeRaised(escrowId, seller);
+        vm.prank(seller);
+        escrowX.raiseDispute(escrowId);
+        _assertState(escrowId, EscrowXContract.EscrowState.DISPUTED);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Invalid state."));
+        escrowX.confirmDelivery(escrowId);
+    }
+
+    function test_RaiseDispute_Reverts() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only participants can dispute."));
+        escrowX.raiseDispute(escrowId);
+
+        _dispute(escrowId);
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Invalid state."));
+        escrowX.raiseDispute(escrowId);
+    }
+
+    function test_SubmitEvidence() public {
+        uint256 escrowId = _openEscrow();
+        _dispute(escrowId);
+
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.EvidenceSubmitted(escrowId, buyer, "QmBuyerEvidence");
+        vm.prank(buyer);
+        escrowX.submitEvidence(escrowId, "QmBuyerEvidence");
+        vm.prank(seller);
+        escrowX.submitEvidence(escrowId, "QmSellerEvidence");
+
+        EscrowXContract.Evidence[] memory evidence = escrowX.getEvidence(escrowId);
+        assertEq(evidence.length, 2);
+        assertEq(evidence[0].submittedBy, buyer);
+        assertEq(evidence[1].cid, "QmSellerEvidence");
+    }
+
+    function test_SubmitEvidence_Reverts() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Invalid state."));
+        escrowX.submitEvidence(escrowId, "QmEvidence");
+
+        _dispute(escrowId);
+
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only participants can call this."));
+        escrowX.submitEvidence(escrowId, "QmEvidence");
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Evidence CID required"));
+        escrowX.submitEvidence(escrowId, "");
+    }
+
+    function test_ResolveDisputeSplit() public {
+        uint256 escrowId = _openEscrow();
+        _dispute(escrowId);
+
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.DisputeResolved(escrowId, owner, 0.3 ether, 0.7 ether);
+        vm.prank(owner);
+        escrowX.resolveDispute(escrowId, 3000);
+
+        _assertState(escrowId, EscrowXContract.EscrowState.COMPLETED);
+        assertEq(_balance(buyer), 0.3 ether);
+        assertEq(_balance(seller), 0.7 ether);
+    }
+
+    function test_ResolveDisputeFullRefund() public {
+        uint256 escrowId = _openEscrow();
+        _dispute(escrowId);
+        uint256 everything = escrowX.BPS_DENOMINATOR();
+
+        vm.prank(owner);
+        escrowX.resolveDispute(escrowId, everything);
+
+        _assertState(escrowId, EscrowXContract.EscrowState.REFUNDED);
+        assertEq(_balance(buyer), PRICE);
+        assertEq(_balance(seller), 0);
+    }
+
+    function test_ResolveDispute_Reverts() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.prank(owner);
+        vm.expectRevert(bytes("Invalid state."));
+        escrowX.resolveDispute(escrowId, 5000);
+
+        _dispute(escrowId);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Only arbiter can call this."));
+        escrowX.resolveDispute(escrowId, 10000);
+
+        vm.prank(owner);
+        vm.expectRevert(bytes("Invalid split"));
+        escrowX.resolveDispute(escrowId, 10001);
+    }
+
+    function test_RevokedArbiterCannotResolve() public {
+        address arbiter = makeAddr("arbiter");
+        vm.startPrank(owner);
+        escrowX.setArbiter(arbiter, true);
+        escrowX.setArbiter(arbiter, false);
+        vm.stopPrank();
+
+        uint256 escrowId = _openEscrow();
+        _dispute(escrowId);
+        vm.prank(arbiter);
+        vm.expectRevert(bytes("Only arbiter can call this."));
+        escrowX.resolveDispute(escrowId, 5000);
+    }
+
+    function test_PartyArbiterCannotResolve() public {
+        vm.startPrank(owner);
+        escrowX.setArbiter(buyer, true);
+        escrowX.setArbiter(seller, true);
+        vm.stopPrank();
+
+        uint256 escrowId = _openEscrow();
+        _dispute(escrowId);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Arbiter is a party to this escrow."));
+        escrowX.resolveDispute(escrowId, 10000);
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Arbiter is a party to this escrow."));
+        escrowX.resolveDispute(escrowId, 0);
+
+        vm.prank(owner);
+        escrowX.resolveDispute(escrowId, 5000);
+        _assertState(escrowId, EscrowXContract.EscrowState.COMPLETED);
+    }
+}
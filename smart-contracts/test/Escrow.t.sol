@@ -0,0 +1,240 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import {EscrowXTestBase} from "./EscrowXTestBase.sol";
+import {EscrowXContract} from "../EscrowXContract.sol";
+
+contract EscrowTest is EscrowXTestBase {
+    // Creation
+
+    function test_CreateEscrow() public {
+        uint256 serviceId = _createService();
+
+        vm.expectEmit(true, true, true, true, address(escrowX));
+        emit EscrowXContract.EscrowCreated(1, serviceId, buyer, seller, PRICE);
+        vm.prank(buyer);
+        escrowX.createEscrow{value: PRICE}(serviceId);
+
+        EscrowXContract.Escrow memory escrow = escrowX.getEscrow(1);
+        assertEq(escrow.buyer, buyer);
+        assertEq(escrow.seller, seller);
+        assertEq(escrow.amount, PRICE);
+        assertEq(escrow.deliveryDeadline, block.timestamp + DELIVERY);
+        assertEq(address(escrowX).balance, PRICE);
+        _assertState(1, EscrowXContract.EscrowState.AWAITING_DELIVERY);
+
+        assertEq(escrowX.getUserEscrows(buyer).length, 1);
+        assertEq(escrowX.getUserEscrows(seller)[0], 1);
+    }
+
+    function test_CreateEscrow_PullsApprovedTokens() public {
+        uint256 escrowId = _openTokenEscrow();
+        assertEq(usdc.balanceOf(address(escrowX)), TOKEN_PRICE);
+        assertEq(escrowX.getEscrow(escrowId).paymentToken, address(usdc));
+    }
+
+    function test_CreateEscrow_Reverts() public {
+        uint256 serviceId = _createService();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Service is not active"));
+        escrowX.createEscrow{value: PRICE}(99);
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Seller cannot buy own service"));
+        escrowX.createEscrow{value: PRICE}(serviceId);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Incorrect payment amount"));
+        escrowX.createEscrow{value: PRICE - 1}(serviceId);
+    }
+
+    function test_CreateTokenEscrow_Reverts() public {
+        uint256 serviceId = _createService(TOKEN_PRICE, address(usdc));
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Native payment not accepted"));
+        escrowX.createEscrow{value: 1}(serviceId);
+
+        // No allowance
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Token transfer failed."));
+        escrowX.createEscrow(serviceId);
+    }
+
+    function test_CreateTokenEscrow_RevertsWhenTokenHasNoCode() public {
+        address token = makeAddr("token");
+        vm.prank(owner);
+        escrowX.setSupportedToken(token, true);
+        uint256 serviceId = _createService(TOKEN_PRICE, token);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Token is not a contract"));
+        escrowX.createEscrow(serviceId);
+    }
+
+    // Delivery and release
+
+    function test_DeliverAndConfirm() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.DeliveryConfirmed(escrowId, seller, DELIVERABLE);
+        _deliver(escrowId);
+        EscrowXContract.Escrow memory escrow = escrowX.getEscrow(escrowId);
+        assertTrue(escrow.sellerDelivered);
+        assertEq(escrow.deliveredAt, block.timestamp);
+        assertEq(escrowX.deliverables(escrowId), DELIVERABLE);
+
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.FundsReleased(escrowId, seller, PRICE);
+        vm.prank(buyer);
+        escrowX.confirmDelivery(escrowId);
+
+        _assertState(escrowId, EscrowXContract.EscrowState.COMPLETED);
+        assertTrue(escrowX.getEscrow(escrowId).buyerConfirmed);
+        assertEq(_balance(seller), PRICE);
+    }
+
+    function test_ConfirmWithoutDelivery() public {
+        uint256 escrowId = _openEscrow();
+        vm.prank(buyer);
+        escrowX.confirmDelivery(escrowId);
+        _assertState(escrowId, EscrowXContract.EscrowState.COMPLETED);
+    }
+
+    function test_ConfirmDelivery_Reverts() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Only buyer can call this."));
+        escrowX.confirmDelivery(escrowId);
+
+        vm.prank(buyer);
+        escrowX.confirmDelivery(escrowId);
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Invalid state."));
+        escrowX.confirmDelivery(escrowId);
+    }
+
+    function test_MarkDelivered_Reverts() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Only seller can call this."));
+        escrowX.markDelivered(escrowId, DELIVERABLE);
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Deliverable CID required"));
+        escrowX.markDelivered(escrowId, "");
+
+        vm.warp(block.timestamp + DELIVERY + 1);
+        vm.prank(seller);
+        vm.expectRevert(bytes("Delivery deadline passed"));
+        escrowX.markDelivered(escrowId, DELIVERABLE);
+    }
+
+    function test_ClaimPaymentAfterReviewWindow() public {
+        uint256 escrowId = _openEscrow();
+        _deliver(escrowId);
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Review window still open"));
+        escrowX.claimPayment(escrowId);
+
+        vm.warp(block.timestamp + escrowX.REVIEW_WINDOW() + 1);
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.FundsReleased(escrowId, seller, PRICE);
+        vm.prank(seller);
+        escrowX.claimPayment(escrowId);
+
+        _assertState(escrowId, EscrowXContract.EscrowState.COMPLETED);
+        assertFalse(escrowX.getEscrow(escrowId).buyerConfirmed);
+        assertEq(_balance(seller), PRICE);
+    }
+
+    function test_ClaimPayment_Reverts() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Only seller can call this."));
+        escrowX.claimPayment(escrowId);
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Work not delivered"));
+        escrowX.claimPayment(escrowId);
+    }
+
+    // Refunds
+
+    function test_ClaimRefundAfterMissedDeadline() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Delivery deadline not reached"));
+        escrowX.claimRefund(escrowId);
+
+        vm.warp(block.timestamp + DELIVERY + 1);
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.Refunded(escrowId, buyer, PRICE);
+        vm.prank(buyer);
+        escrowX.claimRefund(escrowId);
+
+        _assertState(escrowId, EscrowXContract.EscrowState.REFUNDED);
+        assertEq(_balance(buyer), PRICE);
+    }
+
+    function test_ClaimRefund_Reverts() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Only buyer can call this."));
+        escrowX.claimRefund(escrowId);
+
+        _deliver(escrowId);
+        vm.warp(block.timestamp + DELIVERY + 1);
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Work was delivered"));
+        escrowX.claimRefund(escrowId);
+    }
+
+    function test_RefundBuyer() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Only seller can call this."));
+        escrowX.refundBuyer(escrowId);
+
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.Refunded(escrowId, buyer, PRICE);
+        vm.prank(seller);
+        escrowX.refundBuyer(escrowId);
+
+        _assertState(escrowId, EscrowXContract.EscrowState.REFUNDED);
+        assertEq(_balance(buyer), PRICE);
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Invalid state."));
+        escrowX.refundBuyer(escrowId);
+    }
+
+    function test_SinglePaymentFunctionsRejectMilestoneEscrows() public {
+        uint256 escrowId = _openMilestoneEscrow();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Use milestone functions."));
+        escrowX.confirmDelivery(escrowId);
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Use milestone functions."));
+        escrowX.markDelivered(escrowId, DELIVERABLE);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Use milestone functions."));
+        escrowX.raiseDispute(escrowId);
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Use milestone functions."));
+        escrowX.refundBuyer(escrowId);
+    }
+}
@@ -0,0 +1,120 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import {Test} from "forge-std/Test.sol";
+import {EscrowXContract} from "../EscrowXContract.sol";
+import {MockERC20} from "./mocks/MockERC20.sol";
+
+/**
+ * @dev Shared fixture: a freshly deployed contract with an owner (also the default arbiter
+ *      and treasury), a seller, a buyer, an outsider and an allow-listed stablecoin.
+ */
+abstract contract EscrowXTestBase is Test {
+    EscrowXContract internal escrowX;
+    MockERC20 internal usdc;
+
+    address internal owner = makeAddr("owner");
+    address internal seller = makeAddr("seller");
+    address internal buyer = makeAddr("buyer");
+    address internal stranger = makeAddr("stranger");
+
+    uint256 internal constant PRICE = 1 ether;
+    uint256 internal constant TOKEN_PRICE = 500e6;
+    uint256 internal constant DELIVERY = 7 days;
+    uint256 internal constant MAX_REVISIONS = 2;
+    string internal constant DESCRIPTION_CID = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+    string internal constant DELIVERABLE = "QmDeliverableBundle";
+
+    function setUp() public virtual {
+        vm.prank(owner);
+        escrowX = new EscrowXContract();
+
+        usdc = new MockERC20("USD Coin", "USDC", 6);
+        vm.prank(owner);
+        escrowX.setSupportedToken(address(usdc), true);
+
+        vm.deal(buyer, 100 ether);
+        vm.deal(seller, 1 ether);
+        vm.deal(stranger, 100 ether);
+        usdc.mint(buyer, 10_000e6);
+    }
+
+    // Listings and escrows
+
+    function _createService() internal returns (uint256) {
+        return _createService(PRICE, address(0));
+    }
+
+    function _createService(uint256 _price, address _token) internal returns (uint256) {
+        vm.prank(seller);
+        escrowX.createService("Smart contract audit", DESCRIPTION_CID, _price, DELIVERY, _token, MAX_REVISIONS);
+        return escrowX.serviceCounter();
+    }
+
+    /// @dev Native-currency escrow for a fresh service, in AWAITING_DELIVERY.
+    function _openEscrow() internal returns (uint256) {
+        uint256 serviceId = _createService();
+        vm.prank(buyer);
+        escrowX.createEscrow{value: PRICE}(serviceId);
+        return escrowX.escrowCounter();
+    }
+
+    /// @dev Token escrow for a fresh USDC service, in AWAITING_DELIVERY.
+    function _openTokenEscrow() internal returns (uint256) {
+        uint256 serviceId = _createService(TOKEN_PRICE, address(usdc));
+        vm.startPrank(buyer);
+        usdc.approve(address(escrowX), TOKEN_PRICE);
+        escrowX.createEscrow(serviceId);
+        vm.stopPrank();
+        return escrowX.escrowCounter();
+    }
+
+    /// @dev Two-phase native milestone escrow (0.4 + 0.6 of PRICE) with the first phase funded.
+    function _openMilestoneEscrow() internal returns (uint256) {
+        uint256 serviceId = _createService();
+        uint256[] memory amounts = new uint256[](2);
+        amounts[0] = 0.4 ether;
+        amounts[1] = 0.6 ether;
+        string[] memory descriptions = new string[](2);
+        descriptions[0] = "QmPhaseOne";
+        descriptions[1] = "QmPhaseTwo";
+        uint256[] memory deadlines = new uint256[](2);
+        deadlines[0] = block.timestamp + 3 days;
+        deadlines[1] = block.timestamp + 10 days;
+
+        vm.prank(buyer);
+        escrowX.createMilestoneEscrow{value: amounts[0]}(serviceId, amounts, descriptions, deadlines);
+        return escrowX.escrowCounter();
+    }
+
+    /// @dev Custom offer from the buyer to the seller, in OFFERED.
+    function _openOffer() internal returns (uint256) {
+        vm.prank(buyer);
+        escrowX.createCustomEscrow{value: PRICE}(payable(seller), PRICE, DELIVERY, "QmTerms", address(0));
+        return escrowX.escrowCounter();
+    }
+
+    function _deliver(uint256 _escrowId) internal {
+        vm.prank(seller);
+        escrowX.markDelivered(_escrowId, DELIVERABLE);
+    }
+
+    function _dispute(uint256 _escrowId) internal {
+        vm.prank(buyer);
+        escrowX.raiseDispute(_escrowId);
+    }
+
+    // Assertions
+
+    function _assertState(uint256 _escrowId, EscrowXContract.EscrowState _state) internal view {
+        assertEq(uint256(escrowX.getEscrow(_escrowId).state), uint256(_state));
+    }
+
+    function _assertMilestoneState(uint256 _escrowId, uint256 _index, EscrowXContract.EscrowState _state) internal view {
+        assertEq(uint256(escrowX.getMilestones(_escrowId)[_index].state), uint256(_state));
+    }
+
+    function _balance(address _account) internal view returns (uint256) {
+        return escrowX.balances(_account, address(0));
+    }
+}
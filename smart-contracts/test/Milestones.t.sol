@@ -0,0 +1,361 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import {Vm} from "forge-std/Test.sol";
+import {EscrowXTestBase} from "./EscrowXTestBase.sol";
+import {EscrowXContract} from "../EscrowXContract.sol";
+
+contract MilestonesTest is EscrowXTestBase {
+    function test_CreateMilestoneEscrow() public {
+        vm.recordLogs();
+        uint256 escrowId = _openMilestoneEscrow();
+        Vm.Log[] memory logs = vm.getRecordedLogs();
+        Vm.Log memory funded = logs[logs.length - 1];
+        assertEq(funded.topics[0], EscrowXContract.MilestoneFunded.selector);
+        assertEq(uint256(funded.topics[1]), escrowId);
+        assertEq(abi.decode(funded.data, (uint256)), 0.4 ether);
+
+        EscrowXContract.Milestone[] memory milestones = escrowX.getMilestones(escrowId);
+        assertEq(milestones.length, 2);
+        assertEq(milestones[0].amount, 0.4 ether);
+        assertEq(milestones[1].description, "QmPhaseTwo");
+        assertEq(address(escrowX).balance, 0.4 ether);
+        _assertState(escrowId, EscrowXContract.EscrowState.AWAITING_DELIVERY);
+        _assertMilestoneState(escrowId, 0, EscrowXContract.EscrowState.AWAITING_DELIVERY);
+        _assertMilestoneState(escrowId, 1, EscrowXContract.EscrowState.AWAITING_PAYMENT);
+    }
+
+    function test_CreateMilestoneEscrow_Reverts() public {
+        uint256 serviceId = _createService();
+        uint256[] memory amounts = new uint256[](2);
+        amounts[0] = 0.5 ether;
+        amounts[1] = 0.5 ether;
+        string[] memory descriptions = new string[](2);
+        uint256[] memory deadlines = new uint256[](2);
+        deadlines[0] = block.timestamp + 1 days;
+        deadlines[1] = block.timestamp + 2 days;
+
+        vm.startPrank(buyer);
+        vm.expectRevert(bytes("At least one milestone required"));
+        escrowX.createMilestoneEscrow(serviceId, new uint256[](0), new string[](0), new uint256[](0));
+
+        vm.expectRevert(bytes("Milestone length mismatch"));
+        escrowX.createMilestoneEscrow{value: 0.5 ether}(serviceId, amounts, new string[](1), deadlines);
+
+        vm.expectRevert(bytes("Incorrect payment amount"));
+        escrowX.createMilestoneEscrow{value: PRICE}(serviceId, amounts, descriptions, deadlines);
+
+        amounts[1] = 0;
+        vm.expectRevert(bytes("Milestone amount must be greater than 0"));
+        escrowX.createMilestoneEscrow{value: 0.5 ether}(serviceId, amounts, descriptions, deadlines);
+
+        amounts[1] = 0.4 ether;
+        vm.expectRevert(bytes("Milestones must add up to the price"));
+        escrowX.createMilestoneEscrow{value: 0.5 ether}(serviceId, amounts, descriptions, deadlines);
+
+        amounts[1] = 0.5 ether;
+        deadlines[1] = block.timestamp;
+        vm.expectRevert(bytes("Milestone deadline must be in the future"));
+        escrowX.createMilestoneEscrow{value: 0.5 ether}(serviceId, amounts, descriptions, deadlines);
+        vm.stopPrank();
+    }
+
+    function test_CreateCustomMilestoneEscrow() public {
+        uint256[] memory amounts = new uint256[](2);
+        amounts[0] = 0.3 ether;
+        amounts[1] = 0.2 ether;
+        string[] memory descriptions = new string[](2);
+        descriptions[0] = "QmPhaseOne";
+        descriptions[1] = "QmPhaseTwo";
+        uint256[] memory deadlines = new uint256[](2);
+        deadlines[0] = block.timestamp + 3 days;
+        deadlines[1] = block.timestamp + 10 days;
+
+        vm.prank(buyer);
+        escrowX.createCustomMilestoneEscrow{value: 0.3 ether}(payable(seller), amounts, descriptions, deadlines, "QmTerms", address(0));
+        uint256 escrowId = escrowX.escrowCounter();
+
+        EscrowXContract.Escrow memory escrow = escrowX.getEscrow(escrowId);
+        assertEq(escrow.serviceId, 0);
+        assertEq(escrow.seller, seller);
+        assertEq(escrow.amount, 0.5 ether);
+        assertEq(escrow.deliveryDeadline, deadlines[1]);
+        assertEq(escrowX.escrowTerms(escrowId), "QmTerms");
+        assertEq(escrowX.getMilestones(escrowId).length, 2);
+        assertEq(address(escrowX).balance, 0.3 ether);
+        _assertState(escrowId, EscrowXContract.EscrowState.AWAITING_DELIVERY);
+        _assertMilestoneState(escrowId, 0, EscrowXContract.EscrowState.AWAITING_DELIVERY);
+        _assertMilestoneState(escrowId, 1, EscrowXContract.EscrowState.AWAITING_PAYMENT);
+
+        // Runs through the same milestone functions as a service escrow
+        vm.prank(seller);
+        escrowX.markMilestoneDelivered(escrowId, 0);
+        vm.prank(buyer);
+        escrowX.confirmMilestone(escrowId, 0);
+        _assertMilestoneState(escrowId, 0, EscrowXContract.EscrowState.COMPLETED);
+        assertEq(_balance(seller), 0.3 ether);
+    }
+
+    function test_CreateCustomMilestoneEscrow_Reverts() public {
+        uint256[] memory amounts = new uint256[](1);
+        amounts[0] = 0.5 ether;
+        string[] memory descriptions = new string[](1);
+        uint256[] memory deadlines = new uint256[](1);
+        deadlines[0] = block.timestamp + 1 days;
+
+        vm.startPrank(buyer);
+        vm.expectRevert(bytes("Invalid seller"));
+        escrowX.createCustomMilestoneEscrow{value: 0.5 ether}(payable(buyer), amounts, descriptions, deadlines, "QmTerms", address(0));
+
+        vm.expectRevert(bytes("Unsupported payment token"));
+        escrowX.createCustomMilestoneEscrow(payable(seller), amounts, descriptions, deadlines, "QmTerms", stranger);
+
+        vm.expectRevert(bytes("At least one milestone required"));
+        escrowX.createCustomMilestoneEscrow(payable(seller), new uint256[](0), new string[](0), new uint256[](0), "QmTerms", address(0));
+
+        vm.expectRevert(bytes("Milestone length mismatch"));
+        escrowX.createCustomMilestoneEscrow{value: 0.5 ether}(payable(seller), amounts, descriptions, new uint256[](2), "QmTerms", address(0));
+
+        deadlines[0] = block.timestamp;
+        vm.expectRevert(bytes("Milestone deadline must be in the future"));
+        escrowX.createCustomMilestoneEscrow{value: 0.5 ether}(payable(seller), amounts, descriptions, deadlines, "QmTerms", address(0));
+
+        deadlines[0] = block.timestamp + 1 days;
+        vm.expectRevert(bytes("Incorrect payment amount"));
+        escrowX.createCustomMilestoneEscrow{value: 0.4 ether}(payable(seller), amounts, descriptions, deadlines, "QmTerms", address(0));
+        vm.stopPrank();
+    }
+
+    function test_MilestoneLifecycle() public {
+        uint256 escrowId = _openMilestoneEscrow();
+
+        vm.expectEmit(true, true, false, false, address(escrowX));
+        emit EscrowXContract.MilestoneDelivered(escrowId, 0);
+        vm.prank(seller);
+        escrowX.markMilestoneDelivered(escrowId, 0);
+
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.MilestoneReleased(escrowId, 0, 0.4 ether);
+        vm.prank(buyer);
+        escrowX.confirmMilestone(escrowId, 0);
+        _assertMilestoneState(escrowId, 0, EscrowXContract.EscrowState.COMPLETED);
+        _assertState(escrowId, EscrowXContract.EscrowState.AWAITING_DELIVERY);
+
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.MilestoneFunded(escrowId, 1, 0.6 ether);
+        vm.prank(buyer);
+        escrowX.fundMilestone{value: 0.6 ether}(escrowId, 1);
+
+        vm.prank(seller);
+        escrowX.markMilestoneDelivered(escrowId, 1);
+        vm.warp(block.timestamp + escrowX.REVIEW_WINDOW() + 1);
+        vm.prank(seller);
+        escrowX.claimMilestonePayment(escrowId, 1);
+
+        _assertState(escrowId, EscrowXContract.EscrowState.COMPLETED);
+        assertTrue(escrowX.getEscrow(escrowId).buyerConfirmed);
+        assertEq(_balance(seller), PRICE);
+    }
+
+    function test_FundMilestone_Reverts() public {
+        uint256 escrowId = _openMilestoneEscrow();
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Only buyer can call this."));
+        escrowX.fundMilestone{value: 0.6 ether}(escrowId, 1);
+
+        vm.startPrank(buyer);
+        vm.expectRevert(bytes("Invalid milestone."));
+        escrowX.fundMilestone{value: 0.6 ether}(escrowId, 2);
+
+        vm.expectRevert(bytes("Invalid milestone state."));
+        escrowX.fundMilestone{value: 0.4 ether}(escrowId, 0);
+
+        vm.expectRevert(bytes("Incorrect payment amount"));
+        escrowX.fundMilestone{value: 0.5 ether}(escrowId, 1);
+        vm.stopPrank();
+    }
+
+    function test_MilestoneDelivery_Reverts() public {
+        uint256 escrowId = _openMilestoneEscrow();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Only seller can call this."));
+        escrowX.markMilestoneDelivered(escrowId, 0);
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Invalid milestone state."));
+        escrowX.markMilestoneDelivered(escrowId, 1);
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Work not delivered"));
+        escrowX.claimMilestonePayment(escrowId, 0);
+
+        vm.prank(seller);
+        escrowX.markMilestoneDelivered(escrowId, 0);
+        vm.prank(seller);
+        vm.expectRevert(bytes("Review window still open"));
+        escrowX.claimMilestonePayment(escrowId, 0);
+
+        vm.warp(block.timestamp + 4 days);
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Work was delivered"));
+        escrowX.claimMilestoneRefund(escrowId, 0);
+    }
+
+    function test_MarkMilestoneDelivered_RevertsAfterDeadline() public {
+        uint256 escrowId = _openMilestoneEscrow();
+        vm.warp(block.timestamp + 3 days + 1);
+        vm.prank(seller);
+        vm.expectRevert(bytes("Delivery deadline passed"));
+        escrowX.markMilestoneDelivered(escrowId, 0);
+    }
+
+    function test_ClaimMilestoneRefund() public {
+        uint256 escrowId = _openMilestoneEscrow();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Delivery deadline not reached"));
+        escrowX.claimMilestoneRefund(escrowId, 0);
+
+        vm.warp(block.timestamp + 3 days + 1);
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.MilestoneRefunded(escrowId, 0, 0.4 ether);
+        vm.prank(buyer);
+        escrowX.claimMilestoneRefund(escrowId, 0);
+
+        _assertMilestoneState(escrowId, 0, EscrowXContract.EscrowState.REFUNDED);
+        _assertState(escrowId, EscrowXContract.EscrowState.AWAITING_DELIVERY);
+        assertEq(_balance(buyer), 0.4 ether);
+    }
+
+    function test_RefundMilestoneCancelsUnfundedPhases() public {
+        uint256 escrowId = _openMilestoneEscrow();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Only seller can call this."));
+        escrowX.refundMilestone(escrowId, 0);
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Invalid milestone."));
+        escrowX.refundMilestone(escrowId, 2);
+
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.MilestoneRefunded(escrowId, 1, 0);
+        vm.prank(seller);
+        escrowX.refundMilestone(escrowId, 1);
+
+        vm.prank(seller);
+        escrowX.refundMilestone(escrowId, 0);
+
+        _assertState(escrowId, EscrowXContract.EscrowState.REFUNDED);
+        assertFalse(escrowX.getEscrow(escrowId).buyerConfirmed);
+        assertEq(_balance(buyer), 0.4 ether);
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Invalid milestone state."));
+        escrowX.refundMilestone(escrowId, 0);
+    }
+
+    function test_MilestoneDispute() public {
+        uint256 escrowId = _openMilestoneEscrow();
+
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only participants can call this."));
+        escrowX.disputeMilestone(escrowId, 0);
+
+        vm.expectEmit(true, true, true, false, address(escrowX));
+        emit EscrowXContract.MilestoneDisputed(escrowId, 0, buyer);
+        vm.prank(buyer);
+        escrowX.disputeMilestone(escrowId, 0);
+        _assertState(escrowId, EscrowXContract.EscrowState.DISPUTED);
+
+        // Unfunded phases can still be funded while another is disputed
+        vm.prank(buyer);
+        escrowX.fundMilestone{value: 0.6 ether}(escrowId, 1);
+        _assertState(escrowId, EscrowXContract.EscrowState.DISPUTED);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Only arbiter can call this."));
+        escrowX.resolveMilestoneDispute(escrowId, 0, 5000);
+
+        vm.prank(owner);
+        vm.expectRevert(bytes("Invalid split"));
+        escrowX.resolveMilestoneDispute(escrowId, 0, 10001);
+
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.MilestoneDisputeResolved(escrowId, 0, 0.1 ether, 0.3 ether);
+        vm.prank(owner);
+        escrowX.resolveMilestoneDispute(escrowId, 0, 2500);
+
+        _assertMilestoneState(escrowId, 0, EscrowXContract.EscrowState.COMPLETED);
+        _assertState(escrowId, EscrowXContract.EscrowState.AWAITING_DELIVERY);
+        assertEq(_balance(buyer), 0.1 ether);
+        assertEq(_balance(seller), 0.3 ether);
+
+        vm.prank(owner);
+        vm.expectRevert(bytes("Invalid milestone state."));
+        escrowX.resolveMilestoneDispute(escrowId, 0, 2500);
+    }
+
+    function test_MilestoneDisputeFullRefund() public {
+        uint256 escrowId = _openMilestoneEscrow();
+        vm.prank(seller);
+        escrowX.disputeMilestone(escrowId, 0);
+        vm.prank(seller);
+        escrowX.refundMilestone(escrowId, 1);
+
+        vm.prank(owner);
+        escrowX.resolveMilestoneDispute(escrowId, 0, 10000);
+
+        _assertMilestoneState(escrowId, 0, EscrowXContract.EscrowState.REFUNDED);
+        _assertState(escrowId, EscrowXContract.EscrowState.REFUNDED);
+        assertEq(_balance(buyer), 0.4 ether);
+    }
+
+    function test_PartyArbiterCannotResolveMilestone() public {
+        vm.startPrank(owner);
+        escrowX.setArbiter(buyer, true);
+        escrowX.setArbiter(seller, true);
+        vm.stopPrank();
+
+        uint256 escrowId = _openMilestoneEscrow();
+        vm.prank(buyer);
+        escrowX.disputeMilestone(escrowId, 0);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Arbiter is a party to this escrow."));
+        escrowX.resolveMilestoneDispute(escrowId, 0, 10000);
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Arbiter is a party to this escrow."));
+        escrowX.resolveMilestoneDispute(escrowId, 0, 0);
+
+        vm.prank(owner);
+        escrowX.resolveMilestoneDispute(escrowId, 0, 5000);
+        _assertMilestoneState(escrowId, 0, EscrowXContract.EscrowState.COMPLETED);
+    }
+
+    function test_MilestoneTokenEscrow() public {
+        uint256 serviceId = _createService(TOKEN_PRICE, address(usdc));
+        uint256[] memory amounts = new uint256[](2);
+        amounts[0] = 200e6;
+        amounts[1] = 300e6;
+        string[] memory descriptions = new string[](2);
+        uint256[] memory deadlines = new uint256[](2);
+        deadlines[0] = block.timestamp + 1 days;
+        deadlines[1] = block.timestamp + 2 days;
+
+        vm.startPrank(buyer);
+        usdc.approve(address(escrowX), TOKEN_PRICE);
+        escrowX.createMilestoneEscrow(serviceId, amounts, descriptions, deadlines);
+        assertEq(usdc.balanceOf(address(escrowX)), 200e6);
+
+        vm.expectRevert(bytes("Native payment not accepted"));
+        escrowX.fundMilestone{value: 1}(1, 1);
+        escrowX.fundMilestone(1, 1);
+        vm.stopPrank();
+
+        assertEq(usdc.balanceOf(address(escrowX)), TOKEN_PRICE);
+    }
+}
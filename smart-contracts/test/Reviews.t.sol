@@ -0,0 +1,104 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import {EscrowXTestBase} from "./EscrowXTestBase.sol";
+import {EscrowXContract} from "../EscrowXContract.sol";
+
+contract ReviewsTest is EscrowXTestBase {
+    function _completedEscrow() internal returns (uint256 escrowId) {
+        escrowId = _openEscrow();
+        vm.prank(buyer);
+        escrowX.confirmDelivery(escrowId);
+    }
+
+    function test_SubmitReview() public {
+        uint256 escrowId = _completedEscrow();
+
+        vm.expectEmit(true, true, true, true, address(escrowX));
+        emit EscrowXContract.ReviewSubmitted(escrowId, buyer, seller, 5, "QmComment");
+        vm.prank(buyer);
+        escrowX.submitReview(escrowId, 5, "QmComment");
+        vm.prank(seller);
+        escrowX.submitReview(escrowId, 4, "");
+
+        EscrowXContract.Rating memory sellerRating = escrowX.getRating(seller);
+        assertEq(sellerRating.total, 5);
+        assertEq(sellerRating.count, 1);
+        assertEq(escrowX.getRating(buyer).total, 4);
+        assertTrue(escrowX.hasReviewed(escrowId, buyer));
+    }
+
+    function test_ReviewAfterRefund() public {
+        uint256 escrowId = _openEscrow();
+        vm.prank(seller);
+        escrowX.refundBuyer(escrowId);
+
+        vm.prank(seller);
+        escrowX.submitReview(escrowId, 3, "");
+        assertEq(escrowX.getRating(buyer).count, 1);
+    }
+
+    function test_ReviewAfterAcceptedOfferRefund() public {
+        uint256 escrowId = _openOffer();
+        vm.startPrank(seller);
+        escrowX.acceptOffer(escrowId);
+        escrowX.refundBuyer(escrowId);
+        escrowX.submitReview(escrowId, 3, "");
+        vm.stopPrank();
+
+        assertFalse(escrowX.offerCancelled(escrowId));
+        assertEq(escrowX.getRating(buyer).count, 1);
+    }
+
+    function test_SubmitReview_RevertsOnWithdrawnOffer() public {
+        uint256 escrowId = _openOffer();
+        vm.prank(buyer);
+        escrowX.withdrawOffer(escrowId);
+        assertTrue(escrowX.offerCancelled(escrowId));
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Offer was never accepted."));
+        escrowX.submitReview(escrowId, 1, "");
+        vm.prank(seller);
+        vm.expectRevert(bytes("Offer was never accepted."));
+        escrowX.submitReview(escrowId, 1, "");
+    }
+
+    function test_SubmitReview_RevertsOnDeclinedOffer() public {
+        uint256 escrowId = _openOffer();
+        vm.prank(seller);
+        escrowX.declineOffer(escrowId);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Offer was never accepted."));
+        escrowX.submitReview(escrowId, 1, "");
+        assertEq(escrowX.getRating(seller).count, 0);
+    }
+
+    function test_SubmitReview_Reverts() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Escrow not finished."));
+        escrowX.submitReview(escrowId, 5, "");
+
+        vm.prank(buyer);
+        escrowX.confirmDelivery(escrowId);
+
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only participants can call this."));
+        escrowX.submitReview(escrowId, 5, "");
+
+        vm.startPrank(buyer);
+        vm.expectRevert(bytes("Rating must be 1-5"));
+        escrowX.submitReview(escrowId, 0, "");
+
+        vm.expectRevert(bytes("Rating must be 1-5"));
+        escrowX.submitReview(escrowId, 6, "");
+
+        escrowX.submitReview(escrowId, 5, "");
+        vm.expectRevert(bytes("Already reviewed."));
+        escrowX.submitReview(escrowId, 4, "");
+        vm.stopPrank();
+    }
+}
@@ -0,0 +1,133 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import {EscrowXTestBase} from "./EscrowXTestBase.sol";
+import {EscrowXContract} from "../EscrowXContract.sol";
+
+contract RevisionsTest is EscrowXTestBase {
+    string internal constant NOTE = "QmRevisionNote";
+
+    function test_RequestRevision() public {
+        uint256 escrowId = _openEscrow();
+        uint256 deadline = escrowX.getEscrow(escrowId).deliveryDeadline;
+        _deliver(escrowId);
+
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.RevisionRequested(escrowId, buyer, NOTE, deadline + escrowX.REVISION_EXTENSION());
+        vm.prank(buyer);
+        escrowX.requestRevision(escrowId, NOTE);
+
+        EscrowXContract.Escrow memory escrow = escrowX.getEscrow(escrowId);
+        assertFalse(escrow.sellerDelivered);
+        assertEq(escrow.deliveredAt, 0);
+        assertEq(escrow.deliveryDeadline, deadline + escrowX.REVISION_EXTENSION());
+        assertEq(escrow.revisionsUsed, 1);
+        _assertState(escrowId, EscrowXContract.EscrowState.AWAITING_DELIVERY);
+    }
+
+    function test_RequestRevision_ExtendsFromNowAfterDeadline() public {
+        uint256 escrowId = _openEscrow();
+        vm.warp(block.timestamp + DELIVERY - 1);
+        _deliver(escrowId);
+        vm.warp(block.timestamp + 2 days);
+
+        vm.prank(buyer);
+        escrowX.requestRevision(escrowId, NOTE);
+
+        assertEq(escrowX.getEscrow(escrowId).deliveryDeadline, block.timestamp + escrowX.REVISION_EXTENSION());
+    }
+
+    function test_RedeliverAfterRevision() public {
+        uint256 escrowId = _openEscrow();
+        _deliver(escrowId);
+        vm.prank(buyer);
+        escrowX.requestRevision(escrowId, NOTE);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Work not delivered"));
+        escrowX.requestRevision(escrowId, NOTE);
+
+        vm.prank(seller);
+        escrowX.markDelivered(escrowId, "QmRevisedBundle");
+        assertEq(escrowX.deliverables(escrowId), "QmRevisedBundle");
+
+        vm.prank(buyer);
+        escrowX.confirmDelivery(escrowId);
+        _assertState(escrowId, EscrowXContract.EscrowState.COMPLETED);
+        assertEq(_balance(seller), PRICE);
+    }
+
+    function test_RequestRevision_ClearsDeliverable() public {
+        uint256 escrowId = _openEscrow();
+        _deliver(escrowId);
+        assertEq(escrowX.deliverables(escrowId), DELIVERABLE);
+
+        vm.prank(buyer);
+        escrowX.requestRevision(escrowId, NOTE);
+        assertEq(escrowX.deliverables(escrowId), "");
+
+        vm.prank(seller);
+        escrowX.markDelivered(escrowId, "QmRevisedBundle");
+        assertEq(escrowX.deliverables(escrowId), "QmRevisedBundle");
+
+        vm.prank(buyer);
+        escrowX.requestRevision(escrowId, NOTE);
+        assertEq(escrowX.deliverables(escrowId), "");
+    }
+
+    function test_RequestRevision_LimitedToMaxRevisions() public {
+        uint256 escrowId = _openEscrow();
+        for (uint256 i = 0; i < MAX_REVISIONS; i++) {
+            _deliver(escrowId);
+            vm.prank(buyer);
+            escrowX.requestRevision(escrowId, NOTE);
+        }
+        _deliver(escrowId);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("No revisions left"));
+        escrowX.requestRevision(escrowId, NOTE);
+        assertEq(escrowX.getEscrow(escrowId).revisionsUsed, MAX_REVISIONS);
+    }
+
+    function test_RequestRevision_Reverts() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Work not delivered"));
+        escrowX.requestRevision(escrowId, NOTE);
+
+        _deliver(escrowId);
+        vm.prank(seller);
+        vm.expectRevert(bytes("Only buyer can call this."));
+        escrowX.requestRevision(escrowId, NOTE);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Revision note required"));
+        escrowX.requestRevision(escrowId, "");
+
+        vm.warp(block.timestamp + escrowX.REVIEW_WINDOW() + 1);
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Review window closed"));
+        escrowX.requestRevision(escrowId, NOTE);
+    }
+
+    function test_RequestRevision_RevertsWithoutRevisions() public {
+        uint256 escrowId = _openOffer();
+        vm.prank(seller);
+        escrowX.acceptOffer(escrowId);
+        _deliver(escrowId);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("No revisions left"));
+        escrowX.requestRevision(escrowId, NOTE);
+    }
+
+    function test_RequestRevision_RejectsMilestoneEscrows() public {
+        uint256 escrowId = _openMilestoneEscrow();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Use milestone functions."));
+        escrowX.requestRevision(escrowId, NOTE);
+    }
+}
@@ -0,0 +1,107 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import {EscrowXTestBase} from "./EscrowXTestBase.sol";
+import {EscrowXContract} from "../EscrowXContract.sol";
+
+contract ServicesTest is EscrowXTestBase {
+    function test_CreateService() public {
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.ServiceCreated(1, seller, "Smart contract audit", PRICE, address(0));
+        uint256 serviceId = _createService();
+
+        EscrowXContract.Service memory service = escrowX.getService(serviceId);
+        assertEq(service.seller, seller);
+        assertEq(service.description, DESCRIPTION_CID);
+        assertEq(service.price, PRICE);
+        assertEq(service.deliveryTime, DELIVERY);
+        assertEq(service.maxRevisions, MAX_REVISIONS);
+        assertTrue(service.isActive);
+        assertEq(escrowX.userServices(seller, 0), serviceId);
+    }
+
+    function test_CreateService_Reverts() public {
+        vm.startPrank(seller);
+        vm.expectRevert(bytes("Price must be greater than 0"));
+        escrowX.createService("Audit", DESCRIPTION_CID, 0, DELIVERY, address(0), MAX_REVISIONS);
+
+        vm.expectRevert(bytes("Delivery time must be greater than 0"));
+        escrowX.createService("Audit", DESCRIPTION_CID, PRICE, 0, address(0), MAX_REVISIONS);
+
+        vm.expectRevert(bytes("Unsupported payment token"));
+        escrowX.createService("Audit", DESCRIPTION_CID, PRICE, DELIVERY, makeAddr("token"), MAX_REVISIONS);
+        vm.stopPrank();
+    }
+
+    function test_UpdateService() public {
+        uint256 serviceId = _createService();
+
+        vm.expectEmit(true, false, false, true, address(escrowX));
+        emit EscrowXContract.ServiceUpdated(serviceId, "Full audit", TOKEN_PRICE, 3 days, address(usdc));
+        vm.prank(seller);
+        escrowX.updateService(serviceId, "Full audit", "QmNewDescription", TOKEN_PRICE, 3 days, address(usdc), 5);
+
+        EscrowXContract.Service memory service = escrowX.getService(serviceId);
+        assertEq(service.title, "Full audit");
+        assertEq(service.description, "QmNewDescription");
+        assertEq(service.price, TOKEN_PRICE);
+        assertEq(service.paymentToken, address(usdc));
+        assertEq(service.maxRevisions, 5);
+    }
+
+    function test_UpdateService_LeavesOpenEscrowsUnchanged() public {
+        uint256 escrowId = _openEscrow();
+        vm.prank(seller);
+        escrowX.updateService(1, "Audit", DESCRIPTION_CID, 2 ether, 1 days, address(0), 0);
+
+        EscrowXContract.Escrow memory escrow = escrowX.getEscrow(escrowId);
+        assertEq(escrow.amount, PRICE);
+        assertEq(escrow.deliveryDeadline, escrow.createdAt + DELIVERY);
+        assertEq(escrow.maxRevisions, MAX_REVISIONS);
+    }
+
+    function test_UpdateService_Reverts() public {
+        uint256 serviceId = _createService();
+
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only seller can call this."));
+        escrowX.updateService(serviceId, "Audit", DESCRIPTION_CID, PRICE, DELIVERY, address(0), MAX_REVISIONS);
+
+        vm.startPrank(seller);
+        vm.expectRevert(bytes("Price must be greater than 0"));
+        escrowX.updateService(serviceId, "Audit", DESCRIPTION_CID, 0, DELIVERY, address(0), MAX_REVISIONS);
+
+        vm.expectRevert(bytes("Delivery time must be greater than 0"));
+        escrowX.updateService(serviceId, "Audit", DESCRIPTION_CID, PRICE, 0, address(0), MAX_REVISIONS);
+
+        vm.expectRevert(bytes("Unsupported payment token"));
+        escrowX.updateService(serviceId, "Audit", DESCRIPTION_CID, PRICE, DELIVERY, makeAddr("token"), MAX_REVISIONS);
+        vm.stopPrank();
+    }
+
+    function test_SetServiceActive() public {
+        uint256 serviceId = _createService();
+
+        vm.expectEmit(true, false, false, true, address(escrowX));
+        emit EscrowXContract.ServiceActiveChanged(serviceId, false);
+        vm.prank(seller);
+        escrowX.setServiceActive(serviceId, false);
+        assertFalse(escrowX.getService(serviceId).isActive);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Service is not active"));
+        escrowX.createEscrow{value: PRICE}(serviceId);
+
+        vm.prank(seller);
+        escrowX.setServiceActive(serviceId, true);
+        vm.prank(buyer);
+        escrowX.createEscrow{value: PRICE}(serviceId);
+    }
+
+    function test_SetServiceActive_RevertsForNonSeller() public {
+        uint256 serviceId = _createService();
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only seller can call this."));
+        escrowX.setServiceActive(serviceId, false);
+    }
+}
@@ -0,0 +1,140 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import {EscrowXTestBase} from "./EscrowXTestBase.sol";
+import {EscrowXContract} from "../EscrowXContract.sol";
+
+contract SettlementTest is EscrowXTestBase {
+    function test_ProposeAndAcceptSettlement() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.SettlementProposed(escrowId, seller, 6000);
+        vm.prank(seller);
+        escrowX.proposeSettlement(escrowId, 6000);
+
+        (address proposedBy, uint256 buyerBps) = escrowX.settlements(escrowId);
+        assertEq(proposedBy, seller);
+        assertEq(buyerBps, 6000);
+
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.SettlementAccepted(escrowId, buyer, 0.6 ether, 0.4 ether);
+        vm.prank(buyer);
+        escrowX.acceptSettlement(escrowId, 6000);
+
+        _assertState(escrowId, EscrowXContract.EscrowState.COMPLETED);
+        assertEq(_balance(buyer), 0.6 ether);
+        assertEq(_balance(seller), 0.4 ether);
+        (proposedBy, ) = escrowX.settlements(escrowId);
+        assertEq(proposedBy, address(0));
+    }
+
+    function test_FullRefundSettlementEndsRefunded() public {
+        uint256 escrowId = _openEscrow();
+        vm.prank(buyer);
+        escrowX.proposeSettlement(escrowId, 10000);
+        vm.prank(seller);
+        escrowX.acceptSettlement(escrowId, 10000);
+
+        _assertState(escrowId, EscrowXContract.EscrowState.REFUNDED);
+        assertEq(_balance(buyer), PRICE);
+    }
+
+    function test_NewProposalReplacesPending() public {
+        uint256 escrowId = _openEscrow();
+        vm.prank(seller);
+        escrowX.proposeSettlement(escrowId, 6000);
+        vm.prank(seller);
+        escrowX.proposeSettlement(escrowId, 2000);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Proposal changed."));
+        escrowX.acceptSettlement(escrowId, 6000);
+
+        vm.prank(buyer);
+        escrowX.acceptSettlement(escrowId, 2000);
+        assertEq(_balance(buyer), 0.2 ether);
+    }
+
+    function test_ProposeSettlement_Reverts() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only participants can call this."));
+        escrowX.proposeSettlement(escrowId, 5000);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Invalid split"));
+        escrowX.proposeSettlement(escrowId, 10001);
+
+        _dispute(escrowId);
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Invalid state."));
+        escrowX.proposeSettlement(escrowId, 5000);
+    }
+
+    function test_AcceptSettlement_Reverts() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("No proposal to accept."));
+        escrowX.acceptSettlement(escrowId, 5000);
+
+        vm.prank(buyer);
+        escrowX.proposeSettlement(escrowId, 5000);
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("No proposal to accept."));
+        escrowX.acceptSettlement(escrowId, 5000);
+
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only participants can call this."));
+        escrowX.acceptSettlement(escrowId, 5000);
+    }
+
+    function test_DeclineSettlement() public {
+        uint256 escrowId = _openEscrow();
+
+        vm.prank(buyer);
+        vm.expectRevert(bytes("No pending proposal."));
+        escrowX.declineSettlement(escrowId);
+
+        vm.prank(buyer);
+        escrowX.proposeSettlement(escrowId, 5000);
+
+        vm.prank(stranger);
+        vm.expectRevert(bytes("Only participants can call this."));
+        escrowX.declineSettlement(escrowId);
+
+        vm.expectEmit(true, true, false, false, address(escrowX));
+        emit EscrowXContract.SettlementDeclined(escrowId, seller);
+        vm.prank(seller);
+        escrowX.declineSettlement(escrowId);
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("No proposal to accept."));
+        escrowX.acceptSettlement(escrowId, 5000);
+        _assertState(escrowId, EscrowXContract.EscrowState.AWAITING_DELIVERY);
+    }
+
+    function test_ProposerWithdrawsProposal() public {
+        uint256 escrowId = _openEscrow();
+        vm.prank(buyer);
+        escrowX.proposeSettlement(escrowId, 5000);
+
+        vm.expectEmit(true, true, false, false, address(escrowX));
+        emit EscrowXContract.SettlementDeclined(escrowId, buyer);
+        vm.prank(buyer);
+        escrowX.declineSettlement(escrowId);
+
+        (address proposedBy, ) = escrowX.settlements(escrowId);
+        assertEq(proposedBy, address(0));
+    }
+
+    function test_SettlementRejectsMilestoneEscrows() public {
+        uint256 escrowId = _openMilestoneEscrow();
+        vm.prank(buyer);
+        vm.expectRevert(bytes("Use milestone functions."));
+        escrowX.proposeSettlement(escrowId, 5000);
+    }
+}
@@ -0,0 +1,179 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+import {EscrowXTestBase} from "./EscrowXTestBase.sol";
+import {EscrowXContract} from "../EscrowXContract.sol";
+import {WalletContract} from "./mocks/WalletContract.sol";
+
+contract WithdrawalsTest is EscrowXTestBase {
+    function test_WithdrawNative() public {
+        uint256 escrowId = _openEscrow();
+        vm.prank(buyer);
+        escrowX.confirmDelivery(escrowId);
+
+        uint256 before = seller.balance;
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.Withdrawn(seller, address(0), PRICE);
+        vm.prank(seller);
+        escrowX.withdraw(address(0));
+
+        assertEq(seller.balance, before + PRICE);
+        assertEq(_balance(seller), 0);
+        assertEq(address(escrowX).balance, 0);
+
+        vm.prank(seller);
+        vm.expectRevert(bytes("Nothing to withdraw"));
+        escrowX.withdraw(address(0));
+    }
+
+    function test_WithdrawToken() public {
+        uint256 escrowId = _openTokenEscrow();
+        vm.warp(block.timestamp + DELIVERY + 1);
+        vm.prank(buyer);
+        escrowX.claimRefund(escrowId);
+        assertEq(escrowX.balances(buyer, address(usdc)), TOKEN_PRICE);
+
+        uint256 before = usdc.balanceOf(buyer);
+        vm.prank(buyer);
+        escrowX.withdraw(address(usdc));
+        assertEq(usdc.balanceOf(buyer), before + TOKEN_PRICE);
+        assertEq(usdc.balanceOf(address(escrowX)), 0);
+    }
+
+    function test_BalancesAccumulateAcrossEscrows() public {
+        uint256 first = _openEscrow();
+        uint256 second = _openEscrow();
+        vm.startPrank(buyer);
+        escrowX.confirmDelivery(first);
+        escrowX.confirmDelivery(second);
+        vm.stopPrank();
+
+        assertEq(_balance(seller), 2 * PRICE);
+    }
+
+    // A seller whose wallet cannot take payments no longer blocks the buyer's confirmation
+    function test_RejectingWalletOnlyBlocksItsOwnWithdrawal() public {
+        WalletContract wallet = new WalletContract();
+        wallet.setRejectPayments(true);
+        vm.prank(address(wallet));
+        escrowX.createService("Audit", DESCRIPTION_CID, PRICE, DELIVERY, address(0), MAX_REVISIONS);
+        uint256 serviceId = escrowX.serviceCounter();
+
+        vm.prank(buyer);
+        escrowX.createEscrow{value: PRICE}(serviceId);
+        uint256 escrowId = escrowX.escrowCounter();
+        vm.prank(buyer);
+        escrowX.confirmDelivery(escrowId);
+        _assertState(escrowId, EscrowXContract.EscrowState.COMPLETED);
+
+        vm.expectRevert(bytes("Transfer failed."));
+        wallet.execute(address(escrowX), 0, abi.encodeCall(escrowX.withdraw, (address(0))));
+        assertEq(_balance(address(wallet)), PRICE);
+
+        wallet.setRejectPayments(false);
+        wallet.execute(address(escrowX), 0, abi.encodeCall(escrowX.withdraw, (address(0))));
+        assertEq(address(wallet).balance, PRICE);
+    }
+
+    function test_WithdrawBlocksReentry() public {
+        WalletContract wallet = new WalletContract();
+        vm.deal(address(wallet), 10 ether);
+        vm.prank(address(wallet));
+        escrowX.createService("Audit", DESCRIPTION_CID, PRICE, DELIVERY, address(0), MAX_REVISIONS);
+        uint256 serviceId = escrowX.serviceCounter();
+
+        // Two completed escrows leave 2 ether in the contract, 1 ether of it owed to the wallet
+        _openEscrow();
+        vm.prank(buyer);
+        escrowX.createEscrow{value: PRICE}(serviceId);
+        uint256 escrowId = escrowX.escrowCounter();
+        vm.prank(buyer);
+        escrowX.confirmDelivery(escrowId);
+
+        wallet.setReenter(address(escrowX), abi.encodeCall(escrowX.withdraw, (address(0))));
+        wallet.execute(address(escrowX), 0, abi.encodeCall(escrowX.withdraw, (address(0))));
+
+        assertTrue(wallet.reentered());
+        assertFalse(wallet.reenterSucceeded());
+        assertEq(address(escrowX).balance, PRICE);
+        assertEq(_balance(address(wallet)), 0);
+    }
+
+    // Platform fees
+
+    function test_FeeSnapshotAtCreation() public {
+        vm.prank(owner);
+        escrowX.setPlatformFee(500);
+        uint256 escrowId = _openEscrow();
+        assertEq(escrowX.getEscrow(escrowId).feeBps, 500);
+
+        // Later fee changes do not touch open escrows
+        vm.prank(owner);
+        escrowX.setPlatformFee(1000);
+
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.FeeCharged(escrowId, address(0), 0.05 ether);
+        vm.prank(buyer);
+        escrowX.confirmDelivery(escrowId);
+
+        assertEq(_balance(seller), 0.95 ether);
+        assertEq(escrowX.accruedFees(address(0)), 0.05 ether);
+    }
+
+    function test_FeeOnlyChargedOnSellerShare() public {
+        vm.prank(owner);
+        escrowX.setPlatformFee(1000);
+        uint256 escrowId = _openEscrow();
+        _dispute(escrowId);
+        vm.prank(owner);
+        escrowX.resolveDispute(escrowId, 5000);
+
+        assertEq(_balance(buyer), 0.5 ether);
+        assertEq(_balance(seller), 0.45 ether);
+        assertEq(escrowX.accruedFees(address(0)), 0.05 ether);
+    }
+
+    function test_NoFeeOnRefunds() public {
+        vm.prank(owner);
+        escrowX.setPlatformFee(1000);
+        uint256 escrowId = _openEscrow();
+        vm.prank(seller);
+        escrowX.refundBuyer(escrowId);
+
+        assertEq(_balance(buyer), PRICE);
+        assertEq(escrowX.accruedFees(address(0)), 0);
+    }
+
+    function test_WithdrawFees() public {
+        address treasury = makeAddr("treasury");
+        vm.startPrank(owner);
+        escrowX.setPlatformFee(200);
+        escrowX.setTreasury(treasury);
+        vm.stopPrank();
+
+        uint256 escrowId = _openTokenEscrow();
+        vm.prank(buyer);
+        escrowX.confirmDelivery(escrowId);
+
+        vm.prank(owner);
+        vm.expectRevert(bytes("Only treasury can call this."));
+        escrowX.withdrawFees(address(usdc));
+
+        vm.prank(treasury);
+        vm.expectRevert(bytes("Nothing to withdraw"));
+        escrowX.withdrawFees(address(0));
+
+        vm.expectEmit(true, true, false, true, address(escrowX));
+        emit EscrowXContract.FeesWithdrawn(address(usdc), treasury, 10e6);
+        vm.prank(treasury);
+        escrowX.withdrawFees(address(usdc));
+
+        assertEq(usdc.balanceOf(treasury), 10e6);
+        assertEq(escrowX.accruedFees(address(usdc)), 0);
+
+        vm.prank(seller);
+        escrowX.withdraw(address(usdc));
+        assertEq(usdc.balanceOf(seller), 490e6);
+        assertEq(usdc.balanceOf(address(escrowX)), 0);
+    }
+}
@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @dev Contract wallet that forwards arbitrary calls. It can be set to reject native
+ *      payments, or to call back into the escrow contract when it receives them.
+ */
+contract WalletContract {
+    bool public rejectPayments;
+    address public reenterTarget;
+    bytes public reenterData;
+    bool public reentered;       // Whether the callback ran
+    bool public reenterSucceeded; // Whether the callback call went through
+
+    function setRejectPayments(bool _reject) external {
+        rejectPayments = _reject;
+    }
+
+    function setReenter(address _target, bytes calldata _data) external {
+        reenterTarget = _target;
+        reenterData = _data;
+    }
+
+    function execute(address _target, uint256 _value, bytes calldata _data) external returns (bytes memory) {
+        (bool success, bytes memory result) = _target.call{value: _value}(_data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+        return result;
+    }
+
+    receive() external payable {
+        require(!rejectPayments, "Payments rejected");
+        if (reenterTarget != address(0) && !reentered) {
+            reentered = true;
+            (reenterSucceeded, ) = reenterTarget.call(reenterData);
+        }
+    }
+}
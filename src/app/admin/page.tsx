@@ -0,0 +1,301 @@
+'use client';
+
+import { Navbar } from '@/components/shared/Navbar';
+import { Footer } from '@/components/shared/Footer';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { motion } from 'framer-motion';
+import { Loader2, Pause, Play, ShieldAlert } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { isAddress, type Abi } from 'viem';
+import { useAccount, useReadContracts, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { useContractRoles } from '@/hooks/useContractRoles';
+import { escrowXContractConfig, formatBps, MAX_FEE_BPS } from '@/lib/contract';
+import { PAYMENT_TOKENS, isNativeToken } from '@/lib/tokens';
+
+const ERC20_TOKENS = PAYMENT_TOKENS.filter((t) => !isNativeToken(t));
+
+/**
+ * Contract administration, shown to wallets holding a role. Each section maps to the role
+ * the contract requires for its functions: pausers stop new listings and escrows, arbiter
+ * managers maintain the arbiter set, and the owner manages roles, currencies and fees.
+ */
+export default function AdminPage() {
+    const { isConnected } = useAccount();
+    const roles = useContractRoles();
+    const { refetch: refetchRoles } = roles;
+
+    const { data: settings, refetch: refetchSettings } = useReadContracts({
+        contracts: [
+            { address: escrowXContractConfig.address, abi: escrowXContractConfig.abi as Abi, functionName: 'feeBps' },
+            { address: escrowXContractConfig.address, abi: escrowXContractConfig.abi as Abi, functionName: 'treasury' },
+            ...ERC20_TOKENS.map((token) => ({
+                address: escrowXContractConfig.address,
+                abi: escrowXContractConfig.abi as Abi,
+                functionName: 'supportedTokens',
+                args: [token.address],
+            })),
+        ],
+        query: { enabled: roles.isOwner },
+    });
+    const [feeBps, treasury, ...tokenSupport] = (settings ?? []).map((r) => r.result);
+
+    const { writeContract, data: hash, isPending, error: writeError } = useWriteContract();
+    const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
+
+    useEffect(() => {
+        if (isConfirmed) {
+            refetchRoles();
+            refetchSettings();
+        }
+    }, [isConfirmed, refetchRoles, refetchSettings]);
+
+    const isBusy = isPending || isConfirming;
+    const call = (functionName: string, args: unknown[] = []) => {
+        writeContract({ ...escrowXContractConfig, functionName, args });
+    };
+
+    if (!isConnected || roles.isLoading || !roles.hasAdminRole) {
+        return (
+            <div className="min-h-screen flex flex-col">
+                <Navbar />
+                <main className="flex-1 flex flex-col items-center justify-center p-4">
+                    <Card className="max-w-md w-full text-center py-12">
+                        {roles.isLoading && isConnected ? (
+                            <Loader2 className="w-8 h-8 text-primary animate-spin mx-auto" />
+                        ) : (
+                            <>
+                                <ShieldAlert className="w-10 h-10 text-muted-foreground mx-auto mb-4" />
+                                <h2 className="text-2xl font-bold mb-4">Administrators Only</h2>
+                                <p className="text-muted-foreground">
+                                    {isConnected
+                                        ? 'The connected wallet holds no owner, pauser or arbiter manager role on the escrow contract.'
+                                        : 'Connect a wallet that holds an admin role on the escrow contract.'}
+                                </p>
+                            </>
+                        )}
+                    </Card>
+                </main>
+                <Footer />
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen flex flex-col relative">
+            <div className="absolute top-0 left-0 right-0 h-[500px] bg-primary/5 blur-[100px] pointer-events-none" />
+
+            <Navbar />
+
+            <main className="flex-1 py-24 px-4 sm:px-6 lg:px-8 max-w-3xl mx-auto w-full relative z-10 space-y-6">
+                <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+                    <h1 className="text-4xl font-bold mb-2">Admin</h1>
+                    <p className="text-muted-foreground">
+                        Your roles:{' '}
+                        {[
+                            roles.isOwner && 'Owner',
+                            roles.isPauser && 'Pauser',
+                            roles.isArbiterManager && 'Arbiter Manager',
+                            roles.isArbiter && 'Arbiter',
+                        ].filter(Boolean).join(', ')}
+                    </p>
+                </motion.div>
+
+                {roles.isPauser && (
+                    <Card className="flex items-center justify-between gap-4">
+                        <div>
+                            <h2 className="text-xl font-bold">Emergency Pause</h2>
+                            <p className="text-sm text-muted-foreground">
+                                {roles.isPaused
+                                    ? 'Paused: no new services or escrows can be created. Existing escrows still settle.'
+                                    : 'Active: new services and escrows can be created.'}
+                            </p>
+                        </div>
+                        <Button
+                            variant={roles.isPaused ? 'primary' : 'outline'}
+                            onClick={() => call(roles.isPaused ? 'unpause' : 'pause')}
+                            disabled={isBusy}
+                        >
+                            {roles.isPaused ? <Play className="w-4 h-4 mr-2" /> : <Pause className="w-4 h-4 mr-2" />}
+                            {roles.isPaused ? 'Unpause' : 'Pause'}
+                        </Button>
+                    </Card>
+                )}
+
+                {roles.isArbiterManager && (
+                    <RoleCard
+                        title="Arbiters"
+                        description="Arbiters resolve disputed escrows and milestones."
+                        onSubmit={(account, enabled) => call('setArbiter', [account, enabled])}
+                        disabled={isBusy}
+                    />
+                )}
+
+                {roles.isOwner && (
+                    <>
+                        <RoleCard
+                            title="Pausers"
+                            description="Pausers can stop and resume new listings and escrows."
+                            onSubmit={(account, enabled) => call('setPauser', [account, enabled])}
+                            disabled={isBusy}
+                        />
+                        <RoleCard
+                            title="Arbiter Managers"
+                            description="Arbiter managers grant and revoke the arbiter role."
+                            onSubmit={(account, enabled) => call('setArbiterManager', [account, enabled])}
+                            disabled={isBusy}
+                        />
+
+                        <Card className="space-y-3">
+                            <h2 className="text-xl font-bold">Payment Tokens</h2>
+                            {ERC20_TOKENS.map((token, i) => {
+                                const isSupported = tokenSupport[i] === true;
+                                return (
+                                    <div key={token.symbol} className="flex items-center justify-between">
+                                        <span className="text-sm">
+                                            {token.symbol}
+                                            <span className={`ml-2 text-xs ${isSupported ? 'text-green-500' : 'text-muted-foreground'}`}>
+                                                {isSupported ? 'Accepted' : 'Not accepted'}
+                                            </span>
+                                        </span>
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => call('setSupportedToken', [token.address, !isSupported])}
+                                            disabled={isBusy}
+                                        >
+                                            {isSupported ? 'Disable' : 'Enable'}
+                                        </Button>
+                                    </div>
+                                );
+                            })}
+                        </Card>
+
+                        <FeeCard
+                            feeBps={typeof feeBps === 'bigint' ? feeBps : undefined}
+                            treasury={typeof treasury === 'string' ? treasury : undefined}
+                            onSetFee={(bps) => call('setPlatformFee', [bps])}
+                            onSetTreasury={(account) => call('setTreasury', [account])}
+                            disabled={isBusy}
+                        />
+
+                        <AddressCard
+                            title="Transfer Ownership"
+                            description={`Current owner: ${roles.owner}. The new owner takes over every role.`}
+                            action="Transfer"
+                            onSubmit={(account) => call('transferOwnership', [account])}
+                            disabled={isBusy}
+                        />
+                    </>
+                )}
+
+                {isConfirming && (
+                    <div className="p-3 bg-blue-500/10 text-blue-500 text-sm rounded-lg flex items-center gap-2">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        Confirming transaction on blockchain...
+                    </div>
+                )}
+                {writeError && (
+                    <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 text-yellow-500 text-sm rounded-lg text-center">
+                        {writeError.message?.toLowerCase().includes('user rejected')
+                            ? 'Transaction incomplete due to user rejection.'
+                            : 'Transaction incomplete.'}
+                    </div>
+                )}
+            </main>
+
+            <Footer />
+        </div>
+    );
+}
+
+function RoleCard({ title, description, onSubmit, disabled }: {
+    title: string;
+    description: string;
+    onSubmit: (account: `0x${string}`, enabled: boolean) => void;
+    disabled: boolean;
+}) {
+    const [account, setAccount] = useState('');
+    const isValid = isAddress(account);
+
+    return (
+        <Card className="space-y-3">
+            <div>
+                <h2 className="text-xl font-bold">{title}</h2>
+                <p className="text-sm text-muted-foreground">{description}</p>
+            </div>
+            <div className="flex gap-2">
+                <Input value={account} onChange={(e) => setAccount(e.target.value)} placeholder="0x..." className="bg-white/5" />
+                <Button onClick={() => onSubmit(account as `0x${string}`, true)} disabled={disabled || !isValid}>Grant</Button>
+                <Button variant="outline" onClick={() => onSubmit(account as `0x${string}`, false)} disabled={disabled || !isValid}>Revoke</Button>
+            </div>
+        </Card>
+    );
+}
+
+function AddressCard({ title, description, action, onSubmit, disabled }: {
+    title: string;
+    description: string;
+    action: string;
+    onSubmit: (account: `0x${string}`) => void;
+    disabled: boolean;
+}) {
+    const [account, setAccount] = useState('');
+
+    return (
+        <Card className="space-y-3">
+            <div>
+                <h2 className="text-xl font-bold">{title}</h2>
+                <p className="text-sm text-muted-foreground break-all">{description}</p>
+            </div>
+            <div className="flex gap-2">
+                <Input value={account} onChange={(e) => setAccount(e.target.value)} placeholder="0x..." className="bg-white/5" />
+                <Button onClick={() => onSubmit(account as `0x${string}`)} disabled={disabled || !isAddress(account)}>{action}</Button>
+            </div>
+        </Card>
+    );
+}
+
+function FeeCard({ feeBps, treasury, onSetFee, onSetTreasury, disabled }: {
+    feeBps: bigint | undefined;
+    treasury: string | undefined;
+    onSetFee: (bps: bigint) => void;
+    onSetTreasury: (account: `0x${string}`) => void;
+    disabled: boolean;
+}) {
+    const [percent, setPercent] = useState('');
+    const [account, setAccount] = useState('');
+    const bps = Math.round(Number(percent) * 100);
+    const isValidFee = percent !== '' && Number.isFinite(bps) && bps >= 0 && bps <= MAX_FEE_BPS;
+
+    return (
+        <Card className="space-y-4">
+            <div>
+                <h2 className="text-xl font-bold">Platform Fee</h2>
+                <p className="text-sm text-muted-foreground">
+                    Current fee: {feeBps === undefined ? '…' : feeBps > BigInt(0) ? formatBps(feeBps) : 'none (fee-exempt)'}.
+                    Applies to escrows created after the change, up to {formatBps(BigInt(MAX_FEE_BPS))}.
+                </p>
+            </div>
+            <div className="space-y-2">
+                <Label>New fee (%)</Label>
+                <div className="flex gap-2">
+                    <Input type="number" min={0} step="0.01" value={percent} onChange={(e) => setPercent(e.target.value)} className="bg-white/5" />
+                    <Button onClick={() => onSetFee(BigInt(bps))} disabled={disabled || !isValidFee}>Set Fee</Button>
+                </div>
+            </div>
+            <div className="space-y-2">
+                <Label>Treasury</Label>
+                <p className="text-xs text-muted-foreground break-all">{treasury ?? '…'}</p>
+                <div className="flex gap-2">
+                    <Input value={account} onChange={(e) => setAccount(e.target.value)} placeholder="0x..." className="bg-white/5" />
+                    <Button onClick={() => onSetTreasury(account as `0x${string}`)} disabled={disabled || !isAddress(account)}>
+                        Set Treasury
+                    </Button>
+                </div>
+            </div>
+        </Card>
+    );
+}
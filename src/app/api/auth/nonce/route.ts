@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { issueNonce } from '@/lib/auth/nonces';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/auth/nonce issues the single-use nonce for a Sign-In With Ethereum message
+export async function GET() {
+    const { nonce } = issueNonce('siwe', 10 * 60 * 1000);
+    return NextResponse.json({ nonce });
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+    const session = await getSession();
+    return NextResponse.json({ address: session?.address ?? null });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isHex, verifyMessage } from 'viem';
+import { parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import { consumeNonce } from '@/lib/auth/nonces';
+import { SESSION_TTL_MS, setSessionCookie } from '@/lib/auth/session';
+
+// POST /api/auth/verify { message, signature } checks an EIP-4361 message and starts a session
+export async function POST(request: NextRequest) {
+    const { message, signature } = (await request.json().catch(() => ({}))) as { message?: string; signature?: string };
+    if (typeof message !== 'string' || typeof signature !== 'string' || !isHex(signature)) {
+        return NextResponse.json({ error: 'Missing message or signature' }, { status: 400 });
+    }
+
+    const fields = parseSiweMessage(message);
+    const valid = validateSiweMessage({
+        message: fields,
+        domain: request.headers.get('host') ?? undefined,
+    });
+    if (!valid || !fields.address || !fields.nonce || !fields.chainId) {
+        return NextResponse.json({ error: 'Invalid sign-in message' }, { status: 400 });
+    }
+    if (!consumeNonce(fields.nonce, 'siwe')) {
+        return NextResponse.json({ error: 'Sign-in nonce expired, try again' }, { status: 401 });
+    }
+    const verified = await verifyMessage({ address: fields.address, message, signature }).catch(() => false);
+    if (!verified) {
+        return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ address: fields.address });
+    setSessionCookie(response, {
+        address: fields.address,
+        chainId: fields.chainId,
+        expiresAt: Date.now() + SESSION_TTL_MS,
+    });
+    return response;
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { syncIndexer } from '@/lib/indexer/sync';
+import { listEscrowEvents } from '@/lib/indexer/db';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/escrows/:id/events returns the escrow's indexed events, oldest first
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const escrowId = Number(id);
+    if (!Number.isInteger(escrowId) || escrowId <= 0) {
+        return NextResponse.json({ error: 'Invalid escrow ID' }, { status: 400 });
+    }
+
+    try {
+        await syncIndexer();
+    } catch (e) {
+        console.error('Indexer sync failed:', e);
+    }
+
+    return NextResponse.json({ events: listEscrowEvents(escrowId) });
+}
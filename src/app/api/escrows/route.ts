@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { syncIndexer } from '@/lib/indexer/sync';
+import { listEscrowsForUser } from '@/lib/indexer/db';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/escrows?user=0x... returns escrows where the address is buyer or seller
+export async function GET(request: NextRequest) {
+    const user = request.nextUrl.searchParams.get('user');
+    if (!user || !isAddress(user)) {
+        return NextResponse.json({ error: 'Missing or invalid user address' }, { status: 400 });
+    }
+
+    try {
+        await syncIndexer();
+    } catch (e) {
+        console.error('Indexer sync failed:', e);
+    }
+
+    return NextResponse.json({ escrows: listEscrowsForUser(user) });
+}
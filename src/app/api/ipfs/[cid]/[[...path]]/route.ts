@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorageProvider } from '@/lib/storage';
+
+// Serves content from the configured storage backend, like an IPFS gateway: /api/ipfs/<cid>[/<path>]
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ cid: string; path?: string[] }> }) {
+    const { cid, path } = await params;
+
+    const content = await getStorageProvider().get(cid, path?.join('/'));
+    if (!content) {
+        return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    return new NextResponse(content.data as BodyInit, {
+        headers: {
+            'Content-Type': content.type || 'application/octet-stream',
+            // Content-addressed, so a CID never changes what it points to
+            'Cache-Control': 'public, max-age=31536000, immutable',
+            'X-Content-Type-Options': 'nosniff',
+            // Uploaded HTML must not run scripts on our origin
+            'Content-Security-Policy': 'sandbox',
+        },
+    });
+}
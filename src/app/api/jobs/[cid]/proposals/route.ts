@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { getJob } from '@/lib/jobBoard';
+import { createProposal, listProposals } from '@/lib/proposalStore';
+import { validateProposal, type ProposalInput } from '@/lib/proposals';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/jobs/:cid/proposals: the poster sees every proposal, a freelancer only their own
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ cid: string }> }) {
+    const { cid } = await params;
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Sign in to view proposals' }, { status: 401 });
+    }
+    const job = getJob(cid);
+    if (!job) {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const isPoster = job.poster === session.address.toLowerCase();
+    return NextResponse.json({
+        proposals: listProposals({ jobCid: cid, freelancer: isPoster ? undefined : session.address }),
+    });
+}
+
+// POST /api/jobs/:cid/proposals { cid, ...ProposalInput } submits the signed-in freelancer's proposal
+export async function POST(request: NextRequest, { params }: { params: Promise<{ cid: string }> }) {
+    const { cid: jobCid } = await params;
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Sign in to submit a proposal' }, { status: 401 });
+    }
+    const job = getJob(jobCid);
+    if (!job) {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    if (job.poster === session.address.toLowerCase()) {
+        return NextResponse.json({ error: 'You cannot propose on your own job' }, { status: 403 });
+    }
+
+    const body = (await request.json().catch(() => ({}))) as Partial<ProposalInput> & { cid?: unknown };
+    if (typeof body.cid !== 'string' || !body.cid) {
+        return NextResponse.json({ error: 'Missing proposal CID' }, { status: 400 });
+    }
+    const input: ProposalInput = {
+        price: body.price as string,
+        currency: body.currency as ProposalInput['currency'],
+        timelineDays: body.timelineDays as number,
+        coverLetter: body.coverLetter as string,
+        milestones: body.milestones ?? [],
+    };
+    const problem = validateProposal(input);
+    if (problem) {
+        return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    const proposal = createProposal(jobCid, session.address, body.cid, input);
+    if (!proposal) {
+        return NextResponse.json({ error: 'You already submitted a proposal for this job' }, { status: 409 });
+    }
+    return NextResponse.json(proposal);
+}
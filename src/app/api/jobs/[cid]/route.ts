@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob } from '@/lib/jobBoard';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/jobs/:cid returns who posted the job document
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ cid: string }> }) {
+    const { cid } = await params;
+    const job = getJob(cid);
+    if (!job) {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json(job);
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { getSession } from '@/lib/auth/session';
+import { listJobs, registerJob } from '@/lib/jobBoard';
+import { jobDocumentTitle } from '@/lib/jobs';
+import { getStorageProvider } from '@/lib/storage';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/jobs[?poster=0x...]
+export async function GET(request: NextRequest) {
+    const poster = request.nextUrl.searchParams.get('poster');
+    if (poster && !isAddress(poster)) {
+        return NextResponse.json({ error: 'Invalid poster address' }, { status: 400 });
+    }
+    return NextResponse.json({ jobs: listJobs({ poster: poster ?? undefined }) });
+}
+
+// POST /api/jobs { cid } records a published job document for the signed-in wallet
+export async function POST(request: NextRequest) {
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Sign in to post a job' }, { status: 401 });
+    }
+
+    const { cid } = (await request.json().catch(() => ({}))) as { cid?: unknown };
+    if (typeof cid !== 'string' || !cid) {
+        return NextResponse.json({ error: 'Missing job CID' }, { status: 400 });
+    }
+
+    // The title is taken from the stored document so the board cannot disagree with it
+    let title: string | null;
+    try {
+        const content = await getStorageProvider().get(cid);
+        if (!content) throw new Error('Not found');
+        title = jobDocumentTitle(JSON.parse(new TextDecoder().decode(content.data)));
+    } catch {
+        return NextResponse.json({ error: 'Job document not found' }, { status: 400 });
+    }
+    if (!title) {
+        return NextResponse.json({ error: 'Not a job document' }, { status: 400 });
+    }
+
+    const job = registerJob(session.address, cid, title);
+    if (!job) {
+        return NextResponse.json({ error: 'This job was already posted by another wallet' }, { status: 409 });
+    }
+    return NextResponse.json(job);
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { getSession } from '@/lib/auth/session';
+import { publishMessagingEvent } from '@/lib/messageEvents';
+import { recordReceipt } from '@/lib/messageStore';
+import type { MessageReceipt } from '@/lib/messages';
+
+const RECEIPT_STATUSES: MessageReceipt['status'][] = ['delivered', 'read'];
+
+// POST /api/messages/:peer/receipts { status, upTo?, escrowId? } acknowledges the messages peer sent the signed-in wallet
+export async function POST(request: NextRequest, { params }: { params: Promise<{ peer: string }> }) {
+    const { peer } = await params;
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Sign in to acknowledge messages' }, { status: 401 });
+    }
+    if (!isAddress(peer)) {
+        return NextResponse.json({ error: 'Invalid address' }, { status: 400 });
+    }
+
+    const { status, upTo, escrowId } = (await request.json().catch(() => ({}))) as {
+        status?: MessageReceipt['status'];
+        upTo?: unknown;
+        escrowId?: unknown;
+    };
+    if (!status || !RECEIPT_STATUSES.includes(status)) {
+        return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+    if (upTo !== undefined && (!Number.isInteger(upTo) || (upTo as number) <= 0)) {
+        return NextResponse.json({ error: 'Invalid message ID' }, { status: 400 });
+    }
+    // null is the direct chat; omitting it acknowledges every thread with peer
+    if (escrowId !== undefined && escrowId !== null && (!Number.isInteger(escrowId) || (escrowId as number) <= 0)) {
+        return NextResponse.json({ error: 'Invalid escrow ID' }, { status: 400 });
+    }
+
+    const receipt = recordReceipt(session.address, peer, status, upTo as number | undefined, escrowId as number | null | undefined);
+    if (receipt) {
+        publishMessagingEvent(peer, { type: 'receipt', receipt });
+        publishMessagingEvent(session.address, { type: 'receipt', receipt });
+    }
+    return NextResponse.json({ receipt });
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress, type Abi } from 'viem';
+import { getSession } from '@/lib/auth/session';
+import { publicClient } from '@/lib/chain';
+import { escrowXContractConfig, type OnChainEscrow } from '@/lib/contract';
+import { publishMessagingEvent } from '@/lib/messageEvents';
+import { createMessage, getMessagingKey, listMessages } from '@/lib/messageStore';
+import { validateEncryptedMessage, type EncryptedMessageInput } from '@/lib/messages';
+
+export const dynamic = 'force-dynamic';
+
+// Only an escrow's buyer and seller may talk in its thread
+async function isEscrowBetween(escrowId: number, a: string, b: string): Promise<boolean> {
+    const escrow = await publicClient.readContract({
+        ...escrowXContractConfig,
+        abi: escrowXContractConfig.abi as Abi,
+        functionName: 'getEscrow',
+        args: [BigInt(escrowId)],
+    }) as OnChainEscrow;
+    const parties = [escrow.buyer.toLowerCase(), escrow.seller.toLowerCase()].sort().join(':');
+    return parties === [a.toLowerCase(), b.toLowerCase()].sort().join(':');
+}
+
+// GET /api/messages/:peer?escrow=<id>&before=<id> returns a page of the direct chat with peer, or of an escrow's thread, oldest first
+export async function GET(request: NextRequest, { params }: { params: Promise<{ peer: string }> }) {
+    const { peer } = await params;
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Sign in to view messages' }, { status: 401 });
+    }
+    if (!isAddress(peer)) {
+        return NextResponse.json({ error: 'Invalid address' }, { status: 400 });
+    }
+
+    const escrowId = Number(request.nextUrl.searchParams.get('escrow')) || null;
+    const before = Number(request.nextUrl.searchParams.get('before')) || undefined;
+    return NextResponse.json({ messages: listMessages(session.address, peer, escrowId, before) });
+}
+
+// POST /api/messages/:peer { escrowId?, senderKey, recipientKey, iv, ciphertext } sends an encrypted message to peer
+export async function POST(request: NextRequest, { params }: { params: Promise<{ peer: string }> }) {
+    const { peer } = await params;
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Sign in to send messages' }, { status: 401 });
+    }
+    if (!isAddress(peer) || peer.toLowerCase() === session.address.toLowerCase()) {
+        return NextResponse.json({ error: 'Invalid recipient' }, { status: 400 });
+    }
+
+    const input = (await request.json().catch(() => ({}))) as Partial<EncryptedMessageInput>;
+    const problem = validateEncryptedMessage(input);
+    if (problem) {
+        return NextResponse.json({ error: problem }, { status: 400 });
+    }
+    if (input.escrowId) {
+        const isParty = await isEscrowBetween(input.escrowId, session.address, peer).catch(() => null);
+        if (isParty === null) {
+            return NextResponse.json({ error: 'Could not load the escrow' }, { status: 502 });
+        }
+        if (!isParty) {
+            return NextResponse.json({ error: "Only the escrow's buyer and seller can post in its thread" }, { status: 403 });
+        }
+    }
+
+    // Both keys must be the current published ones, or one side could not decrypt the message
+    const senderKey = getMessagingKey(session.address);
+    const recipientKey = getMessagingKey(peer);
+    if (!recipientKey) {
+        return NextResponse.json({ error: 'This wallet has not enabled messaging yet' }, { status: 409 });
+    }
+    if (senderKey?.publicKey !== input.senderKey || recipientKey.publicKey !== input.recipientKey) {
+        return NextResponse.json({ error: 'A messaging key changed. Reload the conversation and try again.' }, { status: 409 });
+    }
+
+    const message = createMessage(session.address, peer, input as EncryptedMessageInput);
+    publishMessagingEvent(peer, { type: 'message', message });
+    publishMessagingEvent(session.address, { type: 'message', message });
+    return NextResponse.json(message);
+}
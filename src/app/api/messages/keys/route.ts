@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress, isHex, verifyMessage } from 'viem';
+import { getSession } from '@/lib/auth/session';
+import { getMessagingKey, setMessagingKey } from '@/lib/messageStore';
+import { isMessagingKey, messagingKeyMessage } from '@/lib/messages';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/messages/keys?address=0x... returns the wallet's signed messaging key, 404 if it never enabled messaging
+export async function GET(request: NextRequest) {
+    const address = request.nextUrl.searchParams.get('address');
+    if (!address || !isAddress(address)) {
+        return NextResponse.json({ error: 'Invalid address' }, { status: 400 });
+    }
+    const key = getMessagingKey(address);
+    if (!key) {
+        return NextResponse.json({ error: 'This wallet has not enabled messaging yet' }, { status: 404 });
+    }
+    return NextResponse.json(key);
+}
+
+// PUT /api/messages/keys { publicKey, signature } publishes the signed-in wallet's messaging key
+export async function PUT(request: NextRequest) {
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Sign in to enable messaging' }, { status: 401 });
+    }
+
+    const { publicKey, signature } = (await request.json().catch(() => ({}))) as { publicKey?: unknown; signature?: unknown };
+    if (!isMessagingKey(publicKey) || typeof signature !== 'string' || !isHex(signature)) {
+        return NextResponse.json({ error: 'Missing messaging key or signature' }, { status: 400 });
+    }
+    const message = messagingKeyMessage(session.address, publicKey);
+    const valid = await verifyMessage({ address: session.address, message, signature }).catch(() => false);
+    if (!valid) {
+        return NextResponse.json({ error: 'Invalid messaging key signature' }, { status: 401 });
+    }
+
+    setMessagingKey(session.address, publicKey, signature);
+    return NextResponse.json(getMessagingKey(session.address));
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { publishMessagingEvent } from '@/lib/messageEvents';
+import { listConversations, listUndeliveredSenders, recordReceipt } from '@/lib/messageStore';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/messages lists the signed-in wallet's conversations, most recent first
+export async function GET() {
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Sign in to view messages' }, { status: 401 });
+    }
+
+    // Fetching the inbox hands every pending message to the client, which counts as delivery
+    for (const sender of listUndeliveredSenders(session.address)) {
+        const receipt = recordReceipt(session.address, sender, 'delivered');
+        if (receipt) publishMessagingEvent(sender, { type: 'receipt', receipt });
+    }
+
+    return NextResponse.json({ conversations: listConversations(session.address) });
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { subscribeMessagingEvents } from '@/lib/messageEvents';
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep idle connections from being closed by proxies
+const HEARTBEAT_MS = 25000;
+
+// GET /api/messages/stream: server-sent `message` and `receipt` events for the signed-in wallet
+export async function GET(request: NextRequest) {
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Sign in to receive messages' }, { status: 401 });
+    }
+
+    const encoder = new TextEncoder();
+    let stop = () => {};
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+            const unsubscribe = subscribeMessagingEvents(session.address, (event) => {
+                send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+            });
+            const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_MS);
+
+            stop = () => {
+                clearInterval(heartbeat);
+                unsubscribe();
+            };
+            request.signal.addEventListener('abort', () => {
+                stop();
+                controller.close();
+            });
+            send('retry: 5000\n\n');
+        },
+        cancel() {
+            stop();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        },
+    });
+}
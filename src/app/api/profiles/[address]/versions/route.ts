@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { getSession } from '@/lib/auth/session';
+import { isProfileVisibleTo, listProfileVersions } from '@/lib/profileRegistry';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/profiles/:address/versions returns the signed version history, newest first
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ address: string }> }) {
+    const { address } = await params;
+    if (!isAddress(address)) {
+        return NextResponse.json({ error: 'Invalid address' }, { status: 400 });
+    }
+
+    const versions = listProfileVersions(address);
+    if (versions.length === 0) {
+        return NextResponse.json({ error: 'Profile not found' }, { status: 404 });
+    }
+    const session = await getSession();
+    if (!isProfileVisibleTo(versions[0], session?.address)) {
+        return NextResponse.json({ error: 'This profile is private' }, { status: 403 });
+    }
+    return NextResponse.json({ versions });
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isHex, verifyMessage } from 'viem';
+import { getSession } from '@/lib/auth/session';
+import { appendProfileVersion } from '@/lib/profileRegistry';
+import { profileVersionMessage, type ProfileDocument } from '@/lib/profiles';
+import { getStorageProvider } from '@/lib/storage';
+
+// POST /api/profiles { cid, version, signature } publishes the next version of the signed-in wallet's profile
+export async function POST(request: NextRequest) {
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Sign in to publish your profile' }, { status: 401 });
+    }
+
+    const { cid, version, signature } = (await request.json().catch(() => ({}))) as {
+        cid?: unknown;
+        version?: unknown;
+        signature?: unknown;
+    };
+    if (typeof cid !== 'string' || !cid || !Number.isInteger(version) || typeof signature !== 'string' || !isHex(signature)) {
+        return NextResponse.json({ error: 'Missing profile CID, version or signature' }, { status: 400 });
+    }
+
+    const message = profileVersionMessage(session.address, cid, version as number);
+    const valid = await verifyMessage({ address: session.address, message, signature }).catch(() => false);
+    if (!valid) {
+        return NextResponse.json({ error: 'Invalid profile signature' }, { status: 401 });
+    }
+
+    // Visibility is taken from the document itself so the registry cannot disagree with it
+    let document: ProfileDocument;
+    try {
+        const content = await getStorageProvider().get(cid);
+        if (!content) throw new Error('Not found');
+        document = JSON.parse(new TextDecoder().decode(content.data));
+    } catch {
+        return NextResponse.json({ error: 'Profile document not found' }, { status: 400 });
+    }
+
+    const entry = appendProfileVersion({
+        address: session.address,
+        version: version as number,
+        cid,
+        visibility: document.profile?.visibility === 'Private' ? 'Private' : 'Public',
+        signature,
+    });
+    if (!entry) {
+        return NextResponse.json({ error: 'Profile was updated elsewhere, publish again' }, { status: 409 });
+    }
+    return NextResponse.json(entry);
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Abi } from 'viem';
+import { getSession } from '@/lib/auth/session';
+import { publicClient } from '@/lib/chain';
+import { escrowXContractConfig, EscrowState, type OnChainEscrow, type OnChainMilestone } from '@/lib/contract';
+import { getJob } from '@/lib/jobBoard';
+import { getProposal, getProposalByEscrow, updateProposalStatus } from '@/lib/proposalStore';
+import type { Proposal, ProposalStatus } from '@/lib/proposals';
+import { parseTokenAmount, tokenBySymbol } from '@/lib/tokens';
+
+const POSTER_STATUSES: ProposalStatus[] = ['pending', 'shortlisted', 'rejected', 'accepted'];
+
+/**
+ * An accepted proposal must point at a live custom escrow the poster funded for exactly the
+ * proposed terms, so the inbox cannot claim an escrow that does not exist, was already
+ * withdrawn, or belongs to a listing. Milestone proposals need the same milestone amounts.
+ */
+async function matchesEscrow(proposal: Proposal, poster: string, escrowId: number): Promise<boolean> {
+    const read = (functionName: 'getEscrow' | 'getMilestones') => publicClient.readContract({
+        ...escrowXContractConfig,
+        abi: escrowXContractConfig.abi as Abi,
+        functionName,
+        args: [BigInt(escrowId)],
+    });
+    const [escrow, milestones] = await Promise.all([
+        read('getEscrow') as Promise<OnChainEscrow>,
+        read('getMilestones') as Promise<OnChainMilestone[]>,
+    ]);
+    const token = tokenBySymbol(proposal.currency);
+    // A plain offer waits for the freelancer, who may accept it before the poster links it
+    const liveStates = proposal.milestones.length > 0
+        ? [EscrowState.AWAITING_DELIVERY]
+        : [EscrowState.OFFERED, EscrowState.AWAITING_DELIVERY];
+
+    return escrow.serviceId === BigInt(0)
+        && liveStates.includes(escrow.state)
+        && escrow.buyer.toLowerCase() === poster
+        && escrow.seller.toLowerCase() === proposal.freelancer
+        && escrow.amount === parseTokenAmount(proposal.price, token)
+        && escrow.paymentToken.toLowerCase() === token.address.toLowerCase()
+        && milestones.length === proposal.milestones.length
+        && milestones.every((m, i) => m.amount === parseTokenAmount(proposal.milestones[i].amount, token));
+}
+
+// PATCH /api/proposals/:id { status, escrowId? } lets the job poster move a proposal through the inbox
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: 'Sign in to manage proposals' }, { status: 401 });
+    }
+    const proposal = getProposal(Number(id));
+    const job = proposal && getJob(proposal.jobCid);
+    if (!proposal || !job) {
+        return NextResponse.json({ error: 'Proposal not found' }, { status: 404 });
+    }
+    if (job.poster !== session.address.toLowerCase()) {
+        return NextResponse.json({ error: 'Only the job poster can manage proposals' }, { status: 403 });
+    }
+    if (proposal.status === 'accepted') {
+        return NextResponse.json({ error: 'Proposal was already accepted' }, { status: 409 });
+    }
+
+    const { status, escrowId } = (await request.json().catch(() => ({}))) as { status?: ProposalStatus; escrowId?: unknown };
+    if (!status || !POSTER_STATUSES.includes(status)) {
+        return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+    if (status !== 'accepted') {
+        return NextResponse.json(updateProposalStatus(proposal.id, status));
+    }
+
+    if (!Number.isInteger(escrowId) || (escrowId as number) <= 0) {
+        return NextResponse.json({ error: 'Accepting requires the funded escrow ID' }, { status: 400 });
+    }
+    const matches = await matchesEscrow(proposal, job.poster, escrowId as number).catch((e) => {
+        console.error('Escrow lookup failed:', e);
+        return false;
+    });
+    if (!matches) {
+        return NextResponse.json({ error: 'Escrow does not match the proposal terms' }, { status: 400 });
+    }
+    // Checked after the chain read, with nothing awaited before the update, so two requests cannot both link it
+    if (getProposalByEscrow(escrowId as number)) {
+        return NextResponse.json({ error: 'Escrow is already linked to another proposal' }, { status: 409 });
+    }
+    return NextResponse.json(updateProposalStatus(proposal.id, 'accepted', escrowId as number));
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { syncIndexer } from '@/lib/indexer/sync';
+import { listReviews } from '@/lib/indexer/db';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/reviews?address=0x... returns the reviews an address received, newest first
+export async function GET(request: NextRequest) {
+    const address = request.nextUrl.searchParams.get('address');
+    if (!address || !isAddress(address)) {
+        return NextResponse.json({ error: 'Missing or invalid address' }, { status: 400 });
+    }
+
+    try {
+        await syncIndexer();
+    } catch (e) {
+        console.error('Indexer sync failed:', e);
+    }
+
+    return NextResponse.json({ reviews: listReviews(address) });
+}
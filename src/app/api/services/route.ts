@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { syncIndexer } from '@/lib/indexer/sync';
+import { listServices } from '@/lib/indexer/db';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/services?seller=0x... (seller is optional)
+export async function GET(request: NextRequest) {
+    const seller = request.nextUrl.searchParams.get('seller') ?? undefined;
+    if (seller && !isAddress(seller)) {
+        return NextResponse.json({ error: 'Invalid seller address' }, { status: 400 });
+    }
+
+    try {
+        await syncIndexer();
+    } catch (e) {
+        // An unreachable RPC should not take listings down; serve what is already indexed
+        console.error('Indexer sync failed:', e);
+    }
+
+    return NextResponse.json({ services: listServices({ seller }) });
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorageProvider, type StoredFile } from '@/lib/storage';
+import { authorizeUpload, recordUpload } from '@/lib/auth/uploadAuth';
+import { checkUpload, isUploadKind, UPLOAD_POLICIES } from '@/lib/uploads';
+
+// POST /api/upload/files?kind=<UploadKind> with one or more multipart `file` fields,
+// stored as a single directory
+export async function POST(request: NextRequest) {
+    const auth = await authorizeUpload(request.headers);
+    if (!auth.ok) {
+        return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const kind = request.nextUrl.searchParams.get('kind');
+    if (!isUploadKind(kind)) {
+        return NextResponse.json({ error: 'Unknown upload kind' }, { status: 400 });
+    }
+
+    // Reject oversized bodies before buffering them
+    const policy = UPLOAD_POLICIES[kind];
+    const length = Number(request.headers.get('content-length') || 0);
+    if (length > policy.maxFiles * policy.maxFileSize + 64 * 1024) {
+        return NextResponse.json({ error: 'Upload too large' }, { status: 413 });
+    }
+
+    const form = await request.formData();
+    const files = form.getAll('file').filter((value): value is File => value instanceof File);
+    const problem = checkUpload(kind, files);
+    if (problem) {
+        return NextResponse.json({ error: problem }, { status: 400 });
+    }
+    recordUpload(auth.address);
+
+    const stored: StoredFile[] = await Promise.all(
+        files.map(async (file) => ({
+            name: file.name,
+            type: file.type,
+            data: new Uint8Array(await file.arrayBuffer()),
+        })),
+    );
+
+    try {
+        const cid = await getStorageProvider().addFiles(stored);
+        return NextResponse.json({ cid });
+    } catch (e) {
+        console.error('File upload failed:', e);
+        return NextResponse.json({ error: 'Upload failed' }, { status: 502 });
+    }
+}
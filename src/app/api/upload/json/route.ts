@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorageProvider } from '@/lib/storage';
+import { authorizeUpload, recordUpload } from '@/lib/auth/uploadAuth';
+import { MAX_JSON_UPLOAD_SIZE } from '@/lib/uploads';
+
+export async function POST(request: NextRequest) {
+    const auth = await authorizeUpload(request.headers);
+    if (!auth.ok) {
+        return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    // Reject oversized bodies before buffering them
+    const length = Number(request.headers.get('content-length') || 0);
+    if (length > MAX_JSON_UPLOAD_SIZE) {
+        return NextResponse.json({ error: 'Document exceeds 1MB limit' }, { status: 413 });
+    }
+
+    // The header is optional (chunked uploads), so the read itself stops at the limit too
+    const body = await readBody(request, MAX_JSON_UPLOAD_SIZE);
+    if (body === null) {
+        return NextResponse.json({ error: 'Document exceeds 1MB limit' }, { status: 413 });
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(body);
+    } catch {
+        return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 });
+    }
+    recordUpload(auth.address);
+
+    try {
+        const cid = await getStorageProvider().addJSON(data);
+        return NextResponse.json({ cid });
+    } catch (e) {
+        console.error('JSON upload failed:', e);
+        return NextResponse.json({ error: 'Upload failed' }, { status: 502 });
+    }
+}
+
+// Reads the body as text, or returns null as soon as it grows past `limit` bytes
+async function readBody(request: NextRequest, limit: number): Promise<string | null> {
+    if (!request.body) return '';
+    const reader = request.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.length;
+        if (size > limit) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+    return new TextDecoder().decode(Buffer.concat(chunks));
+}
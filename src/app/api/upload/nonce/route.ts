@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { issueNonce } from '@/lib/auth/nonces';
+import { UPLOAD_NONCE_PURPOSE, UPLOAD_NONCE_TTL_MS } from '@/lib/auth/uploadAuth';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/upload/nonce issues a nonce for the wallet to sign before uploading
+export async function GET() {
+    return NextResponse.json(issueNonce(UPLOAD_NONCE_PURPOSE, UPLOAD_NONCE_TTL_MS));
+}
@@ -11,25 +11,44 @@ import { Card } from '@/components/ui/Card';
 import { Navbar } from '@/components/shared/Navbar';
 import { Footer } from '@/components/shared/Footer';
 import { motion } from 'framer-motion';
-import { useState, useEffect } from 'react';
-import { Loader2, CheckCircle2 } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, CheckCircle2, Pencil, Pause, Play } from 'lucide-react';
 import { useAccount, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { parseEther } from 'viem';
+import { readContract } from 'wagmi/actions';
 import Link from 'next/link';
-import { escrowXContractConfig } from '@/lib/contract';
+import { escrowXContractConfig, type OnChainService } from '@/lib/contract';
+import { config } from '@/lib/wagmi';
+import { PAYMENT_TOKENS, formatTokenAmount, getToken, parseTokenAmount, tokenBySymbol, tokenSymbol } from '@/lib/tokens';
+import { uploadJSONToIPFS } from '@/lib/ipfs';
+import { formatDeliveryTime, resolveDescription } from '@/lib/listings';
+import type { IndexedService } from '@/lib/indexer/types';
 
 const serviceSchema = z.object({
     title: z.string().min(5, 'Title must be at least 5 characters'),
     description: z.string().min(20, 'Description must be at least 20 characters'),
     price: z.string().regex(/^\d+(\.\d{1,18})?$/, 'Invalid price format'),
     deliveryTime: z.string().min(1, 'Delivery time is required'),
+    maxRevisions: z.string().regex(/^\d{1,2}$/, 'Enter a number from 0 to 99'),
+    currency: z.enum(['MATIC', 'USDC', 'USDT']),
 });
 
 type ServiceFormValues = z.infer<typeof serviceSchema>;
 
+async function loadSellerServices(seller: string): Promise<IndexedService[]> {
+    const res = await fetch(`/api/services?seller=${seller}`);
+    if (!res.ok) throw new Error('Failed to load your services');
+    const { services } = (await res.json()) as { services: IndexedService[] };
+    return services;
+}
+
 export default function CreateServicePage() {
-    const { isConnected } = useAccount();
+    const { address, isConnected } = useAccount();
     const [isSuccess, setIsSuccess] = useState(false);
+    const [isUploading, setIsUploading] = useState(false);
+    const [uploadError, setUploadError] = useState<string | null>(null);
+    const [myServices, setMyServices] = useState<IndexedService[]>([]);
+    const [editing, setEditing] = useState<IndexedService | null>(null);
+    const [lastAction, setLastAction] = useState<'created' | 'updated' | null>(null);
 
     const {
         data: hash,
@@ -50,33 +69,111 @@ export default function CreateServicePage() {
         reset
     } = useForm<ServiceFormValues>({
         resolver: zodResolver(serviceSchema),
+        defaultValues: { currency: 'MATIC', maxRevisions: '1' },
     });
 
+    const refreshServices = useCallback(() => {
+        if (!address) return;
+        loadSellerServices(address).then(setMyServices).catch(() => setMyServices([]));
+    }, [address]);
+
+    useEffect(() => {
+        refreshServices();
+    }, [refreshServices]);
+
     useEffect(() => {
         if (isConfirmed) {
             setIsSuccess(true);
-            reset();
+            setEditing(null);
+            reset({ title: '', description: '', price: '', deliveryTime: '', maxRevisions: '1', currency: 'MATIC' });
+            refreshServices();
+        }
+    }, [isConfirmed, reset, refreshServices]);
+
+    // Prefills the form from the listing; the description is resolved from its IPFS document
+    // and the revision allowance, which the indexer does not keep, is read from the contract
+    const startEditing = async (service: IndexedService) => {
+        const token = getToken(service.paymentToken);
+        if (!token) return;
+        setIsSuccess(false);
+        setUploadError(null);
+        setEditing(service);
+        try {
+            const [description, onChain] = await Promise.all([
+                resolveDescription(service.description),
+                readContract(config, {
+                    ...escrowXContractConfig,
+                    functionName: 'getService',
+                    args: [BigInt(service.id)],
+                }) as Promise<OnChainService>,
+            ]);
+            reset({
+                title: service.title,
+                description,
+                price: formatTokenAmount(BigInt(service.price), token),
+                deliveryTime: String(Math.max(1, Math.round(service.deliveryTime / 86400))),
+                maxRevisions: String(onChain.maxRevisions),
+                currency: token.symbol,
+            });
+        } catch (e: unknown) {
+            // A half-filled form would overwrite the listing with the wrong values
+            setEditing(null);
+            setUploadError(e instanceof Error ? e.message : 'Failed to load the service');
         }
-    }, [isConfirmed, reset]);
+    };
+
+    const cancelEditing = () => {
+        setEditing(null);
+        reset({ title: '', description: '', price: '', deliveryTime: '', maxRevisions: '1', currency: 'MATIC' });
+    };
 
     const onSubmit = async (data: ServiceFormValues) => {
         // Convert delivery time to seconds (simplified logic for hackathon)
         // Assume input is days for now
         const deliverySeconds = parseInt(data.deliveryTime) * 24 * 60 * 60 || 86400;
+        const token = tokenBySymbol(data.currency);
 
-        writeContract({
-            ...escrowXContractConfig,
-            functionName: 'createService',
-            args: [
-                data.title,
-                data.description, // In real app, upload to IPFS and store hash here
-                parseEther(data.price),
-                BigInt(deliverySeconds),
-            ],
-        });
+        // Only the CID goes on-chain; listings resolve the full description from IPFS
+        let descriptionCid: string;
+        setUploadError(null);
+        setIsUploading(true);
+        try {
+            ({ cid: descriptionCid } = await uploadJSONToIPFS({ title: data.title, description: data.description }));
+        } catch (e: unknown) {
+            setUploadError(e instanceof Error ? e.message : 'Failed to upload description');
+            return;
+        } finally {
+            setIsUploading(false);
+        }
+
+        const args = [
+            data.title,
+            descriptionCid,
+            parseTokenAmount(data.price, token),
+            BigInt(deliverySeconds),
+            token.address,
+            BigInt(data.maxRevisions),
+        ] as const;
+
+        // Escrows already opened on the listing keep the price and revisions they were funded with
+        if (editing) {
+            setLastAction('updated');
+            writeContract({
+                ...escrowXContractConfig,
+                functionName: 'updateService',
+                args: [BigInt(editing.id), ...args],
+            });
+        } else {
+            setLastAction('created');
+            writeContract({
+                ...escrowXContractConfig,
+                functionName: 'createService',
+                args,
+            });
+        }
     };
 
-    const isSubmitting = isWritePending || isConfirming;
+    const isSubmitting = isUploading || isWritePending || isConfirming;
 
     // If not connected, show prompt
     if (!isConnected) {
@@ -115,9 +212,11 @@ export default function CreateServicePage() {
                     animate={{ opacity: 1, y: 0 }}
                     className="mb-8 text-center"
                 >
-                    <h1 className="text-4xl font-bold mb-2">Create a Service</h1>
+                    <h1 className="text-4xl font-bold mb-2">{editing ? 'Edit Service' : 'Create a Service'}</h1>
                     <p className="text-muted-foreground">
-                        List your skills on the decentralized marketplace.
+                        {editing
+                            ? `Changes apply to new orders of listing #${editing.id}; open escrows keep their price.`
+                            : 'List your skills on the decentralized marketplace.'}
                     </p>
                 </motion.div>
 
@@ -126,7 +225,9 @@ export default function CreateServicePage() {
                         <div className="w-16 h-16 bg-green-500/10 rounded-full flex items-center justify-center mx-auto mb-6 text-green-500">
                             <CheckCircle2 className="w-8 h-8" />
                         </div>
-                        <h2 className="text-2xl font-bold mb-2">Service Created Successfully!</h2>
+                        <h2 className="text-2xl font-bold mb-2">
+                            {lastAction === 'updated' ? 'Service Updated Successfully!' : 'Service Created Successfully!'}
+                        </h2>
                         <p className="text-muted-foreground mb-1">
                             Your service transaction has been confirmed on-chain.
                         </p>
@@ -175,9 +276,9 @@ export default function CreateServicePage() {
                                 )}
                             </div>
 
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
                                 <div className="space-y-2">
-                                    <Label htmlFor="price">Price (MATIC)</Label>
+                                    <Label htmlFor="price">Price</Label>
                                     <div className="relative">
                                         <Input
                                             id="price"
@@ -192,6 +293,17 @@ export default function CreateServicePage() {
                                     )}
                                 </div>
 
+                                <div className="space-y-2">
+                                    <Label htmlFor="currency">Currency</Label>
+                                    <select
+                                        id="currency"
+                                        className="w-full h-11 bg-white/5 border border-white/10 rounded-xl px-3"
+                                        {...register('currency')}
+                                    >
+                                        {PAYMENT_TOKENS.map((t) => <option key={t.symbol} value={t.symbol}>{t.symbol}</option>)}
+                                    </select>
+                                </div>
+
                                 <div className="space-y-2">
                                     <Label htmlFor="deliveryTime">Delivery Time (Days)</Label>
                                     <Input
@@ -204,8 +316,28 @@ export default function CreateServicePage() {
                                         <p className="text-red-500 text-xs">{errors.deliveryTime.message}</p>
                                     )}
                                 </div>
+
+                                <div className="space-y-2">
+                                    <Label htmlFor="maxRevisions">Revisions</Label>
+                                    <Input
+                                        id="maxRevisions"
+                                        placeholder="e.g. 2"
+                                        type="number"
+                                        min={0}
+                                        {...register('maxRevisions')}
+                                    />
+                                    {errors.maxRevisions && (
+                                        <p className="text-red-500 text-xs">{errors.maxRevisions.message}</p>
+                                    )}
+                                </div>
                             </div>
 
+                            {uploadError && (
+                                <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg text-yellow-500 text-sm text-center">
+                                    {uploadError}
+                                </div>
+                            )}
+
                             {writeError && (
                                 <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg text-yellow-500 text-sm text-center">
                                     {(() => {
@@ -229,18 +361,113 @@ export default function CreateServicePage() {
                                 {isSubmitting ? (
                                     <span className="flex items-center">
                                         <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                                        {isConfirming ? 'Confirming...' : 'Check Wallet...'}
+                                        {isUploading ? 'Uploading...' : isConfirming ? 'Confirming...' : 'Check Wallet...'}
                                     </span>
+                                ) : editing ? (
+                                    'Save Changes'
                                 ) : (
                                     'Publish Service'
                                 )}
                             </Button>
+                            {editing && (
+                                <Button type="button" variant="ghost" className="w-full" onClick={cancelEditing} disabled={isSubmitting}>
+                                    Cancel Editing
+                                </Button>
+                            )}
                         </form>
                     </Card>
                 )}
+
+                {myServices.length > 0 && (
+                    <Card className="mt-8">
+                        <h2 className="text-xl font-bold mb-4">Your Services</h2>
+                        <div className="space-y-3">
+                            {myServices.map((service) => (
+                                <ServiceRow
+                                    key={service.id}
+                                    service={service}
+                                    isEditing={editing?.id === service.id}
+                                    onEdit={() => startEditing(service)}
+                                    onChanged={refreshServices}
+                                />
+                            ))}
+                        </div>
+                    </Card>
+                )}
             </main>
 
             <Footer />
         </div>
     );
 }
+
+/**
+ * One of the seller's listings with its edit and pause/resume controls. Paused listings
+ * are hidden from the marketplace and cannot be hired until resumed.
+ */
+function ServiceRow({ service, isEditing, onEdit, onChanged }: {
+    service: IndexedService;
+    isEditing: boolean;
+    onEdit: () => void;
+    onChanged: () => void;
+}) {
+    const token = getToken(service.paymentToken);
+    const { writeContract, data: hash, isPending, error } = useWriteContract();
+    const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
+
+    useEffect(() => {
+        if (isConfirmed) onChanged();
+    }, [isConfirmed, onChanged]);
+
+    const toggleActive = () => {
+        writeContract({
+            ...escrowXContractConfig,
+            functionName: 'setServiceActive',
+            args: [BigInt(service.id), !service.isActive],
+        });
+    };
+
+    const isBusy = isPending || isConfirming;
+
+    return (
+        <div className={`border rounded-xl p-3 ${isEditing ? 'border-primary/50' : 'border-white/10'}`}>
+            <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                    <div className="font-medium truncate">{service.title}</div>
+                    <div className="text-xs text-muted-foreground">
+                        {formatTokenAmount(BigInt(service.price), token)} {tokenSymbol(token)} • {formatDeliveryTime(service.deliveryTime)} •{' '}
+                        <span className={service.isActive ? 'text-green-500' : 'text-yellow-500'}>
+                            {service.isActive ? 'Active' : 'Paused'}
+                        </span>
+                    </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                    <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={onEdit}
+                        disabled={isBusy || !token}
+                        title={token ? undefined : 'Paid in a token this app does not support'}
+                    >
+                        <Pencil className="w-4 h-4 mr-1" /> Edit
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={toggleActive} disabled={isBusy}>
+                        {isBusy ? (
+                            <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                        ) : service.isActive ? (
+                            <Pause className="w-4 h-4 mr-1" />
+                        ) : (
+                            <Play className="w-4 h-4 mr-1" />
+                        )}
+                        {service.isActive ? 'Pause' : 'Resume'}
+                    </Button>
+                </div>
+            </div>
+            {error && (
+                <p className="text-yellow-500 text-xs mt-2">
+                    {error.message?.toLowerCase().includes('user rejected') ? 'Transaction incomplete due to user rejection.' : 'Transaction incomplete.'}
+                </p>
+            )}
+        </div>
+    );
+}
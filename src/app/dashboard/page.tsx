@@ -0,0 +1,180 @@
+'use client';
+
+import { Navbar } from '@/components/shared/Navbar';
+import { Footer } from '@/components/shared/Footer';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { EscrowCard } from '@/components/shared/EscrowCard';
+import { TreasuryPanel } from '@/components/shared/TreasuryPanel';
+import { ClaimableBalance } from '@/components/shared/ClaimableBalance';
+import { motion } from 'framer-motion';
+import { Loader2 } from 'lucide-react';
+import Link from 'next/link';
+import { useCallback, useState } from 'react';
+import { zeroAddress, type Abi } from 'viem';
+import { useAccount, useReadContract, useReadContracts } from 'wagmi';
+import {
+    escrowXContractConfig,
+    EscrowState,
+    ESCROW_STATE_LABELS,
+    type OnChainEscrow,
+    type OnChainSettlement,
+} from '@/lib/contract';
+
+// Groups that may need the user's attention come first
+const STATE_ORDER: EscrowState[] = [
+    EscrowState.DISPUTED,
+    EscrowState.OFFERED,
+    EscrowState.AWAITING_DELIVERY,
+    EscrowState.AWAITING_PAYMENT,
+    EscrowState.COMPLETED,
+    EscrowState.REFUNDED,
+];
+
+export default function DashboardPage() {
+    const { address, isConnected } = useAccount();
+    const [updates, setUpdates] = useState(0);
+
+    const { data: escrowIds, refetch: refetchIds, isLoading: isLoadingIds } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'getUserEscrows',
+        args: address ? [address] : undefined,
+        query: { enabled: !!address },
+    });
+
+    const ids = (escrowIds as bigint[] | undefined) ?? [];
+
+    const { data: escrowResults, refetch: refetchEscrows, isLoading: isLoadingEscrows } = useReadContracts({
+        contracts: ids.map((id) => ({
+            address: escrowXContractConfig.address,
+            abi: escrowXContractConfig.abi as Abi,
+            functionName: 'getEscrow',
+            args: [id],
+        })),
+        query: { enabled: ids.length > 0 },
+    });
+
+    const escrows = (escrowResults ?? [])
+        .filter((r) => r.status === 'success')
+        .map((r) => r.result as OnChainEscrow)
+        .sort((a, b) => Number(b.id - a.id));
+
+    // Open escrows with a settlement proposal waiting for an answer get their own section
+    const openEscrows = escrows.filter((e) => e.state === EscrowState.AWAITING_DELIVERY);
+    const { data: settlementResults, refetch: refetchSettlements } = useReadContracts({
+        contracts: openEscrows.map((escrow) => ({
+            address: escrowXContractConfig.address,
+            abi: escrowXContractConfig.abi as Abi,
+            functionName: 'settlements',
+            args: [escrow.id],
+        })),
+        query: { enabled: openEscrows.length > 0 },
+    });
+    const proposalIds = new Set(openEscrows
+        .filter((_, i) => {
+            const settlement = settlementResults?.[i]?.result as OnChainSettlement | undefined;
+            return !!settlement && settlement[0] !== zeroAddress;
+        })
+        .map((escrow) => escrow.id));
+    const proposals = escrows.filter((e) => proposalIds.has(e.id));
+
+    const groups = STATE_ORDER
+        .map((state) => ({ state, escrows: escrows.filter((e) => e.state === state && !proposalIds.has(e.id)) }))
+        .filter((group) => group.escrows.length > 0);
+
+    // A transaction on one card can move its escrow to another group and credit the wallet
+    const handleUpdated = useCallback(() => {
+        refetchIds();
+        refetchEscrows();
+        refetchSettlements();
+        setUpdates((n) => n + 1);
+    }, [refetchIds, refetchEscrows, refetchSettlements]);
+
+    if (!isConnected) {
+        return (
+            <div className="min-h-screen flex flex-col">
+                <Navbar />
+                <main className="flex-1 flex flex-col items-center justify-center p-4">
+                    <Card className="max-w-md w-full text-center py-12">
+                        <h2 className="text-2xl font-bold mb-4">Connect Wallet</h2>
+                        <p className="text-muted-foreground mb-6">
+                            You need to connect your wallet to see the escrows you are part of.
+                        </p>
+                        <div className="p-4 bg-yellow-500/10 text-yellow-500 rounded-lg text-sm">
+                            Please use the &quot;Connect Wallet&quot; button in the top right corner.
+                        </div>
+                    </Card>
+                </main>
+                <Footer />
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen flex flex-col relative">
+            <div className="absolute top-0 left-0 right-0 h-[500px] bg-primary/5 blur-[100px] pointer-events-none" />
+
+            <Navbar />
+
+            <main className="flex-1 py-24 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto w-full relative z-10">
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="mb-8"
+                >
+                    <h1 className="text-4xl font-bold mb-2">Dashboard</h1>
+                    <p className="text-muted-foreground">
+                        Every escrow you are part of, as buyer or seller.
+                    </p>
+                </motion.div>
+
+                <ClaimableBalance refreshKey={updates} />
+                <TreasuryPanel />
+
+                {isLoadingIds || (ids.length > 0 && isLoadingEscrows) ? (
+                    <div className="flex justify-center py-20">
+                        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+                    </div>
+                ) : groups.length === 0 && proposals.length === 0 ? (
+                    <Card className="text-center py-12">
+                        <p className="text-muted-foreground mb-6">You have no escrows yet.</p>
+                        <Link href="/talent">
+                            <Button>Hire Talent</Button>
+                        </Link>
+                    </Card>
+                ) : (
+                    <div className="space-y-10">
+                        {proposals.length > 0 && (
+                            <section>
+                                <h2 className="text-xl font-bold mb-4">
+                                    Settlement Proposals
+                                    <span className="ml-2 text-sm text-muted-foreground font-normal">{proposals.length}</span>
+                                </h2>
+                                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                                    {proposals.map((escrow) => (
+                                        <EscrowCard key={escrow.id.toString()} escrowId={escrow.id} onUpdated={handleUpdated} />
+                                    ))}
+                                </div>
+                            </section>
+                        )}
+                        {groups.map((group) => (
+                            <section key={group.state}>
+                                <h2 className="text-xl font-bold mb-4">
+                                    {ESCROW_STATE_LABELS[group.state]}
+                                    <span className="ml-2 text-sm text-muted-foreground font-normal">{group.escrows.length}</span>
+                                </h2>
+                                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                                    {group.escrows.map((escrow) => (
+                                        <EscrowCard key={escrow.id.toString()} escrowId={escrow.id} onUpdated={handleUpdated} />
+                                    ))}
+                                </div>
+                            </section>
+                        ))}
+                    </div>
+                )}
+            </main>
+
+            <Footer />
+        </div>
+    );
+}
@@ -0,0 +1,322 @@
+'use client';
+
+import { Navbar } from '@/components/shared/Navbar';
+import { Footer } from '@/components/shared/Footer';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { motion } from 'framer-motion';
+import { Scale, Upload, FileText, Loader2, ShieldAlert } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { format } from 'date-fns';
+import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import {
+    escrowXContractConfig,
+    EscrowState,
+    ESCROW_STATE_LABELS,
+    BPS_DENOMINATOR,
+    parseEscrowId,
+    type OnChainEscrow,
+    type OnChainMilestone,
+    type DisputeEvidence,
+} from '@/lib/contract';
+import { getIPFSUrl, uploadFilesToIPFS } from '@/lib/ipfs';
+import { formatTokenAmount, getToken, tokenSymbol } from '@/lib/tokens';
+import { checkUpload, UPLOAD_POLICIES } from '@/lib/uploads';
+
+export default function DisputePage() {
+    const params = useParams<{ id: string }>();
+    const escrowId = parseEscrowId(params.id);
+    const { address, isConnected } = useAccount();
+    const [files, setFiles] = useState<File[]>([]);
+    const [uploadErr, setUploadErr] = useState<string | null>(null);
+    const [isUploading, setIsUploading] = useState(false);
+    const [buyerPercent, setBuyerPercent] = useState(50);
+    const [milestoneIndex, setMilestoneIndex] = useState<number | null>(null);
+
+    const { data: escrowData, isLoading: isEscrowLoading, refetch: refetchEscrow } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'getEscrow',
+        args: [escrowId],
+    });
+    const { data: evidenceData, refetch: refetchEvidence } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'getEvidence',
+        args: [escrowId],
+    });
+    const { data: milestonesData, refetch: refetchMilestones } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'getMilestones',
+        args: [escrowId],
+    });
+    const { data: isArbiter } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'arbiters',
+        args: [address],
+        query: { enabled: !!address },
+    });
+
+    const escrow = escrowData as OnChainEscrow | undefined;
+    const evidence = (evidenceData as DisputeEvidence[] | undefined) ?? [];
+    const token = getToken(escrow?.paymentToken ?? 'MATIC');
+    const milestones = (milestonesData as OnChainMilestone[] | undefined) ?? [];
+    const disputedMilestones = milestones
+        .map((m, i) => ({ ...m, index: i }))
+        .filter((m) => m.state === EscrowState.DISPUTED);
+    // Milestone escrows are resolved one disputed milestone at a time
+    const selectedMilestone = disputedMilestones.find((m) => m.index === milestoneIndex) ?? disputedMilestones[0];
+    const disputedAmount = selectedMilestone ? selectedMilestone.amount : escrow?.amount ?? BigInt(0);
+
+    const {
+        writeContract,
+        data: hash,
+        isPending: isWritePending,
+        error: writeError
+    } = useWriteContract();
+
+    const { isLoading: isConfirming, isSuccess: isConfirmed } =
+        useWaitForTransactionReceipt({
+            hash,
+        });
+
+    useEffect(() => {
+        if (isConfirmed) {
+            refetchEscrow();
+            refetchEvidence();
+            refetchMilestones();
+        }
+    }, [isConfirmed, refetchEscrow, refetchEvidence, refetchMilestones]);
+
+    const isParticipant = !!address && !!escrow &&
+        (address.toLowerCase() === escrow.buyer.toLowerCase() || address.toLowerCase() === escrow.seller.toLowerCase());
+    const isDisputed = escrow?.state === EscrowState.DISPUTED;
+    const isBusy = isUploading || isWritePending || isConfirming;
+
+    const handleSubmitEvidence = async () => {
+        setUploadErr(null);
+        const problem = checkUpload('evidence', files);
+        if (problem) {
+            setUploadErr(problem);
+            return;
+        }
+        try {
+            setIsUploading(true);
+            const { cid } = await uploadFilesToIPFS(files, 'evidence');
+            writeContract({
+                ...escrowXContractConfig,
+                functionName: 'submitEvidence',
+                args: [escrowId, cid],
+            });
+            setFiles([]);
+        } catch (e: unknown) {
+            setUploadErr(e instanceof Error ? e.message : 'Failed to upload evidence');
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    const handleResolve = () => {
+        if (selectedMilestone) {
+            writeContract({
+                ...escrowXContractConfig,
+                functionName: 'resolveMilestoneDispute',
+                args: [escrowId, BigInt(selectedMilestone.index), BigInt(buyerPercent * (BPS_DENOMINATOR / 100))],
+            });
+            return;
+        }
+        writeContract({
+            ...escrowXContractConfig,
+            functionName: 'resolveDispute',
+            args: [escrowId, BigInt(buyerPercent * (BPS_DENOMINATOR / 100))],
+        });
+    };
+
+    const buyerShare = (disputedAmount * BigInt(buyerPercent)) / BigInt(100);
+    const sellerShare = disputedAmount - buyerShare;
+
+    return (
+        <div className="min-h-screen flex flex-col relative">
+            <div className="absolute top-0 left-0 right-0 h-[500px] bg-primary/5 blur-[100px] pointer-events-none" />
+
+            <Navbar />
+
+            <main className="flex-1 py-24 px-4 sm:px-6 lg:px-8 max-w-3xl mx-auto w-full relative z-10 space-y-6">
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                >
+                    <h1 className="text-4xl font-bold mb-2 flex items-center gap-3">
+                        <Scale className="w-8 h-8 text-primary" />
+                        Dispute for Escrow #{params.id}
+                    </h1>
+                    <p className="text-muted-foreground">
+                        Both parties can attach evidence. An arbiter reviews it and splits the locked funds.
+                    </p>
+                </motion.div>
+
+                {isEscrowLoading ? (
+                    <div className="flex justify-center py-12">
+                        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+                    </div>
+                ) : !escrow || escrow.id === BigInt(0) ? (
+                    <Card className="text-center py-12 text-muted-foreground">
+                        Escrow not found.
+                    </Card>
+                ) : (
+                    <>
+                        <Card>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                                <div>
+                                    <span className="font-semibold">Status:</span> {ESCROW_STATE_LABELS[escrow.state as EscrowState]}
+                                </div>
+                                <div>
+                                    <span className="font-semibold">Amount:</span> {formatTokenAmount(escrow.amount, token)} {tokenSymbol(token)}
+                                </div>
+                                <div className="truncate">
+                                    <span className="font-semibold">Buyer:</span> {escrow.buyer}
+                                </div>
+                                <div className="truncate">
+                                    <span className="font-semibold">Seller:</span> {escrow.seller}
+                                </div>
+                            </div>
+                        </Card>
+
+                        {!isDisputed && (
+                            <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 text-yellow-500 rounded-lg text-sm text-center">
+                                This escrow is not in dispute.
+                            </div>
+                        )}
+
+                        <Card>
+                            <h2 className="text-xl font-bold mb-4">Evidence</h2>
+                            {evidence.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">No evidence submitted yet.</p>
+                            ) : (
+                                <div className="space-y-3">
+                                    {evidence.map((item, i) => (
+                                        <div key={`${item.cid}-${i}`} className="flex items-center justify-between border border-white/10 rounded-md p-3">
+                                            <div className="min-w-0">
+                                                <div className="text-sm font-semibold truncate">
+                                                    {item.submittedBy.toLowerCase() === escrow.buyer.toLowerCase() ? 'Buyer' : 'Seller'}
+                                                </div>
+                                                <div className="text-xs text-muted-foreground">
+                                                    {format(new Date(Number(item.submittedAt) * 1000), 'PPp')}
+                                                </div>
+                                            </div>
+                                            <a href={getIPFSUrl(item.cid)} target="_blank" rel="noopener noreferrer" className="text-xs text-primary hover:underline flex items-center gap-1">
+                                                <FileText className="w-4 h-4" />
+                                                View on IPFS
+                                            </a>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {isDisputed && isParticipant && (
+                                <div className="mt-6 pt-6 border-t border-white/10 space-y-3">
+                                    <Label>Attach Evidence (max 10MB each)</Label>
+                                    <Input
+                                        type="file"
+                                        multiple
+                                        accept={UPLOAD_POLICIES.evidence.accept}
+                                        onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+                                    />
+                                    {uploadErr && <p className="text-yellow-500 text-xs">{uploadErr}</p>}
+                                    <Button onClick={handleSubmitEvidence} disabled={isBusy} className="w-full">
+                                        {isUploading ? (
+                                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                        ) : (
+                                            <Upload className="w-4 h-4 mr-2" />
+                                        )}
+                                        Submit Evidence
+                                    </Button>
+                                </div>
+                            )}
+                        </Card>
+
+                        {isDisputed && isArbiter === true && !isParticipant && (
+                            <Card className="border-primary/20">
+                                <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
+                                    <ShieldAlert className="w-5 h-5 text-primary" />
+                                    Resolve Dispute
+                                </h2>
+                                <div className="space-y-4">
+                                    {selectedMilestone && (
+                                        <div className="space-y-2">
+                                            <Label>Disputed Milestone</Label>
+                                            <select
+                                                className="w-full bg-white/5 border border-white/10 rounded-md p-2"
+                                                value={selectedMilestone.index}
+                                                onChange={(e) => setMilestoneIndex(parseInt(e.target.value))}
+                                            >
+                                                {disputedMilestones.map((m) => (
+                                                    <option key={m.index} value={m.index}>
+                                                        Milestone {m.index + 1} ({formatTokenAmount(m.amount, token)} {tokenSymbol(token)})
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    )}
+                                    <div className="space-y-2">
+                                        <Label>Refund to buyer: {buyerPercent}%</Label>
+                                        <input
+                                            type="range"
+                                            min={0}
+                                            max={100}
+                                            value={buyerPercent}
+                                            onChange={(e) => setBuyerPercent(parseInt(e.target.value))}
+                                            className="w-full accent-violet-600"
+                                        />
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-4 text-sm">
+                                        <div>
+                                            <span className="font-semibold">Buyer receives:</span> {formatTokenAmount(buyerShare, token)} {tokenSymbol(token)}
+                                        </div>
+                                        <div>
+                                            <span className="font-semibold">Seller receives:</span> {formatTokenAmount(sellerShare, token)} {tokenSymbol(token)}
+                                        </div>
+                                    </div>
+                                    <Button onClick={handleResolve} disabled={isBusy} className="w-full">
+                                        Resolve & Pay Out
+                                    </Button>
+                                </div>
+                            </Card>
+                        )}
+
+                        {!isConnected && (
+                            <div className="p-4 bg-yellow-500/10 text-yellow-500 rounded-lg text-sm text-center">
+                                Connect your wallet to submit evidence or resolve this dispute.
+                            </div>
+                        )}
+
+                        {writeError && (
+                            <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 text-yellow-500 text-sm rounded-lg text-center">
+                                {(() => {
+                                    const msg = writeError.message?.toLowerCase() || '';
+                                    if (msg.includes('user rejected') || msg.includes('user denied')) {
+                                        return "Transaction incomplete due to user rejection.";
+                                    }
+                                    if (msg.includes('insufficient funds') || msg.includes('exceeds balance')) {
+                                        return "Transaction incomplete due to insufficient funds.";
+                                    }
+                                    return "Transaction incomplete.";
+                                })()}
+                            </div>
+                        )}
+
+                        {isConfirming && (
+                            <div className="p-3 bg-blue-500/10 text-blue-500 text-sm rounded-lg flex items-center gap-2">
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                                Confirming transaction on blockchain...
+                            </div>
+                        )}
+                    </>
+                )}
+            </main>
+
+            <Footer />
+        </div>
+    );
+}
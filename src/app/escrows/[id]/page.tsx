@@ -0,0 +1,45 @@
+'use client';
+
+import { Navbar } from '@/components/shared/Navbar';
+import { Footer } from '@/components/shared/Footer';
+import { EscrowCard } from '@/components/shared/EscrowCard';
+import { Card } from '@/components/ui/Card';
+import { parseEscrowId } from '@/lib/contract';
+import { motion } from 'framer-motion';
+import { useParams } from 'next/navigation';
+
+export default function EscrowPage() {
+    const params = useParams<{ id: string }>();
+    const escrowId = parseEscrowId(params.id);
+
+    return (
+        <div className="min-h-screen flex flex-col relative">
+            <div className="absolute top-0 left-0 right-0 h-[500px] bg-primary/5 blur-[100px] pointer-events-none" />
+
+            <Navbar />
+
+            <main className="flex-1 py-24 px-4 sm:px-6 lg:px-8 max-w-3xl mx-auto w-full relative z-10">
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="mb-8"
+                >
+                    <h1 className="text-4xl font-bold mb-2">Escrow #{params.id}</h1>
+                    <p className="text-muted-foreground">
+                        Missed deadlines let the buyer reclaim funds; an unanswered delivery lets the seller claim payment.
+                    </p>
+                </motion.div>
+
+                {escrowId === BigInt(0) ? (
+                    <Card className="text-center py-12 text-muted-foreground">
+                        Escrow not found.
+                    </Card>
+                ) : (
+                    <EscrowCard escrowId={escrowId} />
+                )}
+            </main>
+
+            <Footer />
+        </div>
+    );
+}
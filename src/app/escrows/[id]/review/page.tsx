@@ -0,0 +1,347 @@
+'use client';
+
+import { Navbar } from '@/components/shared/Navbar';
+import { Footer } from '@/components/shared/Footer';
+import { Countdown } from '@/components/shared/Countdown';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Textarea } from '@/components/ui/Textarea';
+import { motion } from 'framer-motion';
+import { AlertTriangle, CheckCircle2, Download, FileText, Loader2, PackageCheck, RotateCcw, Scale, ShieldCheck } from 'lucide-react';
+import Link from 'next/link';
+import { useEffect, useMemo, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import {
+    escrowXContractConfig,
+    EscrowState,
+    ESCROW_STATE_LABELS,
+    REVIEW_WINDOW_SECONDS,
+    parseEscrowId,
+    type OnChainEscrow,
+} from '@/lib/contract';
+import { verifyDeliverableBundle, type DeliverableBundle, type DeliverableFile } from '@/lib/deliverables';
+import { fetchFile, fetchJSONFromIPFS, getIPFSUrl, uploadJSONToIPFS } from '@/lib/ipfs';
+import { sha256Hex } from '@/lib/messageCrypto';
+import { formatTokenAmount, getToken, tokenSymbol } from '@/lib/tokens';
+import { formatFileSize } from '@/lib/uploads';
+
+// One delivered file, downloaded and checked against the hash the seller signed
+function DeliveredFile({ filesCid, file }: { filesCid: string; file: DeliverableFile }) {
+    const { data, isLoading, error } = useQuery({
+        queryKey: ['deliverable', filesCid, file.name],
+        queryFn: async () => {
+            const blob = await fetchFile(filesCid, file.name);
+            const verified = (await sha256Hex(new Uint8Array(await blob.arrayBuffer()))) === file.sha256;
+            return { blob: new Blob([blob], { type: file.type }), verified };
+        },
+        staleTime: Infinity,
+    });
+
+    const url = useMemo(() => (data ? URL.createObjectURL(data.blob) : null), [data]);
+    useEffect(() => () => {
+        if (url) URL.revokeObjectURL(url);
+    }, [url]);
+
+    return (
+        <div className="border border-white/10 rounded-md p-3 space-y-1 text-sm">
+            <div className="flex items-center gap-2">
+                <FileText className="w-4 h-4 shrink-0 text-primary" />
+                <span className="truncate font-medium">{file.name}</span>
+                <span className="text-xs text-muted-foreground shrink-0">{formatFileSize(file.size)}</span>
+                {isLoading && <Loader2 className="w-4 h-4 ml-auto animate-spin text-primary" />}
+                {url && (
+                    <a href={url} download={file.name} className="ml-auto text-primary hover:underline flex items-center gap-1 text-xs">
+                        <Download className="w-3 h-3" />
+                        Download
+                    </a>
+                )}
+            </div>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span className="font-mono truncate" title={file.sha256}>
+                    SHA-256 {file.sha256.slice(0, 10)}...{file.sha256.slice(-8)}
+                </span>
+                {data?.verified && (
+                    <span className="text-green-500 flex items-center gap-1">
+                        <CheckCircle2 className="w-3 h-3" />
+                        Matches
+                    </span>
+                )}
+                {data && !data.verified && (
+                    <span className="text-yellow-500 flex items-center gap-1">
+                        <AlertTriangle className="w-3 h-3" />
+                        Content does not match its hash
+                    </span>
+                )}
+            </div>
+            {error && <p className="text-xs text-yellow-500">Could not load file: {error.message}</p>}
+        </div>
+    );
+}
+
+export default function DeliveryReviewPage() {
+    const params = useParams<{ id: string }>();
+    const escrowId = parseEscrowId(params.id);
+    const { address } = useAccount();
+    const [checked, setChecked] = useState(false);
+    const [revisionNote, setRevisionNote] = useState('');
+    const [isUploading, setIsUploading] = useState(false);
+    const [revisionErr, setRevisionErr] = useState<string | null>(null);
+
+    const { data: escrowData, isLoading: isEscrowLoading, refetch: refetchEscrow } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'getEscrow',
+        args: [escrowId],
+    });
+    const { data: deliverableCid, refetch: refetchDeliverable } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'deliverables',
+        args: [escrowId],
+    });
+
+    const escrow = escrowData as OnChainEscrow | undefined;
+    const cid = typeof deliverableCid === 'string' ? deliverableCid : '';
+
+    const { data: delivery, isLoading: isBundleLoading, error: bundleError } = useQuery({
+        queryKey: ['deliverable', cid],
+        queryFn: async () => {
+            const bundle = await fetchJSONFromIPFS<DeliverableBundle>(cid);
+            return { bundle, signed: await verifyDeliverableBundle(bundle, params.id, escrow!.seller) };
+        },
+        enabled: !!cid && !!escrow,
+        staleTime: Infinity,
+    });
+
+    const {
+        writeContract,
+        data: hash,
+        isPending: isWritePending,
+        error: writeError
+    } = useWriteContract();
+
+    const { isLoading: isConfirming, isSuccess: isConfirmed } =
+        useWaitForTransactionReceipt({
+            hash,
+        });
+
+    useEffect(() => {
+        if (!isConfirmed) return;
+        refetchEscrow();
+        refetchDeliverable();
+    }, [isConfirmed, refetchEscrow, refetchDeliverable]);
+
+    const isBuyer = !!address && !!escrow && address.toLowerCase() === escrow.buyer.toLowerCase();
+    const isReviewing = !!escrow && escrow.state === EscrowState.AWAITING_DELIVERY && escrow.sellerDelivered;
+    const isBusy = isUploading || isWritePending || isConfirming;
+    const token = getToken(escrow?.paymentToken ?? 'MATIC');
+    const revisionsLeft = escrow ? escrow.maxRevisions - escrow.revisionsUsed : BigInt(0);
+
+    const call = (functionName: string) => {
+        writeContract({
+            ...escrowXContractConfig,
+            functionName,
+            args: [escrowId],
+        });
+    };
+
+    // The note is uploaded to IPFS and only its CID goes on-chain, like review comments
+    const handleRequestRevision = async () => {
+        setRevisionErr(null);
+        if (!revisionNote.trim()) {
+            setRevisionErr('Describe what needs to change');
+            return;
+        }
+        try {
+            setIsUploading(true);
+            const { cid: noteCid } = await uploadJSONToIPFS({ escrowId: params.id, note: revisionNote.trim(), createdAt: Date.now() });
+            writeContract({
+                ...escrowXContractConfig,
+                functionName: 'requestRevision',
+                args: [escrowId, noteCid],
+            });
+            setRevisionNote('');
+        } catch (e: unknown) {
+            setRevisionErr(e instanceof Error ? e.message : 'Failed to upload revision note');
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex flex-col relative">
+            <div className="absolute top-0 left-0 right-0 h-[500px] bg-primary/5 blur-[100px] pointer-events-none" />
+
+            <Navbar />
+
+            <main className="flex-1 py-24 px-4 sm:px-6 lg:px-8 max-w-3xl mx-auto w-full relative z-10 space-y-6">
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                >
+                    <h1 className="text-4xl font-bold mb-2 flex items-center gap-3">
+                        <PackageCheck className="w-8 h-8 text-primary" />
+                        Delivery for Escrow #{params.id}
+                    </h1>
+                    <p className="text-muted-foreground">
+                        Download and check what the seller delivered, then confirm to release payment or raise a dispute.
+                    </p>
+                </motion.div>
+
+                {isEscrowLoading ? (
+                    <div className="flex justify-center py-12">
+                        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+                    </div>
+                ) : !escrow || escrow.id === BigInt(0) ? (
+                    <Card className="text-center py-12 text-muted-foreground">
+                        Escrow not found.
+                    </Card>
+                ) : !cid ? (
+                    <Card className="text-center py-12 text-muted-foreground">
+                        {escrow.revisionsUsed > BigInt(0)
+                            ? 'Revision requested. Waiting for the seller to deliver again.'
+                            : 'The seller has not delivered yet.'}
+                    </Card>
+                ) : (
+                    <>
+                        <Card>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                                <div>
+                                    <span className="font-semibold">Status:</span> {ESCROW_STATE_LABELS[escrow.state as EscrowState]}
+                                </div>
+                                <div>
+                                    <span className="font-semibold">Amount:</span> {formatTokenAmount(escrow.amount, token)} {tokenSymbol(token)}
+                                </div>
+                                <div className="truncate">
+                                    <span className="font-semibold">Seller:</span> {escrow.seller}
+                                </div>
+                                <div className="truncate">
+                                    <span className="font-semibold">Bundle:</span>{' '}
+                                    <a href={getIPFSUrl(cid)} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline font-mono">
+                                        {cid.slice(0, 10)}...{cid.slice(-6)}
+                                    </a>
+                                </div>
+                            </div>
+                            {isReviewing && (
+                                <div className="mt-4">
+                                    <Countdown
+                                        deadline={Number(escrow.deliveredAt) + REVIEW_WINDOW_SECONDS}
+                                        label="Review window closes in"
+                                        expiredLabel="Review window closed. Seller can claim payment."
+                                    />
+                                </div>
+                            )}
+                        </Card>
+
+                        <Card className="space-y-4">
+                            {isBundleLoading && (
+                                <div className="flex justify-center py-6">
+                                    <Loader2 className="w-6 h-6 text-primary animate-spin" />
+                                </div>
+                            )}
+                            {bundleError && (
+                                <p className="text-sm text-yellow-500">Could not load the deliverable bundle: {bundleError.message}</p>
+                            )}
+                            {delivery && (
+                                <>
+                                    {delivery.signed ? (
+                                        <div className="text-sm text-green-500 flex items-center gap-2">
+                                            <ShieldCheck className="w-4 h-4" />
+                                            Signed by the seller
+                                            {delivery.bundle.createdAt > 0 && ` on ${new Date(delivery.bundle.createdAt).toLocaleString()}`}
+                                        </div>
+                                    ) : (
+                                        <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 text-yellow-500 rounded-lg text-sm flex items-center gap-2">
+                                            <AlertTriangle className="w-4 h-4 shrink-0" />
+                                            The bundle&apos;s signature does not match this escrow&apos;s seller.
+                                        </div>
+                                    )}
+                                    {delivery.bundle.notes && (
+                                        <div>
+                                            <h2 className="text-lg font-bold mb-2">Notes</h2>
+                                            <p className="text-sm whitespace-pre-wrap break-words">{delivery.bundle.notes}</p>
+                                        </div>
+                                    )}
+                                    <div>
+                                        <h2 className="text-lg font-bold mb-2">Files</h2>
+                                        {delivery.bundle.filesCid && delivery.bundle.files.length > 0 ? (
+                                            <div className="space-y-2">
+                                                {delivery.bundle.files.map((file) => (
+                                                    <DeliveredFile key={file.name} filesCid={delivery.bundle.filesCid!} file={file} />
+                                                ))}
+                                            </div>
+                                        ) : (
+                                            <p className="text-sm text-muted-foreground">No files were attached.</p>
+                                        )}
+                                    </div>
+                                </>
+                            )}
+                        </Card>
+
+                        {isBuyer && isReviewing && (
+                            <Card className="space-y-4">
+                                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={checked}
+                                        onChange={(e) => setChecked(e.target.checked)}
+                                        className="accent-violet-600"
+                                    />
+                                    I downloaded and checked the deliverables
+                                </label>
+                                <div className="flex flex-wrap gap-2">
+                                    <Button onClick={() => call('confirmDelivery')} disabled={isBusy || !checked}>
+                                        {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                                        Confirm Delivery
+                                    </Button>
+                                    <Button variant="outline" onClick={() => call('raiseDispute')} disabled={isBusy}>
+                                        <Scale className="w-4 h-4 mr-2" />
+                                        Raise Dispute
+                                    </Button>
+                                </div>
+                                {escrow.maxRevisions > BigInt(0) && (
+                                    <div className="pt-4 border-t border-white/10 space-y-3">
+                                        <div className="text-sm font-semibold">
+                                            Request a Revision ({revisionsLeft.toString()} of {escrow.maxRevisions.toString()} left)
+                                        </div>
+                                        <Textarea
+                                            value={revisionNote}
+                                            onChange={(e) => setRevisionNote(e.target.value)}
+                                            placeholder="What should the seller change?"
+                                            className="min-h-[80px]"
+                                            disabled={revisionsLeft === BigInt(0)}
+                                        />
+                                        {revisionErr && <p className="text-yellow-500 text-xs">{revisionErr}</p>}
+                                        <Button variant="outline" onClick={handleRequestRevision} disabled={isBusy || revisionsLeft === BigInt(0)}>
+                                            <RotateCcw className="w-4 h-4 mr-2" />
+                                            Request Revision
+                                        </Button>
+                                    </div>
+                                )}
+                            </Card>
+                        )}
+
+                        {escrow.state === EscrowState.DISPUTED && (
+                            <Link href={`/disputes/${params.id}`} className="text-sm text-primary hover:underline flex items-center gap-1">
+                                <Scale className="w-4 h-4" />
+                                View Dispute
+                            </Link>
+                        )}
+
+                        {writeError && (
+                            <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 text-yellow-500 text-sm rounded-lg text-center">
+                                {writeError.message?.toLowerCase().includes('user rejected') ? 'Transaction incomplete due to user rejection.' : 'Transaction incomplete.'}
+                            </div>
+                        )}
+
+                        <Link href={`/escrows/${params.id}`} className="text-sm text-primary hover:underline">
+                            Back to escrow
+                        </Link>
+                    </>
+                )}
+            </main>
+
+            <Footer />
+        </div>
+    );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import { Navbar } from '@/components/shared/Navbar';
+import { Footer } from '@/components/shared/Footer';
+import { Card } from '@/components/ui/Card';
+import { ProposalForm } from '@/components/shared/ProposalForm';
+import { ProposalInbox } from '@/components/shared/ProposalInbox';
+import { SignInPrompt } from '@/components/shared/SignInPrompt';
+import { motion } from 'framer-motion';
+import { Loader2, Paperclip } from 'lucide-react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from '@/hooks/useSession';
+import { fetchJSONFromIPFS, getIPFSUrl } from '@/lib/ipfs';
+import type { JobDocument, PostedJob } from '@/lib/jobs';
+import type { Proposal } from '@/lib/proposals';
+
+async function loadJob(cid: string): Promise<{ posting: PostedJob; document: JobDocument }> {
+    const res = await fetch(`/api/jobs/${cid}`);
+    if (!res.ok) throw new Error(res.status === 404 ? 'Job not found' : 'Failed to load job');
+    const [posting, document] = await Promise.all([
+        res.json() as Promise<PostedJob>,
+        fetchJSONFromIPFS<JobDocument>(cid),
+    ]);
+    return { posting, document };
+}
+
+export default function JobPage() {
+    const params = useParams<{ cid: string }>();
+    const { address, isAuthenticated } = useSession();
+    const [job, setJob] = useState<{ posting: PostedJob; document: JobDocument } | null>(null);
+    const [jobErr, setJobErr] = useState<string | null>(null);
+    const [proposals, setProposals] = useState<Proposal[] | null>(null);
+
+    useEffect(() => {
+        loadJob(params.cid)
+            .then(setJob)
+            .catch((e: unknown) => setJobErr(e instanceof Error ? e.message : 'Failed to load job'));
+    }, [params.cid]);
+
+    // The API returns every proposal to the poster and only their own to a freelancer
+    useEffect(() => {
+        if (!isAuthenticated) return;
+        fetch(`/api/jobs/${params.cid}/proposals`)
+            .then((res) => (res.ok ? res.json() : { proposals: [] }))
+            .then((data: { proposals: Proposal[] }) => setProposals(data.proposals))
+            .catch(() => setProposals([]));
+    }, [params.cid, isAuthenticated, address]);
+
+    const handleChanged = useCallback((updated: Proposal) => {
+        setProposals((prev) => {
+            const list = prev ?? [];
+            return list.some((p) => p.id === updated.id)
+                ? list.map((p) => (p.id === updated.id ? updated : p))
+                : [...list, updated];
+        });
+    }, []);
+
+    const isPoster = !!address && job?.posting.poster === address.toLowerCase();
+    const details = job?.document.job;
+
+    return (
+        <div className="min-h-screen flex flex-col relative">
+            <div className="absolute top-0 left-0 right-0 h-[500px] bg-accent/5 blur-[100px] pointer-events-none" />
+
+            <Navbar />
+
+            <main className="flex-1 py-24 px-4 sm:px-6 lg:px-8 max-w-3xl mx-auto w-full relative z-10 space-y-6">
+                {jobErr ? (
+                    <Card className="text-center py-12">
+                        <p className="text-muted-foreground">{jobErr}</p>
+                    </Card>
+                ) : !job || !details ? (
+                    <div className="flex justify-center py-20">
+                        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+                    </div>
+                ) : (
+                    <>
+                        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+                            <Card>
+                                <h1 className="text-3xl font-bold mb-2">{details.title}</h1>
+                                <p className="text-sm text-muted-foreground mb-4">
+                                    {details.category} • {details.experience} • {details.workType} • {details.locationPref}
+                                    {' • Posted by '}
+                                    <Link href={`/u/${job.posting.poster}`} className="hover:text-primary">
+                                        {job.posting.poster.slice(0, 6)}...{job.posting.poster.slice(-4)}
+                                    </Link>
+                                </p>
+                                <p className="whitespace-pre-wrap mb-4">{details.description}</p>
+                                <div className="flex flex-wrap gap-2 mb-4">
+                                    {details.skills.map((s) => (
+                                        <span key={s} className="px-2 py-1 text-xs rounded bg-white/10">{s}</span>
+                                    ))}
+                                </div>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                                    <div>Budget: {details.budgetMin}–{details.budgetMax} {details.currency}</div>
+                                    <div>Duration: {details.durationValue} {details.durationType === 'date' ? '' : details.durationType}</div>
+                                    <div>Apply by: {details.deadline}</div>
+                                    <div>Contact: {details.contactMethod}</div>
+                                </div>
+                                {job.document.attachmentsCid && (
+                                    <a
+                                        href={getIPFSUrl(job.document.attachmentsCid)}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="text-sm text-primary hover:underline flex items-center gap-1 mt-4"
+                                    >
+                                        <Paperclip className="w-4 h-4" /> Attachments
+                                    </a>
+                                )}
+                            </Card>
+                        </motion.div>
+
+                        {!isAuthenticated ? (
+                            <SignInPrompt action={isPoster ? 'review proposals' : 'submit a proposal'} />
+                        ) : !proposals ? (
+                            <div className="flex justify-center py-8">
+                                <Loader2 className="w-6 h-6 text-primary animate-spin" />
+                            </div>
+                        ) : isPoster ? (
+                            <ProposalInbox jobCid={params.cid} proposals={proposals} onChanged={handleChanged} />
+                        ) : (
+                            <ProposalForm jobCid={params.cid} existing={proposals[0] ?? null} onSubmitted={handleChanged} />
+                        )}
+                    </>
+                )}
+            </main>
+
+            <Footer />
+        </div>
+    );
+}
@@ -4,50 +4,37 @@ import { Navbar } from '@/components/shared/Navbar';
 import { Footer } from '@/components/shared/Footer';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
-import { motion } from 'framer-motion';
-import { Search, Filter, Clock, Star, Loader2 } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Search, Filter, Clock, Star, Loader2, Layers } from 'lucide-react';
 import { Input } from '@/components/ui/Input';
+import { format } from 'date-fns';
+import Link from 'next/link';
 import { useState, useEffect } from 'react';
 import { useWriteContract, useWaitForTransactionReceipt, useAccount } from 'wagmi';
-import { parseEther } from 'viem';
 import { escrowXContractConfig } from '@/lib/contract';
-
-// Mock Data (In a real app, fetch from The Graph or contract events)
-const jobs = [
-    {
-        id: 1,
-        title: 'Full Stack Smart Contract Developer',
-        description: 'Looking for an expert to build a DeFi protocol on Polygon. Must have experience with Solidity and React.',
-        price: '0.001', // Lowered for testing
-        deliveryTime: '2 weeks',
-        rating: 4.9,
-        reviews: 12,
-    },
-    {
-        id: 2,
-        title: 'NFT Collection Generative Art',
-        description: 'Need a designer to create 10k unique traits for an NFT collection. Sci-fi theme.',
-        price: '0.005',
-        deliveryTime: '1 week',
-        rating: 5.0,
-        reviews: 5,
-    },
-    {
-        id: 3,
-        title: 'Auditing Smart Contracts',
-        description: 'Security audit for a staking contract. Comprehensive report required.',
-        price: '0.01',
-        deliveryTime: '5 days',
-        rating: 4.8,
-        reviews: 24,
-    },
-];
+import { ensureAllowance, getToken, isNativeToken, type PaymentToken } from '@/lib/tokens';
+import { fetchServiceListings, type ServiceListing } from '@/lib/listings';
+import { fetchJSONFromIPFS } from '@/lib/ipfs';
+import type { ProfileDocument, ProfileVersion } from '@/lib/profiles';
+import type { PostedJob } from '@/lib/jobs';
+import { MilestoneEditor } from '@/components/shared/MilestoneEditor';
+import { FeeBreakdown } from '@/components/shared/FeeBreakdown';
+import { emptyMilestone, prepareMilestones, validateMilestones, type MilestoneDraft } from '@/lib/milestones';
 
 export default function JobsPage() {
     const [searchTerm, setSearchTerm] = useState('');
+    const [jobs, setJobs] = useState<ServiceListing[]>([]);
+    const [isLoadingListings, setIsLoadingListings] = useState(true);
+    const [listingsError, setListingsError] = useState<string | null>(null);
     const [purchasingId, setPurchasingId] = useState<number | null>(null);
-    const { isConnected } = useAccount();
+    const { address, isConnected } = useAccount();
+    const [isApproving, setIsApproving] = useState(false);
+    const [approveError, setApproveError] = useState<Error | null>(null);
+    const [milestoneTarget, setMilestoneTarget] = useState<ServiceListing | null>(null);
+    const [milestones, setMilestones] = useState<MilestoneDraft[]>([emptyMilestone()]);
+    const [milestoneErr, setMilestoneErr] = useState<string | null>(null);
     const [profile, setProfile] = useState<any | null>(null);
+    const [postedJobs, setPostedJobs] = useState<PostedJob[]>([]);
 
     const {
         writeContract,
@@ -61,28 +48,105 @@ export default function JobsPage() {
             hash,
         });
 
+    useEffect(() => {
+        fetchServiceListings()
+            .then(setJobs)
+            .catch((e: unknown) => setListingsError(e instanceof Error ? e.message : 'Failed to load services'))
+            .finally(() => setIsLoadingListings(false));
+        fetch('/api/jobs')
+            .then((res) => (res.ok ? res.json() : { jobs: [] }))
+            .then((data: { jobs: PostedJob[] }) => setPostedJobs(data.jobs))
+            .catch(() => setPostedJobs([]));
+    }, []);
+
     // Reset state after success
     if (isConfirmed && purchasingId) {
         setPurchasingId(null);
         alert("Escrow created successfully! Work can now begin.");
     }
 
-    const handleHire = (job: typeof jobs[0]) => {
-        if (!isConnected) {
+    // ERC-20 listings need an allowance for the escrow contract before it can pull the price
+    const approveIfNeeded = async (token: PaymentToken, amount: bigint): Promise<boolean> => {
+        setApproveError(null);
+        setIsApproving(true);
+        try {
+            await ensureAllowance(token, address!, amount);
+            return true;
+        } catch (e: unknown) {
+            setApproveError(e instanceof Error ? e : new Error('Approval failed'));
+            return false;
+        } finally {
+            setIsApproving(false);
+        }
+    };
+
+    const handleHire = async (job: ServiceListing) => {
+        if (!isConnected || !address) {
             alert("Please connect your wallet first.");
             return;
         }
 
+        const token = getToken(job.currency);
+        if (!token) return;
         setPurchasingId(job.id);
 
+        const price = job.amount;
+        if (!(await approveIfNeeded(token, price))) {
+            setPurchasingId(null);
+            return;
+        }
+
         writeContract({
             ...escrowXContractConfig,
             functionName: 'createEscrow',
             args: [BigInt(job.id)],
-            value: parseEther(job.price),
+            value: isNativeToken(token) ? price : undefined,
         });
     };
 
+    const openMilestoneHire = (job: ServiceListing) => {
+        if (!isConnected) {
+            alert("Please connect your wallet first.");
+            return;
+        }
+        if (!getToken(job.currency)) return;
+        setMilestones([emptyMilestone(), emptyMilestone()]);
+        setMilestoneErr(null);
+        setMilestoneTarget(job);
+    };
+
+    // Listings in a token this app does not know cannot be hired, so the modal never opens for them
+    const milestoneToken = milestoneTarget ? getToken(milestoneTarget.currency) : undefined;
+
+    const handleMilestoneHire = async () => {
+        if (!milestoneTarget || !milestoneToken) return;
+        const token = milestoneToken;
+        const problem = validateMilestones(milestones, milestoneTarget.amount, token);
+        if (problem) {
+            setMilestoneErr(problem);
+            return;
+        }
+
+        setPurchasingId(milestoneTarget.id);
+        try {
+            const { amounts, descriptions, deadlines } = await prepareMilestones(milestones, token);
+            setMilestoneTarget(null);
+            if (!(await approveIfNeeded(token, amounts[0]))) {
+                setPurchasingId(null);
+                return;
+            }
+            writeContract({
+                ...escrowXContractConfig,
+                functionName: 'createMilestoneEscrow',
+                args: [BigInt(milestoneTarget.id), amounts, descriptions, deadlines],
+                value: isNativeToken(token) ? amounts[0] : undefined, // First milestone is funded up front
+            });
+        } catch (e: unknown) {
+            setPurchasingId(null);
+            setMilestoneErr(e instanceof Error ? e.message : 'Failed to upload milestones');
+        }
+    };
+
     const filteredJobs = jobs.filter(job =>
         job.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
         job.description.toLowerCase().includes(searchTerm.toLowerCase())
@@ -93,7 +157,7 @@ export default function JobsPage() {
         const lower = text.toLowerCase();
         return SKILLS.filter(s => lower.includes(s.toLowerCase()));
     }
-    function matchScore(job: typeof jobs[0], prof: any): number {
+    function matchScore(job: ServiceListing, prof: any): number {
         const jobSkills = extractSkills(job.description + ' ' + job.title);
         const profSkills = prof?.skills || [];
         const overlap = jobSkills.filter((s) => profSkills.includes(s)).length;
@@ -104,12 +168,16 @@ export default function JobsPage() {
         return Math.min(100, skillScore + budgetFit);
     }
 
+    // Recommendations use the profile the connected wallet published, if any
     useEffect(() => {
-        try {
-            const p = localStorage.getItem('profile_published');
-            if (p) setProfile(JSON.parse(p));
-        } catch {}
-    }, []);
+        setProfile(null);
+        if (!address) return;
+        fetch(`/api/profiles/${address}`)
+            .then((res) => (res.ok ? res.json() : null))
+            .then((published: ProfileVersion | null) => published && fetchJSONFromIPFS<ProfileDocument>(published.cid))
+            .then((doc) => setProfile(doc?.profile ?? null))
+            .catch(() => setProfile(null));
+    }, [address]);
 
     return (
         <div className="min-h-screen flex flex-col relative">
@@ -155,6 +223,27 @@ export default function JobsPage() {
                     </motion.div>
                 </div>
 
+                {postedJobs.length > 0 && (
+                    <div className="mb-8">
+                        <h3 className="text-xl font-bold mb-3">Posted Jobs</h3>
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                            {postedJobs
+                                .filter((j) => j.title.toLowerCase().includes(searchTerm.toLowerCase()))
+                                .slice(0, 6)
+                                .map((j) => (
+                                    <Link key={j.cid} href={`/jobs/${j.cid}`}>
+                                        <Card className="p-4 h-full hover:border-primary/50 transition-colors">
+                                            <div className="font-semibold">{j.title}</div>
+                                            <div className="text-xs text-muted-foreground mt-2">
+                                                Posted {format(new Date(j.createdAt), 'MMM d, yyyy')} • Send a proposal
+                                            </div>
+                                        </Card>
+                                    </Link>
+                                ))}
+                        </div>
+                    </div>
+                )}
+
                 {profile && (
                     <div className="mb-8">
                         <h3 className="text-xl font-bold mb-3">Recommended for You</h3>
@@ -176,10 +265,10 @@ export default function JobsPage() {
                     </div>
                 )}
 
-                {writeError && (
+                {(writeError || approveError) && (
                     <div className="mb-8 p-3 bg-yellow-500/10 border border-yellow-500/20 text-yellow-200 rounded-lg text-sm text-center max-w-md mx-auto">
                         {(() => {
-                            const msg = writeError.message?.toLowerCase() || '';
+                            const msg = (writeError ?? approveError)?.message?.toLowerCase() || '';
                             if (msg.includes('user rejected') || msg.includes('user denied')) {
                                 return "Transaction incomplete due to user rejection.";
                             }
@@ -200,11 +289,11 @@ export default function JobsPage() {
                             transition={{ delay: index * 0.1 }}
                         >
                             <Card className="h-full flex flex-col hover:border-primary/50 transition-colors cursor-pointer group relative overflow-hidden">
-                                {purchasingId === job.id && (isWritePending || isConfirming) && (
+                                {purchasingId === job.id && (isApproving || isWritePending || isConfirming) && (
                                     <div className="absolute inset-0 bg-black/60 backdrop-blur-sm z-10 flex flex-col items-center justify-center text-center p-4">
                                         <Loader2 className="w-10 h-10 text-primary animate-spin mb-4" />
                                         <p className="font-bold text-white">
-                                            {isConfirming ? 'Confirming Escrow...' : 'Check Wallet...'}
+                                            {isApproving ? `Approving ${job.currency}...` : isConfirming ? 'Confirming Escrow...' : 'Check Wallet...'}
                                         </p>
                                     </div>
                                 )}
@@ -216,7 +305,12 @@ export default function JobsPage() {
                                         </div>
                                         <div className="flex items-center text-yellow-500 text-xs font-bold gap-1">
                                             <Star className="w-3 h-3 fill-current" />
-                                            {job.rating} ({job.reviews})
+                                            {job.rating === null ? 'New' : (
+                                                <>
+                                                    {job.rating.toFixed(1)}
+                                                    <span className="text-muted-foreground font-normal">({job.reviewCount})</span>
+                                                </>
+                                            )}
                                         </div>
                                     </div>
                                     <h3 className="text-xl font-bold group-hover:text-primary transition-colors line-clamp-2">
@@ -232,32 +326,104 @@ export default function JobsPage() {
                                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
                                         <Clock className="w-4 h-4" />
                                         {job.deliveryTime}
+                                        {job.revisions > 0 && ` • ${job.revisions} revision${job.revisions === 1 ? '' : 's'}`}
                                     </div>
                                     <div className="text-lg font-bold">
-                                        {job.price} <span className="text-xs text-muted-foreground">MATIC</span>
+                                        {job.price} <span className="text-xs text-muted-foreground">{job.currency}</span>
                                     </div>
                                 </div>
+                                <FeeBreakdown amount={job.amount} token={getToken(job.currency)} className="mt-3" />
                                 <Button
                                     className="w-full mt-4 bg-white/5 hover:bg-primary hover:text-white border-white/10"
                                     variant="outline"
                                     onClick={() => handleHire(job)}
-                                    disabled={purchasingId !== null}
+                                    disabled={purchasingId !== null || !getToken(job.currency)}
                                 >
                                     Hire Now (Escrow)
                                 </Button>
+                                <Button
+                                    className="w-full mt-2"
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => openMilestoneHire(job)}
+                                    disabled={purchasingId !== null || !getToken(job.currency)}
+                                >
+                                    <Layers className="w-4 h-4 mr-2" />
+                                    Pay in Milestones
+                                </Button>
                             </Card>
                         </motion.div>
                     ))}
                 </div>
 
-                {filteredJobs.length === 0 && (
+                {isLoadingListings ? (
+                    <div className="flex justify-center py-20">
+                        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+                    </div>
+                ) : listingsError ? (
                     <div className="text-center py-20 text-muted-foreground">
-                        No services found matching your search.
+                        {listingsError}
+                    </div>
+                ) : filteredJobs.length === 0 && (
+                    <div className="text-center py-20 text-muted-foreground">
+                        {jobs.length === 0 ? 'No services have been listed yet.' : 'No services found matching your search.'}
                     </div>
                 )}
             </main>
 
             <Footer />
+
+            {/* Milestone Hire Modal */}
+            <AnimatePresence>
+                {milestoneTarget && milestoneToken && (
+                    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+                        <motion.div
+                            initial={{ opacity: 0, scale: 0.95 }}
+                            animate={{ opacity: 1, scale: 1 }}
+                            exit={{ opacity: 0, scale: 0.95 }}
+                            className="w-full max-w-lg max-h-[90vh] overflow-y-auto"
+                        >
+                            <Card className="p-6 border-primary/20 shadow-2xl bg-[#0a0a0a]">
+                                <div className="flex justify-between items-center mb-6">
+                                    <h2 className="text-xl font-bold flex items-center gap-2">
+                                        <Layers className="w-5 h-5 text-primary" />
+                                        Pay in Milestones
+                                    </h2>
+                                    <Button variant="ghost" size="sm" onClick={() => setMilestoneTarget(null)}>Close</Button>
+                                </div>
+                                <p className="text-sm text-muted-foreground mb-4">
+                                    {milestoneTarget.title}. The first milestone is funded now; fund the rest as work progresses.
+                                </p>
+
+                                <MilestoneEditor
+                                    total={milestoneTarget.amount}
+                                    token={milestoneToken}
+                                    milestones={milestones}
+                                    onChange={setMilestones}
+                                />
+                                <FeeBreakdown
+                                    amount={milestoneTarget.amount}
+                                    token={milestoneToken}
+                                    className="mt-4 pt-4 border-t border-white/10"
+                                />
+
+                                {milestoneErr && (
+                                    <div className="mt-4 p-3 bg-yellow-500/10 border border-yellow-500/20 text-yellow-500 text-sm rounded-lg text-center">
+                                        {milestoneErr}
+                                    </div>
+                                )}
+
+                                <div className="flex gap-3 mt-6">
+                                    <Button variant="outline" className="flex-1" onClick={() => setMilestoneTarget(null)}>Cancel</Button>
+                                    <Button className="flex-1" onClick={handleMilestoneHire} disabled={purchasingId !== null}>
+                                        Fund First Milestone
+                                    </Button>
+                                </div>
+                            </Card>
+                        </motion.div>
+                    </div>
+                )}
+            </AnimatePresence>
         </div>
     );
 }
@@ -1,50 +1,105 @@
 'use client';
 
 import { Navbar } from '@/components/shared/Navbar';
-import { Footer } from '@/components/shared/Footer';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Textarea } from '@/components/ui/Textarea';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Send, User, MoreVertical, Phone, Video, Paperclip, CheckCheck, Clock, ShieldCheck } from 'lucide-react';
-import { useState, useRef, useEffect } from 'react';
+import { Send, Check, CheckCheck, Clock, ShieldCheck, Lock, LockOpen, KeyRound, MessageSquarePlus, ExternalLink, Paperclip, X } from 'lucide-react';
+import { Suspense, useState, useRef, useEffect } from 'react';
 import { format } from 'date-fns';
-import { useWriteContract, useWaitForTransactionReceipt, useAccount } from 'wagmi';
-import { parseEther } from 'viem';
-import { escrowXContractConfig } from '@/lib/contract';
+import { useWriteContract, useWaitForTransactionReceipt, useAccount, useReadContract } from 'wagmi';
+import { decodeEventLog, isAddress } from 'viem';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { escrowXContractConfig, getExplorerTxUrl, EscrowState, type OnChainEscrow } from '@/lib/contract';
+import type { IndexedEvent } from '@/lib/indexer/types';
+import { getIPFSUrl, uploadFilesToIPFS, uploadJSONToIPFS } from '@/lib/ipfs';
+import { loadAttachment } from '@/lib/messageCrypto';
+import { MAX_ATTACHMENTS, MAX_MESSAGE_LENGTH, type MessageAttachment } from '@/lib/messages';
+import { UPLOAD_POLICIES } from '@/lib/uploads';
+import { PAYMENT_TOKENS, ensureAllowance, isNativeToken, parseTokenAmount, tokenBySymbol, type PaymentToken } from '@/lib/tokens';
 import { Label } from '@/components/ui/Label';
-
-// Mock Interfaces
-interface Message {
-    id: string;
-    sender: 'me' | 'them';
-    content: string;
-    timestamp: Date;
-    status: 'sent' | 'delivered' | 'read';
-}
+import { SignInPrompt } from '@/components/shared/SignInPrompt';
+import { FeeBreakdown } from '@/components/shared/FeeBreakdown';
+import { ESCROW_EVENT_LABELS } from '@/components/shared/EscrowTimeline';
+import { ChatAttachment } from '@/components/shared/ChatAttachment';
+import { useConversation, useMessaging, type ChatMessage } from '@/hooks/useMessaging';
 
 interface ContractTerms {
+    seller: string;
     price: string;
+    currency: PaymentToken['symbol'];
     deliveryTime: string;
     description: string;
 }
 
+// A thread shows messages and, in escrow threads, contract events in the order they happened
+type ThreadItem = { at: number } & ({ message: ChatMessage; event?: never } | { event: IndexedEvent; message?: never });
+
+const initials = (address: string) => address.slice(2, 4).toUpperCase();
+
 export default function ChatPage() {
-    const { isConnected } = useAccount();
-    const [messages, setMessages] = useState<Message[]>([
-        { id: '1', sender: 'them', content: "Hi! I saw your Smart Contract Audit service. Would you be available next week?", timestamp: new Date(Date.now() - 3600000), status: 'read' },
-        { id: '2', sender: 'me', content: "Hello! Yes, absolutely. I can slot you in for Monday. What's the scope of the project?", timestamp: new Date(Date.now() - 3500000), status: 'read' },
-        { id: '3', sender: 'them', content: "It's a yield farming protocol on Polygon. About 500 lines of Solidity.", timestamp: new Date(Date.now() - 3400000), status: 'read' },
-    ]);
+    // useSearchParams needs a Suspense boundary to be prerendered
+    return (
+        <Suspense>
+            <Chat />
+        </Suspense>
+    );
+}
+
+function Chat() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const { address, isConnected } = useAccount();
+    const {
+        address: sessionAddress,
+        keyPair,
+        unlock,
+        isUnlocking,
+        unlockError,
+        conversations,
+        isLoadingConversations,
+    } = useMessaging();
+
+    // The open conversation lives in the URL so profiles and escrows can link straight to it
+    const withParam = searchParams.get('with');
+    const peer = withParam && isAddress(withParam) ? (withParam.toLowerCase() as `0x${string}`) : undefined;
+    const escrowParam = Number(searchParams.get('escrow'));
+    const escrowId = Number.isInteger(escrowParam) && escrowParam > 0 ? escrowParam : null;
+    const {
+        messages,
+        isLoadingMessages,
+        events,
+        peerKey,
+        isLoadingPeerKey,
+        peerKeyError,
+        send,
+        isSending,
+        sendError,
+        markRead,
+    } = useConversation(peer, keyPair, escrowId);
+
+    const [search, setSearch] = useState('');
+    const [newChat, setNewChat] = useState('');
     const [newMessage, setNewMessage] = useState('');
+    const [files, setFiles] = useState<File[]>([]);
+    const [encryptFiles, setEncryptFiles] = useState(true);
+    const [evidenceErr, setEvidenceErr] = useState<string | null>(null);
+    const [isPreparingEvidence, setIsPreparingEvidence] = useState(false);
     const [contractTerms, setContractTerms] = useState<ContractTerms>({
+        seller: '',
         price: '0.5',
+        currency: 'MATIC',
         deliveryTime: '7',
         description: 'Smart Contract Audit for Yield Farm Protocol'
     });
     const [showContractModal, setShowContractModal] = useState(false);
+    const [isPreparing, setIsPreparing] = useState(false);
+    const [offerErr, setOfferErr] = useState<string | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
 
     // Wagmi Hooks for Contract Creation
     const {
@@ -54,62 +109,179 @@ export default function ChatPage() {
         error: writeError
     } = useWriteContract();
 
-    const { isLoading: isConfirming, isSuccess: isConfirmed } =
+    const { data: receipt, isLoading: isConfirming, isSuccess: isConfirmed } =
         useWaitForTransactionReceipt({
             hash,
         });
 
-    const scrollToBottom = () => {
+    // The new escrow ID comes from the EscrowCreated event of the confirmed transaction
+    const createdEscrowId = receipt?.logs
+        .map((log) => {
+            try {
+                return decodeEventLog({ abi: escrowXContractConfig.abi, data: log.data, topics: log.topics });
+            } catch {
+                return null;
+            }
+        })
+        .find((event) => event?.eventName === 'EscrowCreated')
+        ?.args as { id: bigint } | undefined;
+
+    // Attachments in a disputed escrow's thread can be put before the arbiter
+    const { data: threadEscrow } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'getEscrow',
+        args: [BigInt(escrowId ?? 0)],
+        query: { enabled: !!escrowId },
+    });
+    const canSubmitEvidence = (threadEscrow as OnChainEscrow | undefined)?.state === EscrowState.DISPUTED;
+
+    const {
+        writeContract: writeEvidence,
+        data: evidenceHash,
+        isPending: isEvidencePending,
+        error: evidenceWriteError,
+    } = useWriteContract();
+    const { isLoading: isEvidenceConfirming, isSuccess: isEvidenceConfirmed } =
+        useWaitForTransactionReceipt({
+            hash: evidenceHash,
+        });
+
+    const offerToken = tokenBySymbol(contractTerms.currency);
+    let offerAmount = BigInt(0);
+    try {
+        offerAmount = parseTokenAmount(contractTerms.price || '0', offerToken);
+    } catch {}
+
+    const query = search.trim().toLowerCase();
+    const visibleConversations = conversations.filter(
+        (c) =>
+            !query ||
+            c.peer.includes(query) ||
+            c.preview?.toLowerCase().includes(query) ||
+            (c.escrowId !== null && `escrow #${c.escrowId}`.includes(query)),
+    );
+
+    const timeline: ThreadItem[] = [
+        ...messages.map((message) => ({ at: message.createdAt, message })),
+        ...events.map((event) => ({ at: event.timestamp * 1000, event })),
+    ].sort((a, b) => a.at - b.at);
+
+    // Newest message from the peer this wallet has not read yet
+    const lastUnreadId = messages.findLast((m) => m.sender === peer && m.status !== 'read')?.id;
+
+    useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    };
+    }, [timeline.length, peer, escrowId]);
 
+    // Messages count as read once the conversation is open in a visible tab
     useEffect(() => {
-        scrollToBottom();
-    }, [messages]);
+        if (!lastUnreadId) return;
+        const readIfVisible = () => {
+            if (document.visibilityState === 'visible') markRead(lastUnreadId);
+        };
+        readIfVisible();
+        document.addEventListener('visibilitychange', readIfVisible);
+        return () => document.removeEventListener('visibilitychange', readIfVisible);
+    }, [lastUnreadId, markRead]);
 
-    const handleSendMessage = (e?: React.FormEvent) => {
+    const openConversation = (wallet: string, escrow?: number | null) => {
+        router.push(`/messages?with=${wallet.toLowerCase()}${escrow ? `&escrow=${escrow}` : ''}`);
+    };
+
+    const handleNewChat = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isAddress(newChat.trim())) return;
+        openConversation(newChat.trim());
+        setNewChat('');
+    };
+
+    const handleSendMessage = async (e?: React.FormEvent) => {
         e?.preventDefault();
-        if (!newMessage.trim()) return;
-
-        const msg: Message = {
-            id: Date.now().toString(),
-            sender: 'me',
-            content: newMessage,
-            timestamp: new Date(),
-            status: 'sent'
-        };
+        const text = newMessage.trim();
+        if ((!text && files.length === 0) || !peerKey || !keyPair) return;
+
+        try {
+            await send({ text, files, encryptFiles });
+            setNewMessage('');
+            setFiles([]);
+        } catch {
+            // Shown from sendError
+        }
+    };
+
+    const handleAttach = (selected: FileList | null) => {
+        setFiles([...files, ...Array.from(selected ?? [])].slice(0, MAX_ATTACHMENTS));
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
 
-        setMessages([...messages, msg]);
-        setNewMessage('');
-
-        // Simulate Reply
-        setTimeout(() => {
-            const reply: Message = {
-                id: (Date.now() + 1).toString(),
-                sender: 'them',
-                content: "That sounds reasonable. Can we adjust the price to 0.45 ETH?",
-                timestamp: new Date(),
-                status: 'delivered'
-            };
-            setMessages(prev => [...prev, reply]);
-        }, 2000);
+    // Encrypted attachments are re-uploaded in the clear so the arbiter can open them; the
+    // SHA-256 in the thread shows it is the same file
+    const handleSubmitEvidence = async (attachment: MessageAttachment) => {
+        if (!escrowId) return;
+        setEvidenceErr(null);
+        try {
+            setIsPreparingEvidence(true);
+            let cid = attachment.cid;
+            if (attachment.key) {
+                const { blob } = await loadAttachment(attachment);
+                ({ cid } = await uploadFilesToIPFS([new File([blob], attachment.name, { type: attachment.type })], 'evidence'));
+            }
+            writeEvidence({
+                ...escrowXContractConfig,
+                functionName: 'submitEvidence',
+                args: [BigInt(escrowId), cid],
+            });
+        } catch (e: unknown) {
+            setEvidenceErr(e instanceof Error ? e.message : 'Failed to prepare evidence');
+        } finally {
+            setIsPreparingEvidence(false);
+        }
     };
 
-    const handleCreateContract = () => {
-        // Here we would create the service on-chain first in a real app, OR create the escrow directly for a custom job.
-        // For simplicity, let's assume this creates a custom service ID #999 and creates an escrow for it.
-        if (!isConnected) {
+    const openOfferModal = () => {
+        setContractTerms({ ...contractTerms, seller: peer ?? '' });
+        setShowContractModal(true);
+    };
+
+    const handleCreateContract = async () => {
+        // Custom offers skip the public service listing; the seller accepts or declines on-chain
+        if (!isConnected || !address) {
             alert("Please connect wallet first.");
             return;
         }
+        setOfferErr(null);
+        if (!isAddress(contractTerms.seller)) {
+            setOfferErr('Enter the freelancer wallet address');
+            return;
+        }
+        const days = parseInt(contractTerms.deliveryTime);
+        if (!days || days < 1) {
+            setOfferErr('Delivery must be at least 1 day');
+            return;
+        }
 
-        writeContract({
-            ...escrowXContractConfig,
-            functionName: 'createEscrow', // In reality, this might be a 'createCustomEscrow' function
-            args: [BigInt(999)], // Mock Service ID
-            value: parseEther(contractTerms.price),
-        });
-        setShowContractModal(false);
+        const token = tokenBySymbol(contractTerms.currency);
+        try {
+            setIsPreparing(true);
+            const price = parseTokenAmount(contractTerms.price, token);
+            const { cid } = await uploadJSONToIPFS({
+                terms: contractTerms,
+                buyer: address,
+                createdAt: new Date().toISOString(),
+            });
+            await ensureAllowance(token, address, price);
+
+            writeContract({
+                ...escrowXContractConfig,
+                functionName: 'createCustomEscrow',
+                args: [contractTerms.seller, price, BigInt(days * 24 * 60 * 60), cid, token.address],
+                value: isNativeToken(token) ? price : undefined,
+            });
+        } catch (e: unknown) {
+            setOfferErr(e instanceof Error ? e.message : 'Failed to prepare offer');
+        } finally {
+            setIsPreparing(false);
+        }
     };
 
     return (
@@ -122,26 +294,63 @@ export default function ChatPage() {
                 {/* Sidebar - Contacts */}
                 <div className="w-80 hidden md:flex flex-col gap-4">
                     <Card className="flex-1 flex flex-col p-4 overflow-hidden h-full border-white/5 bg-black/40">
-                        <div className="mb-4">
-                            <Input placeholder="Search messages..." className="bg-white/5 border-white/10" />
+                        <div className="mb-4 space-y-2">
+                            <Input
+                                value={search}
+                                onChange={(e) => setSearch(e.target.value)}
+                                placeholder="Search messages..."
+                                className="bg-white/5 border-white/10"
+                            />
+                            <form onSubmit={handleNewChat} className="flex gap-2">
+                                <Input
+                                    value={newChat}
+                                    onChange={(e) => setNewChat(e.target.value)}
+                                    placeholder="New chat: 0x..."
+                                    className="bg-white/5 border-white/10"
+                                />
+                                <Button type="submit" variant="outline" size="sm" disabled={!isAddress(newChat.trim())}>
+                                    <MessageSquarePlus className="w-4 h-4" />
+                                </Button>
+                            </form>
                         </div>
                         <div className="flex-1 overflow-y-auto space-y-2 pr-2 custom-scrollbar">
-                            {[1, 2, 3].map((i) => (
-                                <div key={i} className={`p-3 rounded-xl hover:bg-white/5 cursor-pointer transition-colors flex gap-3 ${i === 1 ? 'bg-white/10 border border-white/5' : ''}`}>
-                                    <div className="relative">
-                                        <div className="w-10 h-10 rounded-full bg-gradient-to-tr from-indigo-500 to-purple-500 flex items-center justify-center text-white font-bold">
-                                            {i === 1 ? 'JD' : i === 2 ? 'AK' : 'MS'}
-                                        </div>
-                                        {i === 1 && <div className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 rounded-full border-2 border-black"></div>}
+                            {isLoadingConversations && (
+                                <p className="text-xs text-muted-foreground text-center py-4">Loading conversations...</p>
+                            )}
+                            {!isLoadingConversations && visibleConversations.length === 0 && (
+                                <p className="text-xs text-muted-foreground text-center py-4">
+                                    {sessionAddress ? 'No conversations yet.' : 'Sign in to see your conversations.'}
+                                </p>
+                            )}
+                            {visibleConversations.map((c) => (
+                                <div
+                                    key={`${c.peer}-${c.escrowId}`}
+                                    onClick={() => openConversation(c.peer, c.escrowId)}
+                                    className={`p-3 rounded-xl hover:bg-white/5 cursor-pointer transition-colors flex gap-3 ${c.peer === peer && c.escrowId === escrowId ? 'bg-white/10 border border-white/5' : ''}`}
+                                >
+                                    <div className="w-10 h-10 shrink-0 rounded-full bg-gradient-to-tr from-indigo-500 to-purple-500 flex items-center justify-center text-white font-bold">
+                                        {initials(c.peer)}
                                     </div>
                                     <div className="flex-1 min-w-0">
                                         <div className="flex justify-between items-baseline mb-1">
-                                            <h4 className="font-semibold text-sm truncate">John Doe</h4>
-                                            <span className="text-xs text-muted-foreground">12:30 PM</span>
+                                            <h4 className="font-semibold text-sm truncate">
+                                                {c.peer.slice(0, 6)}...{c.peer.slice(-4)}
+                                                {c.escrowId !== null && (
+                                                    <span className="ml-2 text-[10px] font-normal px-1.5 py-0.5 rounded bg-primary/10 text-primary">
+                                                        Escrow #{c.escrowId}
+                                                    </span>
+                                                )}
+                                            </h4>
+                                            <span className="text-xs text-muted-foreground">{format(c.lastMessage.createdAt, 'HH:mm')}</span>
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <p className="flex-1 text-xs text-muted-foreground truncate">
+                                                {c.preview ?? 'Encrypted message'}
+                                            </p>
+                                            {c.unread > 0 && (
+                                                <span className="text-[10px] px-1.5 rounded-full bg-primary text-white">{c.unread}</span>
+                                            )}
                                         </div>
-                                        <p className="text-xs text-muted-foreground truncate">
-                                            {i === 1 ? "That sounds reasonable. Can we..." : "Thanks for the delivery!"}
-                                        </p>
                                     </div>
                                 </div>
                             ))}
@@ -153,77 +362,227 @@ export default function ChatPage() {
                 <div className="flex-1 flex flex-col min-w-0">
                     {/* Chat Header */}
                     <Card className="p-4 mb-4 flex justify-between items-center border-white/5 bg-black/40 rounded-2xl">
-                        <div className="flex items-center gap-3">
-                            <div className="w-10 h-10 rounded-full bg-gradient-to-tr from-indigo-500 to-purple-500 flex items-center justify-center text-white font-bold">
-                                JD
-                            </div>
-                            <div>
-                                <h3 className="font-bold flex items-center gap-2">
-                                    John Doe
-                                    <span className="text-xs font-normal px-2 py-0.5 rounded-full bg-green-500/10 text-green-500 flex items-center gap-1">
-                                        <ShieldCheck className="w-3 h-3" />
-                                        Verified Freelancer
-                                    </span>
-                                </h3>
-                                <p className="text-xs text-muted-foreground flex items-center gap-1">
-                                    <span className="w-1.5 h-1.5 rounded-full bg-green-500"></span>
-                                    Online | Local Time: 2:30 PM
-                                </p>
+                        {peer ? (
+                            <div className="flex items-center gap-3">
+                                <div className="w-10 h-10 rounded-full bg-gradient-to-tr from-indigo-500 to-purple-500 flex items-center justify-center text-white font-bold">
+                                    {initials(peer)}
+                                </div>
+                                <div>
+                                    <h3 className="font-bold flex items-center gap-2">
+                                        <Link href={`/u/${peer}`} className="hover:underline">
+                                            {peer.slice(0, 6)}...{peer.slice(-4)}
+                                        </Link>
+                                        <span className="text-xs font-normal px-2 py-0.5 rounded-full bg-green-500/10 text-green-500 flex items-center gap-1">
+                                            <Lock className="w-3 h-3" />
+                                            End-to-end encrypted
+                                        </span>
+                                    </h3>
+                                    <p className="text-xs text-muted-foreground">
+                                        {escrowId ? (
+                                            <>
+                                                Thread of{' '}
+                                                <Link href={`/escrows/${escrowId}`} className="text-primary hover:underline">
+                                                    Escrow #{escrowId}
+                                                </Link>
+                                                . Contract events are posted here as they happen.
+                                            </>
+                                        ) : (
+                                            'Only you and this wallet can read these messages.'
+                                        )}
+                                    </p>
+                                </div>
                             </div>
-                        </div>
-                        <div className="flex items-center gap-2">
-                            <Button variant="ghost" size="sm" className="hidden sm:flex">
-                                <Phone className="w-4 h-4" />
-                            </Button>
-                            <Button variant="ghost" size="sm" className="hidden sm:flex">
-                                <Video className="w-4 h-4" />
-                            </Button>
-                            <Button variant="outline" size="sm" onClick={() => setShowContractModal(true)} className="gap-2 border-primary/20 hover:bg-primary/10 text-primary">
-                                <ShieldCheck className="w-4 h-4" />
-                                Create Offer
-                            </Button>
-                            <Button variant="ghost" size="sm">
-                                <MoreVertical className="w-4 h-4" />
-                            </Button>
-                        </div>
+                        ) : (
+                            <h3 className="font-bold">Select a conversation</h3>
+                        )}
+                        <Button variant="outline" size="sm" onClick={openOfferModal} className="gap-2 border-primary/20 hover:bg-primary/10 text-primary">
+                            <ShieldCheck className="w-4 h-4" />
+                            Create Offer
+                        </Button>
                     </Card>
 
                     {/* Messages List */}
                     <Card className="flex-1 mb-4 p-0 overflow-hidden border-white/5 bg-black/40 flex flex-col relative">
                         <div className="absolute inset-0 overflow-y-auto p-4 space-y-4 custom-scrollbar">
-                            {messages.map((msg) => (
-                                <div key={msg.id} className={`flex ${msg.sender === 'me' ? 'justify-end' : 'justify-start'}`}>
-                                    <div className={`max-w-[80%] rounded-2xl p-4 ${msg.sender === 'me' ? 'bg-primary text-white rounded-tr-sm' : 'bg-white/10 text-firefox rounded-tl-sm'}`}>
-                                        <p className="text-sm leading-relaxed">{msg.content}</p>
-                                        <div className={`flex items-center gap-1 mt-1 text-[10px] ${msg.sender === 'me' ? 'text-white/70 justify-end' : 'text-muted-foreground'}`}>
-                                            {format(msg.timestamp, 'HH:mm')}
-                                            {msg.sender === 'me' && (
-                                                <span>
-                                                    {msg.status === 'read' ? <CheckCheck className="w-3 h-3" /> : <CheckCheck className="w-3 h-3 opacity-50" />}
-                                                </span>
+                            {sessionAddress && !keyPair && (
+                                <div className="h-full flex flex-col items-center justify-center text-center gap-3 text-sm text-muted-foreground">
+                                    <KeyRound className="w-8 h-8 text-primary" />
+                                    <p className="max-w-sm">
+                                        Messages are encrypted with a key derived from your wallet. Sign once to unlock them in this tab.
+                                    </p>
+                                    <Button size="sm" onClick={() => unlock().catch(() => {})} isLoading={isUnlocking}>
+                                        Unlock Messages
+                                    </Button>
+                                    {unlockError && <p className="text-xs text-yellow-500">{unlockError.message}</p>}
+                                </div>
+                            )}
+                            {keyPair && peer && isLoadingMessages && (
+                                <p className="text-xs text-muted-foreground text-center">Loading messages...</p>
+                            )}
+                            {timeline.map(({ message: msg, event }) => {
+                                if (event) {
+                                    return (
+                                        <div key={`${event.blockNumber}-${event.logIndex}`} className="flex justify-center">
+                                            <div className="px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-xs text-muted-foreground flex items-center gap-2">
+                                                <ShieldCheck className="w-3 h-3 text-primary" />
+                                                <span className="text-foreground">{ESCROW_EVENT_LABELS[event.name] ?? event.name}</span>
+                                                {format(new Date(event.timestamp * 1000), 'MMM d, HH:mm')}
+                                                <a
+                                                    href={getExplorerTxUrl(event.txHash)}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    className="hover:text-primary flex items-center gap-1"
+                                                >
+                                                    {event.txHash.slice(0, 10)}...
+                                                    <ExternalLink className="w-3 h-3" />
+                                                </a>
+                                                {event.name === 'DeliveryConfirmed' && escrowId && (
+                                                    <Link href={`/escrows/${escrowId}/review`} className="text-primary hover:underline">
+                                                        Review delivery
+                                                    </Link>
+                                                )}
+                                                {event.name === 'RevisionRequested' && event.args.noteCid && (
+                                                    <a href={getIPFSUrl(event.args.noteCid)} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                                                        Revision note
+                                                    </a>
+                                                )}
+                                            </div>
+                                        </div>
+                                    );
+                                }
+                                const mine = msg.sender !== peer;
+                                return (
+                                    <div key={msg.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                                        <div className={`max-w-[80%] rounded-2xl p-4 ${mine ? 'bg-primary text-white rounded-tr-sm' : 'bg-white/10 text-firefox rounded-tl-sm'}`}>
+                                            {msg.senderUnverified ? (
+                                                <p className="text-sm italic text-yellow-500">
+                                                    Not shown: sent with a messaging key this wallet has not signed.
+                                                </p>
+                                            ) : msg.text === null ? (
+                                                <p className="text-sm italic opacity-70">Can&apos;t decrypt: sent to an earlier messaging key.</p>
+                                            ) : msg.text && (
+                                                <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">{msg.text}</p>
                                             )}
+                                            {msg.attachments.map((attachment) => (
+                                                <ChatAttachment
+                                                    key={attachment.cid}
+                                                    attachment={attachment}
+                                                    onSubmitEvidence={canSubmitEvidence ? handleSubmitEvidence : undefined}
+                                                    isSubmittingEvidence={isPreparingEvidence || isEvidencePending || isEvidenceConfirming}
+                                                />
+                                            ))}
+                                            <div className={`flex items-center gap-1 mt-1 text-[10px] ${mine ? 'text-white/70 justify-end' : 'text-muted-foreground'}`}>
+                                                {format(msg.createdAt, 'HH:mm')}
+                                                {mine && (
+                                                    <span title={msg.status}>
+                                                        {msg.status === 'read' ? (
+                                                            <CheckCheck className="w-3 h-3" />
+                                                        ) : msg.status === 'delivered' ? (
+                                                            <CheckCheck className="w-3 h-3 opacity-50" />
+                                                        ) : (
+                                                            <Check className="w-3 h-3 opacity-50" />
+                                                        )}
+                                                    </span>
+                                                )}
+                                            </div>
                                         </div>
                                     </div>
-                                </div>
-                            ))}
+                                );
+                            })}
                             <div ref={messagesEndRef} />
                         </div>
                     </Card>
 
                     {/* Input Area */}
+                    <div className="mb-2 space-y-2">
+                        <SignInPrompt action="send messages" />
+                        {keyPair && peer && !isLoadingPeerKey && (peerKeyError || !peerKey) && (
+                            <div className="p-3 bg-yellow-500/10 text-yellow-500 text-sm rounded-lg">
+                                {peerKeyError?.message ?? "This wallet hasn't enabled messaging yet. You can message it once it unlocks messages on EscrowX."}
+                            </div>
+                        )}
+                        {sendError && (
+                            <div className="p-3 bg-yellow-500/10 text-yellow-500 text-sm rounded-lg">{sendError.message}</div>
+                        )}
+                        {(evidenceErr || evidenceWriteError) && (
+                            <div className="p-3 bg-yellow-500/10 text-yellow-500 text-sm rounded-lg">
+                                {evidenceErr ?? (() => {
+                                    const msg = evidenceWriteError?.message?.toLowerCase() || '';
+                                    if (msg.includes('user rejected') || msg.includes('user denied')) {
+                                        return "Transaction incomplete due to user rejection.";
+                                    }
+                                    return "Transaction incomplete.";
+                                })()}
+                            </div>
+                        )}
+                        {isEvidenceConfirming && (
+                            <div className="p-3 bg-blue-500/10 text-blue-500 text-sm rounded-lg flex items-center gap-2">
+                                <Clock className="w-4 h-4 animate-spin" />
+                                Submitting evidence on blockchain...
+                            </div>
+                        )}
+                        {isEvidenceConfirmed && escrowId && (
+                            <div className="p-3 bg-green-500/10 text-green-500 text-sm rounded-lg flex items-center gap-2">
+                                <CheckCheck className="w-4 h-4" />
+                                Evidence submitted.
+                                <Link href={`/disputes/${escrowId}`} className="underline ml-auto">
+                                    View Dispute
+                                </Link>
+                            </div>
+                        )}
+                        {files.length > 0 && (
+                            <div className="flex flex-wrap gap-2">
+                                {files.map((file, i) => (
+                                    <span key={`${file.name}-${i}`} className="px-2 py-1 rounded-lg bg-white/10 text-xs flex items-center gap-1">
+                                        <Paperclip className="w-3 h-3" />
+                                        {file.name}
+                                        <button type="button" onClick={() => setFiles(files.filter((_, j) => j !== i))} aria-label={`Remove ${file.name}`}>
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    </span>
+                                ))}
+                                <button
+                                    type="button"
+                                    onClick={() => setEncryptFiles(!encryptFiles)}
+                                    className={`px-2 py-1 rounded-lg text-xs flex items-center gap-1 ${encryptFiles ? 'bg-green-500/10 text-green-500' : 'bg-yellow-500/10 text-yellow-500'}`}
+                                >
+                                    {encryptFiles ? <Lock className="w-3 h-3" /> : <LockOpen className="w-3 h-3" />}
+                                    {encryptFiles ? 'Encrypted for this conversation' : 'Public on IPFS'}
+                                </button>
+                            </div>
+                        )}
+                    </div>
                     <form onSubmit={handleSendMessage} className="flex gap-2 items-end">
                         <Card className="flex-1 p-2 flex items-center gap-2 border-white/5 bg-black/40 rounded-xl">
-                            <Button type="button" variant="ghost" size="sm" className="text-muted-foreground hover:text-foreground">
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                multiple
+                                accept={UPLOAD_POLICIES.message.accept}
+                                className="hidden"
+                                onChange={(e) => handleAttach(e.target.files)}
+                            />
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                className="text-muted-foreground hover:text-foreground"
+                                disabled={!keyPair || !peerKey || files.length >= MAX_ATTACHMENTS}
+                                onClick={() => fileInputRef.current?.click()}
+                                aria-label="Attach files"
+                            >
                                 <Paperclip className="w-4 h-4" />
                             </Button>
                             <Input
                                 value={newMessage}
                                 onChange={(e) => setNewMessage(e.target.value)}
-                                placeholder="Type a message..."
+                                maxLength={MAX_MESSAGE_LENGTH}
+                                placeholder={peer ? 'Type a message...' : 'Select a conversation to start messaging'}
+                                disabled={!keyPair || !peerKey}
                                 className="flex-1 border-0 bg-transparent focus-visible:ring-0 focus-visible:ring-offset-0 px-0 h-10"
                             />
                         </Card>
-                        <Button type="submit" size="md" className="h-14 w-14 rounded-xl flex items-center justify-center p-0">
+                        <Button type="submit" size="md" disabled={!keyPair || !peerKey || isSending} className="h-14 w-14 rounded-xl flex items-center justify-center p-0">
                             <Send className="w-5 h-5 ml-1" />
                         </Button>
                     </form>
@@ -250,6 +609,15 @@ export default function ChatPage() {
                                 </div>
 
                                 <div className="space-y-4 mb-6">
+                                    <div className="space-y-2">
+                                        <Label>Freelancer Wallet</Label>
+                                        <Input
+                                            value={contractTerms.seller}
+                                            onChange={(e) => setContractTerms({ ...contractTerms, seller: e.target.value })}
+                                            placeholder="0x..."
+                                            className="bg-white/5"
+                                        />
+                                    </div>
                                     <div className="space-y-2">
                                         <Label>Project Description</Label>
                                         <Textarea
@@ -258,15 +626,25 @@ export default function ChatPage() {
                                             className="bg-white/5"
                                         />
                                     </div>
-                                    <div className="grid grid-cols-2 gap-4">
+                                    <div className="grid grid-cols-3 gap-4">
                                         <div className="space-y-2">
-                                            <Label>Price (ETH/MATIC)</Label>
+                                            <Label>Price</Label>
                                             <Input
                                                 value={contractTerms.price}
                                                 onChange={(e) => setContractTerms({ ...contractTerms, price: e.target.value })}
                                                 className="bg-white/5"
                                             />
                                         </div>
+                                        <div className="space-y-2">
+                                            <Label>Currency</Label>
+                                            <select
+                                                value={contractTerms.currency}
+                                                onChange={(e) => setContractTerms({ ...contractTerms, currency: e.target.value as PaymentToken['symbol'] })}
+                                                className="w-full h-11 bg-white/5 border border-white/10 rounded-xl px-3"
+                                            >
+                                                {PAYMENT_TOKENS.map((t) => <option key={t.symbol} value={t.symbol}>{t.symbol}</option>)}
+                                            </select>
+                                        </div>
                                         <div className="space-y-2">
                                             <Label>Delivery (Days)</Label>
                                             <Input
@@ -276,8 +654,15 @@ export default function ChatPage() {
                                             />
                                         </div>
                                     </div>
+                                    <FeeBreakdown amount={offerAmount} token={offerToken} />
                                 </div>
 
+                                {offerErr && (
+                                    <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/20 text-yellow-500 text-sm rounded-lg text-center">
+                                        {offerErr}
+                                    </div>
+                                )}
+
                                 {writeError && (
                                     <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/20 text-yellow-500 text-sm rounded-lg text-center">
                                         {(() => {
@@ -303,18 +688,23 @@ export default function ChatPage() {
                                 {isConfirmed && (
                                     <div className="mb-4 p-3 bg-green-500/10 text-green-500 text-sm rounded-lg flex items-center gap-2">
                                         <CheckCheck className="w-4 h-4" />
-                                        Contract Deployed & Funds Locked!
+                                        Offer sent & funds locked! Work starts once the freelancer accepts.
+                                        {createdEscrowId && (
+                                            <Link href={`/escrows/${createdEscrowId.id.toString()}`} className="underline ml-auto">
+                                                View Offer
+                                            </Link>
+                                        )}
                                     </div>
                                 )}
 
                                 <div className="flex gap-3">
                                     <Button variant="outline" className="flex-1" onClick={() => setShowContractModal(false)}>Cancel</Button>
-                                    <Button className="flex-1" onClick={handleCreateContract} disabled={isConfirming || isConfirmed}>
-                                        {isConfirming ? 'Creating...' : isConfirmed ? 'Success' : 'Lock Funds in Escrow'}
+                                    <Button className="flex-1" onClick={handleCreateContract} disabled={isPreparing || isWritePending || isConfirming || isConfirmed}>
+                                        {isPreparing ? 'Preparing...' : isConfirming ? 'Creating...' : isConfirmed ? 'Success' : 'Lock Funds in Escrow'}
                                     </Button>
                                 </div>
                                 <p className="text-xs text-muted-foreground text-center mt-4">
-                                    Funds will be held in the smart contract until you approve the delivery.
+                                    Funds will be held in the smart contract until you approve the delivery. The freelancer can decline, which refunds you in full.
                                 </p>
                             </Card>
                         </motion.div>
@@ -14,6 +14,9 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { useEffect, useMemo, useState } from 'react';
 import { CheckCircle2, Eye, Upload } from 'lucide-react';
 import { uploadFilesToIPFS, uploadJSONToIPFS } from '@/lib/ipfs';
+import { checkUpload, UPLOAD_POLICIES } from '@/lib/uploads';
+import { SignInPrompt } from '@/components/shared/SignInPrompt';
+import { useSession } from '@/hooks/useSession';
 
 const jobSchema = z.object({
   title: z.string().min(3, 'Job title is required'),
@@ -51,6 +54,8 @@ export default function PostJobPage() {
   const [ipfsUrl, setIpfsUrl] = useState<string | null>(null);
   const [attErr, setAttErr] = useState<string | null>(null);
   const [lastJob, setLastJob] = useState<JobFormValues | null>(null);
+  const [jobCid, setJobCid] = useState<string | null>(null);
+  const { isAuthenticated } = useSession();
 
   const {
     register,
@@ -92,27 +97,41 @@ export default function PostJobPage() {
 
   const onSubmit = async (data: JobFormValues) => {
     setAttErr(null);
+    if (!isAuthenticated) {
+      setAttErr('Sign in with your wallet to post a job');
+      return;
+    }
     const files: File[] = [];
     const input = (data.attachments as unknown as FileList) || ({} as FileList);
     for (let i = 0; i < (input?.length || 0); i++) {
-      const f = input.item(i)!;
-      if (f.size > 10 * 1024 * 1024) {
-        setAttErr('Attachment exceeds 10MB limit');
-        return;
-      }
-      files.push(f);
+      files.push(input.item(i)!);
+    }
+    const problem = files.length > 0 ? checkUpload('attachment', files) : null;
+    if (problem) {
+      setAttErr(problem);
+      return;
     }
     try {
       const jobDoc = {
         ...data,
         createdAt: new Date().toISOString(),
       };
-      const uploaded = files.length > 0 ? await uploadFilesToIPFS(files) : null;
+      const uploaded = files.length > 0 ? await uploadFilesToIPFS(files, 'attachment') : null;
       const json = await uploadJSONToIPFS({
         job: jobDoc,
         attachmentsCid: uploaded?.cid ?? null,
       });
+      const res = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cid: json.cid }),
+      });
+      if (!res.ok) {
+        const { error } = await res.json().catch(() => ({ error: res.statusText }));
+        throw new Error(error);
+      }
       setIpfsUrl(json.url);
+      setJobCid(json.cid);
       setLastJob(data);
       setIsSuccess(true);
       localStorage.removeItem('post_job_draft');
@@ -196,6 +215,7 @@ export default function PostJobPage() {
             )}
             <div className="flex justify-center gap-4">
               <Button onClick={() => setIsSuccess(false)} variant="outline">Post Another</Button>
+              {jobCid && <a href={`/jobs/${jobCid}`}><Button variant="outline">View Proposals</Button></a>}
               <Button asChild>
                 <a href="/talent">Find Top Matches</a>
               </Button>
@@ -323,15 +343,17 @@ export default function PostJobPage() {
 
               <div className="space-y-2">
                 <Label>Attachments (max 10MB each)</Label>
-                <Input type="file" multiple accept=".pdf,.doc,.docx,.txt,.png,.jpg,.jpeg" {...register('attachments')} />
+                <Input type="file" multiple accept={UPLOAD_POLICIES.attachment.accept} {...register('attachments')} />
                 {attErr && <p className="text-yellow-500 text-xs">{attErr}</p>}
               </div>
 
+              <SignInPrompt action="post a job" />
+
               <div className="flex gap-3">
                 <Button type="button" variant="outline" onClick={() => setPreviewOpen(true)}>
                   <Eye className="w-4 h-4 mr-2" /> Preview
                 </Button>
-                <Button type="submit" className="flex-1">
+                <Button type="submit" className="flex-1" disabled={!isAuthenticated}>
                   <Upload className="w-4 h-4 mr-2" /> Publish to IPFS
                 </Button>
               </div>
@@ -13,7 +13,13 @@ import { Label } from '@/components/ui/Label';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useEffect, useState } from 'react';
 import { uploadFilesToIPFS, uploadJSONToIPFS } from '@/lib/ipfs';
+import { checkUpload, UPLOAD_POLICIES, type UploadKind } from '@/lib/uploads';
 import { Upload, Eye, CheckCircle2 } from 'lucide-react';
+import { SignInPrompt } from '@/components/shared/SignInPrompt';
+import { useSession } from '@/hooks/useSession';
+import { profileVersionMessage, type ProfileVersion } from '@/lib/profiles';
+import { useSignMessage } from 'wagmi';
+import Link from 'next/link';
 
 const profileSchema = z.object({
   displayName: z.string().min(2, 'Display name is required'),
@@ -54,6 +60,9 @@ export default function ProfilePage() {
   const [isSuccess, setIsSuccess] = useState(false);
   const [ipfsUrl, setIpfsUrl] = useState<string | null>(null);
   const [attErr, setAttErr] = useState<string | null>(null);
+  const [published, setPublished] = useState<ProfileVersion | null>(null);
+  const { address, isAuthenticated } = useSession();
+  const { signMessageAsync } = useSignMessage();
 
   const { register, handleSubmit, watch, reset, formState: { errors } } = useForm<ProfileFormValues>({
     resolver: zodResolver(profileSchema),
@@ -78,38 +87,44 @@ export default function ProfilePage() {
 
   const onSubmit = async (data: ProfileFormValues) => {
     setAttErr(null);
+    if (!isAuthenticated) { setAttErr('Sign in with your wallet to publish your profile'); return; }
     const certFiles: File[] = [];
     const pfFiles: File[] = [];
     const profilePic: File[] = [];
     const certList = (data.certifications as unknown as FileList) || ({} as FileList);
     const pList = (data.portfolioFiles as unknown as FileList) || ({} as FileList);
     const picList = (data.profilePicture as unknown as FileList) || ({} as FileList);
-    const checkSize = (f: File, maxMB: number) => f.size <= maxMB * 1024 * 1024;
-    for (let i = 0; i < (certList?.length || 0); i++) {
-      const f = certList.item(i)!;
-      if (!checkSize(f, 5)) { setAttErr('Certification exceeds 5MB'); return; }
-      certFiles.push(f);
-    }
-    for (let i = 0; i < (pList?.length || 0); i++) {
-      const f = pList.item(i)!;
-      if (!checkSize(f, 5)) { setAttErr('Portfolio file exceeds 5MB'); return; }
-      pfFiles.push(f);
-    }
-    if (picList?.length) {
-      const f = picList.item(0)!;
-      if (!checkSize(f, 5)) { setAttErr('Profile picture exceeds 5MB'); return; }
-      profilePic.push(f);
+    for (let i = 0; i < (certList?.length || 0); i++) certFiles.push(certList.item(i)!);
+    for (let i = 0; i < Math.min(pList?.length || 0, UPLOAD_POLICIES.portfolio.maxFiles); i++) pfFiles.push(pList.item(i)!);
+    if (picList?.length) profilePic.push(picList.item(0)!);
+    const groups: [UploadKind, File[]][] = [['certification', certFiles], ['portfolio', pfFiles], ['profile-picture', profilePic]];
+    for (const [kind, files] of groups) {
+      const problem = files.length ? checkUpload(kind, files) : null;
+      if (problem) { setAttErr(problem); return; }
     }
     try {
-      const certCid = certFiles.length ? await uploadFilesToIPFS(certFiles) : null;
-      const portCid = pfFiles.length ? await uploadFilesToIPFS(pfFiles.slice(0, 10)) : null;
-      const picCid = profilePic.length ? await uploadFilesToIPFS(profilePic) : null;
-      const doc = { profile: data, certCid: certCid?.cid ?? null, portCid: portCid?.cid ?? null, picCid: picCid?.cid ?? null, createdAt: new Date().toISOString() };
+      const certCid = certFiles.length ? await uploadFilesToIPFS(certFiles, 'certification') : null;
+      const portCid = pfFiles.length ? await uploadFilesToIPFS(pfFiles, 'portfolio') : null;
+      const picCid = profilePic.length ? await uploadFilesToIPFS(profilePic, 'profile-picture') : null;
+      const doc = { profile: data, certCid: certCid?.cid ?? null, portCid: portCid?.cid ?? null, picCid: picCid?.cid ?? null, picName: profilePic[0]?.name ?? null, createdAt: new Date().toISOString() };
       const json = await uploadJSONToIPFS(doc);
+      // Each publish appends a wallet-signed version to the registry
+      const latest = await fetch(`/api/profiles/${address}`).then((r) => (r.ok ? r.json() as Promise<ProfileVersion> : null));
+      const version = (latest?.version ?? 0) + 1;
+      const signature = await signMessageAsync({ message: profileVersionMessage(address!, json.cid, version) });
+      const res = await fetch('/api/profiles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cid: json.cid, version, signature }),
+      });
+      if (!res.ok) {
+        const { error } = await res.json().catch(() => ({ error: res.statusText }));
+        throw new Error(error);
+      }
+      setPublished(await res.json());
       setIpfsUrl(json.url);
       setIsSuccess(true);
       localStorage.removeItem('profile_draft');
-      localStorage.setItem('profile_published', JSON.stringify({ ...data, ipfs: json.url }));
     } catch (e: any) {
       alert(e.message || 'Failed to publish profile');
     }
@@ -133,13 +148,19 @@ export default function ProfilePage() {
               <CheckCircle2 className="w-8 h-8" />
             </div>
             <h2 className="text-2xl font-bold mb-2">Profile Published!</h2>
+            {published && (
+              <p className="text-sm text-muted-foreground mb-2">
+                Version {published.version} • {published.visibility}
+              </p>
+            )}
             {ipfsUrl && (
               <a href={ipfsUrl} target="_blank" rel="noopener noreferrer" className="text-xs text-primary hover:underline mb-8 block">
                 View IPFS Document
               </a>
             )}
             <div className="flex justify-center gap-4">
-              <a href="/jobs"><Button>Back to Find Work</Button></a>
+              {published && <Link href={`/u/${published.address}`}><Button variant="outline">View Public Page</Button></Link>}
+              <Link href="/jobs"><Button>Back to Find Work</Button></Link>
               <Button variant="outline" onClick={() => setIsSuccess(false)}>Update Profile</Button>
             </div>
           </Card>
@@ -244,7 +265,7 @@ export default function ProfilePage() {
 
               <div className="space-y-2">
                 <Label>Certifications (5MB max each)</Label>
-                <Input type="file" multiple accept=".pdf,.png,.jpg,.jpeg" {...register('certifications')} />
+                <Input type="file" multiple accept={UPLOAD_POLICIES.certification.accept} {...register('certifications')} />
               </div>
 
               <div className="space-y-4">
@@ -287,13 +308,13 @@ export default function ProfilePage() {
 
               <div className="space-y-2">
                 <Label>Portfolio (max 10 files, 5MB each)</Label>
-                <Input type="file" multiple accept=".pdf,.png,.jpg,.jpeg,.gif,.webp" {...register('portfolioFiles')} />
+                <Input type="file" multiple accept={UPLOAD_POLICIES.portfolio.accept} {...register('portfolioFiles')} />
                 {attErr && <p className="text-yellow-500 text-xs">{attErr}</p>}
               </div>
 
               <div className="space-y-2">
                 <Label>Profile Picture (5MB max)</Label>
-                <Input type="file" accept=".png,.jpg,.jpeg,.webp" {...register('profilePicture')} />
+                <Input type="file" accept={UPLOAD_POLICIES['profile-picture'].accept} {...register('profilePicture')} />
               </div>
 
               <div className="space-y-2">
@@ -304,11 +325,13 @@ export default function ProfilePage() {
                 </select>
               </div>
 
+              <SignInPrompt action="publish your profile" />
+
               <div className="flex gap-3">
                 <Button type="button" variant="outline" onClick={() => setPreviewOpen(true)}>
                   <Eye className="w-4 h-4 mr-2" /> Preview
                 </Button>
-                <Button type="submit" className="flex-1">
+                <Button type="submit" className="flex-1" disabled={!isAuthenticated}>
                   <Upload className="w-4 h-4 mr-2" /> Publish to IPFS
                 </Button>
               </div>
@@ -4,83 +4,31 @@ import { Navbar } from '@/components/shared/Navbar';
 import { Footer } from '@/components/shared/Footer';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
-import { motion } from 'framer-motion';
-import { Search, Filter, Clock, Star, Loader2, MessageCircle } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Search, Filter, Clock, Star, Loader2, Layers, MessageCircle } from 'lucide-react';
 import { Input } from '@/components/ui/Input';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useWriteContract, useWaitForTransactionReceipt, useAccount } from 'wagmi';
-import { parseEther } from 'viem';
 import { escrowXContractConfig } from '@/lib/contract';
+import { ensureAllowance, getToken, isNativeToken, type PaymentToken } from '@/lib/tokens';
+import { fetchServiceListings, type ServiceListing } from '@/lib/listings';
+import { MilestoneEditor } from '@/components/shared/MilestoneEditor';
+import { FeeBreakdown } from '@/components/shared/FeeBreakdown';
+import { emptyMilestone, prepareMilestones, validateMilestones, type MilestoneDraft } from '@/lib/milestones';
 import Link from 'next/link';
 
-// Mock Data (Same as Jobs Page but reframed as Talent)
-const services = [
-    {
-        id: 1,
-        title: 'Full Stack Smart Contract Developer',
-        description: 'Looking for a DeFi protocol on Polygon? I have experience with Solidity, React, and The Graph.',
-        price: '0.001',
-        deliveryTime: '2 weeks',
-        rating: 4.9,
-        reviews: 12,
-        freelancer: '0x123...456'
-    },
-    {
-        id: 2,
-        title: 'NFT Collection Generative Art',
-        description: 'I will create 10k unique traits for your NFT collection. Sci-fi, Cyberpunk, and Anime themes available.',
-        price: '0.005',
-        deliveryTime: '1 week',
-        rating: 5.0,
-        reviews: 5,
-        freelancer: '0xabc...def'
-    },
-    {
-        id: 3,
-        title: 'Auditing Smart Contracts',
-        description: 'Professional security audit for your staking or token contract. Comprehensive PDF report included.',
-        price: '0.01',
-        deliveryTime: '5 days',
-        rating: 4.8,
-        reviews: 24,
-        freelancer: '0x789...012'
-    },
-    {
-        id: 4,
-        title: 'Web3 Frontend with Wagmi',
-        description: 'I build responsive dApp frontends using Next.js and Tailwind. Seamless wallet connection guaranteed.',
-        price: '0.008',
-        deliveryTime: '10 days',
-        rating: 4.7,
-        reviews: 8,
-        freelancer: '0xde4...556'
-    },
-    {
-        id: 5,
-        title: 'Community Manager for DAO',
-        description: 'I will manage your Discord and Twitter. Engage community, moderate chats, and run events.',
-        price: '0.002',
-        deliveryTime: '1 month',
-        rating: 4.5,
-        reviews: 2,
-        freelancer: '0x999...888'
-    },
-    {
-        id: 6,
-        title: 'Solidity Tutor',
-        description: 'Learn Solidity and writing secure smart contracts. 1-on-1 Zoom sessions.',
-        price: '0.0005',
-        deliveryTime: '1 hour',
-        rating: 5.0,
-        reviews: 15,
-        freelancer: '0x444...333'
-    }
-];
-
 export default function TalentPage() {
     const [searchTerm, setSearchTerm] = useState('');
+    const [services, setServices] = useState<ServiceListing[]>([]);
+    const [isLoadingListings, setIsLoadingListings] = useState(true);
+    const [listingsError, setListingsError] = useState<string | null>(null);
     const [purchasingId, setPurchasingId] = useState<number | null>(null);
-    const { isConnected } = useAccount();
+    const { address, isConnected } = useAccount();
+    const [isApproving, setIsApproving] = useState(false);
+    const [approveError, setApproveError] = useState<Error | null>(null);
+    const [milestoneTarget, setMilestoneTarget] = useState<ServiceListing | null>(null);
+    const [milestones, setMilestones] = useState<MilestoneDraft[]>([emptyMilestone()]);
+    const [milestoneErr, setMilestoneErr] = useState<string | null>(null);
 
     const {
         writeContract,
@@ -94,28 +42,101 @@ export default function TalentPage() {
             hash,
         });
 
+    useEffect(() => {
+        fetchServiceListings()
+            .then(setServices)
+            .catch((e: unknown) => setListingsError(e instanceof Error ? e.message : 'Failed to load services'))
+            .finally(() => setIsLoadingListings(false));
+    }, []);
+
     // Reset state after success
     if (isConfirmed && purchasingId) {
         setPurchasingId(null);
         alert("Escrow created successfully! Work can now begin.");
     }
 
-    const handleHire = (service: typeof services[0]) => {
-        if (!isConnected) {
+    // ERC-20 listings need an allowance for the escrow contract before it can pull the price
+    const approveIfNeeded = async (token: PaymentToken, amount: bigint): Promise<boolean> => {
+        setApproveError(null);
+        setIsApproving(true);
+        try {
+            await ensureAllowance(token, address!, amount);
+            return true;
+        } catch (e: unknown) {
+            setApproveError(e instanceof Error ? e : new Error('Approval failed'));
+            return false;
+        } finally {
+            setIsApproving(false);
+        }
+    };
+
+    const handleHire = async (service: ServiceListing) => {
+        if (!isConnected || !address) {
             alert("Please connect your wallet first.");
             return;
         }
 
+        const token = getToken(service.currency);
+        if (!token) return;
         setPurchasingId(service.id);
 
+        const price = service.amount;
+        if (!(await approveIfNeeded(token, price))) {
+            setPurchasingId(null);
+            return;
+        }
+
         writeContract({
             ...escrowXContractConfig,
             functionName: 'createEscrow',
             args: [BigInt(service.id)],
-            value: parseEther(service.price),
+            value: isNativeToken(token) ? price : undefined,
         });
     };
 
+    const openMilestoneHire = (service: ServiceListing) => {
+        if (!isConnected) {
+            alert("Please connect your wallet first.");
+            return;
+        }
+        if (!getToken(service.currency)) return;
+        setMilestones([emptyMilestone(), emptyMilestone()]);
+        setMilestoneErr(null);
+        setMilestoneTarget(service);
+    };
+
+    // Listings in a token this app does not know cannot be hired, so the modal never opens for them
+    const milestoneToken = milestoneTarget ? getToken(milestoneTarget.currency) : undefined;
+
+    const handleMilestoneHire = async () => {
+        if (!milestoneTarget || !milestoneToken) return;
+        const token = milestoneToken;
+        const problem = validateMilestones(milestones, milestoneTarget.amount, token);
+        if (problem) {
+            setMilestoneErr(problem);
+            return;
+        }
+
+        setPurchasingId(milestoneTarget.id);
+        try {
+            const { amounts, descriptions, deadlines } = await prepareMilestones(milestones, token);
+            setMilestoneTarget(null);
+            if (!(await approveIfNeeded(token, amounts[0]))) {
+                setPurchasingId(null);
+                return;
+            }
+            writeContract({
+                ...escrowXContractConfig,
+                functionName: 'createMilestoneEscrow',
+                args: [BigInt(milestoneTarget.id), amounts, descriptions, deadlines],
+                value: isNativeToken(token) ? amounts[0] : undefined, // First milestone is funded up front
+            });
+        } catch (e: unknown) {
+            setPurchasingId(null);
+            setMilestoneErr(e instanceof Error ? e.message : 'Failed to upload milestones');
+        }
+    };
+
     const filteredServices = services.filter(service =>
         service.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
         service.description.toLowerCase().includes(searchTerm.toLowerCase())
@@ -165,10 +186,10 @@ export default function TalentPage() {
                     </motion.div>
                 </div>
 
-                {writeError && (
+                {(writeError || approveError) && (
                     <div className="mb-8 p-3 bg-yellow-500/10 border border-yellow-500/20 text-yellow-200 rounded-lg text-sm text-center max-w-md mx-auto">
                         {(() => {
-                            const msg = writeError.message?.toLowerCase() || '';
+                            const msg = (writeError ?? approveError)?.message?.toLowerCase() || '';
                             if (msg.includes('user rejected') || msg.includes('user denied')) {
                                 return "Transaction incomplete due to user rejection.";
                             }
@@ -189,23 +210,31 @@ export default function TalentPage() {
                             transition={{ delay: index * 0.1 }}
                         >
                             <Card className="h-full flex flex-col hover:border-primary/50 transition-colors cursor-pointer group relative overflow-hidden">
-                                {purchasingId === service.id && (isWritePending || isConfirming) && (
+                                {purchasingId === service.id && (isApproving || isWritePending || isConfirming) && (
                                     <div className="absolute inset-0 bg-black/60 backdrop-blur-sm z-10 flex flex-col items-center justify-center text-center p-4">
                                         <Loader2 className="w-10 h-10 text-primary animate-spin mb-4" />
                                         <p className="font-bold text-white">
-                                            {isConfirming ? 'Confirming Escrow...' : 'Check Wallet...'}
+                                            {isApproving ? `Approving ${service.currency}...` : isConfirming ? 'Confirming Escrow...' : 'Check Wallet...'}
                                         </p>
                                     </div>
                                 )}
 
                                 <div className="mb-4">
                                     <div className="flex justify-between items-start mb-2">
-                                        <div className="px-2 py-1 rounded bg-primary/10 text-primary text-xs font-semibold">
+                                        <Link
+                                            href={`/u/${service.seller}`}
+                                            className="px-2 py-1 rounded bg-primary/10 text-primary text-xs font-semibold hover:bg-primary/20"
+                                        >
                                             {service.freelancer}
-                                        </div>
+                                        </Link>
                                         <div className="flex items-center text-yellow-500 text-xs font-bold gap-1">
                                             <Star className="w-3 h-3 fill-current" />
-                                            {service.rating} ({service.reviews})
+                                            {service.rating === null ? 'New' : (
+                                                <>
+                                                    {service.rating.toFixed(1)}
+                                                    <span className="text-muted-foreground font-normal">({service.reviewCount})</span>
+                                                </>
+                                            )}
                                         </div>
                                     </div>
                                     <h3 className="text-xl font-bold group-hover:text-primary transition-colors line-clamp-2">
@@ -221,11 +250,13 @@ export default function TalentPage() {
                                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
                                         <Clock className="w-4 h-4" />
                                         {service.deliveryTime}
+                                        {service.revisions > 0 && ` • ${service.revisions} revision${service.revisions === 1 ? '' : 's'}`}
                                     </div>
                                     <div className="text-lg font-bold">
-                                        {service.price} <span className="text-xs text-muted-foreground">MATIC</span>
+                                        {service.price} <span className="text-xs text-muted-foreground">{service.currency}</span>
                                     </div>
                                 </div>
+                                <FeeBreakdown amount={service.amount} token={getToken(service.currency)} className="mt-3" />
 
                                 <div className="flex gap-3 mt-4">
                                     <Link href="/messages" className="flex-1">
@@ -241,24 +272,94 @@ export default function TalentPage() {
                                     <Button
                                         className="flex-1" // Primary gradient style from Button component
                                         onClick={() => handleHire(service)}
-                                        disabled={purchasingId !== null}
+                                        disabled={purchasingId !== null || !getToken(service.currency)}
                                     >
                                         Hire
                                     </Button>
                                 </div>
+                                <Button
+                                    className="w-full mt-2"
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => openMilestoneHire(service)}
+                                    disabled={purchasingId !== null || !getToken(service.currency)}
+                                >
+                                    <Layers className="w-4 h-4 mr-2" />
+                                    Pay in Milestones
+                                </Button>
                             </Card>
                         </motion.div>
                     ))}
                 </div>
 
-                {filteredServices.length === 0 && (
+                {isLoadingListings ? (
+                    <div className="flex justify-center py-20">
+                        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+                    </div>
+                ) : listingsError ? (
+                    <div className="text-center py-20 text-muted-foreground">
+                        {listingsError}
+                    </div>
+                ) : filteredServices.length === 0 && (
                     <div className="text-center py-20 text-muted-foreground">
-                        No services found matching your search.
+                        {services.length === 0 ? 'No services have been listed yet.' : 'No services found matching your search.'}
                     </div>
                 )}
             </main>
 
             <Footer />
+
+            {/* Milestone Hire Modal */}
+            <AnimatePresence>
+                {milestoneTarget && milestoneToken && (
+                    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+                        <motion.div
+                            initial={{ opacity: 0, scale: 0.95 }}
+                            animate={{ opacity: 1, scale: 1 }}
+                            exit={{ opacity: 0, scale: 0.95 }}
+                            className="w-full max-w-lg max-h-[90vh] overflow-y-auto"
+                        >
+                            <Card className="p-6 border-primary/20 shadow-2xl bg-[#0a0a0a]">
+                                <div className="flex justify-between items-center mb-6">
+                                    <h2 className="text-xl font-bold flex items-center gap-2">
+                                        <Layers className="w-5 h-5 text-primary" />
+                                        Pay in Milestones
+                                    </h2>
+                                    <Button variant="ghost" size="sm" onClick={() => setMilestoneTarget(null)}>Close</Button>
+                                </div>
+                                <p className="text-sm text-muted-foreground mb-4">
+                                    {milestoneTarget.title}. The first milestone is funded now; fund the rest as work progresses.
+                                </p>
+
+                                <MilestoneEditor
+                                    total={milestoneTarget.amount}
+                                    token={milestoneToken}
+                                    milestones={milestones}
+                                    onChange={setMilestones}
+                                />
+                                <FeeBreakdown
+                                    amount={milestoneTarget.amount}
+                                    token={milestoneToken}
+                                    className="mt-4 pt-4 border-t border-white/10"
+                                />
+
+                                {milestoneErr && (
+                                    <div className="mt-4 p-3 bg-yellow-500/10 border border-yellow-500/20 text-yellow-500 text-sm rounded-lg text-center">
+                                        {milestoneErr}
+                                    </div>
+                                )}
+
+                                <div className="flex gap-3 mt-6">
+                                    <Button variant="outline" className="flex-1" onClick={() => setMilestoneTarget(null)}>Cancel</Button>
+                                    <Button className="flex-1" onClick={handleMilestoneHire} disabled={purchasingId !== null}>
+                                        Fund First Milestone
+                                    </Button>
+                                </div>
+                            </Card>
+                        </motion.div>
+                    </div>
+                )}
+            </AnimatePresence>
         </div>
     );
 }
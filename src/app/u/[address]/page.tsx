@@ -0,0 +1,297 @@
+'use client';
+
+import { Navbar } from '@/components/shared/Navbar';
+import { Footer } from '@/components/shared/Footer';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { motion } from 'framer-motion';
+import { BadgeCheck, Briefcase, Clock, ExternalLink, Globe, Loader2, Lock, MessageCircle, Star } from 'lucide-react';
+import { format } from 'date-fns';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { isAddress, verifyMessage } from 'viem';
+import { fetchJSONFromIPFS, getIPFSUrl } from '@/lib/ipfs';
+import { profileVersionMessage, type ProfileDocument, type ProfileVersion } from '@/lib/profiles';
+import { averageRating, escrowXContractConfig, type OnChainRating } from '@/lib/contract';
+import type { IndexedReview } from '@/lib/indexer/types';
+import { useReadContract } from 'wagmi';
+
+type LoadState =
+    | { status: 'loading' }
+    | { status: 'missing' | 'private' | 'error'; message: string }
+    | { status: 'ready'; versions: ProfileVersion[]; document: ProfileDocument; isSigned: boolean };
+
+async function loadProfile(address: string): Promise<LoadState> {
+    const res = await fetch(`/api/profiles/${address}/versions`);
+    if (res.status === 404) return { status: 'missing', message: 'This wallet has not published a profile yet.' };
+    if (res.status === 403) return { status: 'private', message: 'This profile is private.' };
+    if (!res.ok) return { status: 'error', message: 'Failed to load profile' };
+
+    const { versions } = (await res.json()) as { versions: ProfileVersion[] };
+    const latest = versions[0];
+    const [document, isSigned] = await Promise.all([
+        fetchJSONFromIPFS<ProfileDocument>(latest.cid),
+        // The registry entry is only trusted if the wallet itself signed it
+        verifyMessage({
+            address: latest.address,
+            message: profileVersionMessage(latest.address, latest.cid, latest.version),
+            signature: latest.signature,
+        }).catch(() => false),
+    ]);
+    return { status: 'ready', versions, document, isSigned };
+}
+
+export default function PublicProfilePage() {
+    const params = useParams<{ address: string }>();
+    const [loaded, setLoaded] = useState<{ address: string; state: LoadState } | null>(null);
+
+    useEffect(() => {
+        if (!isAddress(params.address)) return;
+        loadProfile(params.address)
+            .catch((): LoadState => ({ status: 'error', message: 'Failed to load profile' }))
+            .then((state) => setLoaded({ address: params.address, state }));
+    }, [params.address]);
+
+    // Results of a previous address count as loading until the new one arrives
+    const state: LoadState = !isAddress(params.address)
+        ? { status: 'error', message: 'Invalid wallet address' }
+        : loaded?.address === params.address ? loaded.state : { status: 'loading' };
+
+    const shortAddress = `${params.address.slice(0, 6)}...${params.address.slice(-4)}`;
+
+    return (
+        <div className="min-h-screen flex flex-col relative">
+            <div className="absolute top-0 left-0 right-0 h-[500px] bg-primary/5 blur-[100px] pointer-events-none" />
+
+            <Navbar />
+
+            <main className="flex-1 py-24 px-4 sm:px-6 lg:px-8 max-w-3xl mx-auto w-full relative z-10">
+                {state.status === 'loading' ? (
+                    <div className="flex justify-center py-20">
+                        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+                    </div>
+                ) : state.status !== 'ready' ? (
+                    <Card className="text-center py-12">
+                        {state.status === 'private' && <Lock className="w-8 h-8 text-muted-foreground mx-auto mb-4" />}
+                        <h2 className="text-2xl font-bold mb-2">{shortAddress}</h2>
+                        <p className="text-muted-foreground">{state.message}</p>
+                    </Card>
+                ) : (
+                    <ProfileView address={params.address} {...state} />
+                )}
+            </main>
+
+            <Footer />
+        </div>
+    );
+}
+
+function ProfileView({ address, versions, document, isSigned }: {
+    address: string;
+    versions: ProfileVersion[];
+    document: ProfileDocument;
+    isSigned: boolean;
+}) {
+    const { profile } = document;
+    const latest = versions[0];
+
+    return (
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+            <Card>
+                <div className="flex items-start gap-4">
+                    {document.picCid && document.picName ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img
+                            src={getIPFSUrl(document.picCid, document.picName)}
+                            alt={profile.displayName}
+                            className="w-20 h-20 rounded-full object-cover"
+                        />
+                    ) : (
+                        <div className="w-20 h-20 rounded-full bg-gradient-to-tr from-indigo-500 to-purple-500 flex items-center justify-center text-white text-2xl font-bold">
+                            {profile.displayName.slice(0, 2).toUpperCase()}
+                        </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                        <h1 className="text-3xl font-bold flex items-center gap-2">
+                            {profile.displayName}
+                            {isSigned && <BadgeCheck className="w-5 h-5 text-green-500" aria-label="Signed by wallet" />}
+                        </h1>
+                        <p className="text-muted-foreground">
+                            {profile.primaryOccupation}
+                            {profile.secondaryOccupation ? ` • ${profile.secondaryOccupation}` : ''}
+                        </p>
+                        <p className="text-xs text-muted-foreground font-mono mt-1">{address}</p>
+                    </div>
+                    {latest.visibility === 'Private' && (
+                        <span className="text-xs px-2 py-1 rounded-full bg-white/10 flex items-center gap-1">
+                            <Lock className="w-3 h-3" /> Private
+                        </span>
+                    )}
+                </div>
+
+                <p className="mt-6 whitespace-pre-wrap">{profile.bio}</p>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-6 text-sm">
+                    <div className="flex items-center gap-2">
+                        <Briefcase className="w-4 h-4 text-primary" />
+                        {profile.yearsExperience} years
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Clock className="w-4 h-4 text-primary" />
+                        {profile.hourlyRate} {profile.rateCurrency}/hr • {profile.availability}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Globe className="w-4 h-4 text-primary" />
+                        {profile.languages.join(', ')}
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2 mt-6">
+                    {profile.skills.map((skill) => (
+                        <span key={skill} className="px-2 py-1 text-xs rounded bg-white/10">{skill}</span>
+                    ))}
+                </div>
+
+                <div className="flex flex-wrap gap-3 mt-6">
+                    <Link href={`/messages?with=${address}`}>
+                        <Button size="sm" className="gap-2">
+                            <MessageCircle className="w-4 h-4" /> Message
+                        </Button>
+                    </Link>
+                    {document.portCid && (
+                        <a href={getIPFSUrl(document.portCid)} target="_blank" rel="noopener noreferrer">
+                            <Button size="sm" variant="outline">Portfolio</Button>
+                        </a>
+                    )}
+                    {document.certCid && (
+                        <a href={getIPFSUrl(document.certCid)} target="_blank" rel="noopener noreferrer">
+                            <Button size="sm" variant="outline">Certifications</Button>
+                        </a>
+                    )}
+                </div>
+            </Card>
+
+            {profile.workHistory.length > 0 && (
+                <Card>
+                    <h2 className="text-xl font-bold mb-4">Work History</h2>
+                    <div className="space-y-4">
+                        {profile.workHistory.map((entry, i) => (
+                            <div key={i} className="border-l-2 border-primary/40 pl-4">
+                                <div className="font-medium">{entry.role} • {entry.name}</div>
+                                <div className="text-xs text-muted-foreground">{entry.start} – {entry.end}</div>
+                                <p className="text-sm mt-1">{entry.description}</p>
+                                {entry.link && (
+                                    <a href={entry.link} target="_blank" rel="noopener noreferrer" className="text-xs text-primary hover:underline">
+                                        {entry.link}
+                                    </a>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </Card>
+            )}
+
+            <ReviewsSection address={address} />
+
+            <Card>
+                <h2 className="text-xl font-bold mb-4">Version History</h2>
+                <ol className="space-y-2 text-sm">
+                    {versions.map((version) => (
+                        <li key={version.version} className="flex items-center justify-between gap-4">
+                            <span>
+                                Version {version.version}
+                                <span className="text-muted-foreground ml-2">
+                                    {format(new Date(version.createdAt), 'MMM d, yyyy HH:mm')}
+                                </span>
+                            </span>
+                            <a
+                                href={getIPFSUrl(version.cid)}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-xs text-primary hover:underline flex items-center gap-1"
+                            >
+                                {version.cid.slice(0, 12)}...
+                                <ExternalLink className="w-3 h-3" />
+                            </a>
+                        </li>
+                    ))}
+                </ol>
+            </Card>
+        </motion.div>
+    );
+}
+
+// A review with its comment resolved from IPFS
+interface ReviewWithComment extends IndexedReview {
+    comment: string | null;
+}
+
+async function loadReviews(address: string): Promise<ReviewWithComment[]> {
+    const res = await fetch(`/api/reviews?address=${address}`);
+    if (!res.ok) throw new Error('Failed to load reviews');
+    const { reviews } = (await res.json()) as { reviews: IndexedReview[] };
+    return Promise.all(reviews.map(async (review) => ({
+        ...review,
+        comment: review.commentCid
+            ? await fetchJSONFromIPFS<{ comment?: string }>(review.commentCid).then((d) => d.comment ?? null).catch(() => null)
+            : null,
+    })));
+}
+
+function ReviewsSection({ address }: { address: string }) {
+    const [reviews, setReviews] = useState<ReviewWithComment[] | null>(null);
+    const { data: ratingData } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'getRating',
+        args: [address],
+    });
+
+    useEffect(() => {
+        loadReviews(address).then(setReviews).catch(() => setReviews([]));
+    }, [address]);
+
+    const rating = ratingData as OnChainRating | undefined;
+    const average = rating ? averageRating(rating) : null;
+
+    return (
+        <Card>
+            <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
+                Reviews
+                {average !== null && rating && (
+                    <span className="text-sm font-bold text-yellow-500 flex items-center gap-1">
+                        <Star className="w-4 h-4 fill-current" />
+                        {average.toFixed(1)}
+                        <span className="text-muted-foreground font-normal">({rating.count.toString()})</span>
+                    </span>
+                )}
+            </h2>
+            {!reviews ? (
+                <Loader2 className="w-4 h-4 text-primary animate-spin" />
+            ) : reviews.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No reviews yet.</p>
+            ) : (
+                <div className="space-y-4">
+                    {reviews.map((review) => (
+                        <div key={`${review.escrowId}-${review.reviewer}`} className="border-b border-white/10 pb-3 last:border-0">
+                            <div className="flex items-center justify-between text-sm">
+                                <span className="flex text-yellow-500">
+                                    {Array.from({ length: 5 }, (_, i) => (
+                                        <Star key={i} className={`w-3 h-3 ${i < review.rating ? 'fill-current' : 'opacity-30'}`} />
+                                    ))}
+                                </span>
+                                <span className="text-xs text-muted-foreground">
+                                    Escrow #{review.escrowId} • {format(new Date(review.timestamp * 1000), 'MMM d, yyyy')}
+                                </span>
+                            </div>
+                            {review.comment && <p className="text-sm mt-2">{review.comment}</p>}
+                            <Link href={`/u/${review.reviewer}`} className="text-xs text-muted-foreground hover:text-primary">
+                                {review.reviewer.slice(0, 6)}...{review.reviewer.slice(-4)}
+                            </Link>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </Card>
+    );
+}
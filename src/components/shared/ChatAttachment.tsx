@@ -0,0 +1,99 @@
+'use client';
+
+import { Button } from '@/components/ui/Button';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, Copy, Download, FileText, Loader2, Lock, Scale } from 'lucide-react';
+import { useEffect, useMemo } from 'react';
+import { loadAttachment } from '@/lib/messageCrypto';
+import type { MessageAttachment } from '@/lib/messages';
+import { formatFileSize } from '@/lib/uploads';
+
+interface ChatAttachmentProps {
+    attachment: MessageAttachment;
+    onSubmitEvidence?: (attachment: MessageAttachment) => void; // Offered while the thread's escrow is disputed
+    isSubmittingEvidence?: boolean;
+}
+
+/**
+ * An attachment inside a chat bubble: an inline preview for images and PDFs, a download
+ * link otherwise, and the file's SHA-256 so it can be cited later. The file is fetched,
+ * decrypted and checked against that hash before anything is shown.
+ */
+export function ChatAttachment({ attachment, onSubmitEvidence, isSubmittingEvidence }: ChatAttachmentProps) {
+    const { data, isLoading, error } = useQuery({
+        queryKey: ['messaging', 'attachment', attachment.cid],
+        queryFn: () => loadAttachment(attachment),
+        staleTime: Infinity,
+    });
+
+    const url = useMemo(() => (data ? URL.createObjectURL(data.blob) : null), [data]);
+    useEffect(() => () => {
+        if (url) URL.revokeObjectURL(url);
+    }, [url]);
+
+    const isImage = attachment.type.startsWith('image/');
+    const isPdf = attachment.type === 'application/pdf';
+
+    return (
+        <div className="mt-2 rounded-xl bg-black/20 border border-white/10 overflow-hidden text-foreground">
+            {isLoading && (
+                <div className="flex justify-center py-6">
+                    <Loader2 className="w-5 h-5 animate-spin text-primary" />
+                </div>
+            )}
+            {error && <p className="p-3 text-xs text-yellow-500">Could not load attachment: {error.message}</p>}
+            {url && isImage && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={url} alt={attachment.name} className="max-h-64 w-full object-contain bg-black/40" />
+            )}
+            {url && isPdf && <iframe src={url} title={attachment.name} className="w-full h-64 bg-white" />}
+
+            <div className="p-3 space-y-1 text-xs">
+                <div className="flex items-center gap-2">
+                    <FileText className="w-4 h-4 shrink-0 text-primary" />
+                    <span className="truncate font-medium">{attachment.name}</span>
+                    <span className="text-muted-foreground shrink-0">{formatFileSize(attachment.size)}</span>
+                    {attachment.key && <Lock className="w-3 h-3 shrink-0 text-green-500" aria-label="Encrypted" />}
+                    {url && (
+                        <a href={url} download={attachment.name} className="ml-auto text-primary hover:underline flex items-center gap-1">
+                            <Download className="w-3 h-3" />
+                            Save
+                        </a>
+                    )}
+                </div>
+                <div className="flex items-center gap-2 text-muted-foreground">
+                    <span className="font-mono truncate" title={attachment.sha256}>
+                        SHA-256 {attachment.sha256.slice(0, 10)}...{attachment.sha256.slice(-8)}
+                    </span>
+                    <button
+                        type="button"
+                        onClick={() => navigator.clipboard.writeText(attachment.sha256)}
+                        className="hover:text-primary"
+                        aria-label="Copy hash"
+                    >
+                        <Copy className="w-3 h-3" />
+                    </button>
+                    {data && !data.verified && (
+                        <span className="text-yellow-500 flex items-center gap-1">
+                            <AlertTriangle className="w-3 h-3" />
+                            Content does not match its hash
+                        </span>
+                    )}
+                </div>
+                {onSubmitEvidence && (
+                    <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        className="w-full mt-2 gap-2"
+                        onClick={() => onSubmitEvidence(attachment)}
+                        disabled={isSubmittingEvidence || !data?.verified}
+                    >
+                        <Scale className="w-4 h-4" />
+                        Submit as Dispute Evidence
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+}
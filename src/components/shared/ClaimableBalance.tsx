@@ -0,0 +1,89 @@
+'use client';
+
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Loader2, Wallet } from 'lucide-react';
+import { useEffect } from 'react';
+import type { Abi } from 'viem';
+import { useAccount, useReadContracts, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { escrowXContractConfig } from '@/lib/contract';
+import { PAYMENT_TOKENS, formatTokenAmount } from '@/lib/tokens';
+
+interface ClaimableBalanceProps {
+    refreshKey?: number; // Changes whenever an escrow transaction may have credited the wallet
+}
+
+/**
+ * Funds the contract has credited to the connected wallet (releases, refunds and dispute
+ * settlements), per payment currency. Nothing is sent until the wallet withdraws.
+ */
+export function ClaimableBalance({ refreshKey }: ClaimableBalanceProps) {
+    const { address } = useAccount();
+
+    const { data: balances, refetch } = useReadContracts({
+        contracts: PAYMENT_TOKENS.map((token) => ({
+            address: escrowXContractConfig.address,
+            abi: escrowXContractConfig.abi as Abi,
+            functionName: 'balances',
+            args: [address, token.address],
+        })),
+        query: { enabled: !!address },
+    });
+
+    const { writeContract, data: hash, isPending, error: writeError, variables } = useWriteContract();
+    const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
+
+    useEffect(() => {
+        if (isConfirmed || refreshKey) refetch();
+    }, [isConfirmed, refreshKey, refetch]);
+
+    const claimable = PAYMENT_TOKENS
+        .map((token, i) => ({ token, amount: (balances?.[i]?.result as bigint | undefined) ?? BigInt(0) }))
+        .filter(({ amount }) => amount > BigInt(0));
+
+    if (claimable.length === 0) return null;
+
+    const isBusy = isPending || isConfirming;
+    const withdrawingToken = variables?.args?.[0];
+
+    return (
+        <Card className="mb-10 space-y-4">
+            <div>
+                <h2 className="text-xl font-bold flex items-center gap-2">
+                    <Wallet className="w-5 h-5 text-primary" />
+                    Claimable Balance
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                    Payments and refunds from your escrows, ready to withdraw to your wallet.
+                </p>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {claimable.map(({ token, amount }) => (
+                    <div key={token.symbol} className="border border-white/10 rounded-xl p-3 flex items-center justify-between gap-2">
+                        <div>
+                            <div className="text-xs text-muted-foreground">{token.symbol}</div>
+                            <div className="font-bold">{formatTokenAmount(amount, token)}</div>
+                        </div>
+                        <Button
+                            size="sm"
+                            disabled={isBusy}
+                            onClick={() => writeContract({
+                                ...escrowXContractConfig,
+                                functionName: 'withdraw',
+                                args: [token.address],
+                            })}
+                        >
+                            {isBusy && withdrawingToken === token.address && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                            Withdraw
+                        </Button>
+                    </div>
+                ))}
+            </div>
+            {writeError && (
+                <p className="text-yellow-500 text-xs">
+                    {writeError.message?.toLowerCase().includes('user rejected') ? 'Transaction incomplete due to user rejection.' : 'Transaction incomplete.'}
+                </p>
+            )}
+        </Card>
+    );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+/**
+ * Current time in milliseconds, refreshed every second.
+ */
+export function useNow(): number {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    return now;
+}
+
+function formatRemaining(ms: number): string {
+    const total = Math.floor(ms / 1000);
+    const days = Math.floor(total / 86400);
+    const hours = Math.floor((total % 86400) / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const seconds = total % 60;
+    if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+    return `${hours}h ${minutes}m ${seconds}s`;
+}
+
+interface CountdownProps {
+    deadline: number; // Unix timestamp in seconds
+    label: string;
+    expiredLabel: string;
+    className?: string;
+}
+
+export function Countdown({ deadline, label, expiredLabel, className }: CountdownProps) {
+    const now = useNow();
+    const remaining = deadline * 1000 - now;
+
+    return (
+        <div className={cn('flex items-center gap-2 text-sm', remaining > 0 ? 'text-muted-foreground' : 'text-yellow-500', className)}>
+            <Clock className="w-4 h-4" />
+            {remaining > 0 ? (
+                <span>{label} <span className="font-mono font-semibold text-foreground">{formatRemaining(remaining)}</span></span>
+            ) : (
+                <span>{expiredLabel}</span>
+            )}
+        </div>
+    );
+}
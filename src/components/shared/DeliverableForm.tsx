@@ -0,0 +1,127 @@
+'use client';
+
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { Textarea } from '@/components/ui/Textarea';
+import { Loader2, PackageCheck } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useAccount, useSignMessage, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { escrowXContractConfig } from '@/lib/contract';
+import {
+    deliverableMessage,
+    hashDeliverableManifest,
+    MAX_DELIVERABLE_NOTES,
+    type DeliverableBundle,
+    type DeliverableManifest,
+} from '@/lib/deliverables';
+import { uploadFilesToIPFS, uploadJSONToIPFS } from '@/lib/ipfs';
+import { sha256Hex } from '@/lib/messageCrypto';
+import { checkUpload, UPLOAD_POLICIES } from '@/lib/uploads';
+
+interface DeliverableFormProps {
+    escrowId: bigint;
+    onDelivered?: () => void; // Called once markDelivered confirms
+}
+
+/**
+ * The seller's hand-over: files and notes are pinned to IPFS as a bundle the seller signs,
+ * and the bundle's CID goes on-chain with markDelivered for the buyer to review.
+ */
+export function DeliverableForm({ escrowId, onDelivered }: DeliverableFormProps) {
+    const { address } = useAccount();
+    const [notes, setNotes] = useState('');
+    const [files, setFiles] = useState<File[]>([]);
+    const [isUploading, setIsUploading] = useState(false);
+    const [deliverErr, setDeliverErr] = useState<string | null>(null);
+
+    const { signMessageAsync } = useSignMessage();
+    const { writeContract, data: hash, isPending, error: writeError } = useWriteContract();
+    const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
+
+    useEffect(() => {
+        if (isConfirmed) onDelivered?.();
+    }, [isConfirmed, onDelivered]);
+
+    const handleDeliver = async () => {
+        setDeliverErr(null);
+        if (!address) return;
+        if (!notes.trim() && files.length === 0) {
+            setDeliverErr('Attach the delivered files or describe the delivery');
+            return;
+        }
+        if (notes.length > MAX_DELIVERABLE_NOTES) {
+            setDeliverErr(`Notes are limited to ${MAX_DELIVERABLE_NOTES} characters`);
+            return;
+        }
+        const problem = files.length > 0 ? checkUpload('deliverable', files) : null;
+        if (problem) {
+            setDeliverErr(problem);
+            return;
+        }
+        try {
+            setIsUploading(true);
+            const hashes = await Promise.all(files.map(async (f) => sha256Hex(new Uint8Array(await f.arrayBuffer()))));
+            const filesCid = files.length > 0 ? (await uploadFilesToIPFS(files, 'deliverable')).cid : null;
+            const manifest: DeliverableManifest = {
+                escrowId: escrowId.toString(),
+                seller: address,
+                notes: notes.trim(),
+                filesCid,
+                files: files.map((f, i) => ({ name: f.name, type: f.type, size: f.size, sha256: hashes[i] })),
+                createdAt: Date.now(),
+            };
+            const signature = await signMessageAsync({
+                message: deliverableMessage(manifest.escrowId, address, await hashDeliverableManifest(manifest)),
+            });
+            const bundle: DeliverableBundle = { ...manifest, signature };
+            const { cid } = await uploadJSONToIPFS(bundle);
+            writeContract({
+                ...escrowXContractConfig,
+                functionName: 'markDelivered',
+                args: [escrowId, cid],
+            });
+        } catch (e: unknown) {
+            setDeliverErr(e instanceof Error ? e.message : 'Failed to upload deliverables');
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    const isBusy = isUploading || isPending || isConfirming;
+
+    return (
+        <div className="border border-white/10 rounded-md p-3 space-y-3">
+            <div className="text-sm font-semibold">Deliver Work</div>
+            <div className="space-y-2">
+                <Label>Files (max 10MB each)</Label>
+                <Input
+                    type="file"
+                    multiple
+                    accept={UPLOAD_POLICIES.deliverable.accept}
+                    onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+                />
+            </div>
+            <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="What is delivered, how to use it, links to anything hosted elsewhere..."
+                className="min-h-[80px]"
+                maxLength={MAX_DELIVERABLE_NOTES}
+            />
+            <p className="text-xs text-muted-foreground">
+                You sign the bundle and its CID is recorded on-chain. The buyer&apos;s review window starts once it confirms.
+            </p>
+            {deliverErr && <p className="text-yellow-500 text-xs">{deliverErr}</p>}
+            {writeError && (
+                <p className="text-yellow-500 text-xs">
+                    {writeError.message?.toLowerCase().includes('user rejected') ? 'Transaction incomplete due to user rejection.' : 'Transaction incomplete.'}
+                </p>
+            )}
+            <Button size="sm" onClick={handleDeliver} disabled={isBusy}>
+                {isBusy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <PackageCheck className="w-4 h-4 mr-2" />}
+                Submit Delivery
+            </Button>
+        </div>
+    );
+}
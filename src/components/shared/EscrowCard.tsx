@@ -0,0 +1,429 @@
+'use client';
+
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Countdown, useNow } from '@/components/shared/Countdown';
+import { EscrowTimeline } from '@/components/shared/EscrowTimeline';
+import { ReviewForm } from '@/components/shared/ReviewForm';
+import { DeliverableForm } from '@/components/shared/DeliverableForm';
+import { FeeBreakdown } from '@/components/shared/FeeBreakdown';
+import { SettlementPanel } from '@/components/shared/SettlementPanel';
+import { FileText, Loader2, MessageCircle, PackageCheck, Scale } from 'lucide-react';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import {
+    escrowXContractConfig,
+    EscrowState,
+    ESCROW_STATE_LABELS,
+    REVIEW_WINDOW_SECONDS,
+    type OnChainEscrow,
+    type OnChainMilestone,
+} from '@/lib/contract';
+import { ensureAllowance, formatTokenAmount, getToken, isNativeToken, tokenSymbol } from '@/lib/tokens';
+import { getIPFSUrl } from '@/lib/ipfs';
+
+interface DeliveryWindow {
+    state: EscrowState;
+    sellerDelivered: boolean;
+    deadline: bigint;
+    deliveredAt: bigint;
+}
+
+/**
+ * Countdown for whichever window is running: the seller's delivery deadline before
+ * markDelivered, the buyer's review window after it.
+ */
+function DeliveryWindows({ delivery }: { delivery: DeliveryWindow }) {
+    if (delivery.state !== EscrowState.AWAITING_DELIVERY) return null;
+
+    if (!delivery.sellerDelivered) {
+        return (
+            <Countdown
+                deadline={Number(delivery.deadline)}
+                label="Delivery due in"
+                expiredLabel="Delivery deadline passed. Buyer can reclaim funds."
+            />
+        );
+    }
+    return (
+        <Countdown
+            deadline={Number(delivery.deliveredAt) + REVIEW_WINDOW_SECONDS}
+            label="Review window closes in"
+            expiredLabel="Review window closed. Seller can claim payment."
+        />
+    );
+}
+
+interface EscrowCardProps {
+    escrowId: bigint;
+    onUpdated?: () => void; // Called after one of the card's transactions confirms
+}
+
+export function EscrowCard({ escrowId, onUpdated }: EscrowCardProps) {
+    const { address } = useAccount();
+    const now = useNow() / 1000;
+    const [isDelivering, setIsDelivering] = useState(false);
+    const [isApproving, setIsApproving] = useState(false);
+    const [approveError, setApproveError] = useState<Error | null>(null);
+
+    const { data: escrowData, refetch: refetchEscrow } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'getEscrow',
+        args: [escrowId],
+    });
+    const { data: milestonesData, refetch: refetchMilestones } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'getMilestones',
+        args: [escrowId],
+    });
+    const { data: termsCid } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'escrowTerms',
+        args: [escrowId],
+    });
+    const { data: offerCancelled } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'offerCancelled',
+        args: [escrowId],
+    });
+    const { data: deliverableCid, refetch: refetchDeliverable } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'deliverables',
+        args: [escrowId],
+    });
+
+    const {
+        writeContract,
+        data: hash,
+        isPending: isWritePending,
+        error: writeError
+    } = useWriteContract();
+
+    const { isLoading: isConfirming, isSuccess: isConfirmed } =
+        useWaitForTransactionReceipt({
+            hash,
+        });
+
+    useEffect(() => {
+        if (isConfirmed) {
+            refetchEscrow();
+            refetchMilestones();
+            onUpdated?.();
+        }
+    }, [isConfirmed, refetchEscrow, refetchMilestones, onUpdated]);
+
+    // An accepted settlement ends the escrow from the settlement panel's own transaction
+    const handleSettlement = useCallback(() => {
+        refetchEscrow();
+        onUpdated?.();
+    }, [refetchEscrow, onUpdated]);
+
+    // markDelivered is sent from the deliverable form, which uploads the bundle first
+    const handleDelivered = useCallback(() => {
+        setIsDelivering(false);
+        refetchEscrow();
+        refetchDeliverable();
+        onUpdated?.();
+    }, [refetchEscrow, refetchDeliverable, onUpdated]);
+
+    const escrow = escrowData as OnChainEscrow | undefined;
+    const milestones = (milestonesData as OnChainMilestone[] | undefined) ?? [];
+
+    if (!escrow || escrow.id === BigInt(0)) {
+        return (
+            <Card className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 text-primary animate-spin" />
+            </Card>
+        );
+    }
+
+    const token = getToken(escrow.paymentToken);
+    const isBuyer = address?.toLowerCase() === escrow.buyer.toLowerCase();
+    const isSeller = address?.toLowerCase() === escrow.seller.toLowerCase();
+    const isBusy = isApproving || isWritePending || isConfirming;
+    const counterparty = isBuyer ? escrow.seller : escrow.buyer;
+
+    const canReclaim = (w: DeliveryWindow) =>
+        isBuyer && w.state === EscrowState.AWAITING_DELIVERY && !w.sellerDelivered && now > Number(w.deadline);
+    const canClaim = (w: DeliveryWindow) =>
+        isSeller && w.state === EscrowState.AWAITING_DELIVERY && w.sellerDelivered && now > Number(w.deliveredAt) + REVIEW_WINDOW_SECONDS;
+
+    const escrowWindow: DeliveryWindow = {
+        state: escrow.state,
+        sellerDelivered: escrow.sellerDelivered,
+        deadline: escrow.deliveryDeadline,
+        deliveredAt: escrow.deliveredAt,
+    };
+
+    const call = (functionName: string, args: unknown[]) => {
+        writeContract({
+            ...escrowXContractConfig,
+            functionName,
+            args,
+        });
+    };
+
+    // Later milestones are paid as they come up; token milestones need an approval first
+    const fundMilestone = async (index: number, amount: bigint) => {
+        if (!token) return;
+        setApproveError(null);
+        setIsApproving(true);
+        try {
+            await ensureAllowance(token, address!, amount);
+        } catch (e: unknown) {
+            setApproveError(e instanceof Error ? e : new Error('Approval failed'));
+            return;
+        } finally {
+            setIsApproving(false);
+        }
+        writeContract({
+            ...escrowXContractConfig,
+            functionName: 'fundMilestone',
+            args: [escrowId, BigInt(index)],
+            value: isNativeToken(token) ? amount : undefined,
+        });
+    };
+
+    return (
+        <Card className="space-y-4">
+            <div className="flex justify-between items-start">
+                <div>
+                    <h3 className="text-lg font-bold">Escrow #{escrow.id.toString()}</h3>
+                    <p className="text-xs text-muted-foreground">
+                        {isBuyer ? 'You are the buyer' : isSeller ? 'You are the seller' : `Service #${escrow.serviceId.toString()}`}
+                    </p>
+                </div>
+                <div className="text-right">
+                    <div className="px-2 py-1 rounded bg-primary/10 text-primary text-xs font-semibold inline-block">
+                        {ESCROW_STATE_LABELS[escrow.state as EscrowState]}
+                    </div>
+                    <div className="text-lg font-bold mt-1">
+                        {formatTokenAmount(escrow.amount, token)} <span className="text-xs text-muted-foreground">{tokenSymbol(token)}</span>
+                    </div>
+                </div>
+            </div>
+
+            <FeeBreakdown amount={escrow.amount} token={token} feeBps={escrow.feeBps} />
+
+            {((typeof termsCid === 'string' && termsCid) || deliverableCid || isBuyer || isSeller) && (
+                <div className="flex flex-wrap gap-4">
+                    {typeof termsCid === 'string' && termsCid && (
+                        <a href={getIPFSUrl(termsCid)} target="_blank" rel="noopener noreferrer" className="text-sm text-primary hover:underline flex items-center gap-1">
+                            <FileText className="w-4 h-4" />
+                            Negotiated Terms
+                        </a>
+                    )}
+                    {typeof deliverableCid === 'string' && deliverableCid && (
+                        <Link href={`/escrows/${escrow.id.toString()}/review`} className="text-sm text-primary hover:underline flex items-center gap-1">
+                            <PackageCheck className="w-4 h-4" />
+                            Deliverables
+                        </Link>
+                    )}
+                    {(isBuyer || isSeller) && (
+                        <Link
+                            href={`/messages?with=${counterparty.toLowerCase()}&escrow=${escrow.id.toString()}`}
+                            className="text-sm text-primary hover:underline flex items-center gap-1"
+                        >
+                            <MessageCircle className="w-4 h-4" />
+                            Conversation
+                        </Link>
+                    )}
+                </div>
+            )}
+
+            {escrow.state === EscrowState.OFFERED && (
+                <div className="flex gap-2">
+                    {isSeller && (
+                        <>
+                            <Button size="sm" onClick={() => call('acceptOffer', [escrowId])} disabled={isBusy}>
+                                Accept Offer
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => call('declineOffer', [escrowId])} disabled={isBusy}>
+                                Decline
+                            </Button>
+                        </>
+                    )}
+                    {isBuyer && (
+                        <Button size="sm" variant="outline" onClick={() => call('withdrawOffer', [escrowId])} disabled={isBusy}>
+                            Withdraw Offer
+                        </Button>
+                    )}
+                </div>
+            )}
+
+            {milestones.length === 0 ? (
+                <div className="space-y-3">
+                    <DeliveryWindows delivery={escrowWindow} />
+                    {escrow.state === EscrowState.AWAITING_DELIVERY && escrow.maxRevisions > BigInt(0) && (
+                        <p className="text-xs text-muted-foreground">
+                            {(escrow.maxRevisions - escrow.revisionsUsed).toString()} of {escrow.maxRevisions.toString()} revisions left
+                            {escrow.revisionsUsed > BigInt(0) && !escrow.sellerDelivered && ' • Revision requested, see the note in History'}
+                        </p>
+                    )}
+                    {escrow.state === EscrowState.AWAITING_DELIVERY && (isBuyer || isSeller) && (
+                        <div className="flex flex-wrap gap-2">
+                            {isBuyer && !escrow.sellerDelivered && (
+                                <Button size="sm" onClick={() => call('confirmDelivery', [escrowId])} disabled={isBusy}>
+                                    Confirm Delivery
+                                </Button>
+                            )}
+                            {isBuyer && escrow.sellerDelivered && (
+                                <Link href={`/escrows/${escrow.id.toString()}/review`}>
+                                    <Button size="sm">Review Delivery</Button>
+                                </Link>
+                            )}
+                            {isSeller && !escrow.sellerDelivered && now <= Number(escrow.deliveryDeadline) && (
+                                <Button size="sm" onClick={() => setIsDelivering(!isDelivering)} disabled={isBusy}>
+                                    Mark Delivered
+                                </Button>
+                            )}
+                            {isSeller && (
+                                <Button size="sm" variant="outline" onClick={() => call('refundBuyer', [escrowId])} disabled={isBusy}>
+                                    Refund Buyer
+                                </Button>
+                            )}
+                            <Button size="sm" variant="ghost" onClick={() => call('raiseDispute', [escrowId])} disabled={isBusy}>
+                                Raise Dispute
+                            </Button>
+                        </div>
+                    )}
+                    {isDelivering && isSeller && escrow.state === EscrowState.AWAITING_DELIVERY && !escrow.sellerDelivered && (
+                        <DeliverableForm escrowId={escrowId} onDelivered={handleDelivered} />
+                    )}
+                    {escrow.state === EscrowState.AWAITING_DELIVERY && (isBuyer || isSeller) && (
+                        <SettlementPanel escrow={escrow} onUpdated={handleSettlement} />
+                    )}
+                    {canReclaim(escrowWindow) && (
+                        <Button size="sm" variant="outline" onClick={() => call('claimRefund', [escrowId])} disabled={isBusy}>
+                            Reclaim Funds
+                        </Button>
+                    )}
+                    {canClaim(escrowWindow) && (
+                        <Button size="sm" onClick={() => call('claimPayment', [escrowId])} disabled={isBusy}>
+                            Claim Payment
+                        </Button>
+                    )}
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {milestones.map((m, i) => {
+                        const w: DeliveryWindow = {
+                            state: m.state,
+                            sellerDelivered: m.sellerDelivered,
+                            deadline: m.deadline,
+                            deliveredAt: m.deliveredAt,
+                        };
+                        return (
+                            <div key={i} className="border border-white/10 rounded-md p-3 space-y-2">
+                                <div className="flex justify-between text-sm">
+                                    <span className="font-semibold">Milestone {i + 1}</span>
+                                    <span className="text-muted-foreground">
+                                        {formatTokenAmount(m.amount, token)} {tokenSymbol(token)} • {ESCROW_STATE_LABELS[m.state as EscrowState]}
+                                    </span>
+                                </div>
+                                {m.description && (
+                                    <a href={getIPFSUrl(m.description)} target="_blank" rel="noopener noreferrer" className="text-xs text-primary hover:underline flex items-center gap-1">
+                                        <FileText className="w-3 h-3" />
+                                        Scope
+                                    </a>
+                                )}
+                                <DeliveryWindows delivery={w} />
+                                {m.state === EscrowState.AWAITING_PAYMENT && (isBuyer || isSeller) && (
+                                    <div className="flex flex-wrap gap-2">
+                                        {isBuyer && (
+                                            <Button
+                                                size="sm"
+                                                onClick={() => fundMilestone(i, m.amount)}
+                                                disabled={isBusy || !token}
+                                                title={token ? undefined : 'Paid in a token this app does not support'}
+                                            >
+                                                Fund Milestone
+                                            </Button>
+                                        )}
+                                        {isSeller && (
+                                            <Button size="sm" variant="outline" onClick={() => call('refundMilestone', [escrowId, BigInt(i)])} disabled={isBusy}>
+                                                Cancel Milestone
+                                            </Button>
+                                        )}
+                                    </div>
+                                )}
+                                {m.state === EscrowState.AWAITING_DELIVERY && (isBuyer || isSeller) && (
+                                    <div className="flex flex-wrap gap-2">
+                                        {isBuyer && (
+                                            <Button size="sm" onClick={() => call('confirmMilestone', [escrowId, BigInt(i)])} disabled={isBusy}>
+                                                Confirm Milestone
+                                            </Button>
+                                        )}
+                                        {isSeller && !m.sellerDelivered && now <= Number(m.deadline) && (
+                                            <Button size="sm" onClick={() => call('markMilestoneDelivered', [escrowId, BigInt(i)])} disabled={isBusy}>
+                                                Mark Delivered
+                                            </Button>
+                                        )}
+                                        {isSeller && (
+                                            <Button size="sm" variant="outline" onClick={() => call('refundMilestone', [escrowId, BigInt(i)])} disabled={isBusy}>
+                                                Refund Milestone
+                                            </Button>
+                                        )}
+                                        <Button size="sm" variant="ghost" onClick={() => call('disputeMilestone', [escrowId, BigInt(i)])} disabled={isBusy}>
+                                            Dispute
+                                        </Button>
+                                    </div>
+                                )}
+                                {canReclaim(w) && (
+                                    <Button size="sm" variant="outline" onClick={() => call('claimMilestoneRefund', [escrowId, BigInt(i)])} disabled={isBusy}>
+                                        Reclaim Milestone
+                                    </Button>
+                                )}
+                                {canClaim(w) && (
+                                    <Button size="sm" onClick={() => call('claimMilestonePayment', [escrowId, BigInt(i)])} disabled={isBusy}>
+                                        Claim Milestone Payment
+                                    </Button>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {escrow.state === EscrowState.DISPUTED && (
+                <Link href={`/disputes/${escrow.id.toString()}`} className="text-sm text-primary hover:underline flex items-center gap-1">
+                    <Scale className="w-4 h-4" />
+                    View Dispute
+                </Link>
+            )}
+
+            {(escrow.state === EscrowState.COMPLETED || escrow.state === EscrowState.REFUNDED) && !offerCancelled && (isBuyer || isSeller) && (
+                <ReviewForm
+                    escrowId={escrowId}
+                    counterparty={`${counterparty.slice(0, 6)}...${counterparty.slice(-4)}`}
+                    onSubmitted={onUpdated}
+                />
+            )}
+
+            {isConfirming && (
+                <div className="p-3 bg-blue-500/10 text-blue-500 text-sm rounded-lg flex items-center gap-2">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Confirming transaction on blockchain...
+                </div>
+            )}
+
+            {(writeError || approveError) && (
+                <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 text-yellow-500 text-sm rounded-lg text-center">
+                    {(() => {
+                        const msg = (writeError ?? approveError)?.message?.toLowerCase() || '';
+                        if (msg.includes('user rejected') || msg.includes('user denied')) {
+                            return "Transaction incomplete due to user rejection.";
+                        }
+                        if (msg.includes('insufficient funds') || msg.includes('exceeds balance')) {
+                            return "Transaction incomplete due to insufficient funds.";
+                        }
+                        return "Transaction incomplete.";
+                    })()}
+                </div>
+            )}
+
+            <EscrowTimeline escrowId={escrowId} />
+        </Card>
+    );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { Button } from '@/components/ui/Button';
+import { ChevronDown, ChevronUp, ExternalLink, History, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useEffect, useState } from 'react';
+import { getExplorerTxUrl } from '@/lib/contract';
+import { getIPFSUrl } from '@/lib/ipfs';
+import type { IndexedEvent } from '@/lib/indexer/types';
+
+export const ESCROW_EVENT_LABELS: Record<string, string> = {
+    EscrowCreated: 'Escrow funded',
+    OfferAccepted: 'Offer accepted',
+    DeliveryConfirmed: 'Marked as delivered',
+    RevisionRequested: 'Revision requested',
+    FundsReleased: 'Funds released to seller',
+    DisputeRaised: 'Dispute raised',
+    DisputeResolved: 'Dispute resolved by arbiter',
+    Refunded: 'Buyer refunded',
+    MilestoneReleased: 'Milestone released',
+    MilestoneRefunded: 'Milestone refunded',
+    MilestoneDisputed: 'Milestone disputed',
+    MilestoneDisputeResolved: 'Milestone dispute resolved',
+    SettlementProposed: 'Settlement proposed',
+    SettlementAccepted: 'Settled by agreement',
+    SettlementDeclined: 'Settlement declined',
+    ReviewSubmitted: 'Review left',
+};
+
+/**
+ * Collapsible transaction history of an escrow, built from the indexed contract events.
+ * Events are only fetched the first time the history is opened.
+ */
+export function EscrowTimeline({ escrowId }: { escrowId: bigint }) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [events, setEvents] = useState<IndexedEvent[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen || events) return;
+        fetch(`/api/escrows/${escrowId.toString()}/events`)
+            .then(async (res) => {
+                if (!res.ok) throw new Error('Failed to load history');
+                const data = (await res.json()) as { events: IndexedEvent[] };
+                setEvents(data.events);
+            })
+            .catch((e: unknown) => setError(e instanceof Error ? e.message : 'Failed to load history'));
+    }, [isOpen, events, escrowId]);
+
+    return (
+        <div className="border-t border-white/10 pt-3">
+            <Button size="sm" variant="ghost" className="px-0 text-muted-foreground" onClick={() => setIsOpen(!isOpen)}>
+                <History className="w-4 h-4 mr-2" />
+                History
+                {isOpen ? <ChevronUp className="w-4 h-4 ml-1" /> : <ChevronDown className="w-4 h-4 ml-1" />}
+            </Button>
+
+            {isOpen && (
+                <div className="mt-2">
+                    {error ? (
+                        <p className="text-sm text-yellow-500">{error}</p>
+                    ) : !events ? (
+                        <Loader2 className="w-4 h-4 text-primary animate-spin" />
+                    ) : events.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No transactions indexed yet.</p>
+                    ) : (
+                        <ol className="relative border-l border-white/10 ml-2 space-y-3">
+                            {events.map((event) => (
+                                <li key={`${event.blockNumber}-${event.logIndex}`} className="ml-4">
+                                    <span className="absolute -left-1.5 w-3 h-3 rounded-full bg-primary/60 border border-background" />
+                                    <div className="text-sm font-medium">{ESCROW_EVENT_LABELS[event.name] ?? event.name}</div>
+                                    <div className="text-xs text-muted-foreground flex items-center gap-2">
+                                        {format(new Date(event.timestamp * 1000), 'MMM d, yyyy HH:mm')}
+                                        <a
+                                            href={getExplorerTxUrl(event.txHash)}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="hover:text-primary flex items-center gap-1"
+                                        >
+                                            {event.txHash.slice(0, 10)}...
+                                            <ExternalLink className="w-3 h-3" />
+                                        </a>
+                                        {event.name === 'RevisionRequested' && event.args.noteCid && (
+                                            <a href={getIPFSUrl(event.args.noteCid)} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                                                Note
+                                            </a>
+                                        )}
+                                    </div>
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
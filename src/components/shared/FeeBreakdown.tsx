@@ -0,0 +1,48 @@
+'use client';
+
+import { useReadContract } from 'wagmi';
+import { escrowXContractConfig, formatBps, splitPlatformFee } from '@/lib/contract';
+import { formatTokenAmount, tokenSymbol, type PaymentToken } from '@/lib/tokens';
+
+interface FeeBreakdownProps {
+    amount: bigint;
+    token: PaymentToken | undefined; // Amounts stay in base units for a token this app does not know
+    feeBps?: bigint; // Fee snapshot of an existing escrow; defaults to the fee new escrows get
+    className?: string;
+}
+
+/**
+ * What the buyer locks in escrow and how it is paid out: the platform fee is withheld from
+ * the seller's payout, so the buyer always pays the listed price. Renders nothing while the
+ * marketplace runs fee-exempt.
+ */
+export function FeeBreakdown({ amount, token, feeBps, className }: FeeBreakdownProps) {
+    const { data: currentFeeBps } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'feeBps',
+        query: { enabled: feeBps === undefined },
+    });
+
+    const bps = feeBps ?? (currentFeeBps as bigint | undefined);
+    if (!bps) return null;
+
+    const { fee, net } = splitPlatformFee(amount, bps);
+    const symbol = tokenSymbol(token);
+
+    return (
+        <dl className={`text-xs text-muted-foreground space-y-1 ${className ?? ''}`}>
+            <div className="flex justify-between">
+                <dt>Buyer pays into escrow</dt>
+                <dd>{formatTokenAmount(amount, token)} {symbol}</dd>
+            </div>
+            <div className="flex justify-between">
+                <dt>Platform fee ({formatBps(bps)})</dt>
+                <dd>-{formatTokenAmount(fee, token)} {symbol}</dd>
+            </div>
+            <div className="flex justify-between font-semibold text-foreground">
+                <dt>Seller receives</dt>
+                <dd>{formatTokenAmount(net, token)} {symbol}</dd>
+            </div>
+        </dl>
+    );
+}
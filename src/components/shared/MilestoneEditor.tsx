@@ -0,0 +1,102 @@
+'use client';
+
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { Plus, Trash2 } from 'lucide-react';
+import { emptyMilestone, splitEvenly, type MilestoneDraft } from '@/lib/milestones';
+import { formatTokenAmount, parseTokenAmount, type PaymentToken } from '@/lib/tokens';
+
+interface MilestoneEditorProps {
+    total: bigint;
+    milestones: MilestoneDraft[];
+    onChange: (milestones: MilestoneDraft[]) => void;
+    token: PaymentToken;
+}
+
+export function MilestoneEditor({ total, milestones, onChange, token }: MilestoneEditorProps) {
+    const allocated = milestones.reduce((sum, m) => {
+        try {
+            return sum + parseTokenAmount(m.amount || '0', token);
+        } catch {
+            return sum;
+        }
+    }, BigInt(0));
+    const remaining = total - allocated;
+
+    const update = (index: number, patch: Partial<MilestoneDraft>) => {
+        onChange(milestones.map((m, i) => (i === index ? { ...m, ...patch } : m)));
+    };
+
+    const remove = (index: number) => {
+        onChange(milestones.filter((_, i) => i !== index));
+    };
+
+    const distributeEvenly = () => {
+        const shares = splitEvenly(total, milestones.length);
+        onChange(milestones.map((m, i) => ({ ...m, amount: formatTokenAmount(shares[i], token) })));
+    };
+
+    return (
+        <div className="space-y-4">
+            {milestones.map((m, i) => (
+                <div key={i} className="p-4 border border-white/10 rounded-xl space-y-3">
+                    <div className="flex justify-between items-center">
+                        <span className="text-sm font-semibold">Milestone {i + 1}</span>
+                        {milestones.length > 1 && (
+                            <Button type="button" variant="ghost" size="sm" onClick={() => remove(i)}>
+                                <Trash2 className="w-4 h-4" />
+                            </Button>
+                        )}
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Deliverable</Label>
+                        <Input
+                            value={m.title}
+                            onChange={(e) => update(i, { title: e.target.value })}
+                            placeholder="e.g. Wireframes and design system"
+                            className="bg-white/5"
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label>Amount ({token.symbol})</Label>
+                            <Input
+                                value={m.amount}
+                                onChange={(e) => update(i, { amount: e.target.value })}
+                                placeholder="0.00"
+                                className="bg-white/5"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Deadline</Label>
+                            <Input
+                                type="date"
+                                value={m.deadline}
+                                onChange={(e) => update(i, { deadline: e.target.value })}
+                                className="bg-white/5"
+                            />
+                        </div>
+                    </div>
+                </div>
+            ))}
+
+            <div className="flex gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={() => onChange([...milestones, emptyMilestone()])}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Milestone
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={distributeEvenly} disabled={milestones.length === 0}>
+                    Split Evenly
+                </Button>
+            </div>
+
+            <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Total: {formatTokenAmount(total, token)} {token.symbol}</span>
+                <span className={remaining === BigInt(0) ? 'text-green-500' : 'text-yellow-500'}>
+                    {remaining === BigInt(0) ? 'Fully allocated' : `${formatTokenAmount(remaining, token)} ${token.symbol} unallocated`}
+                </span>
+            </div>
+        </div>
+    );
+}
@@ -9,11 +9,14 @@ import { Wallet, Menu, X, LogOut, MessageCircle } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import { useAccount, useConnect, useDisconnect } from 'wagmi';
 import { injected } from 'wagmi/connectors';
+import { useSession } from '@/hooks/useSession';
+import { useContractRoles } from '@/hooks/useContractRoles';
 
 const navItems = [
     { name: 'Find Work', href: '/jobs' },
     { name: 'Hire Talent', href: '/talent' },
     { name: 'How it Works', href: '/how-it-works' },
+    { name: 'Dashboard', href: '/dashboard' },
 ];
 
 export function Navbar() {
@@ -22,6 +25,8 @@ export function Navbar() {
     const { address, isConnected } = useAccount();
     const { connect } = useConnect();
     const { disconnect } = useDisconnect();
+    const { isAuthenticated, signIn, isSigningIn, signOut } = useSession();
+    const { hasAdminRole, isPaused } = useContractRoles();
     const [mounted, setMounted] = useState(false);
 
     // Prevent hydration mismatch
@@ -33,6 +38,16 @@ export function Navbar() {
         connect({ connector: injected() });
     };
 
+    // The session cookie must not outlive the wallet connection it was created for
+    const handleDisconnect = () => {
+        if (isAuthenticated) signOut();
+        disconnect();
+    };
+
+    const handleSignIn = () => {
+        signIn().catch((e: unknown) => console.error('Sign-in failed:', e));
+    };
+
     return (
         <nav className="fixed top-0 left-0 right-0 z-50 glass border-b border-white/10">
             <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -58,6 +73,14 @@ export function Navbar() {
                         <Link href="/how-it-works" className="text-sm font-medium hover:text-white transition-colors">
                             How it Works
                         </Link>
+                        <Link href="/dashboard" className="text-sm font-medium hover:text-white transition-colors">
+                            Dashboard
+                        </Link>
+                        {mounted && hasAdminRole && (
+                            <Link href="/admin" className="text-sm font-medium hover:text-white transition-colors">
+                                Admin
+                            </Link>
+                        )}
                         <Link href="/messages" className="text-sm font-medium hover:text-white transition-colors relative group">
                             <MessageCircle className="w-5 h-5 text-muted-foreground group-hover:text-primary transition-colors" />
                             <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-red-500 rounded-full border-2 border-background"></span>
@@ -72,10 +95,21 @@ export function Navbar() {
                                 <span className="text-sm font-medium text-muted-foreground mr-2">
                                     {address?.slice(0, 6)}...{address?.slice(-4)}
                                 </span>
+                                {!isAuthenticated && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={handleSignIn}
+                                        disabled={isSigningIn}
+                                        className="h-auto p-1 text-primary"
+                                    >
+                                        {isSigningIn ? 'Signing In...' : 'Sign In'}
+                                    </Button>
+                                )}
                                 <Button
                                     size="sm"
                                     variant="ghost"
-                                    onClick={() => disconnect()}
+                                    onClick={handleDisconnect}
                                     className="h-auto p-1 text-muted-foreground hover:text-destructive"
                                 >
                                     Disconnect
@@ -101,6 +135,12 @@ export function Navbar() {
                 </div>
             </div>
 
+            {mounted && isPaused && (
+                <div className="bg-yellow-500/10 border-t border-yellow-500/20 text-yellow-500 text-xs text-center py-1">
+                    The marketplace is paused. New services and escrows are disabled; existing escrows can still be settled.
+                </div>
+            )}
+
             {/* Mobile Menu */}
             {isOpen && (
                 <motion.div
@@ -120,11 +160,27 @@ export function Navbar() {
                                 {item.name}
                             </Link>
                         ))}
+                        {mounted && hasAdminRole && (
+                            <Link
+                                href="/admin"
+                                className="text-sm font-medium text-muted-foreground hover:text-primary"
+                                onClick={() => setIsOpen(false)}
+                            >
+                                Admin
+                            </Link>
+                        )}
                         <div className="flex flex-col gap-2 pt-4 border-t border-white/10">
                             {mounted && isConnected ? (
-                                <Button variant="outline" size="sm" className="w-full" onClick={() => disconnect()}>
-                                    Disconnect
-                                </Button>
+                                <>
+                                    {!isAuthenticated && (
+                                        <Button size="sm" className="w-full" onClick={handleSignIn} disabled={isSigningIn}>
+                                            {isSigningIn ? 'Signing In...' : 'Sign In'}
+                                        </Button>
+                                    )}
+                                    <Button variant="outline" size="sm" className="w-full" onClick={handleDisconnect}>
+                                        Disconnect
+                                    </Button>
+                                </>
                             ) : (
                                 <Button size="sm" className="w-full gap-2" onClick={handleConnect}>
                                     <Wallet className="w-4 h-4" />
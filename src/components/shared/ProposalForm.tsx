@@ -0,0 +1,156 @@
+'use client';
+
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { Textarea } from '@/components/ui/Textarea';
+import { MilestoneEditor } from '@/components/shared/MilestoneEditor';
+import { Layers, Send } from 'lucide-react';
+import Link from 'next/link';
+import { useState } from 'react';
+import { uploadJSONToIPFS } from '@/lib/ipfs';
+import { emptyMilestone, type MilestoneDraft } from '@/lib/milestones';
+import {
+    MAX_COVER_LETTER,
+    PROPOSAL_STATUS_LABELS,
+    validateProposal,
+    type Proposal,
+    type ProposalInput,
+} from '@/lib/proposals';
+import { parseTokenAmount, PAYMENT_TOKENS, tokenBySymbol, type PaymentToken } from '@/lib/tokens';
+
+interface ProposalFormProps {
+    jobCid: string;
+    existing: Proposal | null; // The freelancer's earlier proposal on this job, if any
+    onSubmitted: (proposal: Proposal) => void;
+}
+
+/**
+ * Freelancer's bid on a posted job. The proposal is uploaded to IPFS as a document and
+ * registered against the job CID; each wallet proposes once per job.
+ */
+export function ProposalForm({ jobCid, existing, onSubmitted }: ProposalFormProps) {
+    const [price, setPrice] = useState('');
+    const [currency, setCurrency] = useState<PaymentToken['symbol']>('MATIC');
+    const [timelineDays, setTimelineDays] = useState('7');
+    const [coverLetter, setCoverLetter] = useState('');
+    const [useMilestones, setUseMilestones] = useState(false);
+    const [milestones, setMilestones] = useState<MilestoneDraft[]>([emptyMilestone()]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [proposalErr, setProposalErr] = useState<string | null>(null);
+
+    if (existing) {
+        return (
+            <Card className="space-y-2">
+                <h2 className="text-xl font-bold">Your Proposal</h2>
+                <p className="text-sm text-muted-foreground">
+                    {existing.price} {existing.currency} • {existing.timelineDays} days • {PROPOSAL_STATUS_LABELS[existing.status]}
+                </p>
+                {existing.status === 'accepted' && existing.escrowId && (
+                    <Link href={`/escrows/${existing.escrowId}`} className="text-sm text-primary hover:underline">
+                        The client funded an escrow. Review and accept the offer.
+                    </Link>
+                )}
+            </Card>
+        );
+    }
+
+    const token = tokenBySymbol(currency);
+    let total = BigInt(0);
+    try {
+        total = parseTokenAmount(price || '0', token);
+    } catch {}
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setProposalErr(null);
+        const input: ProposalInput = {
+            price,
+            currency,
+            timelineDays: Number(timelineDays),
+            coverLetter: coverLetter.trim(),
+            milestones: useMilestones ? milestones : [],
+        };
+        const problem = validateProposal(input);
+        if (problem) {
+            setProposalErr(problem);
+            return;
+        }
+
+        try {
+            setIsSubmitting(true);
+            const { cid } = await uploadJSONToIPFS({ jobCid, ...input, createdAt: new Date().toISOString() });
+            const res = await fetch(`/api/jobs/${jobCid}/proposals`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ cid, ...input }),
+            });
+            if (!res.ok) {
+                const { error } = await res.json().catch(() => ({ error: res.statusText }));
+                throw new Error(error);
+            }
+            onSubmitted(await res.json());
+        } catch (e: unknown) {
+            setProposalErr(e instanceof Error ? e.message : 'Failed to submit proposal');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Card>
+            <h2 className="text-xl font-bold mb-4">Submit a Proposal</h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                        <Label>Price</Label>
+                        <Input value={price} onChange={(e) => setPrice(e.target.value)} placeholder="0.00" className="bg-white/5" />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Currency</Label>
+                        <select
+                            value={currency}
+                            onChange={(e) => setCurrency(e.target.value as PaymentToken['symbol'])}
+                            className="w-full h-11 bg-white/5 border border-white/10 rounded-xl px-3"
+                        >
+                            {PAYMENT_TOKENS.map((t) => (
+                                <option key={t.symbol} value={t.symbol}>{t.symbol}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Timeline (days)</Label>
+                        <Input type="number" min={1} value={timelineDays} onChange={(e) => setTimelineDays(e.target.value)} className="bg-white/5" />
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <Label>Cover Letter</Label>
+                    <Textarea
+                        value={coverLetter}
+                        onChange={(e) => setCoverLetter(e.target.value)}
+                        placeholder="Why you are a good fit, and how you would approach the work"
+                        maxLength={MAX_COVER_LETTER}
+                        className="min-h-[160px]"
+                    />
+                    <p className="text-xs text-muted-foreground text-right">{coverLetter.length}/{MAX_COVER_LETTER}</p>
+                </div>
+
+                <Button type="button" variant="ghost" size="sm" onClick={() => setUseMilestones(!useMilestones)}>
+                    <Layers className="w-4 h-4 mr-2" />
+                    {useMilestones ? 'Remove Milestones' : 'Split Into Milestones'}
+                </Button>
+                {useMilestones && (
+                    <MilestoneEditor total={total} milestones={milestones} onChange={setMilestones} token={token} />
+                )}
+
+                {proposalErr && <p className="text-yellow-500 text-xs">{proposalErr}</p>}
+                <Button type="submit" className="w-full" isLoading={isSubmitting}>
+                    <Send className="w-4 h-4 mr-2" />
+                    Submit Proposal
+                </Button>
+            </form>
+        </Card>
+    );
+}
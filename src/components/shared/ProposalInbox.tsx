@@ -0,0 +1,281 @@
+'use client';
+
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { FeeBreakdown } from '@/components/shared/FeeBreakdown';
+import { CheckCircle2, ExternalLink, Loader2, RotateCw, ShieldCheck, Star, X } from 'lucide-react';
+import { format } from 'date-fns';
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { decodeEventLog } from 'viem';
+import { useAccount, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { escrowXContractConfig } from '@/lib/contract';
+import { getIPFSUrl, uploadJSONToIPFS } from '@/lib/ipfs';
+import { prepareMilestones, validateMilestones } from '@/lib/milestones';
+import { PROPOSAL_STATUS_LABELS, type Proposal, type ProposalStatus } from '@/lib/proposals';
+import { ensureAllowance, isNativeToken, parseTokenAmount, tokenBySymbol } from '@/lib/tokens';
+
+interface ProposalInboxProps {
+    jobCid: string;
+    proposals: Proposal[];
+    onChanged: (proposal: Proposal) => void;
+}
+
+const FILTERS: (ProposalStatus | 'all')[] = ['all', 'pending', 'shortlisted', 'rejected', 'accepted'];
+
+async function setStatus(id: number, status: ProposalStatus, escrowId?: number): Promise<Proposal> {
+    const res = await fetch(`/api/proposals/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, escrowId }),
+    });
+    if (!res.ok) {
+        const { error } = await res.json().catch(() => ({ error: res.statusText }));
+        throw new Error(error);
+    }
+    return res.json();
+}
+
+/**
+ * The job poster's view of the proposals on a job. Accepting funds a custom escrow offer
+ * for the proposed price and timeline (createCustomEscrow), or a milestone escrow whose first
+ * milestone is funded (createCustomMilestoneEscrow) when the proposal is split into milestones.
+ * Once the transaction confirms the proposal is linked to the new escrow.
+ */
+export function ProposalInbox({ jobCid, proposals, onChanged }: ProposalInboxProps) {
+    const { address } = useAccount();
+    const [filter, setFilter] = useState<ProposalStatus | 'all'>('all');
+    const [acceptingId, setAcceptingId] = useState<number | null>(null);
+    const [isPreparing, setIsPreparing] = useState(false);
+    const [linkFailed, setLinkFailed] = useState(false);
+    const [inboxErr, setInboxErr] = useState<string | null>(null);
+
+    const { writeContract, data: hash, isPending, error: writeError, reset } = useWriteContract();
+    const { data: receipt, isLoading: isConfirming } = useWaitForTransactionReceipt({ hash });
+
+    const hasAccepted = proposals.some((p) => p.status === 'accepted');
+    const visible = filter === 'all' ? proposals : proposals.filter((p) => p.status === filter);
+
+    // The escrow created by the confirmed transaction
+    const fundedEscrowId = useMemo(() => {
+        const created = receipt?.logs
+            .map((log) => {
+                try {
+                    return decodeEventLog({ abi: escrowXContractConfig.abi, data: log.data, topics: log.topics });
+                } catch {
+                    return null;
+                }
+            })
+            .find((event) => event?.eventName === 'EscrowCreated')
+            ?.args as { id: bigint } | undefined;
+        return created ? Number(created.id) : null;
+    }, [receipt]);
+
+    const linkEscrow = useCallback((proposalId: number, escrowId: number) => {
+        setStatus(proposalId, 'accepted', escrowId)
+            .then((proposal) => {
+                onChanged(proposal);
+                setAcceptingId(null);
+                reset();
+            })
+            .catch((e: unknown) => {
+                setLinkFailed(true);
+                setInboxErr(e instanceof Error ? e.message : 'Failed to record acceptance');
+            });
+    }, [onChanged, reset]);
+
+    // Link the proposal to the funded escrow. The escrow exists from here on, so a failed
+    // update is retried on its own rather than funding another one
+    useEffect(() => {
+        if (fundedEscrowId === null || acceptingId === null || linkFailed) return;
+        linkEscrow(acceptingId, fundedEscrowId);
+    }, [fundedEscrowId, acceptingId, linkFailed, linkEscrow]);
+
+    const handleRetryLink = () => {
+        setInboxErr(null);
+        setLinkFailed(false);
+    };
+
+    const handleStatus = (proposal: Proposal, status: ProposalStatus) => {
+        setInboxErr(null);
+        setStatus(proposal.id, status)
+            .then(onChanged)
+            .catch((e: unknown) => setInboxErr(e instanceof Error ? e.message : 'Failed to update proposal'));
+    };
+
+    const handleAccept = async (proposal: Proposal) => {
+        if (!address) return;
+        setInboxErr(null);
+        const token = tokenBySymbol(proposal.currency);
+        try {
+            setAcceptingId(proposal.id);
+            setIsPreparing(true);
+            const price = parseTokenAmount(proposal.price, token);
+            if (proposal.milestones.length > 0) {
+                const problem = validateMilestones(proposal.milestones, price, token);
+                if (problem) throw new Error(problem);
+            }
+            const { cid } = await uploadJSONToIPFS({
+                jobCid,
+                proposalCid: proposal.cid,
+                buyer: address,
+                seller: proposal.freelancer,
+                price: proposal.price,
+                currency: proposal.currency,
+                timelineDays: proposal.timelineDays,
+                milestones: proposal.milestones,
+                createdAt: new Date().toISOString(),
+            });
+            if (proposal.milestones.length > 0) {
+                const { amounts, descriptions, deadlines } = await prepareMilestones(proposal.milestones, token);
+                // Only the first milestone is paid now; the rest are funded from the escrow page
+                await ensureAllowance(token, address, amounts[0]);
+                writeContract({
+                    ...escrowXContractConfig,
+                    functionName: 'createCustomMilestoneEscrow',
+                    args: [proposal.freelancer, amounts, descriptions, deadlines, cid, token.address],
+                    value: isNativeToken(token) ? amounts[0] : undefined,
+                });
+                return;
+            }
+            await ensureAllowance(token, address, price);
+            writeContract({
+                ...escrowXContractConfig,
+                functionName: 'createCustomEscrow',
+                args: [proposal.freelancer, price, BigInt(proposal.timelineDays * 24 * 60 * 60), cid, token.address],
+                value: isNativeToken(token) ? price : undefined,
+            });
+        } catch (e: unknown) {
+            setAcceptingId(null);
+            setInboxErr(e instanceof Error ? e.message : 'Failed to prepare escrow');
+        } finally {
+            setIsPreparing(false);
+        }
+    };
+
+    const isBusy = isPreparing || isPending || isConfirming || fundedEscrowId !== null;
+
+    return (
+        <Card className="space-y-4">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+                <h2 className="text-xl font-bold">Proposals <span className="text-sm text-muted-foreground font-normal">{proposals.length}</span></h2>
+                <div className="flex gap-1">
+                    {FILTERS.map((f) => (
+                        <Button key={f} size="sm" variant={filter === f ? 'secondary' : 'ghost'} onClick={() => setFilter(f)}>
+                            {f === 'all' ? 'All' : PROPOSAL_STATUS_LABELS[f]}
+                        </Button>
+                    ))}
+                </div>
+            </div>
+
+            {visible.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No proposals here yet.</p>
+            ) : (
+                <div className="space-y-4">
+                    {visible.map((proposal) => (
+                        <div key={proposal.id} className="border border-white/10 rounded-xl p-4 space-y-3">
+                            <div className="flex justify-between items-start gap-4">
+                                <div>
+                                    <Link href={`/u/${proposal.freelancer}`} className="font-semibold hover:text-primary">
+                                        {proposal.freelancer.slice(0, 6)}...{proposal.freelancer.slice(-4)}
+                                    </Link>
+                                    <div className="text-xs text-muted-foreground">
+                                        {format(new Date(proposal.createdAt), 'MMM d, yyyy')} • {PROPOSAL_STATUS_LABELS[proposal.status]}
+                                    </div>
+                                </div>
+                                <div className="text-right">
+                                    <div className="font-bold">{proposal.price} <span className="text-xs text-muted-foreground">{proposal.currency}</span></div>
+                                    <div className="text-xs text-muted-foreground">{proposal.timelineDays} days</div>
+                                </div>
+                            </div>
+
+                            <p className="text-sm whitespace-pre-wrap">{proposal.coverLetter}</p>
+
+                            {proposal.milestones.length > 0 && (
+                                <ol className="text-sm space-y-1">
+                                    {proposal.milestones.map((m, i) => (
+                                        <li key={i} className="flex justify-between text-muted-foreground">
+                                            <span>{i + 1}. {m.title}</span>
+                                            <span>{m.amount} {proposal.currency} by {m.deadline}</span>
+                                        </li>
+                                    ))}
+                                </ol>
+                            )}
+
+                            {proposal.status !== 'accepted' && !hasAccepted && (
+                                <FeeBreakdown
+                                    amount={parseTokenAmount(proposal.price, tokenBySymbol(proposal.currency))}
+                                    token={tokenBySymbol(proposal.currency)}
+                                />
+                            )}
+
+                            <div className="flex flex-wrap items-center gap-2">
+                                <a href={getIPFSUrl(proposal.cid)} target="_blank" rel="noopener noreferrer" className="text-xs text-primary hover:underline flex items-center gap-1 mr-auto">
+                                    Proposal Document <ExternalLink className="w-3 h-3" />
+                                </a>
+                                {proposal.status === 'accepted' ? (
+                                    proposal.escrowId && (
+                                        <Link href={`/escrows/${proposal.escrowId}`} className="text-sm text-green-500 flex items-center gap-1">
+                                            <CheckCircle2 className="w-4 h-4" /> Escrow #{proposal.escrowId}
+                                        </Link>
+                                    )
+                                ) : !hasAccepted && (
+                                    <>
+                                        {proposal.status !== 'shortlisted' && (
+                                            <Button size="sm" variant="ghost" onClick={() => handleStatus(proposal, 'shortlisted')} disabled={isBusy}>
+                                                <Star className="w-4 h-4 mr-1" /> Shortlist
+                                            </Button>
+                                        )}
+                                        {proposal.status !== 'rejected' && (
+                                            <Button size="sm" variant="ghost" onClick={() => handleStatus(proposal, 'rejected')} disabled={isBusy}>
+                                                <X className="w-4 h-4 mr-1" /> Reject
+                                            </Button>
+                                        )}
+                                        <Button size="sm" onClick={() => handleAccept(proposal)} disabled={isBusy}>
+                                            {acceptingId === proposal.id && isBusy
+                                                ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                                                : <ShieldCheck className="w-4 h-4 mr-1" />}
+                                            Accept & Fund
+                                        </Button>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {isConfirming && (
+                <div className="p-3 bg-blue-500/10 text-blue-500 text-sm rounded-lg flex items-center gap-2">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Funding escrow on blockchain...
+                </div>
+            )}
+            {inboxErr && <p className="text-yellow-500 text-xs">{inboxErr}</p>}
+            {linkFailed && fundedEscrowId !== null && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">
+                        Escrow #{fundedEscrowId} is funded, but the proposal is not marked accepted yet.
+                    </span>
+                    <Button size="sm" variant="ghost" onClick={handleRetryLink}>
+                        <RotateCw className="w-4 h-4 mr-1" /> Retry
+                    </Button>
+                </div>
+            )}
+            {writeError && (
+                <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 text-yellow-500 text-sm rounded-lg text-center">
+                    {(() => {
+                        const msg = writeError.message?.toLowerCase() || '';
+                        if (msg.includes('user rejected') || msg.includes('user denied')) {
+                            return "Transaction incomplete due to user rejection.";
+                        }
+                        if (msg.includes('insufficient funds') || msg.includes('exceeds balance')) {
+                            return "Transaction incomplete due to insufficient funds.";
+                        }
+                        return "Transaction incomplete.";
+                    })()}
+                </div>
+            )}
+        </Card>
+    );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { Button } from '@/components/ui/Button';
+import { Textarea } from '@/components/ui/Textarea';
+import { CheckCircle2, Loader2, Star } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { escrowXContractConfig } from '@/lib/contract';
+import { uploadJSONToIPFS } from '@/lib/ipfs';
+
+interface ReviewFormProps {
+    escrowId: bigint;
+    counterparty: string; // Shortened address of the participant being reviewed
+    onSubmitted?: () => void;
+}
+
+/**
+ * 1-5 rating of the other participant of a finished escrow. The optional comment is
+ * uploaded to IPFS and only its CID goes on-chain; the contract allows one review each.
+ */
+export function ReviewForm({ escrowId, counterparty, onSubmitted }: ReviewFormProps) {
+    const { address } = useAccount();
+    const [rating, setRating] = useState(0);
+    const [hovered, setHovered] = useState(0);
+    const [comment, setComment] = useState('');
+    const [isUploading, setIsUploading] = useState(false);
+    const [reviewErr, setReviewErr] = useState<string | null>(null);
+
+    const { data: hasReviewed, refetch } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'hasReviewed',
+        args: address ? [escrowId, address] : undefined,
+        query: { enabled: !!address },
+    });
+
+    const { writeContract, data: hash, isPending, error: writeError } = useWriteContract();
+    const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
+
+    useEffect(() => {
+        if (isConfirmed) {
+            refetch();
+            onSubmitted?.();
+        }
+    }, [isConfirmed, refetch, onSubmitted]);
+
+    if (hasReviewed) {
+        return (
+            <div className="text-sm text-green-500 flex items-center gap-2">
+                <CheckCircle2 className="w-4 h-4" />
+                You reviewed this escrow.
+            </div>
+        );
+    }
+
+    const handleSubmit = async () => {
+        setReviewErr(null);
+        if (rating < 1) {
+            setReviewErr('Choose a rating from 1 to 5 stars');
+            return;
+        }
+        try {
+            setIsUploading(true);
+            const commentCid = comment.trim()
+                ? (await uploadJSONToIPFS({ escrowId: escrowId.toString(), rating, comment: comment.trim() })).cid
+                : '';
+            writeContract({
+                ...escrowXContractConfig,
+                functionName: 'submitReview',
+                args: [escrowId, rating, commentCid],
+            });
+        } catch (e: unknown) {
+            setReviewErr(e instanceof Error ? e.message : 'Failed to upload review');
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    const isBusy = isUploading || isPending || isConfirming;
+
+    return (
+        <div className="border border-white/10 rounded-md p-3 space-y-3">
+            <div className="text-sm font-semibold">Rate {counterparty}</div>
+            <div className="flex gap-1" onMouseLeave={() => setHovered(0)}>
+                {[1, 2, 3, 4, 5].map((value) => (
+                    <button
+                        key={value}
+                        type="button"
+                        aria-label={`${value} star${value > 1 ? 's' : ''}`}
+                        onMouseEnter={() => setHovered(value)}
+                        onClick={() => setRating(value)}
+                    >
+                        <Star className={`w-5 h-5 ${value <= (hovered || rating) ? 'text-yellow-500 fill-current' : 'text-muted-foreground'}`} />
+                    </button>
+                ))}
+            </div>
+            <Textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="How did it go? (optional)"
+                className="min-h-[80px]"
+            />
+            {reviewErr && <p className="text-yellow-500 text-xs">{reviewErr}</p>}
+            {writeError && (
+                <p className="text-yellow-500 text-xs">
+                    {writeError.message?.toLowerCase().includes('user rejected') ? 'Transaction incomplete due to user rejection.' : 'Transaction incomplete.'}
+                </p>
+            )}
+            <Button size="sm" onClick={handleSubmit} disabled={isBusy}>
+                {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Submit Review
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Handshake, Loader2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { zeroAddress } from 'viem';
+import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { BPS_DENOMINATOR, escrowXContractConfig, formatBps, type OnChainEscrow, type OnChainSettlement } from '@/lib/contract';
+import { formatTokenAmount, getToken, tokenSymbol } from '@/lib/tokens';
+
+interface SettlementPanelProps {
+    escrow: OnChainEscrow;
+    onUpdated?: () => void;
+}
+
+/**
+ * Mutual cancellation before delivery: one participant proposes how the escrowed funds are
+ * split, the other accepts (settling on-chain at once) or declines. A 100% buyer share is a
+ * full cancellation.
+ */
+export function SettlementPanel({ escrow, onUpdated }: SettlementPanelProps) {
+    const { address } = useAccount();
+    const [isProposing, setIsProposing] = useState(false);
+    const [refundPercent, setRefundPercent] = useState('100');
+
+    const { data: settlementData, refetch } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'settlements',
+        args: [escrow.id],
+    });
+
+    const { writeContract, data: hash, isPending, error: writeError } = useWriteContract();
+    const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
+
+    useEffect(() => {
+        if (isConfirmed) {
+            refetch();
+            onUpdated?.();
+        }
+    }, [isConfirmed, refetch, onUpdated]);
+
+    const token = getToken(escrow.paymentToken);
+    const symbol = tokenSymbol(token);
+    const [proposedBy, buyerBps] = (settlementData as OnChainSettlement | undefined) ?? [zeroAddress, BigInt(0)];
+    const hasProposal = proposedBy !== zeroAddress;
+    const isProposer = hasProposal && proposedBy.toLowerCase() === address?.toLowerCase();
+    const isBusy = isPending || isConfirming;
+
+    const splitOf = (bps: bigint) => {
+        const buyerAmount = (escrow.amount * bps) / BigInt(BPS_DENOMINATOR);
+        return { buyerAmount, sellerAmount: escrow.amount - buyerAmount };
+    };
+
+    const call = (functionName: string, args: unknown[]) => {
+        writeContract({ ...escrowXContractConfig, functionName, args });
+    };
+
+    const percent = Number(refundPercent);
+    const isValidPercent = refundPercent !== '' && Number.isFinite(percent) && percent >= 0 && percent <= 100;
+    const draftBps = BigInt(Math.round((isValidPercent ? percent : 0) * 100));
+
+    const describe = (bps: bigint) => {
+        const { buyerAmount, sellerAmount } = splitOf(bps);
+        return `Buyer refunded ${formatTokenAmount(buyerAmount, token)} ${symbol} (${formatBps(bps)}), seller paid ${formatTokenAmount(sellerAmount, token)} ${symbol}.`;
+    };
+
+    if (hasProposal) {
+        const proposer = proposedBy.toLowerCase() === escrow.buyer.toLowerCase() ? 'The buyer' : 'The seller';
+        return (
+            <div className="border border-primary/30 bg-primary/5 rounded-md p-3 space-y-2">
+                <div className="text-sm font-semibold flex items-center gap-2">
+                    <Handshake className="w-4 h-4 text-primary" />
+                    {isProposer ? 'You proposed a settlement' : `${proposer} proposed a settlement`}
+                </div>
+                <p className="text-xs text-muted-foreground">{describe(buyerBps)}</p>
+                <div className="flex gap-2">
+                    {!isProposer && (
+                        <Button size="sm" onClick={() => call('acceptSettlement', [escrow.id, buyerBps])} disabled={isBusy}>
+                            {isBusy && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                            Accept & Settle
+                        </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => call('declineSettlement', [escrow.id])} disabled={isBusy}>
+                        {isProposer ? 'Withdraw Proposal' : 'Decline'}
+                    </Button>
+                </div>
+                {writeError && <SettlementError message={writeError.message} />}
+            </div>
+        );
+    }
+
+    if (!isProposing) {
+        return (
+            <Button size="sm" variant="ghost" onClick={() => setIsProposing(true)}>
+                <Handshake className="w-4 h-4 mr-1" />
+                Propose Settlement
+            </Button>
+        );
+    }
+
+    return (
+        <div className="border border-white/10 rounded-md p-3 space-y-2">
+            <div className="text-sm font-semibold">Propose a settlement</div>
+            <div className="flex items-center gap-2">
+                <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={refundPercent}
+                    onChange={(e) => setRefundPercent(e.target.value)}
+                    className="w-24 h-9 bg-white/5"
+                />
+                <span className="text-xs text-muted-foreground">% refunded to the buyer</span>
+            </div>
+            {isValidPercent && <p className="text-xs text-muted-foreground">{describe(draftBps)}</p>}
+            <div className="flex gap-2">
+                <Button size="sm" onClick={() => call('proposeSettlement', [escrow.id, draftBps])} disabled={isBusy || !isValidPercent}>
+                    {isBusy && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                    Send Proposal
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setIsProposing(false)} disabled={isBusy}>
+                    Cancel
+                </Button>
+            </div>
+            {writeError && <SettlementError message={writeError.message} />}
+        </div>
+    );
+}
+
+function SettlementError({ message }: { message?: string }) {
+    return (
+        <p className="text-yellow-500 text-xs">
+            {message?.toLowerCase().includes('user rejected') ? 'Transaction incomplete due to user rejection.' : 'Transaction incomplete.'}
+        </p>
+    );
+}
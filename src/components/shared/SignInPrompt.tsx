@@ -0,0 +1,32 @@
+'use client';
+
+import { Button } from '@/components/ui/Button';
+import { useAccount } from 'wagmi';
+import { useSession } from '@/hooks/useSession';
+
+/**
+ * Shown in place of an action that needs a signed-in wallet. Renders nothing once the
+ * connected wallet has a session.
+ */
+export function SignInPrompt({ action }: { action: string }) {
+    const { isConnected } = useAccount();
+    const { isAuthenticated, signIn, isSigningIn, signInError } = useSession();
+
+    if (isAuthenticated) return null;
+
+    return (
+        <div className="p-4 bg-yellow-500/10 text-yellow-500 rounded-lg text-sm flex items-center justify-between gap-4">
+            <span>
+                {isConnected
+                    ? `Sign in with your wallet to ${action}.`
+                    : `Connect your wallet and sign in to ${action}.`}
+                {signInError && <span className="block text-xs mt-1">{signInError.message}</span>}
+            </span>
+            {isConnected && (
+                <Button type="button" size="sm" onClick={() => signIn().catch(() => {})} isLoading={isSigningIn}>
+                    Sign In
+                </Button>
+            )}
+        </div>
+    );
+}
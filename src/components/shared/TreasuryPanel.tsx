@@ -0,0 +1,95 @@
+'use client';
+
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Landmark, Loader2 } from 'lucide-react';
+import { useEffect } from 'react';
+import type { Abi } from 'viem';
+import { useAccount, useReadContract, useReadContracts, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { escrowXContractConfig, formatBps } from '@/lib/contract';
+import { PAYMENT_TOKENS, formatTokenAmount } from '@/lib/tokens';
+
+/**
+ * Platform fees accrued per payment currency, shown only to the treasury wallet. Fees stay
+ * in the contract until the treasury pulls them with withdrawFees.
+ */
+export function TreasuryPanel() {
+    const { address } = useAccount();
+
+    const { data: treasury } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'treasury',
+    });
+    const { data: feeBps } = useReadContract({
+        ...escrowXContractConfig,
+        functionName: 'feeBps',
+    });
+
+    const isTreasury = !!address && typeof treasury === 'string' && treasury.toLowerCase() === address.toLowerCase();
+
+    const { data: accrued, refetch } = useReadContracts({
+        contracts: PAYMENT_TOKENS.map((token) => ({
+            address: escrowXContractConfig.address,
+            abi: escrowXContractConfig.abi as Abi,
+            functionName: 'accruedFees',
+            args: [token.address],
+        })),
+        query: { enabled: isTreasury },
+    });
+
+    const { writeContract, data: hash, isPending, error: writeError } = useWriteContract();
+    const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
+
+    useEffect(() => {
+        if (isConfirmed) refetch();
+    }, [isConfirmed, refetch]);
+
+    if (!isTreasury) return null;
+
+    const isBusy = isPending || isConfirming;
+
+    return (
+        <Card className="mb-10 space-y-4">
+            <div className="flex items-center justify-between">
+                <h2 className="text-xl font-bold flex items-center gap-2">
+                    <Landmark className="w-5 h-5 text-primary" />
+                    Platform Treasury
+                </h2>
+                <span className="text-sm text-muted-foreground">
+                    Current fee: {typeof feeBps === 'bigint' && feeBps > BigInt(0) ? formatBps(feeBps) : 'none'}
+                </span>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {PAYMENT_TOKENS.map((token, i) => {
+                    const amount = (accrued?.[i]?.result as bigint | undefined) ?? BigInt(0);
+                    return (
+                        <div key={token.symbol} className="border border-white/10 rounded-xl p-3 flex items-center justify-between gap-2">
+                            <div>
+                                <div className="text-xs text-muted-foreground">{token.symbol}</div>
+                                <div className="font-bold">{formatTokenAmount(amount, token)}</div>
+                            </div>
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={isBusy || amount === BigInt(0)}
+                                onClick={() => writeContract({
+                                    ...escrowXContractConfig,
+                                    functionName: 'withdrawFees',
+                                    args: [token.address],
+                                })}
+                            >
+                                {isBusy && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                                Withdraw
+                            </Button>
+                        </div>
+                    );
+                })}
+            </div>
+            {writeError && (
+                <p className="text-yellow-500 text-xs">
+                    {writeError.message?.toLowerCase().includes('user rejected') ? 'Transaction incomplete due to user rejection.' : 'Transaction incomplete.'}
+                </p>
+            )}
+        </Card>
+    );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { zeroAddress, type Abi } from 'viem';
+import { useAccount, useReadContracts } from 'wagmi';
+import { escrowXContractConfig } from '@/lib/contract';
+
+const abi = escrowXContractConfig.abi as Abi;
+
+/**
+ * Admin roles the connected wallet holds on the escrow contract, plus the pause flag. The
+ * owner holds every role implicitly, matching the contract's onlyPauser and
+ * onlyArbiterManager modifiers.
+ */
+export function useContractRoles() {
+    const { address } = useAccount();
+    const account = address ?? zeroAddress;
+
+    const { data, isLoading, refetch } = useReadContracts({
+        contracts: [
+            { address: escrowXContractConfig.address, abi, functionName: 'owner' },
+            { address: escrowXContractConfig.address, abi, functionName: 'paused' },
+            { address: escrowXContractConfig.address, abi, functionName: 'pausers', args: [account] },
+            { address: escrowXContractConfig.address, abi, functionName: 'arbiterManagers', args: [account] },
+            { address: escrowXContractConfig.address, abi, functionName: 'arbiters', args: [account] },
+        ],
+    });
+
+    const [owner, paused, pauser, arbiterManager, arbiter] = (data ?? []).map((r) => r.result);
+    const isOwner = !!address && typeof owner === 'string' && owner.toLowerCase() === address.toLowerCase();
+    const isPauser = isOwner || (!!address && pauser === true);
+    const isArbiterManager = isOwner || (!!address && arbiterManager === true);
+
+    return {
+        owner: owner as `0x${string}` | undefined,
+        isPaused: paused === true,
+        isOwner,
+        isPauser,
+        isArbiterManager,
+        isArbiter: !!address && arbiter === true,
+        hasAdminRole: isOwner || isPauser || isArbiterManager,
+        isLoading,
+        refetch,
+    };
+}
@@ -0,0 +1,354 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { verifyMessage } from 'viem';
+import { useSignMessage } from 'wagmi';
+import { useSession } from '@/hooks/useSession';
+import {
+    decryptMessage,
+    deriveMessagingKeyPair,
+    encryptAttachment,
+    encryptMessage,
+    loadMessagingKeyPair,
+    sha256Hex,
+    storeMessagingKeyPair,
+    type MessagingKeyPair,
+} from '@/lib/messageCrypto';
+import type { IndexedEvent } from '@/lib/indexer/types';
+import { uploadFilesToIPFS } from '@/lib/ipfs';
+import { checkUpload } from '@/lib/uploads';
+import {
+    encodeMessageContent,
+    messagingKeyMessage,
+    messagingSeedMessage,
+    parseMessageContent,
+    MAX_ATTACHMENTS,
+    THREAD_EVENTS,
+    type ConversationSummary,
+    type EncryptedMessage,
+    type MessageAttachment,
+    type MessageReceipt,
+    type MessagingEvent,
+    type MessagingKey,
+} from '@/lib/messages';
+
+// A message with its content decrypted; text is null if it was encrypted to an earlier key
+export interface ChatMessage extends EncryptedMessage {
+    text: string | null;
+    attachments: MessageAttachment[];
+    senderUnverified: boolean; // Sent with a key the sender never signed, so it was not decrypted
+}
+
+export interface OutgoingMessage {
+    text: string;
+    files: File[];
+    encryptFiles: boolean; // Upload attachments as ciphertext only the two wallets can open
+}
+
+export interface ChatConversation extends ConversationSummary {
+    preview: string | null;
+}
+
+const keyPairQueryKey = (address?: string) => ['messaging', 'key-pair', address];
+const conversationsQueryKey = (address?: string) => ['messaging', 'conversations', address];
+const messagesQueryKey = (address?: string, peer?: string, escrowId?: number | null) =>
+    escrowId === undefined
+        ? ['messaging', 'messages', address, peer?.toLowerCase()]
+        : ['messaging', 'messages', address, peer?.toLowerCase(), escrowId];
+const peerKeyQueryKey = (peer?: string) => ['messaging', 'peer-key', peer?.toLowerCase()];
+const threadEventsQueryKey = (escrowId: number | null) => ['messaging', 'thread-events', escrowId];
+
+// Matches the indexer's sync interval; new contract events cannot show up any sooner
+const THREAD_EVENTS_REFRESH_MS = 15000;
+
+async function readError(res: Response): Promise<Error> {
+    const { error } = await res.json().catch(() => ({ error: res.statusText }));
+    return new Error(error);
+}
+
+async function fetchMessagingKey(address: string): Promise<MessagingKey | null> {
+    const res = await fetch(`/api/messages/keys?address=${address}`);
+    if (res.status === 404) return null;
+    if (!res.ok) throw await readError(res);
+    return (await res.json()) as MessagingKey;
+}
+
+// The server only relays keys; the wallet's own signature proves which key is theirs
+async function fetchVerifiedMessagingKey(address: `0x${string}`): Promise<MessagingKey | null> {
+    const key = await fetchMessagingKey(address);
+    if (!key) return null;
+    const valid = await verifyMessage({
+        address,
+        message: messagingKeyMessage(address, key.publicKey),
+        signature: key.signature,
+    }).catch(() => false);
+    if (!valid) throw new Error("This wallet's messaging key is not signed by it. Messages to it are disabled.");
+    return key;
+}
+
+/**
+ * Whether an incoming message's senderKey is the key its sender signed. A mismatch is
+ * checked once more against a fresh copy, in case the sender has published a new key.
+ */
+async function isSenderKeyVerified(queryClient: QueryClient, message: EncryptedMessage): Promise<boolean> {
+    const peer = message.sender as `0x${string}`;
+    const fetchKey = (staleTime: number) =>
+        queryClient
+            .fetchQuery({ queryKey: peerKeyQueryKey(peer), queryFn: () => fetchVerifiedMessagingKey(peer), staleTime, retry: false })
+            .catch(() => null);
+
+    if ((await fetchKey(Infinity))?.publicKey === message.senderKey) return true;
+    return (await fetchKey(0))?.publicKey === message.senderKey;
+}
+
+async function toChatMessage(
+    queryClient: QueryClient,
+    message: EncryptedMessage,
+    address: string,
+    keyPair: MessagingKeyPair | null,
+): Promise<ChatMessage> {
+    if (!keyPair) return { ...message, text: null, attachments: [], senderUnverified: false };
+
+    const incoming = message.sender !== address.toLowerCase();
+    if (incoming && !(await isSenderKeyVerified(queryClient, message))) {
+        return { ...message, text: null, attachments: [], senderUnverified: true };
+    }
+    const plaintext = await decryptMessage(message, address, keyPair);
+    const content = plaintext === null ? null : parseMessageContent(plaintext);
+    return { ...message, text: content?.text ?? null, attachments: content?.attachments ?? [], senderUnverified: false };
+}
+
+// Uploads one file for a message, encrypted with its own key unless `encrypt` is off
+async function uploadAttachment(file: File, encrypt: boolean): Promise<MessageAttachment> {
+    const problem = checkUpload('message', [file]);
+    if (problem) throw new Error(problem);
+
+    const data = new Uint8Array(await file.arrayBuffer());
+    const attachment = { name: file.name, type: file.type, size: file.size, sha256: await sha256Hex(data) };
+    if (!encrypt) {
+        const { cid } = await uploadFilesToIPFS([file], 'message');
+        return { ...attachment, cid };
+    }
+    const encrypted = await encryptAttachment(data);
+    const { cid } = await uploadFilesToIPFS(
+        [new File([encrypted.data], file.name, { type: 'application/octet-stream' })],
+        'message',
+    );
+    return { ...attachment, cid, key: encrypted.key, iv: encrypted.iv };
+}
+
+function sendReceipt(peer: string, status: MessageReceipt['status'], upTo?: number, escrowId?: number | null) {
+    return fetch(`/api/messages/${peer}/receipts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, upTo, escrowId }),
+    });
+}
+
+function addMessage(queryClient: QueryClient, address: string, peer: string, message: ChatMessage) {
+    queryClient.setQueryData<ChatMessage[]>(messagesQueryKey(address, peer, message.escrowId), (messages) =>
+        messages && !messages.some((m) => m.id === message.id) ? [...messages, message] : messages,
+    );
+}
+
+function applyReceipt(queryClient: QueryClient, address: string, receipt: MessageReceipt) {
+    const peer = receipt.reader === address.toLowerCase() ? receipt.peer : receipt.reader;
+    // Receipts can span threads, so every thread with the peer is checked for the IDs
+    queryClient.setQueriesData<ChatMessage[]>({ queryKey: messagesQueryKey(address, peer) }, (messages) =>
+        messages?.map((m) =>
+            receipt.ids.includes(m.id)
+                ? {
+                      ...m,
+                      status: receipt.status,
+                      deliveredAt: m.deliveredAt ?? receipt.at,
+                      readAt: receipt.status === 'read' ? receipt.at : m.readAt,
+                  }
+                : m,
+        ),
+    );
+}
+
+/**
+ * The signed-in wallet's messaging key, inbox and live event stream. Messages can only be
+ * read and sent once the wallet has unlocked its key by signing messagingSeedMessage.
+ */
+export function useMessaging() {
+    const queryClient = useQueryClient();
+    const { address } = useSession();
+    const { signMessageAsync } = useSignMessage();
+
+    const { data: keyPair } = useQuery({
+        queryKey: keyPairQueryKey(address),
+        queryFn: () => loadMessagingKeyPair(address!),
+        enabled: !!address,
+        staleTime: Infinity,
+    });
+
+    const unlock = useMutation({
+        mutationFn: async (): Promise<MessagingKeyPair> => {
+            if (!address) throw new Error('Sign in to use messages.');
+
+            const keyPair = deriveMessagingKeyPair(await signMessageAsync({ message: messagingSeedMessage(address) }));
+            const published = await fetchMessagingKey(address);
+            if (published?.publicKey !== keyPair.publicKey) {
+                const signature = await signMessageAsync({ message: messagingKeyMessage(address, keyPair.publicKey) });
+                const res = await fetch('/api/messages/keys', {
+                    method: 'PUT',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ publicKey: keyPair.publicKey, signature }),
+                });
+                if (!res.ok) throw await readError(res);
+            }
+            storeMessagingKeyPair(address, keyPair);
+            return keyPair;
+        },
+        onSuccess: (keyPair) => {
+            queryClient.setQueryData(keyPairQueryKey(address), keyPair);
+            queryClient.invalidateQueries({ queryKey: ['messaging'] });
+        },
+    });
+
+    const { data: conversations = [], isLoading: isLoadingConversations } = useQuery({
+        queryKey: [...conversationsQueryKey(address), keyPair?.publicKey],
+        queryFn: async (): Promise<ChatConversation[]> => {
+            const res = await fetch('/api/messages');
+            if (!res.ok) throw await readError(res);
+            const { conversations } = (await res.json()) as { conversations: ConversationSummary[] };
+            return Promise.all(
+                conversations.map(async (c) => {
+                    const { text, attachments } = await toChatMessage(queryClient, c.lastMessage, address!, keyPair ?? null);
+                    return { ...c, preview: text || (attachments[0] ? `Attachment: ${attachments[0].name}` : text) };
+                }),
+            );
+        },
+        enabled: !!address,
+    });
+
+    // One stream per signed-in wallet: new messages land in their conversation and receipts
+    // update the ticks, without refetching
+    useEffect(() => {
+        if (!address) return;
+        const source = new EventSource('/api/messages/stream');
+
+        source.addEventListener('message', (e) => {
+            const { message } = JSON.parse((e as MessageEvent<string>).data) as Extract<MessagingEvent, { type: 'message' }>;
+            const incoming = message.recipient === address.toLowerCase();
+            const peer = incoming ? message.sender : message.recipient;
+            if (incoming) sendReceipt(peer, 'delivered', message.id);
+
+            const keyPair = queryClient.getQueryData<MessagingKeyPair | null>(keyPairQueryKey(address)) ?? null;
+            toChatMessage(queryClient, message, address, keyPair).then((chatMessage) => addMessage(queryClient, address, peer, chatMessage));
+            queryClient.invalidateQueries({ queryKey: conversationsQueryKey(address) });
+        });
+        source.addEventListener('receipt', (e) => {
+            const { receipt } = JSON.parse((e as MessageEvent<string>).data) as Extract<MessagingEvent, { type: 'receipt' }>;
+            applyReceipt(queryClient, address, receipt);
+            if (receipt.reader === address.toLowerCase()) {
+                queryClient.invalidateQueries({ queryKey: conversationsQueryKey(address) });
+            }
+        });
+
+        return () => source.close();
+    }, [address, queryClient]);
+
+    return {
+        address,
+        keyPair: keyPair ?? null,
+        unlock: unlock.mutateAsync,
+        isUnlocking: unlock.isPending,
+        unlockError: unlock.error,
+        conversations,
+        isLoadingConversations,
+    };
+}
+
+/**
+ * The direct chat between the signed-in wallet and `peer`, or the thread of an escrow between
+ * them, decrypted with `keyPair`. Escrow threads also carry the escrow's contract events.
+ */
+export function useConversation(
+    peer: `0x${string}` | undefined,
+    keyPair: MessagingKeyPair | null,
+    escrowId: number | null = null,
+) {
+    const queryClient = useQueryClient();
+    const { address } = useSession();
+
+    const { data: peerKey, isLoading: isLoadingPeerKey, error: peerKeyError } = useQuery({
+        queryKey: peerKeyQueryKey(peer),
+        queryFn: () => fetchVerifiedMessagingKey(peer!),
+        enabled: !!peer,
+        retry: false,
+    });
+
+    const { data: messages = [], isLoading: isLoadingMessages } = useQuery({
+        queryKey: messagesQueryKey(address, peer, escrowId),
+        queryFn: async (): Promise<ChatMessage[]> => {
+            const res = await fetch(`/api/messages/${peer}${escrowId ? `?escrow=${escrowId}` : ''}`);
+            if (!res.ok) throw await readError(res);
+            const { messages } = (await res.json()) as { messages: EncryptedMessage[] };
+            return Promise.all(messages.map((m) => toChatMessage(queryClient, m, address!, keyPair)));
+        },
+        enabled: !!address && !!peer && !!keyPair,
+    });
+
+    // Contract events are public, so they come straight from the indexer rather than as messages
+    const { data: events = [] } = useQuery({
+        queryKey: threadEventsQueryKey(escrowId),
+        queryFn: async (): Promise<IndexedEvent[]> => {
+            const res = await fetch(`/api/escrows/${escrowId}/events`);
+            if (!res.ok) throw await readError(res);
+            const { events } = (await res.json()) as { events: IndexedEvent[] };
+            return events.filter((event) => THREAD_EVENTS.includes(event.name));
+        },
+        enabled: !!escrowId,
+        refetchInterval: THREAD_EVENTS_REFRESH_MS,
+    });
+
+    const send = useMutation({
+        mutationFn: async ({ text, files, encryptFiles }: OutgoingMessage): Promise<ChatMessage> => {
+            if (!address || !peer || !keyPair) throw new Error('Unlock messages first.');
+            if (!peerKey) throw new Error('This wallet has not enabled messaging yet.');
+            if (files.length > MAX_ATTACHMENTS) throw new Error(`At most ${MAX_ATTACHMENTS} attachments per message`);
+
+            const attachments: MessageAttachment[] = [];
+            for (const file of files) attachments.push(await uploadAttachment(file, encryptFiles));
+
+            const content = encodeMessageContent({ text, attachments });
+            const input = await encryptMessage(content, address, peer, keyPair, peerKey.publicKey, escrowId);
+            const res = await fetch(`/api/messages/${peer}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(input),
+            });
+            if (res.status === 409) queryClient.invalidateQueries({ queryKey: peerKeyQueryKey(peer) });
+            if (!res.ok) throw await readError(res);
+            return { ...((await res.json()) as EncryptedMessage), text, attachments, senderUnverified: false };
+        },
+        onSuccess: (message) => {
+            addMessage(queryClient, address!, peer!, message);
+            queryClient.invalidateQueries({ queryKey: conversationsQueryKey(address) });
+        },
+    });
+
+    const markRead = useMutation({
+        mutationFn: async (upTo: number) => {
+            const res = await sendReceipt(peer!, 'read', upTo, escrowId);
+            if (!res.ok) throw await readError(res);
+        },
+    });
+
+    return {
+        messages,
+        isLoadingMessages,
+        events,
+        peerKey,
+        isLoadingPeerKey,
+        peerKeyError,
+        send: send.mutateAsync,
+        isSending: send.isPending,
+        sendError: send.error,
+        markRead: markRead.mutate,
+    };
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createSiweMessage } from 'viem/siwe';
+import { useAccount, useSignMessage } from 'wagmi';
+
+const SESSION_QUERY_KEY = ['session'];
+
+async function fetchSession(): Promise<`0x${string}` | null> {
+    const res = await fetch('/api/auth/session');
+    if (!res.ok) return null;
+    const { address } = (await res.json()) as { address: `0x${string}` | null };
+    return address;
+}
+
+/**
+ * Sign-In With Ethereum session of the connected wallet. The session lives in an HTTP-only
+ * cookie; `isAuthenticated` is only true while it belongs to the wallet that is connected now.
+ */
+export function useSession() {
+    const queryClient = useQueryClient();
+    const { address, chainId } = useAccount();
+    const { signMessageAsync } = useSignMessage();
+
+    const { data: sessionAddress, isLoading } = useQuery({
+        queryKey: SESSION_QUERY_KEY,
+        queryFn: fetchSession,
+        staleTime: 60 * 1000,
+    });
+
+    const signIn = useMutation({
+        mutationFn: async () => {
+            if (!address || !chainId) throw new Error('Connect your wallet to sign in.');
+
+            const nonceRes = await fetch('/api/auth/nonce');
+            if (!nonceRes.ok) throw new Error('Could not start sign-in');
+            const { nonce } = (await nonceRes.json()) as { nonce: string };
+
+            const message = createSiweMessage({
+                domain: window.location.host,
+                uri: window.location.origin,
+                address,
+                chainId,
+                nonce,
+                version: '1',
+                statement: 'Sign in to EscrowX to publish your profile, post jobs and send messages.',
+            });
+            const signature = await signMessageAsync({ message });
+
+            const res = await fetch('/api/auth/verify', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ message, signature }),
+            });
+            if (!res.ok) {
+                const { error } = await res.json().catch(() => ({ error: res.statusText }));
+                throw new Error(error);
+            }
+        },
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: SESSION_QUERY_KEY }),
+    });
+
+    const signOut = useMutation({
+        mutationFn: () => fetch('/api/auth/logout', { method: 'POST' }),
+        onSuccess: () => queryClient.setQueryData(SESSION_QUERY_KEY, null),
+    });
+
+    const isAuthenticated = !!address && !!sessionAddress && sessionAddress.toLowerCase() === address.toLowerCase();
+
+    return {
+        address: isAuthenticated ? address : undefined,
+        isAuthenticated,
+        isLoading,
+        signIn: signIn.mutateAsync,
+        isSigningIn: signIn.isPending,
+        signInError: signIn.error,
+        signOut: signOut.mutateAsync,
+    };
+}
@@ -0,0 +1,40 @@
+import { randomBytes } from 'crypto';
+import { getAppDb } from '../db';
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS nonces (
+        nonce TEXT PRIMARY KEY,
+        purpose TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+    );
+`;
+
+const db = () => getAppDb(SCHEMA);
+
+/**
+ * Issues a random nonce for `purpose` (e.g. 'upload') that stays valid for `ttlMs`.
+ */
+export function issueNonce(purpose: string, ttlMs: number): { nonce: string; expiresAt: number } {
+    const nonce = randomBytes(16).toString('hex');
+    const expiresAt = Date.now() + ttlMs;
+
+    db().prepare('DELETE FROM nonces WHERE expires_at < ?').run(Date.now());
+    db().prepare('INSERT INTO nonces (nonce, purpose, expires_at) VALUES (?, ?, ?)').run(nonce, purpose, expiresAt);
+    return { nonce, expiresAt };
+}
+
+export function isNonceValid(nonce: string, purpose: string): boolean {
+    const row = db()
+        .prepare('SELECT expires_at FROM nonces WHERE nonce = ? AND purpose = ?')
+        .get(nonce, purpose) as { expires_at: number } | undefined;
+    return !!row && row.expires_at >= Date.now();
+}
+
+/**
+ * Validates and deletes a nonce in one step, so it can only ever be used once.
+ */
+export function consumeNonce(nonce: string, purpose: string): boolean {
+    const valid = isNonceValid(nonce, purpose);
+    db().prepare('DELETE FROM nonces WHERE nonce = ?').run(nonce);
+    return valid;
+}
@@ -0,0 +1,70 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import type { NextResponse } from 'next/server';
+
+export const SESSION_COOKIE = 'escrowx_session';
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface Session {
+    address: `0x${string}`;
+    chainId: number;
+    expiresAt: number;
+}
+
+function secret(): string {
+    const value = process.env.SESSION_SECRET;
+    if (value) return value;
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error('Missing session secret. Set SESSION_SECRET.');
+    }
+    return 'escrowx-development-session-secret';
+}
+
+function sign(payload: string): string {
+    return createHmac('sha256', secret()).update(payload).digest('base64url');
+}
+
+// Cookie value is `<base64url JSON>.<HMAC>`; the server keeps no session state
+function encodeSession(session: Session): string {
+    const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+    return `${payload}.${sign(payload)}`;
+}
+
+function decodeSession(value: string | undefined): Session | null {
+    if (!value) return null;
+    const [payload, signature] = value.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    try {
+        const session = JSON.parse(Buffer.from(payload, 'base64url').toString()) as Session;
+        return session.expiresAt > Date.now() ? session : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The SIWE session of the current request, or null when signed out or expired.
+ */
+export async function getSession(): Promise<Session | null> {
+    const store = await cookies();
+    return decodeSession(store.get(SESSION_COOKIE)?.value);
+}
+
+export function setSessionCookie(response: NextResponse, session: Session) {
+    response.cookies.set(SESSION_COOKIE, encodeSession(session), {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+        expires: new Date(session.expiresAt),
+    });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+    response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
@@ -0,0 +1,74 @@
+import { isAddress, isHex, verifyMessage } from 'viem';
+import { getAppDb } from '../db';
+import { uploadAuthMessage } from '../uploads';
+import { consumeNonce } from './nonces';
+import { getSession } from './session';
+
+export const UPLOAD_NONCE_PURPOSE = 'upload';
+export const UPLOAD_NONCE_TTL_MS = 10 * 60 * 1000; // Time to sign and send the upload, each nonce covers one
+
+const RATE_LIMIT = Number(process.env.UPLOAD_RATE_LIMIT || 30); // Uploads per wallet per window
+const RATE_WINDOW_MS = 60 * 60 * 1000;
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS uploads (
+        address TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS uploads_address ON uploads (address, created_at);
+`;
+
+const db = () => getAppDb(SCHEMA);
+
+export type UploadAuthResult =
+    | { ok: true; address: `0x${string}` }
+    | { ok: false; status: number; error: string };
+
+/**
+ * A signed-in wallet (SIWE session cookie) is authorized as is. Otherwise the
+ * X-Upload-Address / X-Upload-Nonce / X-Upload-Signature headers are checked: the signature
+ * must be the wallet's signature of uploadAuthMessage, and the nonce must have been issued by
+ * /api/upload/nonce and not used yet. It is consumed here, so each signature authorizes one
+ * upload. Wallets over their rate limit are refused; the upload itself is only counted once
+ * the route calls recordUpload.
+ */
+export async function authorizeUpload(headers: Headers): Promise<UploadAuthResult> {
+    const session = await getSession();
+    if (session) return checkRateLimit(session.address);
+
+    const address = headers.get('x-upload-address');
+    const nonce = headers.get('x-upload-nonce');
+    const signature = headers.get('x-upload-signature');
+
+    if (!address || !isAddress(address) || !nonce || !signature || !isHex(signature)) {
+        return { ok: false, status: 401, error: 'Upload authorization required' };
+    }
+    const valid = await verifyMessage({ address, message: uploadAuthMessage(address, nonce), signature }).catch(() => false);
+    if (!valid) {
+        return { ok: false, status: 401, error: 'Invalid upload signature' };
+    }
+    if (!consumeNonce(nonce, UPLOAD_NONCE_PURPOSE)) {
+        return { ok: false, status: 401, error: 'Upload nonce expired or already used' };
+    }
+    return checkRateLimit(address);
+}
+
+function checkRateLimit(address: `0x${string}`): UploadAuthResult {
+    const { count } = db()
+        .prepare('SELECT COUNT(*) AS count FROM uploads WHERE address = ? AND created_at > ?')
+        .get(address.toLowerCase(), Date.now() - RATE_WINDOW_MS) as { count: number };
+    if (count >= RATE_LIMIT) {
+        return { ok: false, status: 429, error: 'Upload rate limit exceeded, try again later' };
+    }
+    return { ok: true, address };
+}
+
+/**
+ * Counts an upload against the wallet's rate limit. Routes call this once the payload has
+ * passed their own checks, so rejected requests don't use up the allowance.
+ */
+export function recordUpload(address: `0x${string}`): void {
+    const now = Date.now();
+    db().prepare('DELETE FROM uploads WHERE created_at <= ?').run(now - RATE_WINDOW_MS);
+    db().prepare('INSERT INTO uploads (address, created_at) VALUES (?, ?)').run(address.toLowerCase(), now);
+}
@@ -0,0 +1,8 @@
+import { createPublicClient, http } from 'viem';
+import { polygon } from 'viem/chains';
+
+// Server-side read client. INDEXER_RPC_URL points it at a dedicated node; viem's public default otherwise.
+export const publicClient = createPublicClient({
+    chain: polygon,
+    transport: http(process.env.INDEXER_RPC_URL, { batch: true }),
+});
@@ -1,3 +1,4 @@
+import { polygon } from 'viem/chains';
 import EscrowXABI from './abi.json';
 
 export const ESCROWX_CONTRACT_ADDRESS = '0x1234567890123456789012345678901234567890'; // Replace with deployed address
@@ -6,3 +7,119 @@ export const escrowXContractConfig = {
     address: ESCROWX_CONTRACT_ADDRESS as `0x${string}`,
     abi: EscrowXABI,
 } as const;
+
+// Mirrors EscrowXContract.EscrowState (order matters, values are the on-chain uint8)
+export enum EscrowState {
+    AWAITING_PAYMENT,
+    AWAITING_DELIVERY,
+    COMPLETED,
+    DISPUTED,
+    REFUNDED,
+    OFFERED,
+}
+
+export const ESCROW_STATE_LABELS: Record<EscrowState, string> = {
+    [EscrowState.AWAITING_PAYMENT]: 'Awaiting Payment',
+    [EscrowState.AWAITING_DELIVERY]: 'Awaiting Delivery',
+    [EscrowState.COMPLETED]: 'Completed',
+    [EscrowState.DISPUTED]: 'Disputed',
+    [EscrowState.REFUNDED]: 'Refunded',
+    [EscrowState.OFFERED]: 'Offer Pending',
+};
+
+// Shape returned by getService
+export interface OnChainService {
+    id: bigint;
+    seller: `0x${string}`;
+    title: string;
+    description: string; // IPFS CID of { title, description }, or plain text for older listings
+    price: bigint;
+    deliveryTime: bigint;
+    isActive: boolean;
+    paymentToken: `0x${string}`;
+    maxRevisions: bigint; // Revisions a buyer may request after delivery
+}
+
+// Shape returned by getEscrow
+export interface OnChainEscrow {
+    id: bigint;
+    serviceId: bigint;
+    buyer: `0x${string}`;
+    seller: `0x${string}`;
+    amount: bigint;
+    createdAt: bigint;
+    state: EscrowState;
+    buyerConfirmed: boolean;
+    sellerDelivered: boolean;
+    paymentToken: `0x${string}`;
+    deliveryDeadline: bigint;
+    deliveredAt: bigint;
+    feeBps: bigint; // Platform fee snapshot taken when the escrow was created
+    maxRevisions: bigint; // Snapshot of the service's maxRevisions, 0 for custom offers
+    revisionsUsed: bigint;
+}
+
+// Shape returned by getMilestones
+export interface OnChainMilestone {
+    amount: bigint;
+    description: string;
+    deadline: bigint;
+    state: EscrowState;
+    sellerDelivered: boolean;
+    deliveredAt: bigint;
+}
+
+// Shape returned by the settlements getter (a tuple, since it is a public mapping of a struct)
+export type OnChainSettlement = readonly [proposedBy: `0x${string}`, buyerBps: bigint];
+
+// Shape returned by getEvidence
+export interface DisputeEvidence {
+    submittedBy: `0x${string}`;
+    cid: string;
+    submittedAt: bigint;
+}
+
+// Shape returned by getRating
+export interface OnChainRating {
+    total: bigint; // Sum of all 1-5 scores
+    count: bigint;
+}
+
+// Average score rounded to one decimal, or null before the first review
+export function averageRating(rating: OnChainRating): number | null {
+    if (rating.count === BigInt(0)) return null;
+    return Math.round((Number(rating.total) / Number(rating.count)) * 10) / 10;
+}
+
+export const BPS_DENOMINATOR = 10000;
+
+// Mirrors EscrowXContract.MAX_FEE_BPS: the owner cannot set a platform fee above 10%
+export const MAX_FEE_BPS = 1000;
+
+// Splits a seller payout into the platform fee withheld for the treasury and the seller's share
+export function splitPlatformFee(amount: bigint, feeBps: bigint): { fee: bigint; net: bigint } {
+    const fee = (amount * feeBps) / BigInt(BPS_DENOMINATOR);
+    return { fee, net: amount - fee };
+}
+
+export function formatBps(bps: bigint): string {
+    return `${Number(bps) / 100}%`;
+}
+
+// Mirrors EscrowXContract.REVIEW_WINDOW: buyer silence after delivery before the seller may claim
+export const REVIEW_WINDOW_SECONDS = 3 * 24 * 60 * 60;
+
+// Mirrors EscrowXContract.REVISION_EXTENSION: time added to the delivery deadline per revision request
+export const REVISION_EXTENSION_SECONDS = 3 * 24 * 60 * 60;
+
+/**
+ * Escrow ID from a route segment. Anything but a plain decimal integer becomes 0, which no
+ * escrow has, so pages show their "not found" state instead of throwing in BigInt().
+ */
+export function parseEscrowId(id: string): bigint {
+    return /^\d+$/.test(id) ? BigInt(id) : BigInt(0);
+}
+
+export function getExplorerTxUrl(hash: string): string {
+    return `${polygon.blockExplorers.default.url}/tx/${hash}`;
+}
@@ -0,0 +1,25 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+const DB_PATH = process.env.APP_DB_PATH || path.join(process.cwd(), '.data', 'app.db');
+
+let db: Database.Database | null = null;
+const applied = new Set<string>();
+
+/**
+ * SQLite database for off-chain app state. Each feature passes its own CREATE TABLE IF NOT
+ * EXISTS schema, which runs once per process.
+ */
+export function getAppDb(schema: string): Database.Database {
+    if (!db) {
+        fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+        db = new Database(DB_PATH);
+        db.pragma('journal_mode = WAL');
+    }
+    if (!applied.has(schema)) {
+        db.exec(schema);
+        applied.add(schema);
+    }
+    return db;
+}
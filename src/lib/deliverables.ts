@@ -0,0 +1,61 @@
+import { getAddress, verifyMessage } from 'viem';
+import { sha256Hex } from './messageCrypto';
+
+// Deliverable bundles: the JSON document a seller pins to IPFS and passes to markDelivered
+
+export const MAX_DELIVERABLE_NOTES = 5000;
+
+export interface DeliverableFile {
+    name: string; // Path of the file under the bundle's filesCid
+    type: string;
+    size: number;
+    sha256: `0x${string}`;
+}
+
+export interface DeliverableManifest {
+    escrowId: string;
+    seller: `0x${string}`;
+    notes: string;
+    filesCid: string | null; // Directory CID of the uploaded files, null for a notes-only delivery
+    files: DeliverableFile[];
+    createdAt: number;
+}
+
+export interface DeliverableBundle extends DeliverableManifest {
+    signature: `0x${string}`; // Seller's signature over deliverableMessage(...)
+}
+
+// Hash over the manifest fields in a fixed order, so it does not depend on JSON key order
+export async function hashDeliverableManifest(manifest: DeliverableManifest): Promise<`0x${string}`> {
+    const canonical = JSON.stringify([
+        manifest.escrowId,
+        manifest.seller.toLowerCase(),
+        manifest.notes,
+        manifest.filesCid,
+        manifest.files.map((f) => [f.name, f.type, f.size, f.sha256]),
+        manifest.createdAt,
+    ]);
+    return sha256Hex(new TextEncoder().encode(canonical));
+}
+
+/**
+ * The message a seller signs to hand over a deliverable bundle. The buyer, or an arbiter
+ * later, checks it against the escrow's seller without trusting the IPFS gateway.
+ */
+export function deliverableMessage(escrowId: string, seller: string, manifestHash: string): string {
+    return `Deliver EscrowX work\n\nEscrow: #${escrowId}\nSeller: ${getAddress(seller)}\nBundle SHA-256: ${manifestHash}`;
+}
+
+// True when `bundle` belongs to `escrowId` and was signed by `seller`
+export async function verifyDeliverableBundle(bundle: DeliverableBundle, escrowId: string, seller: string): Promise<boolean> {
+    if (bundle.escrowId !== escrowId || bundle.seller.toLowerCase() !== seller.toLowerCase()) return false;
+    try {
+        return await verifyMessage({
+            address: getAddress(seller),
+            message: deliverableMessage(escrowId, seller, await hashDeliverableManifest(bundle)),
+            signature: bundle.signature,
+        });
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,305 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import type { IndexedEscrow, IndexedEvent, IndexedReview, IndexedService } from './types';
+
+const DB_PATH = process.env.INDEXER_DB_PATH || path.join(process.cwd(), '.data', 'indexer.db');
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS blocks (
+        number INTEGER PRIMARY KEY,
+        hash TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS events (
+        block_number INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        tx_hash TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        escrow_id INTEGER,
+        service_id INTEGER,
+        args TEXT NOT NULL,
+        snapshot TEXT,
+        PRIMARY KEY (block_number, log_index)
+    );
+    CREATE INDEX IF NOT EXISTS events_escrow ON events (escrow_id);
+    CREATE TABLE IF NOT EXISTS services (
+        id INTEGER PRIMARY KEY,
+        seller TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        price TEXT NOT NULL,
+        delivery_time INTEGER NOT NULL,
+        payment_token TEXT NOT NULL,
+        is_active INTEGER NOT NULL,
+        created_block INTEGER NOT NULL,
+        tx_hash TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS services_seller ON services (seller);
+    CREATE TABLE IF NOT EXISTS escrows (
+        id INTEGER PRIMARY KEY,
+        service_id INTEGER NOT NULL,
+        buyer TEXT NOT NULL,
+        seller TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        payment_token TEXT NOT NULL,
+        state INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_block INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS escrows_buyer ON escrows (buyer);
+    CREATE INDEX IF NOT EXISTS escrows_seller ON escrows (seller);
+    CREATE TABLE IF NOT EXISTS reviews (
+        escrow_id INTEGER NOT NULL,
+        reviewer TEXT NOT NULL,
+        reviewee TEXT NOT NULL,
+        rating INTEGER NOT NULL,
+        comment_cid TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        tx_hash TEXT NOT NULL,
+        PRIMARY KEY (escrow_id, reviewer)
+    );
+    CREATE INDEX IF NOT EXISTS reviews_reviewee ON reviews (reviewee);
+`;
+
+// Contract state read at the block of the event (getService / getEscrow), or at the latest
+// block on nodes without historical state. JSON-encoded
+export type Snapshot = Record<string, string | number | boolean>;
+
+export interface EventRow {
+    event: IndexedEvent;
+    snapshot: Snapshot | null;
+}
+
+let db: Database.Database | null = null;
+
+export function getIndexerDb(): Database.Database {
+    if (db) return db;
+    fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+    db = new Database(DB_PATH);
+    db.pragma('journal_mode = WAL');
+    db.exec(SCHEMA);
+    return db;
+}
+
+/**
+ * Last block whose logs are fully stored, or null before the first sync.
+ */
+export function getCursor(): number | null {
+    const row = getIndexerDb().prepare('SELECT value FROM meta WHERE key = ?').get('cursor') as { value: string } | undefined;
+    return row ? Number(row.value) : null;
+}
+
+export function getStoredBlocks(): { number: number; hash: string }[] {
+    return getIndexerDb().prepare('SELECT number, hash FROM blocks ORDER BY number DESC').all() as { number: number; hash: string }[];
+}
+
+/**
+ * Stores a batch of decoded logs atomically and moves the cursor to `toBlock`.
+ * Hashes older than `keepFrom` are pruned; they are only needed to detect reorgs.
+ */
+export function commitBatch(rows: EventRow[], blocks: { number: number; hash: string }[], toBlock: number, keepFrom: number) {
+    const conn = getIndexerDb();
+    const insertEvent = conn.prepare(`
+        INSERT OR REPLACE INTO events (block_number, log_index, tx_hash, timestamp, name, escrow_id, service_id, args, snapshot)
+        VALUES (@blockNumber, @logIndex, @txHash, @timestamp, @name, @escrowId, @serviceId, @args, @snapshot)
+    `);
+    const insertBlock = conn.prepare('INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)');
+
+    conn.transaction(() => {
+        for (const row of rows) {
+            insertEvent.run({
+                ...row.event,
+                args: JSON.stringify(row.event.args),
+                snapshot: row.snapshot ? JSON.stringify(row.snapshot) : null,
+            });
+            applyProjection(row);
+        }
+        for (const block of blocks) insertBlock.run(block.number, block.hash);
+        conn.prepare('DELETE FROM blocks WHERE number < ?').run(keepFrom);
+        conn.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run('cursor', String(toBlock));
+    })();
+}
+
+/**
+ * Drops everything above `ancestor` after a reorg and rebuilds the services/escrows
+ * projections by replaying the events that remain.
+ */
+export function rollbackTo(ancestor: number) {
+    const conn = getIndexerDb();
+    conn.transaction(() => {
+        conn.prepare('DELETE FROM events WHERE block_number > ?').run(ancestor);
+        conn.prepare('DELETE FROM blocks WHERE number > ?').run(ancestor);
+        conn.prepare('DELETE FROM services').run();
+        conn.prepare('DELETE FROM escrows').run();
+        conn.prepare('DELETE FROM reviews').run();
+
+        const remaining = conn.prepare('SELECT * FROM events ORDER BY block_number, log_index').all() as RawEvent[];
+        for (const raw of remaining) applyProjection(toEventRow(raw));
+
+        conn.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run('cursor', String(ancestor));
+    })();
+}
+
+// Services and escrows hold the latest snapshot seen for each ID; reviews come from the event alone
+function applyProjection({ event, snapshot }: EventRow) {
+    const conn = getIndexerDb();
+    if (event.name === 'ReviewSubmitted') {
+        conn.prepare(`
+            INSERT OR REPLACE INTO reviews (escrow_id, reviewer, reviewee, rating, comment_cid, timestamp, tx_hash)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            event.escrowId,
+            event.args.reviewer.toLowerCase(),
+            event.args.reviewee.toLowerCase(),
+            Number(event.args.rating),
+            event.args.commentCid,
+            event.timestamp,
+            event.txHash,
+        );
+    }
+    if (!snapshot) return;
+
+    if (event.name === 'ServiceUpdated' || event.name === 'ServiceActiveChanged') {
+        // Edits keep the block and transaction the listing was created in
+        conn.prepare(`
+            UPDATE services SET title = ?, description = ?, price = ?, delivery_time = ?, payment_token = ?, is_active = ?
+            WHERE id = ?
+        `).run(
+            snapshot.title,
+            snapshot.description,
+            snapshot.price,
+            Number(snapshot.deliveryTime),
+            String(snapshot.paymentToken).toLowerCase(),
+            snapshot.isActive ? 1 : 0,
+            event.serviceId,
+        );
+    } else if (event.name === 'ServiceCreated') {
+        conn.prepare(`
+            INSERT OR REPLACE INTO services (id, seller, title, description, price, delivery_time, payment_token, is_active, created_block, tx_hash)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            event.serviceId,
+            String(snapshot.seller).toLowerCase(),
+            snapshot.title,
+            snapshot.description,
+            snapshot.price,
+            Number(snapshot.deliveryTime),
+            String(snapshot.paymentToken).toLowerCase(),
+            snapshot.isActive ? 1 : 0,
+            event.blockNumber,
+            event.txHash,
+        );
+    } else if (event.escrowId !== null) {
+        conn.prepare(`
+            INSERT OR REPLACE INTO escrows (id, service_id, buyer, seller, amount, payment_token, state, created_at, updated_block)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            event.escrowId,
+            Number(snapshot.serviceId),
+            String(snapshot.buyer).toLowerCase(),
+            String(snapshot.seller).toLowerCase(),
+            snapshot.amount,
+            String(snapshot.paymentToken).toLowerCase(),
+            Number(snapshot.state),
+            Number(snapshot.createdAt),
+            event.blockNumber,
+        );
+    }
+}
+
+interface RawEvent {
+    block_number: number;
+    log_index: number;
+    tx_hash: `0x${string}`;
+    timestamp: number;
+    name: string;
+    escrow_id: number | null;
+    service_id: number | null;
+    args: string;
+    snapshot: string | null;
+}
+
+function toEventRow(raw: RawEvent): EventRow {
+    return {
+        event: {
+            name: raw.name,
+            escrowId: raw.escrow_id,
+            serviceId: raw.service_id,
+            args: JSON.parse(raw.args),
+            blockNumber: raw.block_number,
+            logIndex: raw.log_index,
+            txHash: raw.tx_hash,
+            timestamp: raw.timestamp,
+        },
+        snapshot: raw.snapshot ? JSON.parse(raw.snapshot) : null,
+    };
+}
+
+// Queries
+
+export function listServices(filter: { seller?: string } = {}): IndexedService[] {
+    const rows = (filter.seller
+        ? getIndexerDb().prepare('SELECT * FROM services WHERE seller = ? ORDER BY id DESC').all(filter.seller.toLowerCase())
+        : getIndexerDb().prepare('SELECT * FROM services ORDER BY id DESC').all()) as Record<string, string | number>[];
+
+    return rows.map((row) => ({
+        id: Number(row.id),
+        seller: row.seller as `0x${string}`,
+        title: String(row.title),
+        description: String(row.description),
+        price: String(row.price),
+        deliveryTime: Number(row.delivery_time),
+        paymentToken: row.payment_token as `0x${string}`,
+        isActive: row.is_active === 1,
+        createdBlock: Number(row.created_block),
+        txHash: row.tx_hash as `0x${string}`,
+    }));
+}
+
+export function listEscrowsForUser(user: string): IndexedEscrow[] {
+    const address = user.toLowerCase();
+    const rows = getIndexerDb()
+        .prepare('SELECT * FROM escrows WHERE buyer = ? OR seller = ? ORDER BY id DESC')
+        .all(address, address) as Record<string, string | number>[];
+
+    return rows.map((row) => ({
+        id: Number(row.id),
+        serviceId: Number(row.service_id),
+        buyer: row.buyer as `0x${string}`,
+        seller: row.seller as `0x${string}`,
+        amount: String(row.amount),
+        paymentToken: row.payment_token as `0x${string}`,
+        state: Number(row.state),
+        createdAt: Number(row.created_at),
+        updatedBlock: Number(row.updated_block),
+    }));
+}
+
+export function listEscrowEvents(escrowId: number): IndexedEvent[] {
+    const rows = getIndexerDb()
+        .prepare('SELECT * FROM events WHERE escrow_id = ? ORDER BY block_number, log_index')
+        .all(escrowId) as RawEvent[];
+    return rows.map((raw) => toEventRow(raw).event);
+}
+
+// Newest first
+export function listReviews(reviewee: string): IndexedReview[] {
+    const rows = getIndexerDb()
+        .prepare('SELECT * FROM reviews WHERE reviewee = ? ORDER BY timestamp DESC')
+        .all(reviewee.toLowerCase()) as Record<string, string | number>[];
+
+    return rows.map((row) => ({
+        escrowId: Number(row.escrow_id),
+        reviewer: row.reviewer as `0x${string}`,
+        reviewee: row.reviewee as `0x${string}`,
+        rating: Number(row.rating),
+        commentCid: String(row.comment_cid),
+        timestamp: Number(row.timestamp),
+        txHash: row.tx_hash as `0x${string}`,
+    }));
+}
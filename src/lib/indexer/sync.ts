@@ -0,0 +1,187 @@
+import type { Abi, AbiEvent } from 'viem';
+import { publicClient as client } from '../chain';
+import { escrowXContractConfig } from '../contract';
+import { commitBatch, getCursor, getStoredBlocks, rollbackTo, type EventRow, type Snapshot } from './db';
+
+// Events that move an escrow or listing. Each one re-reads the entity at its block, so
+// states reached through other paths (offers, milestones, arbitration) stay accurate.
+export const INDEXED_EVENTS = [
+    'ServiceCreated',
+    'ServiceUpdated',
+    'ServiceActiveChanged',
+    'EscrowCreated',
+    'DeliveryConfirmed',
+    'RevisionRequested',
+    'FundsReleased',
+    'DisputeRaised',
+    'Refunded',
+    'DisputeResolved',
+    'OfferAccepted',
+    'MilestoneReleased',
+    'MilestoneRefunded',
+    'MilestoneDisputed',
+    'MilestoneDisputeResolved',
+    'SettlementProposed',
+    'SettlementAccepted',
+    'SettlementDeclined',
+    'ReviewSubmitted',
+];
+
+// Events whose `id` is a service ID rather than an escrow ID
+const SERVICE_EVENTS = ['ServiceCreated', 'ServiceUpdated', 'ServiceActiveChanged'];
+
+const START_BLOCK = process.env.INDEXER_START_BLOCK; // Deployment block of the contract, required
+const BATCH_SIZE = Number(process.env.INDEXER_BATCH_SIZE || 2000); // Max block range per eth_getLogs
+const MAX_BLOCKS_PER_SYNC = Number(process.env.INDEXER_MAX_BLOCKS_PER_SYNC || 20000); // Bounds how long one request waits
+const REORG_DEPTH = 128; // Block hashes kept to find the common ancestor after a reorg
+const SYNC_INTERVAL_MS = 15000;
+const HISTORICAL_RETRY_MS = 10 * 60 * 1000; // Back-off after a failed historical read
+
+const abi = escrowXContractConfig.abi as Abi;
+const events = abi.filter((item): item is AbiEvent => item.type === 'event' && INDEXED_EVENTS.includes(item.name));
+
+let running: Promise<void> | null = null;
+let lastSync = 0;
+let historicalReadsAfter = 0; // Historical reads are skipped until then after one fails
+
+/**
+ * Moves the local store up to MAX_BLOCKS_PER_SYNC blocks closer to the chain head, so a
+ * request never waits on a full catch-up; callers serve whatever is indexed so far.
+ * Concurrent callers share one run. Calls within SYNC_INTERVAL_MS of the last run return
+ * immediately, unless that run stopped short of the head.
+ */
+export function syncIndexer(): Promise<void> {
+    if (running) return running;
+    if (Date.now() - lastSync < SYNC_INTERVAL_MS) return Promise.resolve();
+    if (!START_BLOCK || !/^\d+$/.test(START_BLOCK)) {
+        return Promise.reject(new Error('INDEXER_START_BLOCK must be set to the contract deployment block'));
+    }
+
+    let behind = false;
+    running = runSync(Number(START_BLOCK))
+        .then((caughtUp) => {
+            behind = !caughtUp;
+        })
+        .finally(() => {
+            lastSync = behind ? 0 : Date.now();
+            running = null;
+        });
+    return running;
+}
+
+// Returns whether the store reached the chain head
+async function runSync(startBlock: number): Promise<boolean> {
+    await unwindReorg();
+
+    const head = Number(await client.getBlockNumber());
+    const cursor = getCursor();
+    let from = cursor === null ? startBlock : cursor + 1;
+    const until = Math.min(head, from + MAX_BLOCKS_PER_SYNC - 1);
+
+    while (from <= until) {
+        const to = Math.min(from + BATCH_SIZE - 1, until);
+        const logs = await client.getLogs({
+            address: escrowXContractConfig.address,
+            events,
+            fromBlock: BigInt(from),
+            toBlock: BigInt(to),
+        });
+
+        const blockNumbers = [...new Set([...logs.map((log) => Number(log.blockNumber)), to])];
+        const blocks = await Promise.all(blockNumbers.map((n) => client.getBlock({ blockNumber: BigInt(n) })));
+        const timestamps = new Map(blocks.map((b) => [Number(b.number), Number(b.timestamp)]));
+
+        const rows: EventRow[] = [];
+        try {
+            for (const log of logs) {
+                const args = serialize(log.args as Record<string, unknown>) as Record<string, string>;
+                const isService = SERVICE_EVENTS.includes(log.eventName);
+                const id = Number(args.id);
+                rows.push({
+                    event: {
+                        name: log.eventName,
+                        escrowId: isService ? null : id,
+                        serviceId: isService ? id : args.serviceId !== undefined ? Number(args.serviceId) : null,
+                        args,
+                        blockNumber: Number(log.blockNumber),
+                        logIndex: log.logIndex,
+                        txHash: log.transactionHash,
+                        timestamp: timestamps.get(Number(log.blockNumber)) ?? 0,
+                    },
+                    snapshot: await readSnapshot(isService ? 'getService' : 'getEscrow', id, log.blockNumber),
+                });
+            }
+        } catch (err) {
+            // Keep the blocks before the failing log so the next run resumes there, not at `from`
+            const failedAt = Number(logs[rows.length].blockNumber);
+            if (failedAt > from) {
+                commitBatch(
+                    rows.filter((row) => row.event.blockNumber < failedAt),
+                    blocks.filter((b) => Number(b.number) < failedAt).map((b) => ({ number: Number(b.number), hash: b.hash })),
+                    failedAt - 1,
+                    failedAt - 1 - REORG_DEPTH,
+                );
+            }
+            throw err;
+        }
+
+        commitBatch(
+            rows,
+            blocks.map((b) => ({ number: Number(b.number), hash: b.hash })),
+            to,
+            to - REORG_DEPTH,
+        );
+        from = to + 1;
+    }
+    return until === head;
+}
+
+/**
+ * Compares stored block hashes with the canonical chain, newest first, and rolls the
+ * store back to the most recent block both still agree on.
+ */
+async function unwindReorg() {
+    const stored = getStoredBlocks();
+    for (const [i, block] of stored.entries()) {
+        const canonical = await client.getBlock({ blockNumber: BigInt(block.number) });
+        if (canonical.hash === block.hash) {
+            if (i > 0) rollbackTo(block.number);
+            return;
+        }
+    }
+    // Deeper than REORG_DEPTH: everything we can no longer verify is re-indexed
+    if (stored.length > 0) rollbackTo(stored[stored.length - 1].number - 1);
+}
+
+/**
+ * Reads the entity as of `blockNumber`. Nodes without archive state cannot serve that, so
+ * reads fall back to the latest block; the projections keep the newest snapshot of each ID,
+ * so they still end up at the current state. A failed historical read only pauses them for
+ * HISTORICAL_RETRY_MS, so a transient RPC error doesn't switch them off for good.
+ */
+async function readSnapshot(functionName: 'getService' | 'getEscrow', id: number, blockNumber: bigint): Promise<Snapshot> {
+    const read = (at?: bigint) =>
+        client.readContract({
+            ...escrowXContractConfig,
+            abi,
+            functionName,
+            args: [BigInt(id)],
+            blockNumber: at,
+        });
+
+    if (Date.now() >= historicalReadsAfter) {
+        try {
+            return serialize((await read(blockNumber)) as Record<string, unknown>);
+        } catch {
+            historicalReadsAfter = Date.now() + HISTORICAL_RETRY_MS;
+        }
+    }
+    return serialize((await read()) as Record<string, unknown>);
+}
+
+// bigint values become decimal strings so rows can be stored and served as JSON
+function serialize(values: Record<string, unknown>): Snapshot {
+    return Object.fromEntries(
+        Object.entries(values).map(([key, value]) => [key, typeof value === 'bigint' ? value.toString() : value as string | number | boolean]),
+    );
+}
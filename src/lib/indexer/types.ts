@@ -0,0 +1,49 @@
+import type { EscrowState } from '../contract';
+
+// JSON shapes served by the /api routes. Token amounts are decimal strings to survive JSON.
+
+export interface IndexedService {
+    id: number;
+    seller: `0x${string}`;
+    title: string;
+    description: string;
+    price: string;
+    deliveryTime: number; // seconds
+    paymentToken: `0x${string}`;
+    isActive: boolean;
+    createdBlock: number;
+    txHash: `0x${string}`;
+}
+
+export interface IndexedEscrow {
+    id: number;
+    serviceId: number;
+    buyer: `0x${string}`;
+    seller: `0x${string}`;
+    amount: string;
+    paymentToken: `0x${string}`;
+    state: EscrowState;
+    createdAt: number; // unix seconds
+    updatedBlock: number;
+}
+
+export interface IndexedEvent {
+    name: string;
+    escrowId: number | null;
+    serviceId: number | null;
+    args: Record<string, string>;
+    blockNumber: number;
+    logIndex: number;
+    txHash: `0x${string}`;
+    timestamp: number; // unix seconds
+}
+
+export interface IndexedReview {
+    escrowId: number;
+    reviewer: `0x${string}`;
+    reviewee: `0x${string}`;
+    rating: number; // 1-5
+    commentCid: string; // IPFS CID of { comment }, empty when no comment was left
+    timestamp: number; // unix seconds
+    txHash: `0x${string}`;
+}
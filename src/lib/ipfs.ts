@@ -1,47 +1,85 @@
-export async function uploadJSONToIPFS(data: unknown): Promise<{ cid: string; url: string }> {
-  const token = process.env.NEXT_PUBLIC_WEB3_STORAGE_TOKEN;
-  if (!token) {
-    throw new Error('Missing Web3.Storage token. Set NEXT_PUBLIC_WEB3_STORAGE_TOKEN.');
+import { getAccount, signMessage } from 'wagmi/actions';
+import { config } from './wagmi';
+import { uploadAuthMessage, type UploadKind } from './uploads';
+
+// Gateways tried in order when reading content. The first one, the app's own /api/ipfs
+// route, serves from whichever storage backend the server is configured with.
+const GATEWAYS = (process.env.NEXT_PUBLIC_IPFS_GATEWAYS || '/api/ipfs,https://ipfs.io/ipfs,https://dweb.link/ipfs')
+  .split(',')
+  .map((g) => g.trim().replace(/\/$/, ''))
+  .filter(Boolean);
+
+export function getIPFSUrl(cid: string, path?: string): string {
+  return `${GATEWAYS[0]}/${cid}${path ? `/${path}` : ''}`;
+}
+
+// Upload routes require a wallet signature over a single-use server nonce, so each upload is signed
+async function getUploadHeaders(): Promise<Record<string, string>> {
+  const { address } = getAccount(config);
+  if (!address) {
+    throw new Error('Connect your wallet to upload files.');
   }
-  const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
-  const res = await fetch('https://api.web3.storage/upload', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    body: await blob.text(),
-  });
+  // A SIWE session cookie already authorizes the wallet, no extra signature needed
+  const session = await fetch('/api/auth/session').then((res) => res.json()).catch(() => null);
+  if (session?.address?.toLowerCase() === address.toLowerCase()) return {};
+
+  const res = await fetch('/api/upload/nonce');
+  if (!res.ok) throw new Error('Could not start upload');
+  const { nonce } = await res.json();
+  const signature = await signMessage(config, { message: uploadAuthMessage(address, nonce) });
+  return {
+    'X-Upload-Address': address,
+    'X-Upload-Nonce': nonce,
+    'X-Upload-Signature': signature,
+  };
+}
+
+async function upload(endpoint: string, init: RequestInit): Promise<{ cid: string; url: string }> {
+  const headers = { ...(await getUploadHeaders()), ...(init.headers as Record<string, string> | undefined) };
+  const res = await fetch(`/api/upload/${endpoint}`, { method: 'POST', ...init, headers });
   if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`IPFS upload failed: ${text}`);
+    const { error } = await res.json().catch(() => ({ error: res.statusText }));
+    throw new Error(`IPFS upload failed: ${error}`);
   }
   const { cid } = await res.json();
-  const url = `https://w3s.link/ipfs/${cid}`;
-  return { cid, url };
+  return { cid, url: getIPFSUrl(cid) };
 }
 
-export async function uploadFilesToIPFS(files: File[]): Promise<{ cid: string; url: string }> {
-  const token = process.env.NEXT_PUBLIC_WEB3_STORAGE_TOKEN;
-  if (!token) {
-    throw new Error('Missing Web3.Storage token. Set NEXT_PUBLIC_WEB3_STORAGE_TOKEN.');
-  }
+export async function uploadJSONToIPFS(data: unknown): Promise<{ cid: string; url: string }> {
+  return upload('json', {
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+}
+
+export async function uploadFilesToIPFS(files: File[], kind: UploadKind): Promise<{ cid: string; url: string }> {
   const form = new FormData();
   for (const file of files) {
     form.append('file', file, file.name);
   }
-  const res = await fetch('https://api.web3.storage/upload', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${token}`,
-    },
-    body: form,
-  });
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`IPFS upload failed: ${text}`);
+  return upload(`files?kind=${kind}`, { body: form });
+}
+
+/**
+ * Fetches `<cid>[/<path>]`, falling back to the next gateway on errors or non-OK responses.
+ * Relative gateways are skipped outside the browser.
+ */
+export async function fetchFile(cid: string, path?: string): Promise<Blob> {
+  let lastError: unknown = null;
+  for (const gateway of GATEWAYS) {
+    if (gateway.startsWith('/') && typeof window === 'undefined') continue;
+    try {
+      const res = await fetch(`${gateway}/${cid}${path ? `/${path}` : ''}`);
+      if (res.ok) return await res.blob();
+      lastError = new Error(`${gateway} responded ${res.status}`);
+    } catch (e) {
+      lastError = e;
+    }
   }
-  const { cid } = await res.json();
-  const url = `https://w3s.link/ipfs/${cid}`;
-  return { cid, url };
+  throw new Error(`Could not fetch ${cid} from any gateway: ${lastError instanceof Error ? lastError.message : lastError}`);
+}
+
+export async function fetchJSONFromIPFS<T = unknown>(cid: string, path?: string): Promise<T> {
+  const blob = await fetchFile(cid, path);
+  return JSON.parse(await blob.text()) as T;
 }
@@ -0,0 +1,49 @@
+import { getAppDb } from './db';
+import type { PostedJob } from './jobs';
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS jobs (
+        cid TEXT PRIMARY KEY,
+        poster TEXT NOT NULL,
+        title TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS jobs_poster ON jobs (poster);
+`;
+
+const db = () => getAppDb(SCHEMA);
+
+interface JobRow {
+    cid: string;
+    poster: `0x${string}`;
+    title: string;
+    created_at: number;
+}
+
+function toJob(row: JobRow): PostedJob {
+    return { cid: row.cid, poster: row.poster, title: row.title, createdAt: row.created_at };
+}
+
+/**
+ * The first wallet to register a CID keeps it; identical documents share one CID. Returns
+ * null when the CID already belongs to another wallet.
+ */
+export function registerJob(poster: string, cid: string, title: string): PostedJob | null {
+    db()
+        .prepare('INSERT OR IGNORE INTO jobs (cid, poster, title, created_at) VALUES (?, ?, ?, ?)')
+        .run(cid, poster.toLowerCase(), title, Date.now());
+    const job = getJob(cid)!;
+    return job.poster === poster.toLowerCase() ? job : null;
+}
+
+export function getJob(cid: string): PostedJob | null {
+    const row = db().prepare('SELECT * FROM jobs WHERE cid = ?').get(cid) as JobRow | undefined;
+    return row ? toJob(row) : null;
+}
+
+export function listJobs(filter: { poster?: string } = {}): PostedJob[] {
+    const rows = (filter.poster
+        ? db().prepare('SELECT * FROM jobs WHERE poster = ? ORDER BY created_at DESC').all(filter.poster.toLowerCase())
+        : db().prepare('SELECT * FROM jobs ORDER BY created_at DESC').all()) as JobRow[];
+    return rows.map(toJob);
+}
@@ -0,0 +1,50 @@
+// Job shapes shared by the job pages and the /api/jobs routes
+
+export interface JobData {
+    title: string;
+    description: string;
+    category: string;
+    experience: string;
+    skills: string[];
+    budgetMin: string;
+    budgetMax: string;
+    currency: string;
+    durationType: 'days' | 'weeks' | 'date';
+    durationValue: string;
+    workType: string;
+    locationPref: string;
+    location?: string;
+    deadline: string;
+    contactMethod: string;
+    createdAt: string;
+}
+
+// The JSON document PostJobPage uploads
+export interface JobDocument {
+    job: JobData;
+    attachmentsCid: string | null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns the title of a stored job document, or null if the content is not a job
+ * document. The job board takes titles from here rather than from the poster's request.
+ */
+export function jobDocumentTitle(value: unknown): string | null {
+    if (!isObject(value) || !isObject(value.job)) return null;
+    if (value.attachmentsCid !== null && typeof value.attachmentsCid !== 'string') return null;
+    const { title, description } = value.job;
+    if (typeof title !== 'string' || !title.trim() || typeof description !== 'string') return null;
+    return title.trim();
+}
+
+// A job document (IPFS CID) attributed to the wallet that posted it
+export interface PostedJob {
+    cid: string;
+    poster: `0x${string}`;
+    title: string;
+    createdAt: number;
+}
@@ -0,0 +1,112 @@
+import type { Abi } from 'viem';
+import { multicall, readContract } from 'wagmi/actions';
+import { config } from './wagmi';
+import { averageRating, escrowXContractConfig, type OnChainRating, type OnChainService } from './contract';
+import { fetchJSONFromIPFS } from './ipfs';
+import { formatTokenAmount, getToken, tokenSymbol } from './tokens';
+
+// A service as the marketplace pages display and hire it
+export interface ServiceListing {
+    id: number;
+    title: string;
+    description: string;
+    price: string; // Display amount in whole tokens
+    amount: bigint; // Exact on-chain price, what createEscrow expects
+    currency: string; // Token symbol, or UNKNOWN_TOKEN_LABEL for a token that cannot be hired in
+    deliveryTime: string;
+    revisions: number; // Revisions the buyer may request after delivery
+    seller: `0x${string}`;
+    freelancer: string; // Shortened seller address
+    rating: number | null; // Seller's average review score, null before the first review
+    reviewCount: number;
+}
+
+const CID_PATTERN = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{50,})$/;
+
+export function formatDeliveryTime(seconds: number): string {
+    const days = Math.round(seconds / 86400);
+    if (days >= 1) return days === 1 ? '1 day' : `${days} days`;
+    const hours = Math.max(1, Math.round(seconds / 3600));
+    return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+export function toListing(service: OnChainService, description: string, rating?: OnChainRating): ServiceListing {
+    const token = getToken(service.paymentToken);
+    return {
+        id: Number(service.id),
+        title: service.title,
+        description,
+        price: formatTokenAmount(service.price, token),
+        amount: service.price,
+        currency: tokenSymbol(token),
+        deliveryTime: formatDeliveryTime(Number(service.deliveryTime)),
+        revisions: Number(service.maxRevisions),
+        seller: service.seller,
+        freelancer: `${service.seller.slice(0, 6)}...${service.seller.slice(-4)}`,
+        rating: rating ? averageRating(rating) : null,
+        reviewCount: rating ? Number(rating.count) : 0,
+    };
+}
+
+/**
+ * Service descriptions are stored on-chain as the CID of a { title, description } JSON
+ * document. Plain-text descriptions are passed through; unreachable documents resolve to ''.
+ */
+export async function resolveDescription(description: string): Promise<string> {
+    if (!CID_PATTERN.test(description)) return description;
+    try {
+        const data = await fetchJSONFromIPFS<{ description?: unknown }>(description);
+        return typeof data?.description === 'string' ? data.description : '';
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * Active services read straight from the contract, newest first. Every ID up to
+ * serviceCounter is fetched with getService in multicall batches, plus each seller's rating.
+ */
+export async function fetchServiceListings(): Promise<ServiceListing[]> {
+    const count = Number(await readContract(config, {
+        ...escrowXContractConfig,
+        functionName: 'serviceCounter',
+    }));
+    if (count === 0) return [];
+
+    const results = await multicall(config, {
+        contracts: Array.from({ length: count }, (_, i) => ({
+            address: escrowXContractConfig.address,
+            abi: escrowXContractConfig.abi as Abi,
+            functionName: 'getService',
+            args: [BigInt(count - i)],
+        })),
+    });
+
+    const services = results
+        .filter((r) => r.status === 'success')
+        .map((r) => r.result as OnChainService)
+        .filter((s) => s.isActive);
+
+    const ratings = await fetchRatings(services.map((s) => s.seller));
+    return Promise.all(services.map(async (s) =>
+        toListing(s, await resolveDescription(s.description), ratings.get(s.seller.toLowerCase()))));
+}
+
+/**
+ * On-chain review aggregates (getRating) for each distinct address, keyed by lowercase address.
+ */
+export async function fetchRatings(addresses: `0x${string}`[]): Promise<Map<string, OnChainRating>> {
+    const unique = [...new Set(addresses.map((a) => a.toLowerCase() as `0x${string}`))];
+    if (unique.length === 0) return new Map();
+
+    const results = await multicall(config, {
+        contracts: unique.map((address) => ({
+            address: escrowXContractConfig.address,
+            abi: escrowXContractConfig.abi as Abi,
+            functionName: 'getRating',
+            args: [address],
+        })),
+    });
+    return new Map(unique.flatMap((address, i) =>
+        results[i].status === 'success' ? [[address, results[i].result as OnChainRating] as const] : []));
+}
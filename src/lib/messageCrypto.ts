@@ -0,0 +1,137 @@
+import { x25519 } from '@noble/curves/ed25519';
+import { bytesToHex, hexToBytes, sha256 } from 'viem';
+import { fetchFile } from './ipfs';
+import { conversationId, type EncryptedMessage, type EncryptedMessageInput, type MessageAttachment } from './messages';
+
+// Browser-side encryption for the chat. Nothing here runs on the server.
+
+const encoder = new TextEncoder();
+const HKDF_INFO = encoder.encode('escrowx-messages-v1');
+const STORAGE_PREFIX = 'escrowx:messaging-key:';
+
+export interface MessagingKeyPair {
+    privateKey: `0x${string}`;
+    publicKey: `0x${string}`;
+}
+
+/**
+ * Derives the wallet's X25519 key pair from its signature over messagingSeedMessage. Wallets
+ * sign deterministically, so the same key comes back on every device.
+ */
+export function deriveMessagingKeyPair(seedSignature: `0x${string}`): MessagingKeyPair {
+    const privateKey = sha256(seedSignature, 'bytes');
+    return { privateKey: bytesToHex(privateKey), publicKey: bytesToHex(x25519.getPublicKey(privateKey)) };
+}
+
+// Kept for the browser session so the wallet is asked to sign once per tab
+export function loadMessagingKeyPair(address: string): MessagingKeyPair | null {
+    const stored = sessionStorage.getItem(STORAGE_PREFIX + address.toLowerCase());
+    return stored ? (JSON.parse(stored) as MessagingKeyPair) : null;
+}
+
+export function storeMessagingKeyPair(address: string, keyPair: MessagingKeyPair) {
+    sessionStorage.setItem(STORAGE_PREFIX + address.toLowerCase(), JSON.stringify(keyPair));
+}
+
+function toBase64(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+// AES-256-GCM key shared by the two wallets, bound to the thread so the server cannot move messages between threads
+async function conversationKey(
+    privateKey: `0x${string}`,
+    peerKey: `0x${string}`,
+    a: string,
+    b: string,
+    escrowId: number | null,
+): Promise<CryptoKey> {
+    const secret = x25519.getSharedSecret(hexToBytes(privateKey), hexToBytes(peerKey));
+    const material = await crypto.subtle.importKey('raw', new Uint8Array(secret), 'HKDF', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(conversationId(a, b, escrowId)), info: HKDF_INFO },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+}
+
+export async function encryptMessage(
+    text: string,
+    sender: string,
+    recipient: string,
+    keyPair: MessagingKeyPair,
+    recipientKey: `0x${string}`,
+    escrowId: number | null,
+): Promise<EncryptedMessageInput> {
+    const key = await conversationKey(keyPair.privateKey, recipientKey, sender, recipient, escrowId);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(text));
+    return {
+        escrowId: escrowId ?? undefined,
+        senderKey: keyPair.publicKey,
+        recipientKey,
+        iv: toBase64(iv),
+        ciphertext: toBase64(new Uint8Array(ciphertext)),
+    };
+}
+
+/**
+ * Decrypts a message sent or received by `address`. Returns null when it was encrypted to a
+ * messaging key this wallet no longer holds. The server supplies senderKey, so callers check
+ * it against the sender's signed key first.
+ */
+export async function decryptMessage(
+    message: EncryptedMessage,
+    address: string,
+    keyPair: MessagingKeyPair,
+): Promise<string | null> {
+    const outgoing = message.sender === address.toLowerCase();
+    const ownKey = outgoing ? message.senderKey : message.recipientKey;
+    if (ownKey !== keyPair.publicKey) return null;
+
+    try {
+        const key = await conversationKey(
+            keyPair.privateKey,
+            outgoing ? message.recipientKey : message.senderKey,
+            message.sender,
+            message.recipient,
+            message.escrowId,
+        );
+        const text = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(message.iv) }, key, fromBase64(message.ciphertext));
+        return new TextDecoder().decode(text);
+    } catch {
+        return null;
+    }
+}
+
+export async function sha256Hex(data: Uint8Array<ArrayBuffer>): Promise<`0x${string}`> {
+    return bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', data)));
+}
+
+// Every attachment gets a fresh random key, carried to the peer inside the encrypted message
+export async function encryptAttachment(data: Uint8Array<ArrayBuffer>): Promise<{ data: Uint8Array<ArrayBuffer>; key: string; iv: string }> {
+    const rawKey = crypto.getRandomValues(new Uint8Array(32));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await crypto.subtle.importKey('raw', rawKey, 'AES-GCM', false, ['encrypt']);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+    return { data: new Uint8Array(ciphertext), key: toBase64(rawKey), iv: toBase64(iv) };
+}
+
+/**
+ * Downloads an attachment, decrypting it if needed, and checks it against the hash the
+ * sender recorded. `verified` is false when the stored file does not match it.
+ */
+export async function loadAttachment(attachment: MessageAttachment): Promise<{ blob: Blob; verified: boolean }> {
+    let data = new Uint8Array(await (await fetchFile(attachment.cid, attachment.name)).arrayBuffer());
+    if (attachment.key && attachment.iv) {
+        const key = await crypto.subtle.importKey('raw', fromBase64(attachment.key), 'AES-GCM', false, ['decrypt']);
+        data = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(attachment.iv) }, key, data));
+    }
+    const verified = (await sha256Hex(data)) === attachment.sha256;
+    return { blob: new Blob([data], { type: attachment.type }), verified };
+}
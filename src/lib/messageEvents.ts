@@ -0,0 +1,23 @@
+import { EventEmitter } from 'events';
+import type { MessagingEvent } from './messages';
+
+// Kept on globalThis so every route bundle, and dev hot reloads, share one emitter
+const globalForMessaging = globalThis as unknown as { messagingEvents?: EventEmitter };
+const emitter = globalForMessaging.messagingEvents ?? new EventEmitter().setMaxListeners(0);
+globalForMessaging.messagingEvents = emitter;
+
+/**
+ * Fans messaging events out to the wallet's open /api/messages/stream connections. Delivery
+ * is in-process, so a deployment with several server instances needs a shared broker here.
+ */
+export function publishMessagingEvent(address: string, event: MessagingEvent) {
+    emitter.emit(address.toLowerCase(), event);
+}
+
+export function subscribeMessagingEvents(address: string, listener: (event: MessagingEvent) => void): () => void {
+    const channel = address.toLowerCase();
+    emitter.on(channel, listener);
+    return () => {
+        emitter.off(channel, listener);
+    };
+}
@@ -0,0 +1,188 @@
+import { getAppDb } from './db';
+import {
+    conversationId,
+    escrowIdOf,
+    type ConversationSummary,
+    type EncryptedMessage,
+    type EncryptedMessageInput,
+    type MessageReceipt,
+    type MessagingKey,
+} from './messages';
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS messaging_keys (
+        address TEXT PRIMARY KEY,
+        public_key TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation TEXT NOT NULL,
+        sender TEXT NOT NULL,
+        recipient TEXT NOT NULL,
+        sender_key TEXT NOT NULL,
+        recipient_key TEXT NOT NULL,
+        iv TEXT NOT NULL,
+        ciphertext TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        delivered_at INTEGER,
+        read_at INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS messages_conversation ON messages (conversation, id);
+    CREATE INDEX IF NOT EXISTS messages_recipient ON messages (recipient, sender, id);
+`;
+
+const db = () => getAppDb(SCHEMA);
+
+// Latest messages returned per conversation request
+const PAGE_SIZE = 100;
+
+interface MessageRow {
+    id: number;
+    conversation: string;
+    sender: `0x${string}`;
+    recipient: `0x${string}`;
+    sender_key: `0x${string}`;
+    recipient_key: `0x${string}`;
+    iv: string;
+    ciphertext: string;
+    created_at: number;
+    delivered_at: number | null;
+    read_at: number | null;
+}
+
+function toMessage(row: MessageRow): EncryptedMessage {
+    return {
+        id: row.id,
+        escrowId: escrowIdOf(row.conversation),
+        sender: row.sender,
+        recipient: row.recipient,
+        senderKey: row.sender_key,
+        recipientKey: row.recipient_key,
+        iv: row.iv,
+        ciphertext: row.ciphertext,
+        status: row.read_at ? 'read' : row.delivered_at ? 'delivered' : 'sent',
+        createdAt: row.created_at,
+        deliveredAt: row.delivered_at,
+        readAt: row.read_at,
+    };
+}
+
+// Messaging keys
+
+export function getMessagingKey(address: string): MessagingKey | null {
+    const row = db().prepare('SELECT * FROM messaging_keys WHERE address = ?').get(address.toLowerCase()) as
+        | { address: `0x${string}`; public_key: `0x${string}`; signature: `0x${string}`; updated_at: number }
+        | undefined;
+    return row ? { address: row.address, publicKey: row.public_key, signature: row.signature, updatedAt: row.updated_at } : null;
+}
+
+// Replaces any earlier key; messages encrypted to it stay readable only with the old private key
+export function setMessagingKey(address: string, publicKey: `0x${string}`, signature: `0x${string}`) {
+    db().prepare(`
+        INSERT INTO messaging_keys (address, public_key, signature, updated_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (address) DO UPDATE SET
+            public_key = excluded.public_key, signature = excluded.signature, updated_at = excluded.updated_at
+    `).run(address.toLowerCase(), publicKey, signature, Date.now());
+}
+
+// Messages
+
+export function createMessage(sender: string, recipient: string, input: EncryptedMessageInput): EncryptedMessage {
+    const result = db().prepare(`
+        INSERT INTO messages (conversation, sender, recipient, sender_key, recipient_key, iv, ciphertext, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        conversationId(sender, recipient, input.escrowId),
+        sender.toLowerCase(),
+        recipient.toLowerCase(),
+        input.senderKey,
+        input.recipientKey,
+        input.iv,
+        input.ciphertext,
+        Date.now(),
+    );
+    const row = db().prepare('SELECT * FROM messages WHERE id = ?').get(result.lastInsertRowid) as MessageRow;
+    return toMessage(row);
+}
+
+/**
+ * Messages between two wallets in their direct chat or the thread of `escrowId`, oldest
+ * first: the latest page, or the page before `before`.
+ */
+export function listMessages(a: string, b: string, escrowId: number | null, before?: number): EncryptedMessage[] {
+    const rows = db().prepare(`
+        SELECT * FROM messages WHERE conversation = ? AND id < ? ORDER BY id DESC LIMIT ?
+    `).all(conversationId(a, b, escrowId), before ?? Number.MAX_SAFE_INTEGER, PAGE_SIZE) as MessageRow[];
+    return rows.reverse().map(toMessage);
+}
+
+// Most recent thread first
+export function listConversations(address: string): ConversationSummary[] {
+    const account = address.toLowerCase();
+    const rows = db().prepare(`
+        SELECT m.* FROM messages m
+        JOIN (SELECT MAX(id) AS id FROM messages WHERE sender = ? OR recipient = ? GROUP BY conversation) latest
+            ON m.id = latest.id
+        ORDER BY m.id DESC
+    `).all(account, account) as MessageRow[];
+    const unread = new Map(
+        (db().prepare(`
+            SELECT conversation, COUNT(*) AS count FROM messages WHERE recipient = ? AND read_at IS NULL GROUP BY conversation
+        `).all(account) as { conversation: string; count: number }[]).map((r) => [r.conversation, r.count]),
+    );
+
+    return rows.map((row) => {
+        const lastMessage = toMessage(row);
+        return {
+            peer: row.sender === account ? row.recipient : row.sender,
+            escrowId: lastMessage.escrowId,
+            lastMessage,
+            unread: unread.get(row.conversation) ?? 0,
+        };
+    });
+}
+
+/**
+ * Records a receipt from `reader` for the messages `peer` sent them, up to and including
+ * `upTo` (every message when omitted), in one thread or in all of them when `escrowId` is
+ * undefined. Reading implies delivery. Returns the receipt for the messages whose status
+ * changed, or null if none did.
+ */
+export function recordReceipt(
+    reader: string,
+    peer: string,
+    status: MessageReceipt['status'],
+    upTo = Number.MAX_SAFE_INTEGER,
+    escrowId?: number | null,
+): MessageReceipt | null {
+    const at = Date.now();
+    const thread = escrowId === undefined ? null : conversationId(reader, peer, escrowId);
+    const rows = (status === 'read'
+        ? db().prepare(`
+            UPDATE messages SET read_at = ?, delivered_at = COALESCE(delivered_at, ?)
+            WHERE recipient = ? AND sender = ? AND id <= ? AND (? IS NULL OR conversation = ?) AND read_at IS NULL RETURNING id
+        `).all(at, at, reader.toLowerCase(), peer.toLowerCase(), upTo, thread, thread)
+        : db().prepare(`
+            UPDATE messages SET delivered_at = ?
+            WHERE recipient = ? AND sender = ? AND id <= ? AND (? IS NULL OR conversation = ?) AND delivered_at IS NULL RETURNING id
+        `).all(at, reader.toLowerCase(), peer.toLowerCase(), upTo, thread, thread)) as { id: number }[];
+
+    if (rows.length === 0) return null;
+    return {
+        reader: reader.toLowerCase() as `0x${string}`,
+        peer: peer.toLowerCase() as `0x${string}`,
+        escrowId,
+        ids: rows.map((r) => r.id),
+        status,
+        at,
+    };
+}
+
+// Senders with messages to `address` that its client has not acknowledged yet
+export function listUndeliveredSenders(address: string): string[] {
+    return (db().prepare(`
+        SELECT DISTINCT sender FROM messages WHERE recipient = ? AND delivered_at IS NULL
+    `).all(address.toLowerCase()) as { sender: string }[]).map((r) => r.sender);
+}
@@ -0,0 +1,161 @@
+import { getAddress } from 'viem';
+
+// Message shapes and rules shared by the chat page and the /api/messages routes
+
+export type MessageStatus = 'sent' | 'delivered' | 'read';
+
+/**
+ * A message as the server stores and relays it. The text is AES-GCM encrypted to a key
+ * only the two wallets can derive, so the server sees who talks to whom and when, but
+ * not what is said.
+ */
+export interface EncryptedMessage {
+    id: number;
+    escrowId: number | null;     // Escrow thread the message was posted in, null for the direct chat
+    sender: `0x${string}`;
+    recipient: `0x${string}`;
+    senderKey: `0x${string}`;    // Messaging public keys the message was encrypted between
+    recipientKey: `0x${string}`;
+    iv: string;                  // Base64 AES-GCM nonce
+    ciphertext: string;          // Base64
+    status: MessageStatus;
+    createdAt: number;
+    deliveredAt: number | null;  // Set by the recipient's receipts
+    readAt: number | null;
+}
+
+// A wallet's X25519 messaging public key, with the wallet's signature binding the two
+export interface MessagingKey {
+    address: `0x${string}`;
+    publicKey: `0x${string}`;
+    signature: `0x${string}`; // Over messagingKeyMessage(address, publicKey)
+    updatedAt: number;
+}
+
+export interface EncryptedMessageInput {
+    escrowId?: number;
+    senderKey: `0x${string}`;
+    recipientKey: `0x${string}`;
+    iv: string;
+    ciphertext: string;
+}
+
+/**
+ * A file shared in a message, uploaded on its own. When `key` is set the stored file is
+ * AES-GCM ciphertext that only the two wallets can decrypt, since the key travels inside
+ * the encrypted message.
+ */
+export interface MessageAttachment {
+    cid: string;            // Directory CID; the file is `<cid>/<name>`
+    name: string;
+    type: string;           // MIME type of the original file
+    size: number;           // Bytes of the original file
+    sha256: `0x${string}`;  // Hash of the original file, citable as evidence or a deliverable
+    key?: string;           // Base64 AES-256-GCM key, for encrypted attachments
+    iv?: string;            // Base64 nonce
+}
+
+// What a message's ciphertext decrypts to
+export interface MessageContent {
+    text: string;
+    attachments: MessageAttachment[];
+}
+
+// One entry per thread: the direct chat with a peer and each escrow shared with them
+export interface ConversationSummary {
+    peer: `0x${string}`;
+    escrowId: number | null;
+    lastMessage: EncryptedMessage;
+    unread: number; // Messages from the peer in this thread not yet read
+}
+
+// Sent by a recipient's client: every message from `peer` up to `upTo` reached that status
+export interface MessageReceipt {
+    reader: `0x${string}`; // The recipient who sent the receipt
+    peer: `0x${string}`;   // The sender of the acknowledged messages
+    escrowId?: number | null; // Thread the receipt is limited to; every thread with peer when omitted
+    ids: number[];
+    status: Exclude<MessageStatus, 'sent'>;
+    at: number;
+}
+
+// Payloads of the /api/messages/stream server-sent events, named by `type`
+export type MessagingEvent =
+    | { type: 'message'; message: EncryptedMessage }
+    | { type: 'receipt'; receipt: MessageReceipt };
+
+// Contract events posted into an escrow's thread as system messages
+export const THREAD_EVENTS = ['EscrowCreated', 'DeliveryConfirmed', 'RevisionRequested', 'DisputeRaised', 'FundsReleased', 'Refunded'];
+
+export const MAX_MESSAGE_LENGTH = 4000;
+export const MAX_ATTACHMENTS = 5;
+// UTF-8 text of MAX_MESSAGE_LENGTH characters, up to 1KB of metadata per attachment and the
+// GCM tag, base64 encoded
+const MAX_CIPHERTEXT_LENGTH = Math.ceil(((MAX_MESSAGE_LENGTH * 4 + MAX_ATTACHMENTS * 1024 + 64) * 4) / 3) + 4;
+
+const PUBLIC_KEY_PATTERN = /^0x[0-9a-f]{64}$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+const ESCROW_THREAD_PATTERN = /:escrow:(\d+)$/;
+
+export function isMessagingKey(value: unknown): value is `0x${string}` {
+    return typeof value === 'string' && PUBLIC_KEY_PATTERN.test(value);
+}
+
+/**
+ * The message a wallet signs to derive its messaging key. The signature is the private key
+ * material, so it never leaves the browser.
+ */
+export function messagingSeedMessage(address: string): string {
+    return `Unlock EscrowX messages\n\nThis signature derives the key that encrypts your messages. Only sign it on EscrowX.\n\nWallet: ${getAddress(address)}`;
+}
+
+/**
+ * The message a wallet signs to publish its messaging public key. Senders check it with
+ * verifyMessage before encrypting, so the server cannot substitute a key of its own.
+ */
+export function messagingKeyMessage(address: string, publicKey: string): string {
+    return `Register EscrowX messaging key\n\nWallet: ${getAddress(address)}\nKey: ${publicKey}`;
+}
+
+export function encodeMessageContent(content: MessageContent): string {
+    return JSON.stringify(content);
+}
+
+/**
+ * Reads decrypted message content. Messages sent before attachments existed are plain text.
+ */
+export function parseMessageContent(plaintext: string): MessageContent {
+    try {
+        const content = JSON.parse(plaintext) as Partial<MessageContent>;
+        if (typeof content?.text === 'string' && Array.isArray(content.attachments)) {
+            return { text: content.text, attachments: content.attachments };
+        }
+    } catch {}
+    return { text: plaintext, attachments: [] };
+}
+
+/**
+ * Stable ID of the conversation between two wallets, whichever of them sends. Each escrow
+ * between them gets its own thread next to the direct chat.
+ */
+export function conversationId(a: string, b: string, escrowId?: number | null): string {
+    const pair = [a.toLowerCase(), b.toLowerCase()].sort().join(':');
+    return escrowId ? `${pair}:escrow:${escrowId}` : pair;
+}
+
+export function escrowIdOf(conversation: string): number | null {
+    const match = ESCROW_THREAD_PATTERN.exec(conversation);
+    return match ? Number(match[1]) : null;
+}
+
+/**
+ * Returns a human readable problem with an encrypted message, or null if it can be stored.
+ */
+export function validateEncryptedMessage(input: Partial<EncryptedMessageInput>): string | null {
+    if (input.escrowId !== undefined && (!Number.isInteger(input.escrowId) || input.escrowId <= 0)) return 'Invalid escrow ID';
+    if (!isMessagingKey(input.senderKey) || !isMessagingKey(input.recipientKey)) return 'Invalid messaging key';
+    if (typeof input.iv !== 'string' || input.iv.length !== 16 || !BASE64_PATTERN.test(input.iv)) return 'Invalid nonce';
+    if (typeof input.ciphertext !== 'string' || !BASE64_PATTERN.test(input.ciphertext)) return 'Invalid ciphertext';
+    if (input.ciphertext.length > MAX_CIPHERTEXT_LENGTH) return 'Message is too long';
+    return null;
+}
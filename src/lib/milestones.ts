@@ -0,0 +1,57 @@
+import { uploadJSONToIPFS } from './ipfs';
+import { parseTokenAmount, type PaymentToken } from './tokens';
+
+export interface MilestoneDraft {
+    title: string;
+    amount: string;   // In whole token units, as typed by the user
+    deadline: string; // yyyy-MM-dd
+}
+
+export function emptyMilestone(): MilestoneDraft {
+    return { title: '', amount: '', deadline: '' };
+}
+
+/**
+ * Splits a total price into `count` equal milestones, putting any rounding dust on the last one.
+ */
+export function splitEvenly(total: bigint, count: number): bigint[] {
+    const share = total / BigInt(count);
+    return Array.from({ length: count }, (_, i) => (i === count - 1 ? total - share * BigInt(count - 1) : share));
+}
+
+/**
+ * Returns a human readable problem with the drafts, or null if they can be submitted.
+ */
+export function validateMilestones(drafts: MilestoneDraft[], total: bigint, token: PaymentToken): string | null {
+    if (drafts.length === 0) return 'Add at least one milestone';
+    let sum = BigInt(0);
+    for (const [i, m] of drafts.entries()) {
+        if (!m.title.trim()) return `Milestone ${i + 1} needs a description`;
+        if (!/^\d+(\.\d+)?$/.test(m.amount) || (m.amount.split('.')[1]?.length ?? 0) > token.decimals) return `Milestone ${i + 1} has an invalid amount`;
+        const amount = parseTokenAmount(m.amount, token);
+        if (amount === BigInt(0)) return `Milestone ${i + 1} amount must be greater than 0`;
+        if (!m.deadline || deadlineToSeconds(m.deadline) * 1000 <= Date.now()) return `Milestone ${i + 1} deadline must be in the future`;
+        sum += amount;
+    }
+    if (sum !== total) return 'Milestone amounts must add up to the service price';
+    return null;
+}
+
+/**
+ * Uploads each milestone description to IPFS and returns the createMilestoneEscrow arguments.
+ */
+export async function prepareMilestones(drafts: MilestoneDraft[], token: PaymentToken) {
+    const uploads = await Promise.all(
+        drafts.map((m, i) => uploadJSONToIPFS({ milestone: i + 1, description: m.title, deadline: m.deadline }))
+    );
+    return {
+        amounts: drafts.map((m) => parseTokenAmount(m.amount, token)),
+        descriptions: uploads.map((u) => u.cid),
+        deadlines: drafts.map((m) => BigInt(deadlineToSeconds(m.deadline))),
+    };
+}
+
+// End of the selected (local) day, in seconds
+function deadlineToSeconds(date: string): number {
+    return Math.floor(new Date(`${date}T23:59:59`).getTime() / 1000);
+}
@@ -0,0 +1,75 @@
+import { getAppDb } from './db';
+import type { ProfileVersion, ProfileVisibility } from './profiles';
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS profile_versions (
+        address TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        cid TEXT NOT NULL,
+        visibility TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (address, version)
+    );
+`;
+
+const db = () => getAppDb(SCHEMA);
+
+interface VersionRow {
+    address: `0x${string}`;
+    version: number;
+    cid: string;
+    visibility: ProfileVisibility;
+    signature: `0x${string}`;
+    created_at: number;
+}
+
+function toVersion(row: VersionRow): ProfileVersion {
+    return {
+        address: row.address,
+        version: row.version,
+        cid: row.cid,
+        visibility: row.visibility,
+        signature: row.signature,
+        createdAt: row.created_at,
+    };
+}
+
+/**
+ * Appends a version to the wallet's history. Returns null when `version` is not the next
+ * one, i.e. another publish got there first.
+ */
+export function appendProfileVersion(entry: Omit<ProfileVersion, 'createdAt'>): ProfileVersion | null {
+    const address = entry.address.toLowerCase() as `0x${string}`;
+    const createdAt = Date.now();
+
+    return db().transaction(() => {
+        if (entry.version !== (getLatestProfile(address)?.version ?? 0) + 1) return null;
+        db()
+            .prepare('INSERT INTO profile_versions (address, version, cid, visibility, signature, created_at) VALUES (?, ?, ?, ?, ?, ?)')
+            .run(address, entry.version, entry.cid, entry.visibility, entry.signature, createdAt);
+        return { ...entry, address, createdAt };
+    })();
+}
+
+export function getLatestProfile(address: string): ProfileVersion | null {
+    const row = db()
+        .prepare('SELECT * FROM profile_versions WHERE address = ? ORDER BY version DESC LIMIT 1')
+        .get(address.toLowerCase()) as VersionRow | undefined;
+    return row ? toVersion(row) : null;
+}
+
+// Newest first
+export function listProfileVersions(address: string): ProfileVersion[] {
+    const rows = db()
+        .prepare('SELECT * FROM profile_versions WHERE address = ? ORDER BY version DESC')
+        .all(address.toLowerCase()) as VersionRow[];
+    return rows.map(toVersion);
+}
+
+/**
+ * Private profiles, including their history, are only served to the wallet that owns them.
+ */
+export function isProfileVisibleTo(latest: ProfileVersion, viewer: string | undefined): boolean {
+    return latest.visibility === 'Public' || viewer?.toLowerCase() === latest.address;
+}
@@ -0,0 +1,61 @@
+import { getAddress } from 'viem';
+
+// Profile shapes shared by the profile pages and the /api/profiles routes
+
+export type ProfileVisibility = 'Public' | 'Private';
+
+export interface WorkHistoryEntry {
+    name: string;
+    role: string;
+    start: string;
+    end: string;
+    description: string;
+    skillsUsed?: string[];
+    link?: string;
+}
+
+export interface ProfileData {
+    displayName: string;
+    email: string;
+    phone: string;
+    countryCode: string;
+    bio: string;
+    primaryOccupation: string;
+    secondaryOccupation?: string;
+    yearsExperience: string;
+    hourlyRate: string;
+    rateCurrency: string;
+    availability: string;
+    skills: string[];
+    languages: string[];
+    workHistory: WorkHistoryEntry[];
+    visibility: ProfileVisibility;
+}
+
+// The JSON document ProfilePage uploads; file groups are directory CIDs
+export interface ProfileDocument {
+    profile: ProfileData;
+    certCid: string | null;
+    portCid: string | null;
+    picCid: string | null;
+    picName?: string | null; // File name inside the picCid directory
+    createdAt: string;
+}
+
+// One entry of a wallet's profile history, as signed by the wallet
+export interface ProfileVersion {
+    address: `0x${string}`;
+    version: number;
+    cid: string;
+    visibility: ProfileVisibility;
+    signature: `0x${string}`;
+    createdAt: number;
+}
+
+/**
+ * The message a wallet signs to publish `cid` as version `version` of its profile. Anyone
+ * holding a ProfileVersion can check it with verifyMessage, without trusting the server.
+ */
+export function profileVersionMessage(address: string, cid: string, version: number): string {
+    return `Publish EscrowX profile\n\nWallet: ${getAddress(address)}\nProfile CID: ${cid}\nVersion: ${version}`;
+}
@@ -0,0 +1,106 @@
+import { getAppDb } from './db';
+import type { Proposal, ProposalInput, ProposalStatus } from './proposals';
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS proposals (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        job_cid TEXT NOT NULL,
+        freelancer TEXT NOT NULL,
+        cid TEXT NOT NULL,
+        price TEXT NOT NULL,
+        currency TEXT NOT NULL,
+        timeline_days INTEGER NOT NULL,
+        cover_letter TEXT NOT NULL,
+        milestones TEXT NOT NULL,
+        status TEXT NOT NULL,
+        escrow_id INTEGER,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        UNIQUE (job_cid, freelancer)
+    );
+`;
+
+const db = () => getAppDb(SCHEMA);
+
+interface ProposalRow {
+    id: number;
+    job_cid: string;
+    freelancer: `0x${string}`;
+    cid: string;
+    price: string;
+    currency: Proposal['currency'];
+    timeline_days: number;
+    cover_letter: string;
+    milestones: string;
+    status: ProposalStatus;
+    escrow_id: number | null;
+    created_at: number;
+    updated_at: number;
+}
+
+function toProposal(row: ProposalRow): Proposal {
+    return {
+        id: row.id,
+        jobCid: row.job_cid,
+        freelancer: row.freelancer,
+        cid: row.cid,
+        price: row.price,
+        currency: row.currency,
+        timelineDays: row.timeline_days,
+        coverLetter: row.cover_letter,
+        milestones: JSON.parse(row.milestones),
+        status: row.status,
+        escrowId: row.escrow_id,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+/**
+ * Stores a new proposal. Returns null if the freelancer already proposed on this job.
+ */
+export function createProposal(jobCid: string, freelancer: string, cid: string, input: ProposalInput): Proposal | null {
+    const now = Date.now();
+    const result = db().prepare(`
+        INSERT OR IGNORE INTO proposals (job_cid, freelancer, cid, price, currency, timeline_days, cover_letter, milestones, status, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)
+    `).run(
+        jobCid,
+        freelancer.toLowerCase(),
+        cid,
+        input.price,
+        input.currency,
+        input.timelineDays,
+        input.coverLetter,
+        JSON.stringify(input.milestones),
+        now,
+        now,
+    );
+    return result.changes === 0 ? null : getProposal(Number(result.lastInsertRowid));
+}
+
+export function getProposal(id: number): Proposal | null {
+    const row = db().prepare('SELECT * FROM proposals WHERE id = ?').get(id) as ProposalRow | undefined;
+    return row ? toProposal(row) : null;
+}
+
+// The proposal an escrow was linked to on acceptance, if any
+export function getProposalByEscrow(escrowId: number): Proposal | null {
+    const row = db().prepare('SELECT * FROM proposals WHERE escrow_id = ?').get(escrowId) as ProposalRow | undefined;
+    return row ? toProposal(row) : null;
+}
+
+// Oldest first, so the inbox reads in the order proposals arrived
+export function listProposals(filter: { jobCid: string; freelancer?: string }): Proposal[] {
+    const rows = (filter.freelancer
+        ? db().prepare('SELECT * FROM proposals WHERE job_cid = ? AND freelancer = ? ORDER BY id').all(filter.jobCid, filter.freelancer.toLowerCase())
+        : db().prepare('SELECT * FROM proposals WHERE job_cid = ? ORDER BY id').all(filter.jobCid)) as ProposalRow[];
+    return rows.map(toProposal);
+}
+
+export function updateProposalStatus(id: number, status: ProposalStatus, escrowId: number | null = null): Proposal | null {
+    db()
+        .prepare('UPDATE proposals SET status = ?, escrow_id = ?, updated_at = ? WHERE id = ?')
+        .run(status, escrowId, Date.now(), id);
+    return getProposal(id);
+}
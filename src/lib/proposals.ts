@@ -0,0 +1,81 @@
+import type { MilestoneDraft } from './milestones';
+import { getToken, parseTokenAmount, type PaymentToken } from './tokens';
+
+// Proposal shapes and rules shared by the job pages and the /api proposal routes
+
+export type ProposalStatus = 'pending' | 'shortlisted' | 'rejected' | 'accepted';
+
+export const PROPOSAL_STATUS_LABELS: Record<ProposalStatus, string> = {
+    pending: 'New',
+    shortlisted: 'Shortlisted',
+    rejected: 'Rejected',
+    accepted: 'Accepted',
+};
+
+// Same fields as the milestone editor produces
+export type ProposalMilestone = MilestoneDraft;
+
+// What a freelancer submits; the same fields are uploaded to IPFS as the proposal document
+export interface ProposalInput {
+    price: string; // Whole token units
+    currency: PaymentToken['symbol'];
+    timelineDays: number;
+    coverLetter: string;
+    milestones: ProposalMilestone[];
+}
+
+export interface Proposal extends ProposalInput {
+    id: number;
+    jobCid: string;
+    freelancer: `0x${string}`;
+    cid: string; // IPFS CID of the proposal document
+    status: ProposalStatus;
+    escrowId: number | null; // Set once the poster accepts and funds the escrow
+    createdAt: number;
+    updatedAt: number;
+}
+
+export const MIN_COVER_LETTER = 50;
+export const MAX_COVER_LETTER = 5000;
+
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+function isAmount(value: string, token: PaymentToken): boolean {
+    return AMOUNT_PATTERN.test(value)
+        && (value.split('.')[1]?.length ?? 0) <= token.decimals
+        && parseTokenAmount(value, token) > BigInt(0);
+}
+
+// Request bodies are untrusted, so each milestone entry is checked to be an object first
+function isMilestoneEntry(value: unknown): value is Record<keyof ProposalMilestone, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns a human readable problem with the proposal, or null if it can be submitted.
+ * Milestones are optional, but when given they must add up to the price.
+ */
+export function validateProposal(input: ProposalInput): string | null {
+    const token = typeof input.currency === 'string' ? getToken(input.currency) : undefined;
+    if (!token || token.symbol !== input.currency) return 'Unsupported currency';
+    if (typeof input.price !== 'string' || !isAmount(input.price, token)) return 'Enter a valid price';
+    if (!Number.isInteger(input.timelineDays) || input.timelineDays < 1) return 'Timeline must be at least 1 day';
+    if (typeof input.coverLetter !== 'string' || input.coverLetter.trim().length < MIN_COVER_LETTER) {
+        return `Cover letter must be at least ${MIN_COVER_LETTER} characters`;
+    }
+    if (input.coverLetter.length > MAX_COVER_LETTER) return `Cover letter must be at most ${MAX_COVER_LETTER} characters`;
+    if (!Array.isArray(input.milestones)) return 'Invalid milestones';
+
+    let sum = BigInt(0);
+    for (const [i, m] of (input.milestones as unknown[]).entries()) {
+        if (!isMilestoneEntry(m)) return `Milestone ${i + 1} is invalid`;
+        if (typeof m.title !== 'string' || !m.title.trim()) return `Milestone ${i + 1} needs a description`;
+        if (typeof m.amount !== 'string' || !isAmount(m.amount, token)) return `Milestone ${i + 1} has an invalid amount`;
+        if (typeof m.deadline !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(m.deadline)) return `Milestone ${i + 1} needs a deadline`;
+        sum += parseTokenAmount(m.amount, token);
+    }
+    if (input.milestones.length > 0 && sum !== parseTokenAmount(input.price, token)) {
+        return 'Milestone amounts must add up to the price';
+    }
+    return null;
+}
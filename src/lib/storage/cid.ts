@@ -0,0 +1,44 @@
+import { createHash } from 'crypto';
+
+// Multicodec codes for the CID types the local store produces
+export const RAW_CODEC = 0x55;
+export const DAG_JSON_CODEC = 0x0129;
+
+const SHA2_256 = 0x12;
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+function varint(value: number): number[] {
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+        bytes.push((value & 0x7f) | 0x80);
+        value >>>= 7;
+    }
+    bytes.push(value);
+    return bytes;
+}
+
+function base32(bytes: Uint8Array): string {
+    let bits = 0;
+    let value = 0;
+    let out = '';
+    for (const byte of bytes) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return out;
+}
+
+/**
+ * CIDv1 (base32, sha2-256) of `bytes`. Matches what IPFS assigns to a single raw block, so
+ * small files stored locally keep the same CID when later pinned with raw leaves.
+ */
+export function computeCid(bytes: Uint8Array, codec: number = RAW_CODEC): string {
+    const digest = createHash('sha256').update(bytes).digest();
+    const cid = Uint8Array.from([0x01, ...varint(codec), SHA2_256, digest.length, ...digest]);
+    return 'b' + base32(cid);
+}
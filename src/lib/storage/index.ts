@@ -0,0 +1,45 @@
+import path from 'path';
+import { createKuboProvider } from './kubo';
+import { createLocalProvider } from './local';
+import { createPinataProvider } from './pinata';
+import type { StorageProvider } from './types';
+
+export type { RetrievedContent, StorageProvider, StoredFile } from './types';
+
+let provider: StorageProvider | null = null;
+
+/**
+ * The storage backend chosen by STORAGE_PROVIDER (`local`, `kubo` or `pinata`). Server-only:
+ * credentials come from non-public environment variables. Defaults to the local store so
+ * development works without network access.
+ */
+export function getStorageProvider(): StorageProvider {
+    if (provider) return provider;
+
+    switch (process.env.STORAGE_PROVIDER || 'local') {
+        case 'kubo':
+            provider = createKuboProvider(
+                process.env.KUBO_API_URL || 'http://127.0.0.1:5001',
+                process.env.KUBO_API_AUTH,
+            );
+            break;
+        case 'pinata': {
+            const jwt = process.env.PINATA_JWT;
+            if (!jwt) {
+                throw new Error('Missing Pinata credentials. Set PINATA_JWT.');
+            }
+            provider = createPinataProvider(
+                process.env.PINATA_API_URL || 'https://api.pinata.cloud',
+                jwt,
+                process.env.PINATA_GATEWAY_URL || 'https://gateway.pinata.cloud',
+            );
+            break;
+        }
+        case 'local':
+            provider = createLocalProvider(process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), '.data', 'ipfs'));
+            break;
+        default:
+            throw new Error(`Unknown STORAGE_PROVIDER "${process.env.STORAGE_PROVIDER}"`);
+    }
+    return provider;
+}
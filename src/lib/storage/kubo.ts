@@ -0,0 +1,49 @@
+import type { StorageProvider, StoredFile } from './types';
+
+/**
+ * Kubo (go-ipfs) node through its HTTP RPC API. Content is pinned on add; directories are
+ * created by wrapping multi-file uploads.
+ */
+export function createKuboProvider(apiUrl: string, authorization?: string): StorageProvider {
+    const rpc = async (endpoint: string, params: Record<string, string>, body?: FormData): Promise<Response> => {
+        const url = `${apiUrl.replace(/\/$/, '')}/api/v0/${endpoint}?${new URLSearchParams(params)}`;
+        const res = await fetch(url, {
+            method: 'POST',
+            headers: authorization ? { Authorization: authorization } : undefined,
+            body,
+        });
+        if (!res.ok) {
+            throw new Error(`Kubo ${endpoint} failed: ${await res.text()}`);
+        }
+        return res;
+    };
+
+    // `add` answers with one JSON object per line; with wrap-with-directory the last is the root
+    const add = async (files: StoredFile[], wrap: boolean): Promise<string> => {
+        const form = new FormData();
+        for (const file of files) {
+            form.append('file', new Blob([file.data as BlobPart], { type: file.type }), file.name);
+        }
+        const res = await rpc('add', { pin: 'true', 'cid-version': '1', 'wrap-with-directory': String(wrap) }, form);
+        const lines = (await res.text()).trim().split('\n');
+        return (JSON.parse(lines[lines.length - 1]) as { Hash: string }).Hash;
+    };
+
+    return {
+        name: 'kubo',
+
+        addJSON: (data) =>
+            add([{ name: 'data.json', type: 'application/json', data: new TextEncoder().encode(JSON.stringify(data)) }], false),
+
+        addFiles: (files) => add(files, true),
+
+        async get(cid, path) {
+            try {
+                const res = await rpc('cat', { arg: path ? `${cid}/${path}` : cid });
+                return { data: new Uint8Array(await res.arrayBuffer()), type: null };
+            } catch {
+                return null;
+            }
+        },
+    };
+}
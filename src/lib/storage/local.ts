@@ -0,0 +1,75 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { computeCid, DAG_JSON_CODEC } from './cid';
+import type { RetrievedContent, StorageProvider } from './types';
+
+interface DirectoryEntry {
+    name: string;
+    cid: string;
+    type: string;
+}
+
+/**
+ * Content-addressed store on the local filesystem for development and tests. Blobs live
+ * in `blocks/<cid>` (with their MIME type next to them); a multi-file upload is a
+ * dag-json manifest in `dirs/<cid>.json` listing its entries.
+ */
+export function createLocalProvider(root: string): StorageProvider {
+    const read = async (relative: string): Promise<Uint8Array | null> => {
+        try {
+            return await fs.readFile(path.join(root, relative));
+        } catch {
+            return null;
+        }
+    };
+
+    const putBlob = async (data: Uint8Array, type: string): Promise<string> => {
+        const cid = computeCid(data);
+        await fs.mkdir(path.join(root, 'blocks'), { recursive: true });
+        await fs.writeFile(path.join(root, 'blocks', cid), data);
+        if (type) await fs.writeFile(path.join(root, 'blocks', `${cid}.type`), type);
+        return cid;
+    };
+
+    const get = async (cid: string, subpath?: string): Promise<RetrievedContent | null> => {
+        if (!/^[a-z2-7]+$/.test(cid)) return null;
+
+        if (subpath) {
+            const manifest = await read(path.join('dirs', `${cid}.json`));
+            if (!manifest) return null;
+            const { entries } = JSON.parse(new TextDecoder().decode(manifest)) as { entries: DirectoryEntry[] };
+            const entry = entries.find((e) => e.name === subpath);
+            return entry ? get(entry.cid) : null;
+        }
+
+        const data = await read(path.join('blocks', cid));
+        if (data) {
+            const type = await read(path.join('blocks', `${cid}.type`));
+            return { data, type: type ? new TextDecoder().decode(type) : null };
+        }
+        // A directory without a path resolves to its manifest
+        const manifest = await read(path.join('dirs', `${cid}.json`));
+        return manifest ? { data: manifest, type: 'application/json' } : null;
+    };
+
+    return {
+        name: 'local',
+
+        addJSON: (data) => putBlob(new TextEncoder().encode(JSON.stringify(data)), 'application/json'),
+
+        async addFiles(files) {
+            const entries: DirectoryEntry[] = [];
+            for (const file of files) {
+                entries.push({ name: file.name, cid: await putBlob(file.data, file.type), type: file.type });
+            }
+
+            const manifest = new TextEncoder().encode(JSON.stringify({ entries }));
+            const cid = computeCid(manifest, DAG_JSON_CODEC);
+            await fs.mkdir(path.join(root, 'dirs'), { recursive: true });
+            await fs.writeFile(path.join(root, 'dirs', `${cid}.json`), manifest);
+            return cid;
+        },
+
+        get,
+    };
+}
@@ -0,0 +1,45 @@
+import type { StorageProvider } from './types';
+
+/**
+ * Pinata, or any pinning service exposing the same pinJSONToIPFS / pinFileToIPFS API.
+ * Reads go through the service's dedicated gateway.
+ */
+export function createPinataProvider(apiUrl: string, jwt: string, gatewayUrl: string): StorageProvider {
+    const pin = async (endpoint: string, body: BodyInit, json: boolean): Promise<string> => {
+        const res = await fetch(`${apiUrl.replace(/\/$/, '')}/pinning/${endpoint}`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${jwt}`,
+                ...(json ? { 'Content-Type': 'application/json' } : {}),
+            },
+            body,
+        });
+        if (!res.ok) {
+            throw new Error(`Pinata ${endpoint} failed: ${await res.text()}`);
+        }
+        return ((await res.json()) as { IpfsHash: string }).IpfsHash;
+    };
+
+    return {
+        name: 'pinata',
+
+        addJSON: (data) =>
+            pin('pinJSONToIPFS', JSON.stringify({ pinataContent: data, pinataOptions: { cidVersion: 1 } }), true),
+
+        addFiles(files) {
+            // Files sharing a top-level folder are pinned as one directory; the folder name is dropped
+            const form = new FormData();
+            for (const file of files) {
+                form.append('file', new Blob([file.data as BlobPart], { type: file.type }), `upload/${file.name}`);
+            }
+            form.append('pinataOptions', JSON.stringify({ cidVersion: 1, wrapWithDirectory: false }));
+            return pin('pinFileToIPFS', form, false);
+        },
+
+        async get(cid, path) {
+            const res = await fetch(`${gatewayUrl.replace(/\/$/, '')}/ipfs/${cid}${path ? `/${path}` : ''}`);
+            if (!res.ok) return null;
+            return { data: new Uint8Array(await res.arrayBuffer()), type: res.headers.get('content-type') };
+        },
+    };
+}
@@ -0,0 +1,23 @@
+export interface StoredFile {
+    name: string;
+    type: string;
+    data: Uint8Array;
+}
+
+export interface RetrievedContent {
+    data: Uint8Array;
+    type: string | null; // MIME type when the backend knows it
+}
+
+/**
+ * Server-side storage backend. Every implementation is content-addressed: the returned
+ * CID identifies the bytes, and a multi-file upload is a directory whose entries are
+ * addressed as `<cid>/<name>`.
+ */
+export interface StorageProvider {
+    readonly name: string;
+    addJSON(data: unknown): Promise<string>;
+    addFiles(files: StoredFile[]): Promise<string>;
+    // Returns null when the content is unknown to this backend
+    get(cid: string, path?: string): Promise<RetrievedContent | null>;
+}
@@ -0,0 +1,78 @@
+import { erc20Abi, formatUnits, parseUnits, zeroAddress } from 'viem';
+import { readContract, waitForTransactionReceipt, writeContract } from 'wagmi/actions';
+import { config } from './wagmi';
+import { escrowXContractConfig } from './contract';
+
+export interface PaymentToken {
+    symbol: 'MATIC' | 'USDC' | 'USDT';
+    address: `0x${string}`; // zeroAddress for the native currency
+    decimals: number;
+}
+
+// Polygon PoS addresses. ERC-20s must also be enabled on the contract via setSupportedToken.
+export const PAYMENT_TOKENS: PaymentToken[] = [
+    { symbol: 'MATIC', address: zeroAddress, decimals: 18 },
+    { symbol: 'USDC', address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', decimals: 6 },
+    { symbol: 'USDT', address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', decimals: 6 },
+];
+
+// Stands in for the symbol of a token missing from PAYMENT_TOKENS; its amounts are shown in base units
+export const UNKNOWN_TOKEN_LABEL = 'base units (unsupported token)';
+
+/**
+ * Looks a token up by symbol or address. Returns undefined for anything not in PAYMENT_TOKENS,
+ * such as a token enabled on the contract after this build: its decimals are unknown, so
+ * callers show the raw amount and do not offer to pay in it.
+ */
+export function getToken(symbolOrAddress: string): PaymentToken | undefined {
+    const key = symbolOrAddress.toLowerCase();
+    return PAYMENT_TOKENS.find((t) => t.symbol.toLowerCase() === key || t.address.toLowerCase() === key);
+}
+
+// For symbols already checked against PAYMENT_TOKENS, such as form selections and stored proposals
+export function tokenBySymbol(symbol: PaymentToken['symbol']): PaymentToken {
+    return PAYMENT_TOKENS.find((t) => t.symbol === symbol)!;
+}
+
+export function tokenSymbol(token: PaymentToken | undefined): string {
+    return token?.symbol ?? UNKNOWN_TOKEN_LABEL;
+}
+
+export function isNativeToken(token: PaymentToken): boolean {
+    return token.address === zeroAddress;
+}
+
+export function parseTokenAmount(value: string, token: PaymentToken): bigint {
+    return parseUnits(value, token.decimals);
+}
+
+// Unknown tokens keep the raw on-chain amount
+export function formatTokenAmount(value: bigint, token: PaymentToken | undefined): string {
+    return token ? formatUnits(value, token.decimals) : value.toString();
+}
+
+/**
+ * Makes sure the escrow contract may pull `amount` of `token` from `owner`, sending an
+ * approve transaction (and waiting for it) only when the current allowance is too low.
+ * Returns true if an approval was sent.
+ */
+export async function ensureAllowance(token: PaymentToken, owner: `0x${string}`, amount: bigint): Promise<boolean> {
+    if (isNativeToken(token)) return false;
+
+    const allowance = await readContract(config, {
+        address: token.address,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [owner, escrowXContractConfig.address],
+    });
+    if (allowance >= amount) return false;
+
+    const hash = await writeContract(config, {
+        address: token.address,
+        abi: erc20Abi,
+        functionName: 'approve',
+        args: [escrowXContractConfig.address, amount],
+    });
+    await waitForTransactionReceipt(config, { hash });
+    return true;
+}
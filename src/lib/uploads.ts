@@ -0,0 +1,114 @@
+// Upload rules shared by the forms and the /api/upload routes, so both enforce the same limits
+
+export type UploadKind = 'attachment' | 'certification' | 'portfolio' | 'profile-picture' | 'evidence' | 'message' | 'deliverable';
+
+interface UploadPolicy {
+    label: string;
+    maxFileSize: number; // bytes, per file
+    maxFiles: number;
+    mimeTypes: string[];
+    accept: string; // for <input type="file">
+}
+
+const MB = 1024 * 1024;
+
+const PDF = 'application/pdf';
+const DOC = 'application/msword';
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const TXT = 'text/plain';
+const PNG = 'image/png';
+const JPEG = 'image/jpeg';
+const GIF = 'image/gif';
+const WEBP = 'image/webp';
+const ENCRYPTED = 'application/octet-stream'; // Chat attachments encrypted in the browser
+const ZIP = 'application/zip';
+const ZIP_WINDOWS = 'application/x-zip-compressed';
+
+export const UPLOAD_POLICIES: Record<UploadKind, UploadPolicy> = {
+    attachment: {
+        label: 'Attachment',
+        maxFileSize: 10 * MB,
+        maxFiles: 10,
+        mimeTypes: [PDF, DOC, DOCX, TXT, PNG, JPEG],
+        accept: '.pdf,.doc,.docx,.txt,.png,.jpg,.jpeg',
+    },
+    certification: {
+        label: 'Certification',
+        maxFileSize: 5 * MB,
+        maxFiles: 10,
+        mimeTypes: [PDF, PNG, JPEG],
+        accept: '.pdf,.png,.jpg,.jpeg',
+    },
+    portfolio: {
+        label: 'Portfolio file',
+        maxFileSize: 5 * MB,
+        maxFiles: 10,
+        mimeTypes: [PDF, PNG, JPEG, GIF, WEBP],
+        accept: '.pdf,.png,.jpg,.jpeg,.gif,.webp',
+    },
+    'profile-picture': {
+        label: 'Profile picture',
+        maxFileSize: 5 * MB,
+        maxFiles: 1,
+        mimeTypes: [PNG, JPEG, WEBP],
+        accept: '.png,.jpg,.jpeg,.webp',
+    },
+    evidence: {
+        label: 'Evidence file',
+        maxFileSize: 10 * MB,
+        maxFiles: 10,
+        mimeTypes: [PDF, TXT, PNG, JPEG, GIF, WEBP],
+        accept: '.pdf,.txt,.png,.jpg,.jpeg,.gif,.webp',
+    },
+    // One file per upload so every chat attachment gets its own CID
+    message: {
+        label: 'Attachment',
+        maxFileSize: 10 * MB,
+        maxFiles: 1,
+        mimeTypes: [PDF, TXT, PNG, JPEG, GIF, WEBP, ENCRYPTED],
+        accept: '.pdf,.txt,.png,.jpg,.jpeg,.gif,.webp',
+    },
+    deliverable: {
+        label: 'Deliverable',
+        maxFileSize: 10 * MB,
+        maxFiles: 10,
+        mimeTypes: [PDF, DOC, DOCX, TXT, PNG, JPEG, GIF, WEBP, ZIP, ZIP_WINDOWS],
+        accept: '.pdf,.doc,.docx,.txt,.png,.jpg,.jpeg,.gif,.webp,.zip',
+    },
+};
+
+export const MAX_JSON_UPLOAD_SIZE = 1 * MB;
+
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < MB) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / MB).toFixed(1)} MB`;
+}
+
+export function isUploadKind(value: unknown): value is UploadKind {
+    return typeof value === 'string' && value in UPLOAD_POLICIES;
+}
+
+/**
+ * Returns an error message for the first rule `files` break, or null if they are acceptable.
+ */
+export function checkUpload(kind: UploadKind, files: { name: string; size: number; type: string }[]): string | null {
+    const policy = UPLOAD_POLICIES[kind];
+    if (files.length === 0) return 'Select at least one file';
+    if (files.length > policy.maxFiles) return `At most ${policy.maxFiles} files allowed`;
+
+    for (const file of files) {
+        if (file.size > policy.maxFileSize) {
+            return `${policy.label} exceeds ${policy.maxFileSize / MB}MB limit`;
+        }
+        if (!policy.mimeTypes.includes(file.type)) {
+            return `${policy.label} type not allowed: ${file.name}`;
+        }
+    }
+    return null;
+}
+
+// Message a wallet signs to authorize uploads with a server-issued nonce
+export function uploadAuthMessage(address: string, nonce: string): string {
+    return `Authorize file uploads to EscrowX\n\nWallet: ${address}\nNonce: ${nonce}`;
+}
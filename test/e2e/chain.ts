@@ -0,0 +1,107 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import {
+    createTestClient,
+    createWalletClient,
+    decodeEventLog,
+    http,
+    publicActions,
+    type Abi,
+    type Account,
+    type Hash,
+    type TransactionReceipt,
+} from 'viem';
+import { mnemonicToAccount } from 'viem/accounts';
+import { foundry } from 'viem/chains';
+import { escrowXContractConfig } from '@/lib/contract';
+
+export const ANVIL_PORT = Number(process.env.ANVIL_PORT ?? 8546);
+export const ANVIL_RPC_URL = `http://127.0.0.1:${ANVIL_PORT}`;
+
+// anvil funds the first accounts of its default mnemonic with 10000 ETH each
+const MNEMONIC = 'test test test test test test test test test test test junk';
+
+export const accounts = {
+    owner: mnemonicToAccount(MNEMONIC, { addressIndex: 0 }), // Deployer: owner, arbiter and treasury
+    seller: mnemonicToAccount(MNEMONIC, { addressIndex: 1 }),
+    buyer: mnemonicToAccount(MNEMONIC, { addressIndex: 2 }),
+    stranger: mnemonicToAccount(MNEMONIC, { addressIndex: 3 }),
+};
+
+export const client = createTestClient({ chain: foundry, mode: 'anvil', transport: http(ANVIL_RPC_URL) })
+    .extend(publicActions);
+
+export type EscrowXConfig = { address: `0x${string}`; abi: Abi };
+
+/**
+ * Deploys a fresh EscrowXContract from the forge build output and returns the app's
+ * contract config pointed at it, so tests call the contract through the same ABI the
+ * frontend uses.
+ */
+export async function deployEscrowX(): Promise<EscrowXConfig> {
+    const artifact = JSON.parse(
+        readFileSync(path.resolve(__dirname, '../../smart-contracts/out/EscrowXContract.sol/EscrowXContract.json'), 'utf8'),
+    ) as { bytecode: { object: `0x${string}` } };
+
+    const hash = await walletFor(accounts.owner).deployContract({
+        abi: escrowXContractConfig.abi as Abi,
+        bytecode: artifact.bytecode.object,
+    });
+    const receipt = await client.waitForTransactionReceipt({ hash });
+    if (!receipt.contractAddress) throw new Error('EscrowXContract deployment failed');
+    return { ...escrowXContractConfig, abi: escrowXContractConfig.abi as Abi, address: receipt.contractAddress };
+}
+
+export function walletFor(account: Account) {
+    return createWalletClient({ account, chain: foundry, transport: http(ANVIL_RPC_URL) });
+}
+
+/**
+ * Sends a contract call from the given account and waits for it to be mined, throwing the
+ * revert reason if the call would fail.
+ */
+export async function write(
+    contract: EscrowXConfig,
+    account: Account,
+    functionName: string,
+    args: unknown[] = [],
+    value?: bigint,
+): Promise<TransactionReceipt> {
+    const { request } = await client.simulateContract({ ...contract, account, functionName, args, value });
+    const hash: Hash = await walletFor(account).writeContract(request);
+    const receipt = await client.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') throw new Error(`${functionName} reverted`);
+    return receipt;
+}
+
+export function read<T>(contract: EscrowXConfig, functionName: string, args: unknown[] = []): Promise<T> {
+    return client.readContract({ ...contract, functionName, args }) as Promise<T>;
+}
+
+/**
+ * Decodes the contract events in a receipt, as the frontend does to find the ID of a newly
+ * created escrow.
+ */
+export function eventsOf(contract: EscrowXConfig, receipt: TransactionReceipt) {
+    return receipt.logs
+        .filter((log) => log.address.toLowerCase() === contract.address.toLowerCase())
+        .map((log) => decodeEventLog({ abi: escrowXContractConfig.abi, data: log.data, topics: log.topics }));
+}
+
+/** ID of the escrow opened by a createEscrow, createMilestoneEscrow or createCustomEscrow receipt. */
+export function createdEscrowId(contract: EscrowXConfig, receipt: TransactionReceipt): bigint {
+    const created = eventsOf(contract, receipt).find((event) => event.eventName === 'EscrowCreated')
+        ?.args as { id: bigint } | undefined;
+    if (!created) throw new Error('No EscrowCreated event in receipt');
+    return created.id;
+}
+
+/** Gas paid for a transaction, to compare native balances around it. */
+export function gasCost(receipt: TransactionReceipt): bigint {
+    return receipt.gasUsed * receipt.effectiveGasPrice;
+}
+
+export async function increaseTime(seconds: number): Promise<void> {
+    await client.increaseTime({ seconds });
+    await client.mine({ blocks: 1 });
+}
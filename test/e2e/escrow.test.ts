@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { parseEther, zeroAddress } from 'viem';
+import {
+    EscrowState,
+    REVIEW_WINDOW_SECONDS,
+    REVISION_EXTENSION_SECONDS,
+    splitPlatformFee,
+    type DisputeEvidence,
+    type OnChainEscrow,
+    type OnChainService,
+} from '@/lib/contract';
+import { accounts, client, createdEscrowId, deployEscrowX, eventsOf, gasCost, increaseTime, read, write, type EscrowXConfig } from './chain';
+
+const PRICE = parseEther('1');
+const DELIVERY_SECONDS = 7 * 24 * 60 * 60;
+const DESCRIPTION_CID = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+const DELIVERABLE_CID = 'QmDeliverableBundle';
+const MAX_REVISIONS = 1;
+
+describe('single-payment escrow', () => {
+    let escrowX: EscrowXConfig;
+    let escrowId: bigint;
+
+    // Seller lists a service and the buyer purchases it
+    beforeEach(async () => {
+        escrowX = await deployEscrowX();
+        await write(escrowX, accounts.seller, 'createService', ['Logo design', DESCRIPTION_CID, PRICE, BigInt(DELIVERY_SECONDS), zeroAddress, BigInt(MAX_REVISIONS)]);
+        const serviceId = await read<bigint>(escrowX, 'serviceCounter');
+
+        const receipt = await write(escrowX, accounts.buyer, 'createEscrow', [serviceId], PRICE);
+        escrowId = createdEscrowId(escrowX, receipt);
+    });
+
+    const getEscrow = () => read<OnChainEscrow>(escrowX, 'getEscrow', [escrowId]);
+    const balanceOf = (account: `0x${string}`) => read<bigint>(escrowX, 'balances', [account, zeroAddress]);
+
+    it('records the purchase against the service', async () => {
+        const service = await read<OnChainService>(escrowX, 'getService', [BigInt(1)]);
+        const escrow = await getEscrow();
+
+        expect(escrow.state).toBe(EscrowState.AWAITING_DELIVERY);
+        expect(escrow.buyer).toBe(accounts.buyer.address);
+        expect(escrow.seller).toBe(service.seller);
+        expect(escrow.amount).toBe(service.price);
+        expect(escrow.deliveryDeadline - escrow.createdAt).toBe(service.deliveryTime);
+        expect(escrow.maxRevisions).toBe(service.maxRevisions);
+        expect(await client.getBalance({ address: escrowX.address })).toBe(PRICE);
+        expect(await read<bigint[]>(escrowX, 'getUserEscrows', [accounts.seller.address])).toEqual([escrowId]);
+    });
+
+    it('releases funds when the buyer confirms delivery, then lets the seller withdraw', async () => {
+        const delivered = await write(escrowX, accounts.seller, 'markDelivered', [escrowId, DELIVERABLE_CID]);
+        const [event] = eventsOf(escrowX, delivered);
+        expect(event.eventName).toBe('DeliveryConfirmed');
+        expect(event.args).toMatchObject({ deliverableCid: DELIVERABLE_CID });
+        expect((await getEscrow()).sellerDelivered).toBe(true);
+        expect(await read<string>(escrowX, 'deliverables', [escrowId])).toBe(DELIVERABLE_CID);
+
+        const confirmed = await write(escrowX, accounts.buyer, 'confirmDelivery', [escrowId]);
+        expect(eventsOf(escrowX, confirmed).map((e) => e.eventName)).toEqual(['FundsReleased']);
+        expect((await getEscrow()).state).toBe(EscrowState.COMPLETED);
+        expect(await balanceOf(accounts.seller.address)).toBe(PRICE);
+
+        const before = await client.getBalance({ address: accounts.seller.address });
+        const withdrawn = await write(escrowX, accounts.seller, 'withdraw', [zeroAddress]);
+        expect(await client.getBalance({ address: accounts.seller.address })).toBe(before + PRICE - gasCost(withdrawn));
+        expect(await balanceOf(accounts.seller.address)).toBe(BigInt(0));
+    });
+
+    it('lets the seller claim payment once the review window lapses', async () => {
+        await write(escrowX, accounts.seller, 'markDelivered', [escrowId, DELIVERABLE_CID]);
+        await expect(write(escrowX, accounts.seller, 'claimPayment', [escrowId])).rejects.toThrow('Review window still open');
+
+        await increaseTime(REVIEW_WINDOW_SECONDS + 1);
+        await write(escrowX, accounts.seller, 'claimPayment', [escrowId]);
+
+        const escrow = await getEscrow();
+        expect(escrow.state).toBe(EscrowState.COMPLETED);
+        expect(escrow.buyerConfirmed).toBe(false);
+    });
+
+    it('sends delivered work back for revisions until none are left', async () => {
+        const { deliveryDeadline } = await getEscrow();
+        await write(escrowX, accounts.seller, 'markDelivered', [escrowId, DELIVERABLE_CID]);
+        const requested = await write(escrowX, accounts.buyer, 'requestRevision', [escrowId, 'QmRevisionNote']);
+        expect(eventsOf(escrowX, requested)[0].args).toMatchObject({ noteCid: 'QmRevisionNote' });
+
+        const escrow = await getEscrow();
+        expect(escrow.sellerDelivered).toBe(false);
+        expect(escrow.revisionsUsed).toBe(BigInt(1));
+        expect(escrow.deliveryDeadline).toBe(deliveryDeadline + BigInt(REVISION_EXTENSION_SECONDS));
+
+        await write(escrowX, accounts.seller, 'markDelivered', [escrowId, 'QmRevisedBundle']);
+        await expect(write(escrowX, accounts.buyer, 'requestRevision', [escrowId, 'QmRevisionNote'])).rejects.toThrow('No revisions left');
+        await write(escrowX, accounts.buyer, 'confirmDelivery', [escrowId]);
+        expect((await getEscrow()).state).toBe(EscrowState.COMPLETED);
+    });
+
+    it('refunds the buyer after a missed delivery deadline', async () => {
+        await expect(write(escrowX, accounts.buyer, 'claimRefund', [escrowId])).rejects.toThrow('Delivery deadline not reached');
+
+        await increaseTime(DELIVERY_SECONDS + 1);
+        await expect(write(escrowX, accounts.seller, 'markDelivered', [escrowId, DELIVERABLE_CID])).rejects.toThrow('Delivery deadline passed');
+
+        const refunded = await write(escrowX, accounts.buyer, 'claimRefund', [escrowId]);
+        expect(eventsOf(escrowX, refunded).map((e) => e.eventName)).toEqual(['Refunded']);
+        expect((await getEscrow()).state).toBe(EscrowState.REFUNDED);
+        expect(await balanceOf(accounts.buyer.address)).toBe(PRICE);
+    });
+
+    it('lets the seller refund voluntarily', async () => {
+        await write(escrowX, accounts.seller, 'refundBuyer', [escrowId]);
+        expect((await getEscrow()).state).toBe(EscrowState.REFUNDED);
+        await expect(write(escrowX, accounts.buyer, 'confirmDelivery', [escrowId])).rejects.toThrow('Invalid state.');
+    });
+
+    it('settles a dispute through evidence and an arbiter split', async () => {
+        await expect(write(escrowX, accounts.stranger, 'raiseDispute', [escrowId])).rejects.toThrow('Only participants can dispute.');
+        await write(escrowX, accounts.buyer, 'raiseDispute', [escrowId]);
+        expect((await getEscrow()).state).toBe(EscrowState.DISPUTED);
+
+        await write(escrowX, accounts.buyer, 'submitEvidence', [escrowId, 'QmBuyerEvidence']);
+        await write(escrowX, accounts.seller, 'submitEvidence', [escrowId, 'QmSellerEvidence']);
+        const evidence = await read<DisputeEvidence[]>(escrowX, 'getEvidence', [escrowId]);
+        expect(evidence.map((e) => e.cid)).toEqual(['QmBuyerEvidence', 'QmSellerEvidence']);
+
+        await expect(write(escrowX, accounts.buyer, 'resolveDispute', [escrowId, BigInt(10000)])).rejects.toThrow('Only arbiter can call this.');
+        const resolved = await write(escrowX, accounts.owner, 'resolveDispute', [escrowId, BigInt(4000)]);
+        expect(eventsOf(escrowX, resolved).find((e) => e.eventName === 'DisputeResolved')?.args).toMatchObject({
+            buyerAmount: parseEther('0.4'),
+            sellerAmount: parseEther('0.6'),
+        });
+        expect((await getEscrow()).state).toBe(EscrowState.COMPLETED);
+        expect(await balanceOf(accounts.buyer.address)).toBe(parseEther('0.4'));
+        expect(await balanceOf(accounts.seller.address)).toBe(parseEther('0.6'));
+    });
+
+    it('lets both participants review a finished escrow once', async () => {
+        await write(escrowX, accounts.buyer, 'confirmDelivery', [escrowId]);
+        await write(escrowX, accounts.buyer, 'submitReview', [escrowId, 5, 'QmComment']);
+        await write(escrowX, accounts.seller, 'submitReview', [escrowId, 4, '']);
+
+        expect(await read<{ total: bigint; count: bigint }>(escrowX, 'getRating', [accounts.seller.address])).toEqual({
+            total: BigInt(5),
+            count: BigInt(1),
+        });
+        await expect(write(escrowX, accounts.buyer, 'submitReview', [escrowId, 5, ''])).rejects.toThrow('Already reviewed.');
+    });
+});
+
+describe('platform fee', () => {
+    it('withholds the fee snapshotted at purchase, matching the amount the UI shows', async () => {
+        const escrowX = await deployEscrowX();
+        await write(escrowX, accounts.owner, 'setPlatformFee', [BigInt(250)]);
+        await write(escrowX, accounts.seller, 'createService', ['Logo design', DESCRIPTION_CID, PRICE, BigInt(DELIVERY_SECONDS), zeroAddress, BigInt(MAX_REVISIONS)]);
+        await write(escrowX, accounts.buyer, 'createEscrow', [BigInt(1)], PRICE);
+        await write(escrowX, accounts.owner, 'setPlatformFee', [BigInt(1000)]);
+
+        const escrow = await read<OnChainEscrow>(escrowX, 'getEscrow', [BigInt(1)]);
+        const { fee, net } = splitPlatformFee(escrow.amount, escrow.feeBps);
+        await write(escrowX, accounts.buyer, 'confirmDelivery', [BigInt(1)]);
+
+        expect(escrow.feeBps).toBe(BigInt(250));
+        expect(await read<bigint>(escrowX, 'balances', [accounts.seller.address, zeroAddress])).toBe(net);
+        expect(await read<bigint>(escrowX, 'accruedFees', [zeroAddress])).toBe(fee);
+
+        await expect(write(escrowX, accounts.seller, 'withdrawFees', [zeroAddress])).rejects.toThrow('Only treasury can call this.');
+        await write(escrowX, accounts.owner, 'withdrawFees', [zeroAddress]);
+        expect(await read<bigint>(escrowX, 'accruedFees', [zeroAddress])).toBe(BigInt(0));
+    });
+});
@@ -0,0 +1,41 @@
+import { spawn } from 'node:child_process';
+import { createPublicClient, http } from 'viem';
+import { foundry } from 'viem/chains';
+import { ANVIL_PORT, ANVIL_RPC_URL } from './chain';
+
+/**
+ * Starts a local anvil node for the suite and stops it afterwards. ANVIL_BIN overrides the
+ * binary, which otherwise comes from the Foundry installation on the PATH.
+ */
+export default async function setup() {
+    const anvil = spawn(process.env.ANVIL_BIN ?? 'anvil', ['--port', String(ANVIL_PORT), '--silent'], { stdio: 'inherit' });
+    const exited = new Promise<never>((_, reject) => {
+        anvil.once('error', reject);
+        anvil.once('exit', (code) => reject(new Error(`anvil exited with code ${code}`)));
+    });
+
+    const client = createPublicClient({ chain: foundry, transport: http(ANVIL_RPC_URL, { retryCount: 0 }) });
+    const ready = (async () => {
+        for (let attempt = 0; attempt < 50; attempt++) {
+            try {
+                await client.getChainId();
+                return;
+            } catch {
+                await new Promise((resolve) => setTimeout(resolve, 200));
+            }
+        }
+        throw new Error(`anvil did not start on ${ANVIL_RPC_URL}`);
+    })();
+
+    try {
+        await Promise.race([ready, exited]);
+    } catch (e) {
+        anvil.kill();
+        throw e;
+    }
+    exited.catch(() => {});
+
+    return () => {
+        anvil.kill();
+    };
+}
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { parseEther, zeroAddress } from 'viem';
+import { EscrowState, type OnChainEscrow, type OnChainMilestone, type OnChainSettlement } from '@/lib/contract';
+import { accounts, client, createdEscrowId, deployEscrowX, increaseTime, read, write, type EscrowXConfig } from './chain';
+
+const PRICE = parseEther('2');
+const DAY = 24 * 60 * 60;
+const DELIVERABLE_CID = 'QmDeliverableBundle';
+
+describe('custom offers', () => {
+    let escrowX: EscrowXConfig;
+    let escrowId: bigint;
+
+    // Client accepts a proposal: the offer is funded up front and waits for the freelancer
+    beforeEach(async () => {
+        escrowX = await deployEscrowX();
+        const receipt = await write(
+            escrowX,
+            accounts.buyer,
+            'createCustomEscrow',
+            [accounts.seller.address, PRICE, BigInt(5 * DAY), 'QmTerms', zeroAddress],
+            PRICE,
+        );
+        escrowId = createdEscrowId(escrowX, receipt);
+    });
+
+    const getEscrow = () => read<OnChainEscrow>(escrowX, 'getEscrow', [escrowId]);
+
+    it('starts the delivery deadline when the freelancer accepts', async () => {
+        expect((await getEscrow()).state).toBe(EscrowState.OFFERED);
+        expect(await read<string>(escrowX, 'escrowTerms', [escrowId])).toBe('QmTerms');
+        await expect(write(escrowX, accounts.seller, 'markDelivered', [escrowId, DELIVERABLE_CID])).rejects.toThrow('Invalid state.');
+
+        await increaseTime(2 * DAY);
+        await write(escrowX, accounts.seller, 'acceptOffer', [escrowId]);
+        const { timestamp } = await client.getBlock();
+        const escrow = await getEscrow();
+        expect(escrow.state).toBe(EscrowState.AWAITING_DELIVERY);
+        expect(escrow.deliveryDeadline).toBe(timestamp + BigInt(5 * DAY));
+
+        await write(escrowX, accounts.seller, 'markDelivered', [escrowId, DELIVERABLE_CID]);
+        await write(escrowX, accounts.buyer, 'confirmDelivery', [escrowId]);
+        expect((await getEscrow()).state).toBe(EscrowState.COMPLETED);
+    });
+
+    it('refunds the client when the freelancer declines', async () => {
+        await expect(write(escrowX, accounts.buyer, 'declineOffer', [escrowId])).rejects.toThrow('Only seller can call this.');
+        await write(escrowX, accounts.seller, 'declineOffer', [escrowId]);
+
+        expect((await getEscrow()).state).toBe(EscrowState.REFUNDED);
+        expect(await read<bigint>(escrowX, 'balances', [accounts.buyer.address, zeroAddress])).toBe(PRICE);
+    });
+
+    it('ends early through an accepted settlement proposal', async () => {
+        await write(escrowX, accounts.seller, 'acceptOffer', [escrowId]);
+        await write(escrowX, accounts.seller, 'proposeSettlement', [escrowId, BigInt(7500)]);
+        const [proposedBy, buyerBps] = await read<OnChainSettlement>(escrowX, 'settlements', [escrowId]);
+        expect(proposedBy).toBe(accounts.seller.address);
+
+        await expect(write(escrowX, accounts.buyer, 'acceptSettlement', [escrowId, BigInt(5000)])).rejects.toThrow('Proposal changed.');
+        await write(escrowX, accounts.buyer, 'acceptSettlement', [escrowId, buyerBps]);
+
+        expect((await getEscrow()).state).toBe(EscrowState.COMPLETED);
+        expect(await read<bigint>(escrowX, 'balances', [accounts.buyer.address, zeroAddress])).toBe(parseEther('1.5'));
+        expect(await read<bigint>(escrowX, 'balances', [accounts.seller.address, zeroAddress])).toBe(parseEther('0.5'));
+    });
+});
+
+describe('milestone escrow', () => {
+    it('funds, delivers and releases each phase', async () => {
+        const escrowX = await deployEscrowX();
+        await write(escrowX, accounts.seller, 'createService', ['Website', 'QmScope', PRICE, BigInt(30 * DAY), zeroAddress, BigInt(0)]);
+        const { timestamp } = await client.getBlock();
+        const amounts = [parseEther('0.5'), parseEther('1.5')];
+        await write(
+            escrowX,
+            accounts.buyer,
+            'createMilestoneEscrow',
+            [BigInt(1), amounts, ['QmDesign', 'QmBuild'], [timestamp + BigInt(7 * DAY), timestamp + BigInt(21 * DAY)]],
+            amounts[0],
+        );
+        const getMilestones = () => read<OnChainMilestone[]>(escrowX, 'getMilestones', [BigInt(1)]);
+        expect((await getMilestones()).map((m) => m.state)).toEqual([EscrowState.AWAITING_DELIVERY, EscrowState.AWAITING_PAYMENT]);
+
+        await write(escrowX, accounts.seller, 'markMilestoneDelivered', [BigInt(1), BigInt(0)]);
+        await write(escrowX, accounts.buyer, 'confirmMilestone', [BigInt(1), BigInt(0)]);
+        await write(escrowX, accounts.buyer, 'fundMilestone', [BigInt(1), BigInt(1)], amounts[1]);
+        await write(escrowX, accounts.seller, 'disputeMilestone', [BigInt(1), BigInt(1)]);
+        expect((await read<OnChainEscrow>(escrowX, 'getEscrow', [BigInt(1)])).state).toBe(EscrowState.DISPUTED);
+
+        await write(escrowX, accounts.owner, 'resolveMilestoneDispute', [BigInt(1), BigInt(1), BigInt(0)]);
+        expect((await getMilestones()).map((m) => m.state)).toEqual([EscrowState.COMPLETED, EscrowState.COMPLETED]);
+        expect((await read<OnChainEscrow>(escrowX, 'getEscrow', [BigInt(1)])).state).toBe(EscrowState.COMPLETED);
+        expect(await read<bigint>(escrowX, 'balances', [accounts.seller.address, zeroAddress])).toBe(PRICE);
+    });
+});
@@ -0,0 +1,16 @@
+import path from 'node:path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    resolve: {
+        alias: { '@': path.resolve(__dirname, 'src') },
+    },
+    test: {
+        include: ['test/e2e/**/*.test.ts'],
+        globalSetup: ['test/e2e/globalSetup.ts'],
+        environment: 'node',
+        testTimeout: 30_000,
+        // Every file talks to the same anvil node, so run them one at a time
+        fileParallelism: false,
+    },
+});